@@ -0,0 +1,70 @@
+// Scheduled Netlify Function that deletes accounts once their deletion grace period is over
+// Requests come from the My Data page through the my-data function; cancelled requests are skipped
+import { schedule } from '@netlify/functions';
+import * as admin from 'firebase-admin';
+import { eraseUserData } from '../lib/userData';
+import { getChurchPlaceholders, sendTemplatedEmail } from '../lib/templatedEmail';
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = admin.firestore();
+
+const DELETION_REQUESTS_COLLECTION = 'deletion_requests';
+
+export const handler = schedule('0 * * * *', async () => {
+  // Filtering on status in code avoids needing a composite index
+  const dueSnapshot = await db
+    .collection(DELETION_REQUESTS_COLLECTION)
+    .where('scheduledFor', '<=', admin.firestore.Timestamp.now())
+    .get();
+  const due = dueSnapshot.docs.filter((requestDoc) => requestDoc.data().status === 'scheduled');
+  if (due.length === 0) return { statusCode: 200 };
+
+  const churchInfoSnapshot = await db.collection('church_info').limit(1).get();
+  const churchInfo = churchInfoSnapshot.docs[0]?.data();
+  let failed = 0;
+
+  for (const requestDoc of due) {
+    const { userId, email, emailVerified } = requestDoc.data();
+    try {
+      const profileDoc = await db.collection('users').doc(userId).get();
+      const name = profileDoc.data()?.displayName || email;
+      // The address may have been verified during the grace period; an admin may also have removed the account already
+      const isVerified = await admin
+        .auth()
+        .getUser(userId)
+        .then((user) => user.emailVerified && user.email === email, () => !!emailVerified);
+      const result = await eraseUserData(db, userId, isVerified ? email : '');
+
+      // Only the fact that the account was deleted is kept
+      await requestDoc.ref.update({
+        status: 'completed',
+        completedAt: admin.firestore.FieldValue.serverTimestamp(),
+        email: admin.firestore.FieldValue.delete(),
+        result,
+      });
+
+      if (email) {
+        await sendTemplatedEmail(db, 'account_deleted', [email], { ...getChurchPlaceholders(churchInfo), name, email }).catch(
+          (error) => console.error('Error sending account deleted email:', error)
+        );
+      }
+    } catch (error) {
+      // Left scheduled so the next run tries again
+      console.error(`Error deleting account ${userId}:`, error);
+      failed++;
+      await requestDoc.ref.update({ lastError: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  return { statusCode: failed > 0 ? 500 : 200 };
+});
@@ -0,0 +1,368 @@
+// Netlify Function for admin invitations: emails a signed, single-use link that gives the
+// invited role to whoever signs in with the invited address, plus resend, revoke and lookup
+import { Handler } from '@netlify/functions';
+import * as admin from 'firebase-admin';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { getRoleLabel, hasCapability, isAdminRole, AdminRole, UserRole } from '../../src/lib/permissions';
+import { getInvitationExpiry, getInvitationState, InvitationStatus, InvitationSummary } from '../../src/lib/invitations';
+import { losesAccess, writeRole } from '../lib/roles';
+import { getChurchPlaceholders, sendTemplatedEmail } from '../lib/templatedEmail';
+import { InvalidBodyError, parseBody } from '../lib/requestBody';
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = admin.firestore();
+const auth = admin.auth();
+
+const INVITATIONS_COLLECTION = 'admin_invitations';
+
+interface StoredInvitation {
+  email: string;
+  role: AdminRole;
+  status: InvitationStatus;
+  tokenHash?: string;
+  invitedBy: string;
+  invitedByName: string;
+  expiresAt: admin.firestore.Timestamp;
+}
+
+class HttpError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+const emailSchema = z.string().trim().toLowerCase().email('Please enter a valid email address');
+
+const getInviteSecret = () => {
+  const secret = process.env.INVITE_TOKEN_SECRET;
+  if (!secret) {
+    console.error('INVITE_TOKEN_SECRET is not set');
+    throw new HttpError(500, 'Invitations are not set up on this site yet');
+  }
+  return secret;
+};
+
+const signToken = (invitationId: string, nonce: string) =>
+  createHmac('sha256', getInviteSecret()).update(`${invitationId}.${nonce}`).digest('hex');
+
+const sha256Hex = (value: string) => createHash('sha256').update(value).digest('hex');
+
+// Only a hash of the nonce is stored, and issuing a new token replaces it, so older links stop working
+const issueToken = (invitationId: string) => {
+  const nonce = randomBytes(24).toString('hex');
+  return { token: `${invitationId}.${nonce}.${signToken(invitationId, nonce)}`, tokenHash: sha256Hex(nonce) };
+};
+
+const readToken = async (token: unknown) => {
+  const [invitationId, nonce, signature] = String(token || '').split('.');
+  if (!invitationId || !nonce || !signature) {
+    throw new HttpError(400, 'This invitation link is not valid');
+  }
+
+  const expected = Buffer.from(signToken(invitationId, nonce));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new HttpError(400, 'This invitation link is not valid');
+  }
+
+  const ref = db.collection(INVITATIONS_COLLECTION).doc(invitationId);
+  const snapshot = await ref.get();
+  const invitation = snapshot.data() as StoredInvitation | undefined;
+  if (!invitation) {
+    throw new HttpError(400, 'This invitation link is not valid');
+  }
+  // Accepted and revoked invitations have no hash left; resent ones have a new one
+  if (invitation.status === 'pending' && invitation.tokenHash !== sha256Hex(nonce)) {
+    throw new HttpError(400, 'This invitation link has been replaced by a newer one. Please use the latest email.');
+  }
+  return { ref, invitation };
+};
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-ZA', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'Africa/Johannesburg' });
+
+// Returns whether the email went out; it does not when the template is turned off in Settings
+const sendInvitation = async (invitation: StoredInvitation, token: string, expiresAt: Date): Promise<boolean> => {
+  const churchInfoSnapshot = await db.collection('church_info').limit(1).get();
+  const churchInfo = churchInfoSnapshot.docs[0]?.data();
+  const sent = await sendTemplatedEmail(
+    db,
+    'admin_invitation',
+    [invitation.email],
+    {
+      ...getChurchPlaceholders(churchInfo),
+      email: invitation.email,
+      role: getRoleLabel(invitation.role),
+      invitedBy: invitation.invitedByName,
+      inviteUrl: `${process.env.URL || 'http://localhost:8888'}/accept-invite?token=${encodeURIComponent(token)}`,
+      expiryDate: formatDate(expiresAt),
+    },
+    churchInfo?.email
+  );
+  return sent > 0;
+};
+
+const assertCanInvite = (callerRole: UserRole | undefined, role: UserRole) => {
+  if (!hasCapability(callerRole, 'admins.manage')) {
+    throw new HttpError(403, 'Your role does not include managing admins');
+  }
+  if (!isAdminRole(role)) {
+    throw new HttpError(400, 'Unknown role');
+  }
+  if (role === 'super_admin' && callerRole !== 'super_admin') {
+    throw new HttpError(403, 'Only super admins can invite super admins');
+  }
+};
+
+const createInvitation = async (decodedToken: admin.auth.DecodedIdToken, body: Record<string, unknown>) => {
+  const role = body.role as AdminRole;
+  assertCanInvite(decodedToken.role, role);
+
+  const parsed = emailSchema.safeParse(body.email);
+  if (!parsed.success) {
+    throw new HttpError(400, parsed.error.errors[0].message);
+  }
+  const email = parsed.data;
+
+  try {
+    const existingUser = await auth.getUserByEmail(email);
+    if (isAdminRole(existingUser.customClaims?.role)) {
+      throw new HttpError(400, `${email} already has the ${getRoleLabel(existingUser.customClaims?.role)} role`);
+    }
+  } catch (error) {
+    if ((error as { code?: string }).code !== 'auth/user-not-found') throw error;
+  }
+
+  const existing = await db.collection(INVITATIONS_COLLECTION).where('email', '==', email).get();
+  const hasOpenInvitation = existing.docs.some((invitationDoc) => {
+    const data = invitationDoc.data() as StoredInvitation;
+    return getInvitationState(data.status, data.expiresAt.toDate()) === 'pending';
+  });
+  if (hasOpenInvitation) {
+    throw new HttpError(400, `${email} already has an open invitation. Resend it instead.`);
+  }
+
+  const profileDoc = await db.collection('users').doc(decodedToken.uid).get();
+  const ref = db.collection(INVITATIONS_COLLECTION).doc();
+  const { token, tokenHash } = issueToken(ref.id);
+  const expiresAt = getInvitationExpiry(new Date());
+  const invitation: StoredInvitation = {
+    email,
+    role,
+    status: 'pending',
+    tokenHash,
+    invitedBy: decodedToken.uid,
+    invitedByName: profileDoc.data()?.displayName || decodedToken.email || 'An administrator',
+    expiresAt: admin.firestore.Timestamp.fromDate(expiresAt),
+  };
+
+  await ref.set({
+    ...invitation,
+    sendCount: 1,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    sentAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  return { success: true, emailed: await sendInvitation(invitation, token, expiresAt) };
+};
+
+const resendInvitation = async (decodedToken: admin.auth.DecodedIdToken, invitationId: string) => {
+  const ref = db.collection(INVITATIONS_COLLECTION).doc(invitationId);
+  const invitation = (await ref.get()).data() as StoredInvitation | undefined;
+  if (!invitation) {
+    throw new HttpError(404, 'Invitation not found');
+  }
+  assertCanInvite(decodedToken.role, invitation.role);
+  if (invitation.status !== 'pending') {
+    throw new HttpError(400, `This invitation has been ${invitation.status}`);
+  }
+
+  // A fresh link and a fresh expiry; the previous link stops working
+  const { token, tokenHash } = issueToken(ref.id);
+  const expiresAt = getInvitationExpiry(new Date());
+  await ref.update({
+    tokenHash,
+    expiresAt: admin.firestore.Timestamp.fromDate(expiresAt),
+    sentAt: admin.firestore.FieldValue.serverTimestamp(),
+    sendCount: admin.firestore.FieldValue.increment(1),
+  });
+
+  return { success: true, emailed: await sendInvitation(invitation, token, expiresAt) };
+};
+
+const revokeInvitation = async (decodedToken: admin.auth.DecodedIdToken, invitationId: string) => {
+  const ref = db.collection(INVITATIONS_COLLECTION).doc(invitationId);
+  const invitation = (await ref.get()).data() as StoredInvitation | undefined;
+  if (!invitation) {
+    throw new HttpError(404, 'Invitation not found');
+  }
+  assertCanInvite(decodedToken.role, invitation.role);
+  if (invitation.status !== 'pending') {
+    throw new HttpError(400, `This invitation has already been ${invitation.status}`);
+  }
+
+  await ref.update({
+    status: 'revoked',
+    tokenHash: admin.firestore.FieldValue.delete(),
+    revokedBy: decodedToken.uid,
+    revokedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  return { success: true };
+};
+
+const acceptInvitation = async (decodedToken: admin.auth.DecodedIdToken, token: unknown) => {
+  const { ref, invitation } = await readToken(token);
+
+  if ((decodedToken.email || '').toLowerCase() !== invitation.email) {
+    throw new HttpError(403, `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`);
+  }
+
+  // Accepting runs in the role transaction, so the link is single-use even if it is opened twice at once,
+  // and both roles are read as they are now rather than as they were when the invitation was sent
+  await writeRole(db, decodedToken.uid, invitation.role, invitation.invitedBy, async (currentRole, transaction) => {
+    const current = (await transaction.get(ref)).data() as StoredInvitation;
+    const inviterRole = (await transaction.get(db.collection('user_roles').doc(current.invitedBy))).data()?.role;
+    const state = getInvitationState(current.status, current.expiresAt.toDate());
+    if (state !== 'pending') {
+      throw new HttpError(400, `This invitation has ${state === 'expired' ? 'expired' : `already been ${state}`}`);
+    }
+    // An invitation only ever adds access; it never replaces a role that does something the new one does not
+    if (currentRole === current.role || losesAccess(currentRole, current.role)) {
+      throw new HttpError(400, `You already have the ${getRoleLabel(currentRole)} role. Ask an admin to change it from the admin list instead.`);
+    }
+    if (
+      !hasCapability(inviterRole, 'admins.manage') ||
+      (current.role === 'super_admin' && inviterRole !== 'super_admin')
+    ) {
+      throw new HttpError(403, 'The person who invited you can no longer grant this role. Please ask an admin for a new invitation.');
+    }
+    transaction.update(ref, {
+      status: 'accepted',
+      tokenHash: admin.firestore.FieldValue.delete(),
+      acceptedBy: decodedToken.uid,
+      acceptedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+
+  // Someone who also asked for access themselves no longer needs reviewing
+  const requestRef = db.collection('admin_requests').doc(decodedToken.uid);
+  if ((await requestRef.get()).data()?.status === 'pending') {
+    await requestRef.update({
+      status: 'approved',
+      role: invitation.role,
+      reviewedBy: invitation.invitedBy,
+      reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+
+  return { success: true, role: invitation.role };
+};
+
+const lookupInvitation = async (token: unknown) => {
+  const { invitation } = await readToken(token);
+  const summary: InvitationSummary = {
+    email: invitation.email,
+    role: invitation.role,
+    state: getInvitationState(invitation.status, invitation.expiresAt.toDate()),
+    expiresAt: invitation.expiresAt.toDate().toISOString(),
+  };
+  return { success: true, invitation: summary };
+};
+
+export const handler: Handler = async (event) => {
+  // CORS headers
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+
+  // Handle preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  // Only allow POST
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const body = parseBody(event.body);
+    let result: Record<string, unknown>;
+
+    // The accept page describes the invitation before anyone has signed in
+    if (body.action === 'lookup') {
+      result = await lookupInvitation(body.token);
+    } else {
+      // Get auth token from header
+      const authHeader = event.headers.authorization;
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        throw new HttpError(401, 'Unauthorized - No token provided');
+      }
+      const decodedToken = await auth.verifyIdToken(authHeader.substring(7));
+
+      switch (body.action) {
+        case 'create':
+          result = await createInvitation(decodedToken, body);
+          break;
+        case 'resend':
+          result = await resendInvitation(decodedToken, String(body.invitationId));
+          break;
+        case 'revoke':
+          result = await revokeInvitation(decodedToken, String(body.invitationId));
+          break;
+        case 'accept':
+          result = await acceptInvitation(decodedToken, body.token);
+          break;
+        default:
+          throw new HttpError(400, 'Unknown action');
+      }
+    }
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify(result),
+    };
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return {
+        statusCode: error.statusCode,
+        headers,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+    if (error instanceof InvalidBodyError) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+
+    console.error('Error handling admin invitation:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
@@ -0,0 +1,52 @@
+// Scheduled Netlify Function that expires admin access requests nobody reviewed in time
+// and emails the requester so they know to ask again
+import { schedule } from '@netlify/functions';
+import * as admin from 'firebase-admin';
+import { getAdminRequestExpiry, getAdminRequestExpiryDays } from '../../src/lib/adminRequests';
+import { emailRequester } from '../lib/adminRequests';
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = admin.firestore();
+
+const ADMIN_REQUESTS_COLLECTION = 'admin_requests';
+
+export const handler = schedule('0 6 * * *', async () => {
+  const pendingSnapshot = await db.collection(ADMIN_REQUESTS_COLLECTION).where('status', '==', 'pending').get();
+  if (pendingSnapshot.empty) return { statusCode: 200 };
+
+  // Requests from before expiry dates were stored use the configured period from when they were made
+  const churchInfoSnapshot = await db.collection('church_info').limit(1).get();
+  const expiryDays = getAdminRequestExpiryDays(churchInfoSnapshot.docs[0]?.data()?.adminRequestExpiryDays);
+  const now = new Date();
+  let failed = 0;
+
+  for (const requestDoc of pendingSnapshot.docs) {
+    const request = requestDoc.data();
+    const expiresAt: Date | undefined =
+      request.expiresAt?.toDate() || (request.createdAt && getAdminRequestExpiry(request.createdAt.toDate(), expiryDays));
+    if (!expiresAt || expiresAt > now) continue;
+
+    try {
+      await requestDoc.ref.update({
+        status: 'expired',
+        expiredAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      await emailRequester(db, 'admin_request_expired', request);
+    } catch (error) {
+      console.error(`Error expiring admin request ${requestDoc.id}:`, error);
+      failed++;
+    }
+  }
+
+  return { statusCode: failed > 0 ? 500 : 200 };
+});
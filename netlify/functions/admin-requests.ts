@@ -0,0 +1,261 @@
+// Netlify Function for admin access requests: requesters submit one with their ministry and reason,
+// reviewers approve it with a role or reject it with a reason, and the other side is emailed each time
+import { Handler } from '@netlify/functions';
+import * as admin from 'firebase-admin';
+import { getRoleLabel, getRolesWithCapability, hasCapability, isAdminRole, AdminRole, UserRole } from '../../src/lib/permissions';
+import {
+  adminRequestSchema,
+  canSubmitAdminRequest,
+  getAdminRequestExpiry,
+  getAdminRequestExpiryDays,
+  rejectionReasonSchema,
+} from '../../src/lib/adminRequests';
+import { writeRole } from '../lib/roles';
+import { emailRequester } from '../lib/adminRequests';
+import { getChurchPlaceholders, sendTemplatedEmail } from '../lib/templatedEmail';
+import { InvalidBodyError, parseBody } from '../lib/requestBody';
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = admin.firestore();
+const auth = admin.auth();
+
+const ADMIN_REQUESTS_COLLECTION = 'admin_requests';
+
+class HttpError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-ZA', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'Africa/Johannesburg' });
+
+const getReviewerEmails = async (): Promise<string[]> => {
+  const roles = await db.collection('user_roles').where('role', 'in', getRolesWithCapability('admins.manage')).get();
+  const profiles = await Promise.all(roles.docs.map((roleDoc) => db.collection('users').doc(roleDoc.id).get()));
+  return profiles.map((profile) => profile.data()?.email).filter((email): email is string => !!email);
+};
+
+const submitRequest = async (decodedToken: admin.auth.DecodedIdToken, body: Record<string, unknown>) => {
+  if (isAdminRole(decodedToken.role)) {
+    throw new HttpError(400, 'You already have admin access');
+  }
+
+  const parsed = adminRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new HttpError(400, parsed.error.errors[0].message);
+  }
+
+  const requestRef = db.collection(ADMIN_REQUESTS_COLLECTION).doc(decodedToken.uid);
+  const existing = (await requestRef.get()).data();
+  if (!canSubmitAdminRequest(existing?.status, decodedToken.role)) {
+    throw new HttpError(400, 'Your request is already waiting for review');
+  }
+
+  const [profileDoc, churchInfoSnapshot] = await Promise.all([
+    db.collection('users').doc(decodedToken.uid).get(),
+    db.collection('church_info').limit(1).get(),
+  ]);
+  const churchInfo = churchInfoSnapshot.docs[0]?.data();
+  const expiresAt = getAdminRequestExpiry(new Date(), getAdminRequestExpiryDays(churchInfo?.adminRequestExpiryDays));
+  const request = {
+    userId: decodedToken.uid,
+    email: decodedToken.email || '',
+    displayName: profileDoc.data()?.displayName || decodedToken.name || '',
+    ...parsed.data,
+    status: 'pending',
+    expiresAt: admin.firestore.Timestamp.fromDate(expiresAt),
+  };
+
+  // Merged so a legal hold on an earlier request stays in place; the previous outcome is cleared
+  const deleteField = admin.firestore.FieldValue.delete();
+  await requestRef.set(
+    {
+      ...request,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      role: deleteField,
+      rejectionReason: deleteField,
+      reviewedBy: deleteField,
+      reviewedAt: deleteField,
+      expiredAt: deleteField,
+    },
+    { merge: true }
+  );
+
+  try {
+    await sendTemplatedEmail(db, 'admin_request_received', await getReviewerEmails(), {
+      ...getChurchPlaceholders(churchInfo),
+      name: request.displayName || request.email,
+      email: request.email,
+      ministry: request.ministry,
+      justification: request.justification,
+      expiryDate: formatDate(expiresAt),
+      reviewUrl: `${process.env.URL || 'http://localhost:8888'}/admin/admins`,
+    });
+  } catch (error) {
+    console.error('Error sending admin request alert:', error);
+  }
+
+  return { success: true };
+};
+
+// Reviewers need admins.manage, only super admins can approve someone as super admin, and nobody reviews their own request
+const getPendingRequest = async (callerId: string, callerRole: UserRole | undefined, userId: string) => {
+  if (!hasCapability(callerRole, 'admins.manage')) {
+    throw new HttpError(403, 'Your role does not include managing admins');
+  }
+  if (userId === callerId) {
+    throw new HttpError(400, 'You cannot review your own request');
+  }
+
+  const requestRef = db.collection(ADMIN_REQUESTS_COLLECTION).doc(userId);
+  const request = (await requestRef.get()).data();
+  if (!request) {
+    throw new HttpError(404, 'Admin request not found');
+  }
+  if (request.status !== 'pending') {
+    throw new HttpError(400, `This request is already ${request.status}`);
+  }
+  return { requestRef, request };
+};
+
+const approveRequest = async (decodedToken: admin.auth.DecodedIdToken, userId: string, role: AdminRole) => {
+  if (!isAdminRole(role)) {
+    throw new HttpError(400, 'Unknown role');
+  }
+  if (role === 'super_admin' && decodedToken.role !== 'super_admin') {
+    throw new HttpError(403, 'Only super admins can change super admin access');
+  }
+  const { requestRef, request } = await getPendingRequest(decodedToken.uid, decodedToken.role, userId);
+
+  // The role goes first, so a failure leaves the request pending to approve again rather than
+  // showing it approved with no role behind it. The current role is checked in the same
+  // transaction, so a stale request cannot overwrite access someone was given since
+  await writeRole(db, userId, role, decodedToken.uid, (currentRole) => {
+    if (currentRole === 'super_admin' && decodedToken.role !== 'super_admin') {
+      throw new HttpError(403, 'Only super admins can change super admin access');
+    }
+    if (isAdminRole(currentRole)) {
+      throw new HttpError(409, `${request.displayName || request.email} already has the ${getRoleLabel(currentRole)} role. Change it from the admin list instead.`);
+    }
+  });
+  await requestRef.update({
+    status: 'approved',
+    role,
+    reviewedBy: decodedToken.uid,
+    reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  await emailRequester(db, 'admin_request_approved', request, {
+    role: getRoleLabel(role),
+    adminUrl: `${process.env.URL || 'http://localhost:8888'}/admin`,
+  });
+  return { success: true };
+};
+
+const rejectRequest = async (decodedToken: admin.auth.DecodedIdToken, userId: string, reason: unknown) => {
+  const parsed = rejectionReasonSchema.safeParse(reason);
+  if (!parsed.success) {
+    throw new HttpError(400, parsed.error.errors[0].message);
+  }
+  const { requestRef, request } = await getPendingRequest(decodedToken.uid, decodedToken.role, userId);
+
+  await requestRef.update({
+    status: 'rejected',
+    rejectionReason: parsed.data,
+    reviewedBy: decodedToken.uid,
+    reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  await emailRequester(db, 'admin_request_rejected', request, { reason: parsed.data });
+  return { success: true };
+};
+
+export const handler: Handler = async (event) => {
+  // CORS headers
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+
+  // Handle preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  // Only allow POST
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    // Get auth token from header
+    const authHeader = event.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      throw new HttpError(401, 'Unauthorized - No token provided');
+    }
+
+    const decodedToken = await auth.verifyIdToken(authHeader.substring(7));
+    const body = parseBody(event.body);
+    let result: Record<string, unknown>;
+
+    switch (body.action) {
+      case 'submit':
+        result = await submitRequest(decodedToken, body);
+        break;
+      case 'approve':
+        result = await approveRequest(decodedToken, String(body.userId), body.role as AdminRole);
+        break;
+      case 'reject':
+        result = await rejectRequest(decodedToken, String(body.userId), body.reason);
+        break;
+      default:
+        throw new HttpError(400, 'Unknown action');
+    }
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify(result),
+    };
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return {
+        statusCode: error.statusCode,
+        headers,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+    if (error instanceof InvalidBodyError) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+
+    console.error('Error handling admin request:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
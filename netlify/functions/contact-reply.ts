@@ -0,0 +1,175 @@
+// Netlify Function for replying to contact form messages by email
+// The reply is sent first and only then added to the message thread, so the thread never shows an unsent reply
+import { Handler } from '@netlify/functions';
+import * as admin from 'firebase-admin';
+import { hasCapability } from '../../src/lib/permissions';
+import { sendEmail } from '../lib/email';
+import { InvalidBodyError, parseBody } from '../lib/requestBody';
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = admin.firestore();
+const auth = admin.auth();
+
+const SUBMISSIONS_COLLECTION = 'contact_submissions';
+const THREAD_SUBCOLLECTION = 'thread';
+const MAX_REPLY_LENGTH = 5000;
+
+// Quote the original message under the reply, like a mail client would
+const quote = (text: string) =>
+  text
+    .split('\n')
+    .map((line) => `> ${line}`)
+    .join('\n');
+
+export const handler: Handler = async (event) => {
+  // CORS headers
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+
+  // Handle preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  // Only allow POST
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    // Get auth token from header
+    const authHeader = event.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify({ error: 'Unauthorized - No token provided' }),
+      };
+    }
+
+    const decodedToken = await auth.verifyIdToken(authHeader.substring(7));
+    const role = decodedToken.role;
+
+    if (!hasCapability(role, 'messages.read')) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify({ error: 'Your role does not include replying to messages' }),
+      };
+    }
+
+    const body = parseBody(event.body);
+    const submissionId = typeof body.submissionId === 'string' ? body.submissionId : '';
+    const message = typeof body.message === 'string' ? body.message.trim() : '';
+
+    if (!submissionId || !message) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: 'Message ID and reply text are required' }),
+      };
+    }
+    if (message.length > MAX_REPLY_LENGTH) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: `Replies must be ${MAX_REPLY_LENGTH} characters or less` }),
+      };
+    }
+
+    const submissionRef = db.collection(SUBMISSIONS_COLLECTION).doc(submissionId);
+    const [submissionSnap, churchInfoSnapshot, profileSnap] = await Promise.all([
+      submissionRef.get(),
+      db.collection('church_info').limit(1).get(),
+      db.collection('users').doc(decodedToken.uid).get(),
+    ]);
+
+    const submission = submissionSnap.data();
+    if (!submission) {
+      return {
+        statusCode: 404,
+        headers,
+        body: JSON.stringify({ error: 'Message not found' }),
+      };
+    }
+
+    const churchInfo = churchInfoSnapshot.docs[0]?.data() || {};
+    const churchName: string = churchInfo.churchName || 'Shiloh Intercession Mountain';
+    const authorName: string = profileSnap.data()?.displayName || decodedToken.email || 'Admin';
+
+    await sendEmail({
+      to: submission.email,
+      replyTo: churchInfo.email,
+      subject: `Re: Your message to ${churchName}`,
+      text: [
+        `Dear ${submission.name},`,
+        '',
+        message,
+        '',
+        authorName,
+        churchName,
+        '',
+        `On ${submission.createdAt.toDate().toUTCString()} you wrote:`,
+        quote(submission.message),
+      ].join('\n'),
+    });
+
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    const batch = db.batch();
+    batch.set(submissionRef.collection(THREAD_SUBCOLLECTION).doc(), {
+      type: 'reply',
+      body: message,
+      authorId: decodedToken.uid,
+      authorName,
+      emailedTo: submission.email,
+      createdAt: now,
+    });
+    batch.update(submissionRef, {
+      status: 'awaiting_reply',
+      isRead: true,
+      replyCount: admin.firestore.FieldValue.increment(1),
+      lastActivityAt: now,
+    });
+    await batch.commit();
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({ success: true }),
+    };
+  } catch (error) {
+    if (error instanceof InvalidBodyError) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+
+    console.error('Error sending reply:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
@@ -0,0 +1,321 @@
+// Netlify Function for the public contact form
+// Re-validates the form, rate-limits senders and files suspected spam in the Messages spam folder instead of dropping it
+// Genuine messages get an acknowledgement email to the sender and an alert to the admins responsible for the category
+import { Handler } from '@netlify/functions';
+import * as admin from 'firebase-admin';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import {
+  contactSchema,
+  countLinks,
+  getProofOfWorkInput,
+  hasLeadingZeroBits,
+  CHALLENGE_DIFFICULTY,
+  CHALLENGE_TTL_SECONDS,
+  ContactChallenge,
+  ContactInput,
+  HONEYPOT_FIELD,
+  MIN_FILL_SECONDS,
+  SpamReason,
+  ContactCategory,
+  getContactCategory,
+} from '../../src/lib/contact';
+import { getChurchPlaceholders, sendTemplatedEmail } from '../lib/templatedEmail';
+import { getClientIp, readRateLimits, RateLimit } from '../lib/rateLimits';
+import { getRolesWithCapability } from '../../src/lib/permissions';
+import { InvalidBodyError, parseBody } from '../lib/requestBody';
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = admin.firestore();
+
+const SUBMISSIONS_COLLECTION = 'contact_submissions';
+const RATE_LIMITS_COLLECTION = 'contact_rate_limits';
+const ROUTING_COLLECTION = 'contact_routing';
+
+// Fixed one-hour windows; spam counts too, so a bot cannot fill the spam folder either
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+const MAX_PER_IP = 5;
+const MAX_PER_EMAIL = 3;
+const MAX_LINKS = 2;
+
+class HttpError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+// Challenges are signed with a key of their own, never the service account key; without it the form is closed
+const getChallengeSecret = () => {
+  const secret = process.env.CONTACT_CHALLENGE_SECRET;
+  if (!secret) {
+    console.error('CONTACT_CHALLENGE_SECRET is not set');
+    throw new HttpError(500, 'The contact form is not available right now');
+  }
+  return secret;
+};
+
+const signChallenge = (nonce: string, issuedAt: number, difficulty: number) =>
+  createHmac('sha256', getChallengeSecret()).update(`${nonce}.${issuedAt}.${difficulty}`).digest('hex');
+
+const sha256Hex = (value: string) => createHash('sha256').update(value).digest('hex');
+
+const issueChallenge = (): ContactChallenge => {
+  const nonce = randomBytes(16).toString('hex');
+  const issuedAt = Date.now();
+  return {
+    nonce,
+    issuedAt,
+    difficulty: CHALLENGE_DIFFICULTY,
+    signature: signChallenge(nonce, issuedAt, CHALLENGE_DIFFICULTY),
+  };
+};
+
+const isSignatureValid = (challenge: ContactChallenge) => {
+  const expected = Buffer.from(signChallenge(challenge.nonce, challenge.issuedAt, challenge.difficulty));
+  const actual = Buffer.from(String(challenge.signature));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+// Signed by us and not yet expired; whether it was already used is checked when the submission is counted
+const isChallengeValid = (challenge: ContactChallenge | undefined): challenge is ContactChallenge =>
+  !!challenge &&
+  typeof challenge.nonce === 'string' &&
+  typeof challenge.issuedAt === 'number' &&
+  challenge.difficulty === CHALLENGE_DIFFICULTY &&
+  isSignatureValid(challenge) &&
+  Date.now() - challenge.issuedAt < CHALLENGE_TTL_SECONDS * 1000;
+
+/**
+ * Returns why a submission looks like spam; empty when it passes every check.
+ * Failures are recorded rather than rejected so admins can rescue false positives.
+ */
+const getSpamReasons = (body: Record<string, unknown>, message: string): SpamReason[] => {
+  const reasons: SpamReason[] = [];
+  const challenge = body.challenge as ContactChallenge | undefined;
+  const counter = Number(body.counter);
+  const honeypot = body[HONEYPOT_FIELD];
+
+  if (typeof honeypot === 'string' && honeypot.trim() !== '') {
+    reasons.push('honeypot');
+  }
+
+  if (!isChallengeValid(challenge)) {
+    reasons.push('challenge');
+  } else {
+    if (Date.now() - challenge.issuedAt < MIN_FILL_SECONDS * 1000) {
+      reasons.push('too_fast');
+    }
+    const digest = sha256Hex(getProofOfWorkInput(challenge.nonce, counter));
+    if (!Number.isInteger(counter) || !hasLeadingZeroBits(digest, challenge.difficulty)) {
+      reasons.push('proof_of_work');
+    }
+  }
+
+  if (countLinks(message) > MAX_LINKS) {
+    reasons.push('links');
+  }
+
+  return reasons;
+};
+
+/**
+ * Counts one submission against each key and throws 429 once any key is over its limit.
+ * A valid challenge is marked used in the same transaction, so a solved one cannot be replayed.
+ */
+const enforceRateLimits = async (limits: RateLimit[], challenge?: ContactChallenge) => {
+  await db.runTransaction(async (transaction) => {
+    const rateLimits = await readRateLimits(
+      transaction,
+      db.collection(RATE_LIMITS_COLLECTION),
+      limits,
+      RATE_LIMIT_WINDOW_MS
+    );
+    const nonceRef = challenge && db.collection(RATE_LIMITS_COLLECTION).doc(sha256Hex(`nonce:${challenge.nonce}`));
+    const nonceUsed = nonceRef ? (await transaction.get(nonceRef)).exists : false;
+
+    if (rateLimits.exceeded) {
+      throw new HttpError(429, 'Too many messages sent. Please try again in an hour.');
+    }
+    if (nonceUsed) {
+      throw new HttpError(400, 'This form has already been sent. Please try sending your message again.');
+    }
+
+    rateLimits.count();
+    if (nonceRef && challenge) {
+      transaction.set(nonceRef, {
+        expiresAt: admin.firestore.Timestamp.fromMillis(challenge.issuedAt + CHALLENGE_TTL_SECONDS * 1000),
+      });
+    }
+  });
+};
+
+// Admins routed to the category, or everyone who reads messages when the category has nobody yet
+const getAlertRecipients = async (category: ContactCategory): Promise<string[]> => {
+  const routingDoc = await db.collection(ROUTING_COLLECTION).doc(category).get();
+  let adminIds: string[] = routingDoc.data()?.adminIds || [];
+
+  if (adminIds.length === 0) {
+    const roles = await db.collection('user_roles').where('role', 'in', getRolesWithCapability('messages.read')).get();
+    adminIds = roles.docs.map((roleDoc) => roleDoc.id);
+  }
+
+  const profiles = await Promise.all(adminIds.map((uid) => db.collection('users').doc(uid).get()));
+  return profiles.map((profile) => profile.data()?.email).filter((email): email is string => !!email);
+};
+
+/**
+ * Emails the sender and the responsible admins. Failures are logged, never
+ * returned - the message is already safe in the inbox.
+ */
+const sendNotifications = async (submissionId: string, submission: ContactInput) => {
+  const churchInfoSnapshot = await db.collection('church_info').limit(1).get();
+  const churchInfo = churchInfoSnapshot.docs[0]?.data();
+  const values = {
+    ...getChurchPlaceholders(churchInfo),
+    name: submission.name,
+    email: submission.email,
+    category: getContactCategory(submission.category).label,
+    message: submission.message,
+    messageUrl: `${process.env.URL || 'http://localhost:8888'}/admin/messages?m=${submissionId}`,
+  };
+
+  const results = await Promise.allSettled([
+    sendTemplatedEmail(db, 'contact_acknowledgement', [submission.email], values, churchInfo?.email),
+    getAlertRecipients(submission.category).then((recipients) =>
+      sendTemplatedEmail(db, 'contact_admin_alert', recipients, values, submission.email)
+    ),
+  ]);
+
+  results.forEach((result) => {
+    if (result.status === 'rejected') {
+      console.error('Error sending contact form email:', result.reason);
+    }
+  });
+};
+
+const submit = async (body: Record<string, unknown>, ip: string) => {
+  const parsed = contactSchema.safeParse({
+    name: body.name,
+    email: body.email,
+    category: body.category,
+    message: body.message,
+  });
+
+  if (!parsed.success) throw new HttpError(400, parsed.error.errors[0].message);
+
+  const { name, category, message } = parsed.data;
+  // Lower-cased so a My Data request finds the message however the address was typed
+  const email = parsed.data.email.toLowerCase();
+
+  const challenge = body.challenge as ContactChallenge | undefined;
+  await enforceRateLimits(
+    [
+      { key: `ip:${ip}`, max: MAX_PER_IP },
+      { key: `email:${email}`, max: MAX_PER_EMAIL },
+    ],
+    isChallengeValid(challenge) ? challenge : undefined
+  );
+
+  const spamReasons = getSpamReasons(body, message);
+  const isSpam = spamReasons.length > 0;
+
+  const submissionRef = await db.collection(SUBMISSIONS_COLLECTION).add({
+    name,
+    email,
+    category,
+    message,
+    // Spam arrives read so it never raises the unread badges
+    isRead: isSpam,
+    status: 'new',
+    isSpam,
+    ...(isSpam && { spamReasons }),
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  if (!isSpam) {
+    await sendNotifications(submissionRef.id, parsed.data).catch((error) =>
+      console.error('Error preparing contact form emails:', error)
+    );
+  }
+
+  // Senders get the same answer either way so bots learn nothing from it
+  return { success: true };
+};
+
+export const handler: Handler = async (event) => {
+  // CORS headers
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+
+  // Handle preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  // Only allow POST
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const body = parseBody(event.body);
+    let result: Record<string, unknown>;
+
+    switch (body.action) {
+      case 'challenge':
+        result = { success: true, challenge: issueChallenge() };
+        break;
+      case 'submit':
+        result = await submit(body, getClientIp(event.headers));
+        break;
+      default:
+        throw new HttpError(400, 'Unknown action');
+    }
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify(result),
+    };
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return {
+        statusCode: error.statusCode,
+        headers,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+    if (error instanceof InvalidBodyError) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+
+    console.error('Error handling contact form:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
@@ -2,6 +2,8 @@
 // Cost-effective alternative to Firebase Cloud Functions
 import { Handler } from '@netlify/functions';
 import * as admin from 'firebase-admin';
+import { hasCapability } from '../../src/lib/permissions';
+import { deleteRole, LastSuperAdminError } from '../lib/roles';
 
 // Initialize Firebase Admin SDK
 if (!admin.apps.length) {
@@ -56,11 +58,10 @@ export const handler: Handler = async (event) => {
     const decodedToken = await auth.verifyIdToken(token);
     const requestingUserId = decodedToken.uid;
 
-    // Check if requesting user is admin
-    const roleDoc = await db.collection('user_roles').doc(requestingUserId).get();
-    const role = roleDoc.data()?.role;
+    // Check if requesting user can manage admins
+    const role = decodedToken.role;
     
-    if (role !== 'admin' && role !== 'super_admin') {
+    if (!hasCapability(role, 'admins.manage')) {
       return {
         statusCode: 403,
         headers,
@@ -89,10 +90,24 @@ export const handler: Handler = async (event) => {
       };
     }
 
-    // Delete from Firestore collections
+    // Only super admins can remove another super admin
+    const targetRole = (await db.collection('user_roles').doc(userId).get()).data()?.role;
+    if (targetRole === 'super_admin' && role !== 'super_admin') {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify({ error: 'Only super admins can delete a super admin' }),
+      };
+    }
+
+    // The role goes first, and is refused if it would leave no super admin
+    await deleteRole(db, userId);
+
+    // Delete from Firestore collections; an admin request on legal hold is kept
+    const requestRef = db.collection('admin_requests').doc(userId);
+    const requestDoc = await requestRef.get();
     await Promise.all([
-      db.collection('user_roles').doc(userId).delete(),
-      db.collection('admin_requests').doc(userId).delete(),
+      ...(requestDoc.exists && !requestDoc.data()?.legalHold ? [requestRef.delete()] : []),
       db.collection('users').doc(userId).delete(),
     ]);
 
@@ -108,6 +123,14 @@ export const handler: Handler = async (event) => {
       }),
     };
   } catch (error) {
+    if (error instanceof LastSuperAdminError) {
+      return {
+        statusCode: 409,
+        headers,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+
     console.error('Error deleting user:', error);
     return {
       statusCode: 500,
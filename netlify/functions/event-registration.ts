@@ -0,0 +1,399 @@
+// Netlify Function for event registrations (RSVP)
+// Seat counts and waitlist promotion run in Firestore transactions so capacity is never oversold
+import { Handler } from '@netlify/functions';
+import * as admin from 'firebase-admin';
+import { randomInt } from 'crypto';
+import { addYears, parseISO } from 'date-fns';
+import { hasCapability } from '../../src/lib/permissions';
+import {
+  registrationSchema,
+  normalizeConfirmationCode,
+  RegistrationStatus,
+} from '../../src/lib/eventRegistration';
+import { expandRecurrence, RecurrenceRule } from '../../src/lib/recurrence';
+import { toChurchDate } from '../../src/lib/ical';
+import { getClientIp, readRateLimits } from '../lib/rateLimits';
+import { InvalidBodyError, parseBody } from '../lib/requestBody';
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = admin.firestore();
+const auth = admin.auth();
+
+const EVENTS_COLLECTION = 'events';
+const REGISTRATIONS_COLLECTION = 'event_registrations';
+const RATE_LIMITS_COLLECTION = 'registration_rate_limits';
+
+// Registering is public, so each IP gets a fixed number an hour to stop a script filling every seat
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+const MAX_PER_IP = 10;
+
+// Unambiguous characters only, so codes survive being read out over the phone
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+class HttpError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+interface RegistrationDoc {
+  eventId: string;
+  name: string;
+  email: string;
+  seats: number;
+  status: RegistrationStatus;
+  createdAt: admin.firestore.Timestamp;
+}
+
+const generateConfirmationCode = () =>
+  Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+
+// Compared as calendar days in the church's timezone, so an event stays open on its own day.
+// A series has passed once no occurrence is left from today on
+const hasEventPassed = (eventDate: admin.firestore.Timestamp, recurrence?: RecurrenceRule | null) => {
+  const today = parseISO(toChurchDate(new Date()));
+  const seriesStart = parseISO(toChurchDate(eventDate.toDate()));
+  if (!recurrence) return seriesStart < today;
+  return expandRecurrence(seriesStart, recurrence, today, addYears(today, 1)).length === 0;
+};
+
+const isAdminRequest = async (authHeader?: string): Promise<boolean> => {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) return false;
+  try {
+    const decodedToken = await auth.verifyIdToken(authHeader.substring(7));
+    const role = decodedToken.role;
+    return hasCapability(role, 'events.write');
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Moves waitlisted registrations into freed seats, oldest first.
+ * A party too large for the remaining seats is skipped so smaller ones behind it can go in.
+ * Must be called after all transaction reads; returns the new seat totals.
+ */
+const promoteWaitlist = (
+  transaction: admin.firestore.Transaction,
+  capacity: number | null,
+  registeredCount: number,
+  waitlisted: admin.firestore.QueryDocumentSnapshot[]
+) => {
+  let registered = registeredCount;
+  let promoted = 0;
+
+  [...waitlisted]
+    .sort((a, b) => a.data().createdAt.toMillis() - b.data().createdAt.toMillis())
+    .forEach((doc) => {
+      const { seats } = doc.data() as RegistrationDoc;
+      if (capacity !== null && registered + seats > capacity) return;
+      registered += seats;
+      promoted += seats;
+      transaction.update(doc.ref, {
+        status: 'confirmed',
+        promotedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+
+  return { registered, promoted };
+};
+
+const register = async (body: Record<string, unknown>, ip: string) => {
+  const eventId = typeof body.eventId === 'string' ? body.eventId : '';
+  const parsed = registrationSchema.safeParse({
+    name: body.name,
+    email: body.email,
+    phone: body.phone ?? '',
+    guests: body.guests ?? 0,
+  });
+
+  if (!eventId) throw new HttpError(400, 'Event ID is required');
+  if (!parsed.success) throw new HttpError(400, parsed.error.errors[0].message);
+
+  const { name, phone, guests } = parsed.data;
+  const email = parsed.data.email.toLowerCase();
+  const seats = 1 + guests;
+
+  return db.runTransaction(async (transaction) => {
+    const eventRef = db.collection(EVENTS_COLLECTION).doc(eventId);
+    const eventDoc = await transaction.get(eventRef);
+    const eventData = eventDoc.data();
+
+    if (!eventDoc.exists || !eventData?.isActive) {
+      throw new HttpError(404, 'Event not found');
+    }
+    if (!eventData.registrationEnabled) {
+      throw new HttpError(400, 'Registration is not open for this event');
+    }
+    if (hasEventPassed(eventData.eventDate, eventData.recurrence)) {
+      throw new HttpError(400, 'This event has already taken place');
+    }
+
+    const rateLimits = await readRateLimits(
+      transaction,
+      db.collection(RATE_LIMITS_COLLECTION),
+      [{ key: `ip:${ip}`, max: MAX_PER_IP }],
+      RATE_LIMIT_WINDOW_MS
+    );
+    if (rateLimits.exceeded) {
+      throw new HttpError(429, 'Too many registrations. Please try again in an hour.');
+    }
+
+    const existing = await transaction.get(
+      db.collection(REGISTRATIONS_COLLECTION).where('eventId', '==', eventId).where('email', '==', email)
+    );
+    if (existing.docs.some((doc) => doc.data().status !== 'cancelled')) {
+      throw new HttpError(409, 'This email address is already registered for this event');
+    }
+
+    let confirmationCode = generateConfirmationCode();
+    while ((await transaction.get(db.collection(REGISTRATIONS_COLLECTION).doc(confirmationCode))).exists) {
+      confirmationCode = generateConfirmationCode();
+    }
+
+    // Seats freed since the last promotion go to people already waiting, then the newcomer
+    // joins the back of the queue under the same rules
+    const waitlistCount: number = eventData.waitlistCount || 0;
+    const waitlisted = waitlistCount > 0
+      ? (
+        await transaction.get(db.collection(REGISTRATIONS_COLLECTION).where('eventId', '==', eventId))
+      ).docs.filter((doc) => doc.data().status === 'waitlisted')
+      : [];
+
+    const capacity: number | null = eventData.capacity ?? null;
+    const { registered, promoted } = promoteWaitlist(
+      transaction,
+      capacity,
+      eventData.registeredCount || 0,
+      waitlisted
+    );
+    const status: RegistrationStatus =
+      capacity === null || registered + seats <= capacity ? 'confirmed' : 'waitlisted';
+
+    rateLimits.count();
+    transaction.set(db.collection(REGISTRATIONS_COLLECTION).doc(confirmationCode), {
+      eventId,
+      eventTitle: eventData.title,
+      name,
+      email,
+      phone,
+      guests,
+      seats,
+      status,
+      confirmationCode,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    transaction.update(eventRef, {
+      registeredCount: registered + (status === 'confirmed' ? seats : 0),
+      waitlistCount: Math.max(0, waitlistCount - promoted) + (status === 'waitlisted' ? seats : 0),
+    });
+
+    return { success: true, status, confirmationCode };
+  });
+};
+
+const cancel = async (body: Record<string, unknown>, isAdmin: boolean) => {
+  const confirmationCode = normalizeConfirmationCode(String(body.confirmationCode || ''));
+  const email = String(body.email || '').trim().toLowerCase();
+
+  if (!confirmationCode) throw new HttpError(400, 'Confirmation code is required');
+  if (!isAdmin && !email) throw new HttpError(400, 'Email is required');
+
+  return db.runTransaction(async (transaction) => {
+    const registrationRef = db.collection(REGISTRATIONS_COLLECTION).doc(confirmationCode);
+    const registrationDoc = await transaction.get(registrationRef);
+    const registration = registrationDoc.data() as RegistrationDoc | undefined;
+
+    // Same message for a wrong code and a wrong email so codes can't be probed
+    if (!registration || (!isAdmin && registration.email !== email)) {
+      throw new HttpError(404, 'Registration not found');
+    }
+    if (registration.status === 'cancelled') {
+      throw new HttpError(400, 'This registration has already been cancelled');
+    }
+
+    const eventRef = db.collection(EVENTS_COLLECTION).doc(registration.eventId);
+    const eventDoc = await transaction.get(eventRef);
+    const eventData = eventDoc.data() || {};
+    const waitlisted = (
+      await transaction.get(db.collection(REGISTRATIONS_COLLECTION).where('eventId', '==', registration.eventId))
+    ).docs.filter((doc) => doc.id !== confirmationCode && doc.data().status === 'waitlisted');
+
+    let registeredCount: number = eventData.registeredCount || 0;
+    let waitlistCount: number = eventData.waitlistCount || 0;
+
+    if (registration.status === 'confirmed') {
+      registeredCount -= registration.seats;
+    } else {
+      waitlistCount -= registration.seats;
+    }
+
+    transaction.update(registrationRef, {
+      status: 'cancelled',
+      cancelledAt: admin.firestore.FieldValue.serverTimestamp(),
+      cancelledBy: isAdmin ? 'admin' : 'registrant',
+    });
+
+    const { registered, promoted } = promoteWaitlist(
+      transaction,
+      eventData.capacity ?? null,
+      Math.max(0, registeredCount),
+      waitlisted
+    );
+
+    if (eventDoc.exists) {
+      transaction.update(eventRef, {
+        registeredCount: registered,
+        waitlistCount: Math.max(0, waitlistCount - promoted),
+      });
+    }
+
+    return { success: true, promotedSeats: promoted };
+  });
+};
+
+// Fills seats after an admin raises the capacity
+const promote = async (body: Record<string, unknown>) => {
+  const eventId = typeof body.eventId === 'string' ? body.eventId : '';
+  if (!eventId) throw new HttpError(400, 'Event ID is required');
+
+  return db.runTransaction(async (transaction) => {
+    const eventRef = db.collection(EVENTS_COLLECTION).doc(eventId);
+    const eventDoc = await transaction.get(eventRef);
+    if (!eventDoc.exists) throw new HttpError(404, 'Event not found');
+
+    const eventData = eventDoc.data() || {};
+    const waitlisted = (
+      await transaction.get(db.collection(REGISTRATIONS_COLLECTION).where('eventId', '==', eventId))
+    ).docs.filter((doc) => doc.data().status === 'waitlisted');
+
+    const { registered, promoted } = promoteWaitlist(
+      transaction,
+      eventData.capacity ?? null,
+      eventData.registeredCount || 0,
+      waitlisted
+    );
+
+    transaction.update(eventRef, {
+      registeredCount: registered,
+      waitlistCount: Math.max(0, (eventData.waitlistCount || 0) - promoted),
+    });
+
+    return { success: true, promotedSeats: promoted };
+  });
+};
+
+const lookup = async (body: Record<string, unknown>) => {
+  const confirmationCode = normalizeConfirmationCode(String(body.confirmationCode || ''));
+  const email = String(body.email || '').trim().toLowerCase();
+
+  const registrationDoc = confirmationCode
+    ? await db.collection(REGISTRATIONS_COLLECTION).doc(confirmationCode).get()
+    : null;
+  const registration = registrationDoc?.data();
+
+  if (!registration || registration.email !== email) {
+    throw new HttpError(404, 'Registration not found');
+  }
+
+  return {
+    success: true,
+    registration: {
+      confirmationCode,
+      eventId: registration.eventId,
+      eventTitle: registration.eventTitle,
+      name: registration.name,
+      guests: registration.guests,
+      status: registration.status,
+    },
+  };
+};
+
+export const handler: Handler = async (event) => {
+  // CORS headers
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+
+  // Handle preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  // Only allow POST
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const body = parseBody(event.body);
+    let result: Record<string, unknown>;
+
+    switch (body.action) {
+      case 'register':
+        result = await register(body, getClientIp(event.headers));
+        break;
+      case 'cancel':
+        result = await cancel(body, await isAdminRequest(event.headers.authorization));
+        break;
+      case 'promote':
+        if (!(await isAdminRequest(event.headers.authorization))) {
+          throw new HttpError(403, 'Only admins can promote from the waitlist');
+        }
+        result = await promote(body);
+        break;
+      case 'lookup':
+        result = await lookup(body);
+        break;
+      default:
+        throw new HttpError(400, 'Unknown action');
+    }
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify(result),
+    };
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return {
+        statusCode: error.statusCode,
+        headers,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+    if (error instanceof InvalidBodyError) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+
+    console.error('Error handling event registration:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
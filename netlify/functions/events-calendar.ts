@@ -0,0 +1,102 @@
+// Netlify Function serving active events as an iCalendar (.ics) feed
+// Subscribe with /calendar.ics, or /calendar.ics?type=youth,weekly for selected event types
+import { Handler } from '@netlify/functions';
+import * as admin from 'firebase-admin';
+import { buildCalendar, toChurchDate, CalendarEntry } from '../../src/lib/ical';
+import { OccurrenceException, RecurrenceRule } from '../../src/lib/recurrence';
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = admin.firestore();
+
+export const handler: Handler = async (event) => {
+  // CORS headers
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  };
+
+  // Handle preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  // Only allow GET
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const types = (event.queryStringParameters?.type || '')
+      .split(',')
+      .map((type) => type.trim().toLowerCase())
+      .filter(Boolean);
+
+    const [eventsSnapshot, churchInfoSnapshot] = await Promise.all([
+      db.collection('events').where('isActive', '==', true).get(),
+      db.collection('church_info').limit(1).get(),
+    ]);
+
+    const churchName = churchInfoSnapshot.docs[0]?.data().churchName || 'Shiloh Intercession Mountain';
+    const siteUrl = process.env.URL || `https://${event.headers.host}`;
+    const host = new URL(siteUrl).hostname;
+
+    const entries: CalendarEntry[] = eventsSnapshot.docs
+      .filter((doc) => types.length === 0 || types.includes(doc.data().eventType || 'general'))
+      .map((doc) => {
+        const data = doc.data();
+        return {
+          uid: `${doc.id}@${host}`,
+          title: data.title,
+          description: data.description,
+          location: data.location,
+          url: `${siteUrl}/events/${doc.id}`,
+          date: toChurchDate(data.eventDate.toDate()),
+          startTime: data.startTime,
+          endTime: data.endTime,
+          recurrence: data.recurrence as RecurrenceRule | null,
+          exceptions: data.exceptions as Record<string, OccurrenceException> | undefined,
+          lastModified: data.updatedAt?.toDate(),
+        };
+      });
+
+    const typeLabel = types.map((type) => type.charAt(0).toUpperCase() + type.slice(1)).join(', ');
+
+    return {
+      statusCode: 200,
+      headers: {
+        ...headers,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="events.ics"',
+        'Cache-Control': 'public, max-age=900',
+      },
+      body: buildCalendar(entries, {
+        name: typeLabel ? `${churchName} - ${typeLabel} Events` : `${churchName} Events`,
+        description: `Upcoming events at ${churchName}`,
+      }),
+    };
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
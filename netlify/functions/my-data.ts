@@ -0,0 +1,179 @@
+// Netlify Function behind the My Data page: lets any signed-in user export what we hold about them
+// and schedule (or cancel) the deletion of their account after a grace period
+import { Handler } from '@netlify/functions';
+import * as admin from 'firebase-admin';
+import { getDeletionDate } from '../../src/lib/myData';
+import { collectUserData } from '../lib/userData';
+import { isLastSuperAdmin } from '../lib/roles';
+import { getChurchPlaceholders, sendTemplatedEmail } from '../lib/templatedEmail';
+import { InvalidBodyError, parseBody } from '../lib/requestBody';
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = admin.firestore();
+const auth = admin.auth();
+
+const DELETION_REQUESTS_COLLECTION = 'deletion_requests';
+
+class HttpError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-ZA', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'Africa/Johannesburg' });
+
+const requestDeletion = async (uid: string) => {
+  const requestRef = db.collection(DELETION_REQUESTS_COLLECTION).doc(uid);
+  const existing = await requestRef.get();
+  if (existing.data()?.status === 'scheduled') {
+    return { success: true, scheduledFor: existing.data()!.scheduledFor.toDate().toISOString() };
+  }
+
+  // The site must never be left without someone who can manage it
+  if (await isLastSuperAdmin(db, uid)) {
+    throw new HttpError(409, 'You are the only super admin. Transfer ownership on the Admins page before deleting your account.');
+  }
+
+  const user = await auth.getUser(uid);
+  const scheduledFor = getDeletionDate(new Date());
+  await requestRef.set({
+    userId: uid,
+    email: user.email || '',
+    emailVerified: user.emailVerified,
+    status: 'scheduled',
+    requestedAt: admin.firestore.FieldValue.serverTimestamp(),
+    scheduledFor: admin.firestore.Timestamp.fromDate(scheduledFor),
+  });
+
+  if (user.email) {
+    try {
+      const [churchInfoSnapshot, profileDoc] = await Promise.all([
+        db.collection('church_info').limit(1).get(),
+        db.collection('users').doc(uid).get(),
+      ]);
+      const churchInfo = churchInfoSnapshot.docs[0]?.data();
+      await sendTemplatedEmail(
+        db,
+        'account_deletion_scheduled',
+        [user.email],
+        {
+          ...getChurchPlaceholders(churchInfo),
+          name: profileDoc.data()?.displayName || user.displayName || user.email,
+          email: user.email,
+          deletionDate: formatDate(scheduledFor),
+          accountUrl: `${process.env.URL || 'http://localhost:8888'}/my-data`,
+        },
+        churchInfo?.email
+      );
+    } catch (error) {
+      // The request stands even if the email could not be sent; the page shows the date too
+      console.error('Error sending deletion confirmation email:', error);
+    }
+  }
+
+  return { success: true, scheduledFor: scheduledFor.toISOString() };
+};
+
+const cancelDeletion = async (uid: string) => {
+  const requestRef = db.collection(DELETION_REQUESTS_COLLECTION).doc(uid);
+  const existing = await requestRef.get();
+  if (existing.data()?.status !== 'scheduled') {
+    throw new HttpError(400, 'There is no deletion request to cancel');
+  }
+
+  await requestRef.update({
+    status: 'cancelled',
+    cancelledAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  return { success: true };
+};
+
+export const handler: Handler = async (event) => {
+  // CORS headers
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+
+  // Handle preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  // Only allow POST
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    // Get auth token from header
+    const authHeader = event.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      throw new HttpError(401, 'Unauthorized - No token provided');
+    }
+
+    const decodedToken = await auth.verifyIdToken(authHeader.substring(7));
+    const body = parseBody(event.body);
+    let result: Record<string, unknown>;
+
+    switch (body.action) {
+      case 'export':
+        result = { success: true, data: await collectUserData(db, await auth.getUser(decodedToken.uid)) };
+        break;
+      case 'request_deletion':
+        result = await requestDeletion(decodedToken.uid);
+        break;
+      case 'cancel_deletion':
+        result = await cancelDeletion(decodedToken.uid);
+        break;
+      default:
+        throw new HttpError(400, 'Unknown action');
+    }
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify(result),
+    };
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return {
+        statusCode: error.statusCode,
+        headers,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+    if (error instanceof InvalidBodyError) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+
+    console.error('Error handling my data request:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
@@ -0,0 +1,109 @@
+// Netlify Function serving the teaching library as a podcast RSS feed
+// Every active video or sermon with an uploaded audio file becomes an episode; subscribe with /podcast.xml
+import { Handler } from '@netlify/functions';
+import * as admin from 'firebase-admin';
+import { buildPodcastFeed, PodcastEpisode } from '../../src/lib/podcast';
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = admin.firestore();
+
+export const handler: Handler = async (event) => {
+  // CORS headers
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  };
+
+  // Handle preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  // Only allow GET
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const [videosSnapshot, churchInfoSnapshot, speakersSnapshot] = await Promise.all([
+      db.collection('videos').where('isActive', '==', true).get(),
+      db.collection('church_info').limit(1).get(),
+      db.collection('speakers').get(),
+    ]);
+
+    const churchInfo = churchInfoSnapshot.docs[0]?.data() || {};
+    const churchName: string = churchInfo.churchName || 'Shiloh Intercession Mountain';
+    const siteUrl = process.env.URL || `https://${event.headers.host}`;
+    const speakerNames = new Map(speakersSnapshot.docs.map((doc) => [doc.id, doc.data().name as string]));
+
+    const episodes: PodcastEpisode[] = videosSnapshot.docs
+      .filter((doc) => doc.data().audioUrl)
+      .map((doc) => {
+        const data = doc.data();
+        const scriptures: string[] = data.scriptures || [];
+        const description = [data.description, scriptures.length ? `Scripture: ${scriptures.join('; ')}` : '']
+          .filter(Boolean)
+          .join('\n\n');
+
+        return {
+          guid: doc.id,
+          title: data.title,
+          description,
+          link: data.isSermon ? `${siteUrl}/teachings/${doc.id}` : siteUrl,
+          audioUrl: data.audioUrl,
+          audioType: data.audioType,
+          audioSize: data.audioSize,
+          durationSeconds: data.audioDuration,
+          // Episodes are dated by when they were preached, falling back to when they were added
+          publishedAt: (data.preachedOn || data.createdAt)?.toDate() || new Date(),
+          author: (data.speakerId && speakerNames.get(data.speakerId)) || churchName,
+        };
+      });
+
+    return {
+      statusCode: 200,
+      headers: {
+        ...headers,
+        'Content-Type': 'application/rss+xml; charset=utf-8',
+        'Cache-Control': 'public, max-age=900',
+      },
+      body: buildPodcastFeed(
+        {
+          title: `${churchName} Teachings`,
+          description:
+            churchInfo.podcastDescription || churchInfo.missionStatement || `Sermons and teachings from ${churchName}`,
+          siteUrl: `${siteUrl}/teachings`,
+          feedUrl: `${siteUrl}/podcast.xml`,
+          author: churchName,
+          email: churchInfo.email,
+          imageUrl: churchInfo.podcastImageUrl,
+        },
+        episodes
+      ),
+    };
+  } catch (error) {
+    console.error('Error building podcast feed:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
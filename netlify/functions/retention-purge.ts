@@ -0,0 +1,116 @@
+// Scheduled Netlify Function that applies the POPIA retention policies from Settings > Privacy
+// Expired records are anonymised or deleted unless they are on legal hold; every run leaves a report for super admins
+import { schedule } from '@netlify/functions';
+import * as admin from 'firebase-admin';
+import {
+  RETENTION_DEFINITIONS,
+  getRetentionCutoff,
+  isRetentionExpired,
+  isValidRetentionDays,
+  MIN_RETENTION_DAYS,
+  RetentionCollection,
+  RetentionPolicy,
+  RetentionRunResult,
+} from '../../src/lib/retention';
+import { anonymiseRecord } from '../lib/anonymise';
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = admin.firestore();
+
+const POLICIES_COLLECTION = 'retention_policies';
+const REPORTS_COLLECTION = 'retention_reports';
+// Scheduled functions stop after 30 seconds; whatever is left waits for tomorrow's run
+const TIME_BUDGET_MS = 20 * 1000;
+
+const loadPolicy = async (collection: RetentionCollection, defaults: RetentionPolicy): Promise<RetentionPolicy> => {
+  const snapshot = await db.collection(POLICIES_COLLECTION).doc(collection).get();
+  return { ...defaults, ...(snapshot.data() as Partial<RetentionPolicy> | undefined) };
+};
+
+export const handler = schedule('0 2 * * *', async () => {
+  const startedAt = Date.now();
+  const results: RetentionRunResult[] = [];
+  const errors: string[] = [];
+
+  try {
+    for (const definition of RETENTION_DEFINITIONS) {
+      const policy = await loadPolicy(definition.collection, definition.defaults);
+      if (!policy.enabled) continue;
+      if (!isValidRetentionDays(policy.retentionDays)) {
+        errors.push(
+          `${definition.collection}: skipped because the retention period (${String(policy.retentionDays)}) ` +
+            `is not a whole number of at least ${MIN_RETENTION_DAYS} days`
+        );
+        continue;
+      }
+
+      const cutoff = getRetentionCutoff(policy);
+      const result: RetentionRunResult = {
+        collection: definition.collection,
+        action: policy.action,
+        retentionDays: policy.retentionDays,
+        cutoff: cutoff.toISOString(),
+        processed: 0,
+        held: 0,
+        failed: 0,
+        remaining: 0,
+      };
+
+      // Every retention date is on or after createdAt, so this catches all candidates
+      const snapshot = await db
+        .collection(definition.collection)
+        .where('createdAt', '<', admin.firestore.Timestamp.fromDate(cutoff))
+        .get();
+
+      for (const doc of snapshot.docs) {
+        const data = doc.data();
+        if (!isRetentionExpired(definition.collection, data, cutoff)) continue;
+        if (policy.action === 'anonymise' && data.anonymisedAt) continue;
+        if (data.legalHold) {
+          result.held++;
+          continue;
+        }
+        if (Date.now() - startedAt > TIME_BUDGET_MS) {
+          result.remaining++;
+          continue;
+        }
+
+        try {
+          if (policy.action === 'purge') {
+            await db.recursiveDelete(doc.ref);
+          } else {
+            await anonymiseRecord(db, definition.collection, doc.ref);
+          }
+          result.processed++;
+        } catch (error) {
+          console.error(`Error applying retention to ${doc.ref.path}:`, error);
+          result.failed++;
+          errors.push(`${doc.ref.path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      results.push(result);
+    }
+  } catch (error) {
+    console.error('Error running retention policies:', error);
+    errors.push(error instanceof Error ? error.message : 'Unknown error');
+  }
+
+  await db.collection(REPORTS_COLLECTION).add({
+    ranAt: admin.firestore.FieldValue.serverTimestamp(),
+    results,
+    errors,
+  });
+
+  return { statusCode: errors.length > 0 ? 500 : 200 };
+});
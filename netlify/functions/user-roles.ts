@@ -0,0 +1,214 @@
+// Netlify Function that assigns roles: writes user_roles and mirrors the role into the user's
+// custom claims, so the admin panel and the security rules read it from the ID token
+import { Handler } from '@netlify/functions';
+import * as admin from 'firebase-admin';
+import { createHash, timingSafeEqual } from 'crypto';
+import { hasCapability, isAdminRole, UserRole } from '../../src/lib/permissions';
+import { LastSuperAdminError, setRoleClaim, transferOwnership, writeRole } from '../lib/roles';
+import { InvalidBodyError, parseBody } from '../lib/requestBody';
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = admin.firestore();
+const auth = admin.auth();
+
+const USER_ROLES_COLLECTION = 'user_roles';
+const BOOTSTRAP_DOC = 'system/bootstrap';
+
+class HttpError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest();
+
+// One-time setup of a new site: whoever has ADMIN_BOOTSTRAP_CODE becomes the first super admin.
+// It works once, never while a super admin exists, and not at all without the environment variable
+const bootstrapOwner = async (callerId: string, code: unknown) => {
+  const expected = process.env.ADMIN_BOOTSTRAP_CODE;
+  if (!expected) {
+    throw new HttpError(403, 'Setup is not enabled on this site');
+  }
+  if (typeof code !== 'string' || !timingSafeEqual(sha256(code), sha256(expected))) {
+    throw new HttpError(403, 'That setup code is not correct');
+  }
+
+  await db.runTransaction(async (transaction) => {
+    const bootstrapRef = db.doc(BOOTSTRAP_DOC);
+    const bootstrapDoc = await transaction.get(bootstrapRef);
+    const superAdmins = await transaction.get(
+      db.collection(USER_ROLES_COLLECTION).where('role', '==', 'super_admin').limit(1)
+    );
+    if (bootstrapDoc.exists || !superAdmins.empty) {
+      throw new HttpError(409, 'This site has already been set up');
+    }
+
+    transaction.set(bootstrapRef, {
+      completedBy: callerId,
+      completedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    transaction.set(db.collection(USER_ROLES_COLLECTION).doc(callerId), {
+      userId: callerId,
+      role: 'super_admin',
+      assignedBy: 'bootstrap',
+      assignedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+  await setRoleClaim(callerId, 'super_admin');
+};
+
+// Only super admins can hand out or take away super admin, and nobody changes their own role.
+// The account must exist, or the role would be stored before setting its claims failed
+const assertCanAssign = async (callerId: string, callerRole: UserRole | undefined, userId: string, role: UserRole) => {
+  if (!hasCapability(callerRole, 'admins.manage')) {
+    throw new HttpError(403, 'Your role does not include managing admins');
+  }
+  if (userId === callerId) {
+    throw new HttpError(400, 'You cannot change your own role');
+  }
+  if (!userId) {
+    throw new HttpError(400, 'User ID is required');
+  }
+  try {
+    await auth.getUser(userId);
+  } catch (error) {
+    if ((error as { code?: string }).code === 'auth/user-not-found') {
+      throw new HttpError(404, 'User not found');
+    }
+    throw error;
+  }
+
+  const current = (await db.collection(USER_ROLES_COLLECTION).doc(userId).get()).data()?.role;
+  if ((role === 'super_admin' || current === 'super_admin') && callerRole !== 'super_admin') {
+    throw new HttpError(403, 'Only super admins can change super admin access');
+  }
+};
+
+export const handler: Handler = async (event) => {
+  // CORS headers
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+
+  // Handle preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  // Only allow POST
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    // Get auth token from header
+    const authHeader = event.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      throw new HttpError(401, 'Unauthorized - No token provided');
+    }
+
+    const decodedToken = await auth.verifyIdToken(authHeader.substring(7));
+    const callerId = decodedToken.uid;
+    const callerRole = decodedToken.role as UserRole | undefined;
+    const body = parseBody(event.body);
+    const userId = typeof body.userId === 'string' ? body.userId : '';
+    const role = body.role as UserRole;
+
+    switch (body.action) {
+      case 'set_role': {
+        if (role !== 'user' && !isAdminRole(role)) {
+          throw new HttpError(400, 'Unknown role');
+        }
+        await assertCanAssign(callerId, callerRole, userId, role);
+        await writeRole(db, userId, role, callerId);
+        break;
+      }
+      case 'remove_role': {
+        await assertCanAssign(callerId, callerRole, userId, 'user');
+        await writeRole(db, userId, 'user', callerId);
+        break;
+      }
+      case 'transfer_ownership': {
+        if (callerRole !== 'super_admin') {
+          throw new HttpError(403, 'Only super admins can transfer ownership');
+        }
+        if (userId === callerId) {
+          throw new HttpError(400, 'Choose someone other than yourself');
+        }
+        const targetRole = (await db.collection(USER_ROLES_COLLECTION).doc(userId).get()).data()?.role;
+        if (!isAdminRole(targetRole) || targetRole === 'super_admin') {
+          throw new HttpError(400, 'Ownership can only go to an admin who is not already a super admin');
+        }
+        await transferOwnership(db, callerId, userId);
+        break;
+      }
+      case 'bootstrap':
+        await bootstrapOwner(callerId, body.code);
+        break;
+      case 'sync_claims': {
+        // Copies the caller's stored role into their token, for accounts from before roles were claims.
+        // Users without a stored role are left alone
+        const storedRole = (await db.collection(USER_ROLES_COLLECTION).doc(callerId).get()).data()?.role;
+        if (storedRole) {
+          await setRoleClaim(callerId, storedRole);
+        }
+        break;
+      }
+      default:
+        throw new HttpError(400, 'Unknown action');
+    }
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({ success: true }),
+    };
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return {
+        statusCode: error.statusCode,
+        headers,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+    if (error instanceof InvalidBodyError) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+    if (error instanceof LastSuperAdminError) {
+      return {
+        statusCode: 409,
+        headers,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+
+    console.error('Error updating user role:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
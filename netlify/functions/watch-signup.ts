@@ -0,0 +1,140 @@
+// Netlify Function for joining a prayer watch: the slot must exist, be active and have room,
+// checked in a Firestore transaction so two people cannot take the last place at once
+import { Handler } from '@netlify/functions';
+import * as admin from 'firebase-admin';
+import { InvalidBodyError, parseBody } from '../lib/requestBody';
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = admin.firestore();
+const auth = admin.auth();
+
+const WATCH_SLOTS_COLLECTION = 'watch_slots';
+const WATCH_SIGNUPS_COLLECTION = 'watch_signups';
+
+class HttpError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+const claimSlot = async (decodedToken: admin.auth.DecodedIdToken, slotId: unknown) => {
+  if (typeof slotId !== 'string' || !slotId) {
+    throw new HttpError(400, 'Slot ID is required');
+  }
+
+  const profile = (await db.collection('users').doc(decodedToken.uid).get()).data();
+  const displayName: string =
+    profile?.displayName || decodedToken.name || decodedToken.email?.split('@')[0] || 'Intercessor';
+
+  const slotRef = db.collection(WATCH_SLOTS_COLLECTION).doc(slotId);
+  // Same ID as the security rules pin, so each person holds one place per slot
+  const signupRef = db.collection(WATCH_SIGNUPS_COLLECTION).doc(`${slotId}_${decodedToken.uid}`);
+
+  await db.runTransaction(async (transaction) => {
+    const slotDoc = await transaction.get(slotRef);
+    const slot = slotDoc.data();
+    if (!slot || !slot.isActive) {
+      throw new HttpError(404, 'This watch is not open for sign-ups');
+    }
+
+    const existing = await transaction.get(signupRef);
+    if (existing.exists) return;
+
+    const signups = await transaction.get(db.collection(WATCH_SIGNUPS_COLLECTION).where('slotId', '==', slotId));
+    if (signups.size >= slot.capacity) {
+      throw new HttpError(409, 'This watch is already full');
+    }
+
+    transaction.set(signupRef, {
+      slotId,
+      userId: decodedToken.uid,
+      displayName,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+
+  return { success: true };
+};
+
+export const handler: Handler = async (event) => {
+  // CORS headers
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+
+  // Handle preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  // Only allow POST
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    // Get auth token from header
+    const authHeader = event.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      throw new HttpError(401, 'Unauthorized - No token provided');
+    }
+
+    const decodedToken = await auth.verifyIdToken(authHeader.substring(7));
+    const body = parseBody(event.body);
+    let result: Record<string, unknown>;
+
+    switch (body.action) {
+      case 'claim':
+        result = await claimSlot(decodedToken, body.slotId);
+        break;
+      default:
+        throw new HttpError(400, 'Unknown action');
+    }
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify(result),
+    };
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return {
+        statusCode: error.statusCode,
+        headers,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+    if (error instanceof InvalidBodyError) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+
+    console.error('Error joining prayer watch:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
@@ -0,0 +1,191 @@
+// Netlify Function that imports new uploads from the church YouTube channel
+// New uploads become inactive video drafts; videos deleted on YouTube are flagged, never removed
+import { Handler } from '@netlify/functions';
+import * as admin from 'firebase-admin';
+import { hasCapability } from '../../src/lib/permissions';
+import {
+  createFixtureFetcher,
+  createYouTubeApiFetcher,
+  planYouTubeSync,
+  YouTubeFetcher,
+  YouTubeFixtureUpload,
+} from '../../src/lib/youtube';
+import fixtureUploads from '../fixtures/youtube-uploads.json';
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = admin.firestore();
+const auth = admin.auth();
+
+const VIDEOS_COLLECTION = 'videos';
+const SYNC_STATUS_DOC = 'youtube_sync/status';
+// Firestore batches are limited to 500 writes
+const BATCH_SIZE = 400;
+
+/**
+ * Picks the channel data source. YOUTUBE_SYNC_SOURCE=fixture reads
+ * netlify/fixtures/youtube-uploads.json instead of calling YouTube.
+ */
+const getFetcher = (): YouTubeFetcher | null => {
+  if (process.env.YOUTUBE_SYNC_SOURCE === 'fixture') {
+    return createFixtureFetcher(fixtureUploads as YouTubeFixtureUpload[]);
+  }
+  return process.env.YOUTUBE_API_KEY ? createYouTubeApiFetcher(process.env.YOUTUBE_API_KEY) : null;
+};
+
+const commitInBatches = async (writes: ((batch: admin.firestore.WriteBatch) => void)[]) => {
+  for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    writes.slice(i, i + BATCH_SIZE).forEach((write) => write(batch));
+    await batch.commit();
+  }
+};
+
+export const handler: Handler = async (event) => {
+  // CORS headers
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+
+  // Handle preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  // Only allow POST
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    // Get auth token from header
+    const authHeader = event.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify({ error: 'Unauthorized - No token provided' }),
+      };
+    }
+
+    const decodedToken = await auth.verifyIdToken(authHeader.substring(7));
+    const role = decodedToken.role;
+
+    if (!hasCapability(role, 'videos.write')) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify({ error: 'Your role does not include syncing videos' }),
+      };
+    }
+
+    const fetcher = getFetcher();
+    if (!fetcher) {
+      return {
+        statusCode: 500,
+        headers,
+        body: JSON.stringify({ error: 'YouTube sync is not configured - set YOUTUBE_API_KEY' }),
+      };
+    }
+
+    const churchInfoSnapshot = await db.collection('church_info').limit(1).get();
+    const channelUrl: string = churchInfoSnapshot.docs[0]?.data().youtubeChannelUrl || '';
+    if (!channelUrl) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: 'Add the YouTube channel URL in Settings first' }),
+      };
+    }
+
+    const videosSnapshot = await db.collection(VIDEOS_COLLECTION).get();
+    // Audio-only teachings have no YouTube video to check
+    const existing = videosSnapshot.docs
+      .filter((doc) => doc.data().youtubeVideoId)
+      .map((doc) => ({
+        id: doc.id,
+        youtubeVideoId: doc.data().youtubeVideoId as string,
+        removedUpstream: !!doc.data().removedUpstreamAt,
+      }));
+
+    const uploads = await fetcher.listUploads(channelUrl);
+    const availableVideoIds = await fetcher.getAvailableVideoIds(existing.map((video) => video.youtubeVideoId));
+    const plan = planYouTubeSync(existing, uploads, availableVideoIds);
+
+    const maxOrder = Math.max(0, ...videosSnapshot.docs.map((doc) => doc.data().displayOrder || 0));
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    const videosRef = db.collection(VIDEOS_COLLECTION);
+
+    // Oldest new upload first, so the newest ends up last like a manually added video
+    const writes = [
+      ...[...plan.newUploads].reverse().map((upload, index) => (batch: admin.firestore.WriteBatch) =>
+        batch.set(videosRef.doc(), {
+          title: upload.title,
+          youtubeVideoId: upload.videoId,
+          description: upload.description,
+          thumbnailUrl: upload.thumbnailUrl,
+          duration: upload.durationSeconds,
+          publishedAt: admin.firestore.Timestamp.fromDate(upload.publishedAt),
+          displayOrder: maxOrder + index + 1,
+          isActive: false,
+          importedFromYouTube: true,
+          removedUpstreamAt: null,
+          createdAt: now,
+          updatedAt: now,
+        })
+      ),
+      ...plan.removedIds.map((id) => (batch: admin.firestore.WriteBatch) =>
+        batch.update(videosRef.doc(id), { removedUpstreamAt: now, updatedAt: now })
+      ),
+      ...plan.restoredIds.map((id) => (batch: admin.firestore.WriteBatch) =>
+        batch.update(videosRef.doc(id), { removedUpstreamAt: null, updatedAt: now })
+      ),
+    ];
+    await commitInBatches(writes);
+
+    const summary = {
+      imported: plan.newUploads.length,
+      removed: plan.removedIds.length,
+      restored: plan.restoredIds.length,
+      checked: uploads.length,
+    };
+
+    await db.doc(SYNC_STATUS_DOC).set({
+      ...summary,
+      source: fetcher.name,
+      channelUrl,
+      syncedBy: decodedToken.uid,
+      syncedAt: now,
+    });
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({ success: true, ...summary }),
+    };
+  } catch (error) {
+    console.error('Error syncing YouTube channel:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }),
+    };
+  }
+};
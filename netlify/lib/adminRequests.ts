@@ -0,0 +1,35 @@
+// Emails to the person who asked for admin access, shared by the admin-requests and admin-request-expiry functions
+import * as admin from 'firebase-admin';
+import type { EmailTemplateKey } from '../../src/lib/emailTemplates';
+import { getChurchPlaceholders, sendTemplatedEmail } from './templatedEmail';
+
+// Failures are logged, never thrown - the request has already been updated
+export const emailRequester = async (
+  db: admin.firestore.Firestore,
+  key: EmailTemplateKey,
+  request: admin.firestore.DocumentData,
+  values: Record<string, string> = {}
+) => {
+  if (!request.email) return;
+
+  try {
+    const churchInfoSnapshot = await db.collection('church_info').limit(1).get();
+    const churchInfo = churchInfoSnapshot.docs[0]?.data();
+    await sendTemplatedEmail(
+      db,
+      key,
+      [request.email],
+      {
+        ...getChurchPlaceholders(churchInfo),
+        name: request.displayName || request.email,
+        email: request.email,
+        ministry: request.ministry || '',
+        statusUrl: `${process.env.URL || 'http://localhost:8888'}/admin-request`,
+        ...values,
+      },
+      churchInfo?.email
+    );
+  } catch (error) {
+    console.error(`Error sending ${key} email:`, error);
+  }
+};
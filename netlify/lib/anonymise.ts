@@ -0,0 +1,32 @@
+// Removes the personal details from a record but keeps the record itself, so counts and dashboards stay accurate
+// Used by the retention-purge function and when a user's account is deleted
+import * as admin from 'firebase-admin';
+import { ANONYMISED_NAME, ANONYMISED_TEXT, RetentionCollection } from '../../src/lib/retention';
+
+export const anonymiseRecord = async (
+  db: admin.firestore.Firestore,
+  collection: RetentionCollection,
+  ref: admin.firestore.DocumentReference
+) => {
+  const anonymisedAt = admin.firestore.FieldValue.serverTimestamp();
+  switch (collection) {
+    case 'contact_submissions':
+      await ref.update({ name: ANONYMISED_NAME, email: '', message: ANONYMISED_TEXT, anonymisedAt });
+      // Replies quote the original message and notes may name the sender
+      await db.recursiveDelete(ref.collection('thread'));
+      break;
+    case 'prayer_requests':
+      await ref.update({ displayName: 'Anonymous', anonymisedAt });
+      await db.recursiveDelete(ref.collection('private'));
+      break;
+    case 'admin_requests':
+      await ref.update({
+        email: '',
+        displayName: ANONYMISED_NAME,
+        justification: ANONYMISED_TEXT,
+        rejectionReason: admin.firestore.FieldValue.delete(),
+        anonymisedAt,
+      });
+      break;
+  }
+};
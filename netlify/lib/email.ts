@@ -0,0 +1,158 @@
+// Outgoing email for Netlify functions
+// Production sends through the Resend HTTP API; development points at a local SMTP catcher such as Mailpit
+// or writes .eml files to a folder
+import * as net from 'net';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  replyTo?: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send: (message: EmailMessage & { from: string }) => Promise<void>;
+}
+
+// "Shiloh <info@example.org>" -> "info@example.org"
+const extractAddress = (value: string): string => value.match(/<([^>]+)>/)?.[1] || value.trim();
+
+// RFC 2047 encoded-word, so names and subjects with accents survive every mail client
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+const buildMime = (message: EmailMessage & { from: string }): string => {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    ...(message.replyTo ? [`Reply-To: ${message.replyTo}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${extractAddress(message.from).split('@')[1] || 'localhost'}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  // Lines starting with a dot are doubled so they are not read as the end of DATA
+  const body = message.text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+};
+
+/**
+ * Minimal SMTP client for a local catcher (Mailpit, MailHog) in development.
+ * No TLS or authentication - never point it at a real mail server.
+ */
+export const createSmtpTransport = (host: string, port: number): EmailTransport => ({
+  name: 'smtp',
+  send: (message) =>
+    new Promise((resolve, reject) => {
+      const commands = [
+        'EHLO localhost',
+        `MAIL FROM:<${extractAddress(message.from)}>`,
+        `RCPT TO:<${extractAddress(message.to)}>`,
+        'DATA',
+        `${buildMime(message)}\r\n.`,
+        'QUIT',
+      ];
+      let step = -1;
+      let buffer = '';
+
+      const socket = net.createConnection(port, host);
+      socket.setEncoding('utf8');
+      socket.setTimeout(10000, () => {
+        socket.destroy();
+        reject(new Error('SMTP server timed out'));
+      });
+      socket.on('error', reject);
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        // Wait for the final line of a (possibly multi-line) reply, e.g. "250 OK"
+        const lines = buffer.split('\r\n').filter(Boolean);
+        const last = lines[lines.length - 1] || '';
+        if (!buffer.endsWith('\r\n') || !/^\d{3} /.test(last)) return;
+        buffer = '';
+
+        if (Number(last.slice(0, 3)) >= 400) {
+          socket.end();
+          reject(new Error(`SMTP server replied: ${last}`));
+          return;
+        }
+        step += 1;
+        if (step < commands.length) {
+          socket.write(`${commands[step]}\r\n`);
+        } else {
+          socket.end();
+          resolve();
+        }
+      });
+    }),
+});
+
+/**
+ * Writes each message as an .eml file that any mail client can open.
+ * For development and CI, where nothing should leave the machine.
+ */
+export const createFileTransport = (directory: string): EmailTransport => ({
+  name: 'file',
+  send: async (message) => {
+    await fs.mkdir(directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}.eml`;
+    await fs.writeFile(path.join(directory, fileName), buildMime(message), 'utf8');
+  },
+});
+
+export const createResendTransport = (apiKey: string): EmailTransport => ({
+  name: 'resend',
+  send: async (message) => {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        from: message.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        ...(message.replyTo && { reply_to: message.replyTo }),
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Resend rejected the email with ${response.status}: ${await response.text()}`);
+    }
+  },
+});
+
+const getOutboxDirectory = () => process.env.EMAIL_OUTBOX_DIR || path.join('.netlify', 'outbox');
+
+/**
+ * Picks the transport from the environment. EMAIL_TRANSPORT forces one
+ * (resend, smtp or file); otherwise RESEND_API_KEY in production, then
+ * SMTP_HOST/SMTP_PORT for a local catcher. Null when nothing is set.
+ */
+export const getEmailTransport = (): EmailTransport | null => {
+  switch (process.env.EMAIL_TRANSPORT) {
+    case 'file':
+      return createFileTransport(getOutboxDirectory());
+    case 'smtp':
+      return createSmtpTransport(process.env.SMTP_HOST || 'localhost', Number(process.env.SMTP_PORT) || 1025);
+    case 'resend':
+      return process.env.RESEND_API_KEY ? createResendTransport(process.env.RESEND_API_KEY) : null;
+  }
+  if (process.env.RESEND_API_KEY) return createResendTransport(process.env.RESEND_API_KEY);
+  if (process.env.SMTP_HOST) return createSmtpTransport(process.env.SMTP_HOST, Number(process.env.SMTP_PORT) || 1025);
+  return null;
+};
+
+export const sendEmail = async (message: EmailMessage): Promise<void> => {
+  const transport = getEmailTransport();
+  if (!transport) {
+    throw new Error('Email is not configured - set RESEND_API_KEY, SMTP_HOST or EMAIL_TRANSPORT=file');
+  }
+  await transport.send({ ...message, from: process.env.EMAIL_FROM || 'Shiloh Intercession Mountain <noreply@localhost>' });
+};
@@ -0,0 +1,48 @@
+// Fixed-window counters for the public functions, read and written inside the caller's own transaction
+// Keys are hashed so raw IP and email addresses are never stored
+import * as admin from 'firebase-admin';
+import { createHash } from 'crypto';
+
+export interface RateLimit {
+  key: string;
+  max: number;
+}
+
+export const getClientIp = (headers: Record<string, string | undefined>) =>
+  headers['x-nf-client-connection-ip'] || headers['x-forwarded-for']?.split(',')[0].trim() || 'unknown';
+
+/**
+ * Reads the window for each key and reports whether any is already at its limit.
+ * `count` records this request against every key; call it only after the transaction's other reads.
+ */
+export const readRateLimits = async (
+  transaction: admin.firestore.Transaction,
+  collection: admin.firestore.CollectionReference,
+  limits: RateLimit[],
+  windowMs: number
+) => {
+  const refs = limits.map(({ key }) => collection.doc(createHash('sha256').update(key).digest('hex')));
+  const snapshots = await Promise.all(refs.map((ref) => transaction.get(ref)));
+  const now = Date.now();
+
+  const windows = snapshots.map((snapshot) => {
+    const data = snapshot.data();
+    const windowStart: number = data?.windowStart?.toMillis() ?? 0;
+    return now - windowStart < windowMs
+      ? { windowStart, count: data?.count || 0 }
+      : { windowStart: now, count: 0 };
+  });
+
+  return {
+    exceeded: windows.some((window, i) => window.count >= limits[i].max),
+    count: () => {
+      windows.forEach((window, i) => {
+        transaction.set(refs[i], {
+          count: window.count + 1,
+          windowStart: admin.firestore.Timestamp.fromMillis(window.windowStart),
+          expiresAt: admin.firestore.Timestamp.fromMillis(window.windowStart + windowMs),
+        });
+      });
+    },
+  };
+};
@@ -0,0 +1,18 @@
+// JSON request bodies for the functions that take an action; a malformed body is the caller's
+// mistake, so each function answers InvalidBodyError with a 400 rather than falling through to a 500
+
+export class InvalidBodyError extends Error {
+  constructor() {
+    super('Invalid request body');
+  }
+}
+
+export const parseBody = (raw: string | null): Record<string, unknown> => {
+  try {
+    const body = JSON.parse(raw || '{}');
+    if (body && typeof body === 'object' && !Array.isArray(body)) return body;
+  } catch {
+    // Reported below
+  }
+  throw new InvalidBodyError();
+};
@@ -0,0 +1,101 @@
+// Role changes shared by the functions that assign roles or delete accounts
+// user_roles is the directory of roles; the copy in the custom claims is what the app and the rules check
+import * as admin from 'firebase-admin';
+import { getCapabilities, hasCapability, UserRole } from '../../src/lib/permissions';
+
+export class LastSuperAdminError extends Error {
+  constructor() {
+    super('There must always be at least one super admin. Transfer ownership to someone else first.');
+  }
+}
+
+// Keeps any other claims the user has; the new role reaches their token on its next refresh
+export const setRoleClaim = async (userId: string, role: UserRole) => {
+  const user = await admin.auth().getUser(userId);
+  await admin.auth().setCustomUserClaims(userId, { ...user.customClaims, role });
+};
+
+const superAdminsQuery = (db: admin.firestore.Firestore) =>
+  db.collection('user_roles').where('role', '==', 'super_admin');
+
+// Read inside the transaction, so two super admins demoting each other at once cannot both succeed
+const assertNotLastSuperAdmin = async (
+  transaction: admin.firestore.Transaction,
+  db: admin.firestore.Firestore,
+  userId: string
+) => {
+  const superAdmins = await transaction.get(superAdminsQuery(db));
+  if (superAdmins.size <= 1 && superAdmins.docs.some((roleDoc) => roleDoc.id === userId)) {
+    throw new LastSuperAdminError();
+  }
+};
+
+export const isLastSuperAdmin = async (db: admin.firestore.Firestore, userId: string) => {
+  const superAdmins = await superAdminsQuery(db).get();
+  return superAdmins.size <= 1 && superAdmins.docs.some((roleDoc) => roleDoc.id === userId);
+};
+
+const roleRecord = (userId: string, role: UserRole, assignedBy: string) => ({
+  userId,
+  role,
+  assignedBy,
+  assignedAt: admin.firestore.FieldValue.serverTimestamp(),
+});
+
+export const losesAccess = (from: UserRole | undefined, to: UserRole) =>
+  (from === 'super_admin' && to !== 'super_admin') ||
+  getCapabilities(from).some((capability) => !hasCapability(to, capability));
+
+// Runs inside the role transaction with the user's current role, after the role reads; it may read
+// and write other documents, and throwing leaves the role unchanged
+export type RoleChangeCheck = (
+  previousRole: UserRole | undefined,
+  transaction: admin.firestore.Transaction
+) => Promise<void> | void;
+
+// When the new role takes anything away, the user's refresh tokens are revoked so the old claims
+// cannot be renewed; they have to sign in again once their current ID token expires
+export const writeRole = async (
+  db: admin.firestore.Firestore,
+  userId: string,
+  role: UserRole,
+  assignedBy: string,
+  check?: RoleChangeCheck
+) => {
+  const roleRef = db.collection('user_roles').doc(userId);
+  const previousRole = await db.runTransaction(async (transaction) => {
+    const previous = (await transaction.get(roleRef)).data()?.role as UserRole | undefined;
+    if (role !== 'super_admin') {
+      await assertNotLastSuperAdmin(transaction, db, userId);
+    }
+    await check?.(previous, transaction);
+    transaction.set(roleRef, roleRecord(userId, role, assignedBy));
+    return previous;
+  });
+  await setRoleClaim(userId, role);
+  if (losesAccess(previousRole, role)) {
+    await admin.auth().revokeRefreshTokens(userId);
+  }
+};
+
+// For accounts being deleted; the claims go with the account. Returns whether there was a role to delete
+export const deleteRole = async (db: admin.firestore.Firestore, userId: string): Promise<boolean> => {
+  const roleRef = db.collection('user_roles').doc(userId);
+  return db.runTransaction(async (transaction) => {
+    const roleDoc = await transaction.get(roleRef);
+    await assertNotLastSuperAdmin(transaction, db, userId);
+    transaction.delete(roleRef);
+    return roleDoc.exists;
+  });
+};
+
+// The new owner is promoted before the old one steps down to admin, in one write. The old owner chose
+// this, so their session is kept and the admin panel refreshes their token straight away
+export const transferOwnership = async (db: admin.firestore.Firestore, fromId: string, toId: string) => {
+  const batch = db.batch();
+  batch.set(db.collection('user_roles').doc(toId), roleRecord(toId, 'super_admin', fromId));
+  batch.set(db.collection('user_roles').doc(fromId), roleRecord(fromId, 'admin', fromId));
+  await batch.commit();
+  await setRoleClaim(toId, 'super_admin');
+  await setRoleClaim(fromId, 'admin');
+};
@@ -0,0 +1,45 @@
+// Sends the admin-editable email templates from lib/emailTemplates
+// Templates live in the email_templates collection once edited in Settings; the built-in defaults apply until then
+import type { firestore } from 'firebase-admin';
+import { sendEmail } from './email';
+import {
+  getEmailTemplateDefinition,
+  renderEmailTemplate,
+  EmailTemplate,
+  EmailTemplateKey,
+} from '../../src/lib/emailTemplates';
+
+const EMAIL_TEMPLATES_COLLECTION = 'email_templates';
+
+export const loadEmailTemplate = async (db: firestore.Firestore, key: EmailTemplateKey): Promise<EmailTemplate> => {
+  const snapshot = await db.collection(EMAIL_TEMPLATES_COLLECTION).doc(key).get();
+  return { ...getEmailTemplateDefinition(key).defaults, ...(snapshot.data() as Partial<EmailTemplate> | undefined) };
+};
+
+// The {{churchName}}, {{churchEmail}} and {{churchPhone}} values every template can use
+export const getChurchPlaceholders = (churchInfo: firestore.DocumentData | undefined): Record<string, string> => ({
+  churchName: churchInfo?.churchName || 'Shiloh Intercession Mountain',
+  churchEmail: churchInfo?.email || '',
+  churchPhone: churchInfo?.phone || '',
+});
+
+/**
+ * Renders a template and sends it to each recipient separately, so nobody sees
+ * the other addresses. Returns how many were sent; 0 when the template is turned off.
+ */
+export const sendTemplatedEmail = async (
+  db: firestore.Firestore,
+  key: EmailTemplateKey,
+  recipients: string[],
+  values: Record<string, string>,
+  replyTo?: string
+): Promise<number> => {
+  const template = await loadEmailTemplate(db, key);
+  if (!template.enabled || recipients.length === 0) return 0;
+
+  const { subject, text } = renderEmailTemplate(template, values);
+  for (const to of recipients) {
+    await sendEmail({ to, subject, text, replyTo });
+  }
+  return recipients.length;
+};
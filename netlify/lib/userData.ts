@@ -0,0 +1,216 @@
+// Finds everything stored about a user, for the "My data" export and for erasing it when their account is deleted
+// Website submissions carry no user ID, so they are matched on the account's email address - only once it is
+// verified, or anyone could sign up with someone else's address and read or erase what that person sent
+import * as admin from 'firebase-admin';
+import { ANONYMISED_NAME } from '../../src/lib/retention';
+import type { MyDataExport } from '../../src/lib/myData';
+import { anonymiseRecord } from './anonymise';
+import { deleteRole } from './roles';
+
+type Data = Record<string, unknown>;
+
+// Timestamps become ISO strings so the export is plain JSON
+const serialize = (value: unknown): unknown => {
+  if (value instanceof admin.firestore.Timestamp) return value.toDate().toISOString();
+  if (Array.isArray(value)) return value.map(serialize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, serialize(item)]));
+  }
+  return value;
+};
+
+const pick = (data: admin.firestore.DocumentData | undefined, fields: string[]): Data | null =>
+  data ? (serialize(Object.fromEntries(fields.filter((field) => field in data).map((field) => [field, data[field]]))) as Data) : null;
+
+// Emails are lower-cased when they are stored; records from before that kept the spelling as typed,
+// so the account's own spelling is looked for too
+const getEmailVariants = (email: string) => [...new Set([email, email.toLowerCase()])].filter(Boolean);
+
+const findContactSubmissions = (db: admin.firestore.Firestore, email: string) =>
+  db.collection('contact_submissions').where('email', 'in', getEmailVariants(email)).get();
+
+// Needs the single-field collection group index on private.email (see FIREBASE_INTEGRATION.md)
+const findPrayerContacts = async (db: admin.firestore.Firestore, email: string) => {
+  const snapshot = await db.collectionGroup('private').where('email', 'in', getEmailVariants(email)).get();
+  return snapshot.docs.filter((contactDoc) => contactDoc.ref.parent.parent?.parent.id === 'prayer_requests');
+};
+
+const findEventRegistrations = (db: admin.firestore.Firestore, email: string) =>
+  db.collection('event_registrations').where('email', 'in', getEmailVariants(email)).get();
+
+export const collectUserData = async (db: admin.firestore.Firestore, user: admin.auth.UserRecord): Promise<MyDataExport> => {
+  const email = user.email || '';
+  const verifiedEmail = user.emailVerified ? email : '';
+  const [profileDoc, roleDoc, requestDoc, watchSignups, galleryImages] = await Promise.all([
+    db.collection('users').doc(user.uid).get(),
+    db.collection('user_roles').doc(user.uid).get(),
+    db.collection('admin_requests').doc(user.uid).get(),
+    db.collection('watch_signups').where('userId', '==', user.uid).get(),
+    db.collection('gallery_images').where('uploadedBy', '==', user.uid).get(),
+  ]);
+
+  const [contactSnapshot, prayerContacts, registrations] = verifiedEmail
+    ? await Promise.all([
+        findContactSubmissions(db, verifiedEmail),
+        findPrayerContacts(db, verifiedEmail),
+        findEventRegistrations(db, verifiedEmail),
+      ])
+    : [null, null, null];
+
+  const contactMessages = await Promise.all(
+    (contactSnapshot?.docs || []).map(async (submissionDoc) => {
+      // Internal notes are for the team only; the replies were emailed to the user already
+      const replies = await submissionDoc.ref.collection('thread').where('type', '==', 'reply').get();
+      return {
+        ...pick(submissionDoc.data(), ['name', 'email', 'category', 'message', 'status', 'createdAt']),
+        replies: replies.docs.map((reply) => pick(reply.data(), ['body', 'emailedTo', 'createdAt'])),
+      };
+    })
+  );
+
+  const prayerRequests = await Promise.all(
+    (prayerContacts || []).map(async (contactDoc) => {
+      const requestDoc = await contactDoc.ref.parent.parent!.get();
+      return {
+        ...pick(requestDoc.data(), ['displayName', 'request', 'privacy', 'status', 'prayerCount', 'createdAt']),
+        contact: pick(contactDoc.data(), ['name', 'email']),
+      };
+    })
+  );
+
+  const profile = profileDoc.data();
+  const uploads: MyDataExport['uploads'] = [
+    ...(profile?.photoURL ? [{ type: 'profile_photo', url: profile.photoURL as string }] : []),
+    ...galleryImages.docs.map((imageDoc) => ({
+      type: 'gallery_image',
+      url: imageDoc.data().imageUrl as string,
+      ...pick(imageDoc.data(), ['title', 'description', 'createdAt']),
+    })),
+  ];
+
+  return {
+    exportedAt: new Date().toISOString(),
+    account: {
+      uid: user.uid,
+      email,
+      emailVerified: user.emailVerified,
+      createdAt: user.metadata.creationTime ? new Date(user.metadata.creationTime).toISOString() : null,
+      lastSignInAt: user.metadata.lastSignInTime ? new Date(user.metadata.lastSignInTime).toISOString() : null,
+    },
+    profile: profile ? (serialize(profile) as Data) : null,
+    role: pick(roleDoc.data(), ['role', 'assignedAt']),
+    adminRequest: pick(requestDoc.data(), ['email', 'status', 'createdAt', 'reviewedAt']),
+    contactMessages,
+    prayerRequests,
+    eventRegistrations: (registrations?.docs || []).map(
+      (registrationDoc) =>
+        pick(registrationDoc.data(), [
+          'eventTitle', 'name', 'email', 'phone', 'guests', 'status', 'confirmationCode', 'createdAt', 'cancelledAt',
+        ])!
+    ),
+    watchSignups: watchSignups.docs.map((signupDoc) => pick(signupDoc.data(), ['slotId', 'displayName', 'createdAt'])!),
+    uploads,
+  };
+};
+
+export interface EraseResult {
+  anonymised: number;
+  deleted: number;
+  held: number; // Kept because of a legal hold
+}
+
+/**
+ * Deletes the account and its documents, and anonymises what the user sent
+ * through the website. Records on legal hold are left untouched.
+ * Pass an empty verifiedEmail when the account's address was never verified.
+ */
+export const eraseUserData = async (
+  db: admin.firestore.Firestore,
+  uid: string,
+  verifiedEmail: string
+): Promise<EraseResult> => {
+  const result: EraseResult = { anonymised: 0, deleted: 0, held: 0 };
+
+  // Throws for the last super admin before anything is touched
+  if (await deleteRole(db, uid)) {
+    result.deleted++;
+  }
+
+  if (verifiedEmail) {
+    const [contactSnapshot, prayerContacts, registrations] = await Promise.all([
+      findContactSubmissions(db, verifiedEmail),
+      findPrayerContacts(db, verifiedEmail),
+      findEventRegistrations(db, verifiedEmail),
+    ]);
+
+    for (const submissionDoc of contactSnapshot.docs) {
+      if (submissionDoc.data().legalHold) {
+        result.held++;
+      } else {
+        await anonymiseRecord(db, 'contact_submissions', submissionDoc.ref);
+        result.anonymised++;
+      }
+    }
+
+    for (const contactDoc of prayerContacts) {
+      const requestRef = contactDoc.ref.parent.parent!;
+      if ((await requestRef.get()).data()?.legalHold) {
+        result.held++;
+      } else {
+        await anonymiseRecord(db, 'prayer_requests', requestRef);
+        result.anonymised++;
+      }
+    }
+
+    // Registrations still count towards event capacity, so they stay without the personal details
+    for (const registrationDoc of registrations.docs) {
+      await registrationDoc.ref.update({
+        name: ANONYMISED_NAME,
+        email: '',
+        phone: admin.firestore.FieldValue.delete(),
+      });
+      result.anonymised++;
+    }
+  }
+
+  const [watchSignups, galleryImages, requestDoc] = await Promise.all([
+    db.collection('watch_signups').where('userId', '==', uid).get(),
+    db.collection('gallery_images').where('uploadedBy', '==', uid).get(),
+    db.collection('admin_requests').doc(uid).get(),
+  ]);
+
+  const batch = db.batch();
+  watchSignups.docs.forEach((signupDoc) => batch.delete(signupDoc.ref));
+  // Gallery photos belong to the church; only the link to the uploader goes
+  galleryImages.docs.forEach((imageDoc) => batch.update(imageDoc.ref, { uploadedBy: admin.firestore.FieldValue.delete() }));
+  batch.delete(db.collection('users').doc(uid));
+  await batch.commit();
+  result.deleted += watchSignups.size + 1;
+
+  if (requestDoc.exists) {
+    if (requestDoc.data()?.legalHold) {
+      result.held++;
+    } else {
+      await requestDoc.ref.delete();
+      result.deleted++;
+    }
+  }
+
+  try {
+    const bucket = admin.storage().bucket(
+      process.env.FIREBASE_STORAGE_BUCKET || `${process.env.FIREBASE_PROJECT_ID}.firebasestorage.app`
+    );
+    await bucket.deleteFiles({ prefix: `avatars/${uid}/` });
+  } catch (error) {
+    console.error(`Error deleting avatar for ${uid}:`, error);
+  }
+
+  try {
+    await admin.auth().deleteUser(uid);
+  } catch (error) {
+    // Already gone if an admin removed the user during the grace period
+    if ((error as { code?: string }).code !== 'auth/user-not-found') throw error;
+  }
+
+  return result;
+};
@@ -0,0 +1,62 @@
+// Rewrites the generated permission helpers in firebase-security-rules.txt from src/lib/permissions.ts
+// Run `npm run rules:generate` after changing a capability or role bundle, then deploy the rules
+import { readFileSync, writeFileSync } from 'node:fs';
+import { ADMIN_ROLES, CAPABILITIES, getRolesWithCapability } from '../src/lib/permissions';
+
+const RULES_FILE = 'firebase-security-rules.txt';
+const START_MARKER = '// ===== GENERATED PERMISSIONS';
+const END_MARKER = '// ===== END GENERATED PERMISSIONS =====';
+
+const list = (values: string[]) => `[${values.map((value) => `'${value}'`).join(', ')}]`;
+
+// The role comes from the ID token's custom claims (set by the user-roles Netlify function),
+// so the same helpers work in both the Firestore and the Storage rules without reading user_roles
+const buildHelpers = () => {
+  const capabilityChecks = CAPABILITIES.map(
+    ({ capability }) => `(capability == '${capability}' && userRole() in ${list(getRolesWithCapability(capability))})`
+  );
+
+  return [
+    `${START_MARKER} (npm run rules:generate, from src/lib/permissions.ts) =====`,
+    'function userRole() {',
+    "  return request.auth.token.get('role', 'user');",
+    '}',
+    '',
+    '// Any role that opens the admin panel',
+    'function isAdmin() {',
+    `  return isSignedIn() && userRole() in ${list(ADMIN_ROLES)};`,
+    '}',
+    '',
+    '// Role bundles that grant each capability',
+    'function can(capability) {',
+    '  return isAdmin() && (',
+    ...capabilityChecks.map((check, index) => `    ${check}${index < capabilityChecks.length - 1 ? ' ||' : ''}`),
+    '  );',
+    '}',
+    END_MARKER,
+  ];
+};
+
+const output: string[] = [];
+let insideGenerated = false;
+
+for (const line of readFileSync(RULES_FILE, 'utf8').split('\n')) {
+  if (insideGenerated) {
+    insideGenerated = !line.includes(END_MARKER);
+    continue;
+  }
+
+  const markerIndex = line.indexOf(START_MARKER);
+  if (markerIndex === -1) {
+    output.push(line);
+    continue;
+  }
+
+  // Keeps the marker's indentation, and its comment prefix in the commented-out Storage rules
+  const prefix = line.slice(0, markerIndex);
+  output.push(...buildHelpers().map((helper) => `${prefix}${helper}`));
+  insideGenerated = true;
+}
+
+writeFileSync(RULES_FILE, output.join('\n'));
+console.log(`Updated the permission helpers in ${RULES_FILE}`);
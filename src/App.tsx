@@ -8,17 +8,29 @@ import Index from "./pages/Index";
 import FirebaseAuth from "./pages/FirebaseAuth";
 import Gallery from "./pages/Gallery";
 import PublicEvents from "./pages/Events";
+import EventDetail from "./pages/EventDetail";
+import Teachings from "./pages/Teachings";
+import TeachingDetail from "./pages/TeachingDetail";
+import PublicVideos from "./pages/Videos";
+import Live from "./pages/Live";
+import Prayer from "./pages/Prayer";
+import MyData from "./pages/MyData";
+import AcceptInvite from "./pages/AcceptInvite";
+import AdminRequest from "./pages/AdminRequest";
+import PrayerWatch from "./pages/PrayerWatch";
 import AdminLayout from "./pages/admin/AdminLayout";
 import Dashboard from "./pages/admin/Dashboard";
 import AdminEvents from "./pages/admin/Events";
 import Videos from "./pages/admin/Videos";
+import AdminLivestreams from "./pages/admin/Livestreams";
 import Messages from "./pages/admin/Messages";
+import AdminPrayerRequests from "./pages/admin/PrayerRequests";
+import AdminRoster from "./pages/admin/Roster";
 import Settings from "./pages/admin/Settings";
 import Admins from "./pages/admin/Admins";
 import AdminGallery from "./pages/admin/Gallery";
 import AdminProfile from "./pages/admin/Profile";
 import SetupAdmin from "./pages/admin/SetupAdmin";
-import SeedAdmin from "./pages/SeedAdmin";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -35,14 +47,28 @@ const App = () => (
             <Route path="/auth" element={<FirebaseAuth />} />
             <Route path="/gallery" element={<Gallery />} />
             <Route path="/events" element={<PublicEvents />} />
-            <Route path="/seed-admin" element={<SeedAdmin />} />
+            <Route path="/events/:eventId" element={<EventDetail />} />
+            <Route path="/teachings" element={<Teachings />} />
+            <Route path="/teachings/:videoId" element={<TeachingDetail />} />
+            <Route path="/videos" element={<PublicVideos />} />
+            <Route path="/live" element={<Live />} />
+            <Route path="/live/:streamId" element={<Live />} />
+            <Route path="/prayer" element={<Prayer />} />
+            <Route path="/prayer-watch" element={<PrayerWatch />} />
+            <Route path="/my-data" element={<MyData />} />
+            <Route path="/accept-invite" element={<AcceptInvite />} />
+            <Route path="/admin-request" element={<AdminRequest />} />
             <Route path="/setup-admin" element={<SetupAdmin />} />
             <Route path="/admin" element={<AdminLayout />}>
               <Route index element={<Dashboard />} />
               <Route path="profile" element={<AdminProfile />} />
               <Route path="events" element={<AdminEvents />} />
               <Route path="videos" element={<Videos />} />
+              <Route path="livestreams" element={<AdminLivestreams />} />
               <Route path="messages" element={<Messages />} />
+              <Route path="messages/mine" element={<Messages key="mine" view="mine" />} />
+              <Route path="prayer-requests" element={<AdminPrayerRequests />} />
+              <Route path="roster" element={<AdminRoster />} />
               <Route path="admins" element={<Admins />} />
               <Route path="settings" element={<Settings />} />
               <Route path="gallery" element={<AdminGallery />} />
@@ -0,0 +1,48 @@
+import { CalendarPlus } from "lucide-react";
+import { Button, ButtonProps } from "@/components/ui/button";
+import { EventOccurrence } from "@/integrations/firebase/firestore/church";
+import { buildCalendar } from "@/lib/ical";
+import { getEventPath } from "@/lib/eventDetails";
+
+interface AddToCalendarButtonProps {
+  event: EventOccurrence;
+  variant?: ButtonProps["variant"];
+  size?: ButtonProps["size"];
+  className?: string;
+}
+
+// Downloads a single occurrence as an .ics file that phones and desktop calendars can import
+export function AddToCalendarButton({ event, variant = "outline", size = "sm", className }: AddToCalendarButtonProps) {
+  const handleDownload = () => {
+    const host = window.location.hostname;
+    const ics = buildCalendar(
+      [
+        {
+          uid: event.isRecurring ? `${event.id}-${event.occurrenceKey}@${host}` : `${event.id}@${host}`,
+          title: event.title,
+          description: event.description,
+          location: event.location,
+          url: `${window.location.origin}${getEventPath(event)}`,
+          date: event.occurrenceKey,
+          startTime: event.startTime,
+          endTime: event.endTime,
+        },
+      ],
+      { name: event.title }
+    );
+
+    const url = URL.createObjectURL(new Blob([ics], { type: "text/calendar;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${event.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "event"}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Button variant={variant} size={size} className={className} onClick={handleDownload}>
+      <CalendarPlus className="h-4 w-4 mr-2" />
+      Add to calendar
+    </Button>
+  );
+}
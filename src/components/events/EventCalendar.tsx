@@ -0,0 +1,170 @@
+import { useMemo } from "react";
+import { Link } from "react-router-dom";
+import {
+  addDays,
+  addMonths,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { EventOccurrence } from "@/integrations/firebase/firestore/church";
+import { getEventPath } from "@/lib/eventDetails";
+import { toOccurrenceKey, WEEKDAY_NAMES } from "@/lib/recurrence";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface EventCalendarProps {
+  month: Date;
+  events: EventOccurrence[];
+  onMonthChange: (month: Date) => void;
+  minMonth?: Date;
+  maxMonth?: Date;
+}
+
+const eventChipColors: Record<string, string> = {
+  weekly: "bg-primary/10 text-primary",
+  special: "bg-accent/10 text-accent",
+  youth: "bg-green-500/10 text-green-600",
+  fellowship: "bg-orange-500/10 text-orange-600",
+  general: "bg-muted text-muted-foreground",
+};
+
+// Cells list this many events before collapsing the rest into "+n more"
+const MAX_EVENTS_PER_DAY = 3;
+
+export function EventCalendar({ month, events, onMonthChange, minMonth, maxMonth }: EventCalendarProps) {
+  const todayKey = toOccurrenceKey(new Date());
+
+  const days = useMemo(() => {
+    const first = startOfWeek(startOfMonth(month));
+    const last = endOfWeek(endOfMonth(month));
+    const result: Date[] = [];
+    for (let day = first; day <= last; day = addDays(day, 1)) {
+      result.push(day);
+    }
+    return result;
+  }, [month]);
+
+  const eventsByDay = useMemo(() => {
+    const grouped: Record<string, EventOccurrence[]> = {};
+    events.forEach((event) => {
+      (grouped[event.occurrenceKey] ||= []).push(event);
+    });
+    return grouped;
+  }, [events]);
+
+  const canGoBack = !minMonth || startOfMonth(month) > startOfMonth(minMonth);
+  const canGoForward = !maxMonth || startOfMonth(month) < startOfMonth(maxMonth);
+
+  const monthEvents = events.filter((event) => isSameMonth(event.eventDate, month));
+
+  return (
+    <div className="bg-card border rounded-xl shadow-sm overflow-hidden">
+      {/* Month navigation */}
+      <div className="flex items-center justify-between p-4 border-b">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onMonthChange(addMonths(month, -1))}
+          disabled={!canGoBack}
+          aria-label="Previous month"
+        >
+          <ChevronLeft className="h-5 w-5" />
+        </Button>
+        <h2 className="font-display text-xl font-bold text-foreground">{format(month, "MMMM yyyy")}</h2>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onMonthChange(addMonths(month, 1))}
+          disabled={!canGoForward}
+          aria-label="Next month"
+        >
+          <ChevronRight className="h-5 w-5" />
+        </Button>
+      </div>
+
+      {/* Month grid, from tablet width up */}
+      <div className="hidden md:block">
+        <div className="grid grid-cols-7 border-b bg-muted/50">
+          {WEEKDAY_NAMES.map((name) => (
+            <div key={name} className="p-2 text-center text-xs font-medium uppercase text-muted-foreground">
+              {name.slice(0, 3)}
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-7">
+          {days.map((day) => {
+            const key = toOccurrenceKey(day);
+            const dayEvents = eventsByDay[key] || [];
+            return (
+              <div
+                key={key}
+                className={cn(
+                  "min-h-[110px] border-b border-r p-1.5 [&:nth-child(7n)]:border-r-0",
+                  !isSameMonth(day, month) && "bg-muted/30 text-muted-foreground"
+                )}
+              >
+                <div
+                  className={cn(
+                    "mb-1 flex h-6 w-6 items-center justify-center rounded-full text-xs",
+                    key === todayKey && "bg-primary text-primary-foreground font-semibold"
+                  )}
+                >
+                  {format(day, "d")}
+                </div>
+                <div className="space-y-1">
+                  {dayEvents.slice(0, MAX_EVENTS_PER_DAY).map((event) => (
+                    <Link
+                      key={`${event.id}-${event.occurrenceKey}`}
+                      to={getEventPath(event)}
+                      title={`${event.startTime} ${event.title}`}
+                      className={cn(
+                        "block truncate rounded px-1.5 py-0.5 text-xs hover:opacity-80",
+                        eventChipColors[event.eventType || "general"]
+                      )}
+                    >
+                      <span className="font-medium">{event.startTime}</span> {event.title}
+                    </Link>
+                  ))}
+                  {dayEvents.length > MAX_EVENTS_PER_DAY && (
+                    <p className="px-1.5 text-xs text-muted-foreground">
+                      +{dayEvents.length - MAX_EVENTS_PER_DAY} more
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Agenda for the month on small screens, where a grid is too cramped */}
+      <div className="md:hidden divide-y">
+        {monthEvents.length > 0 ? (
+          monthEvents.map((event) => (
+            <Link
+              key={`${event.id}-${event.occurrenceKey}`}
+              to={getEventPath(event)}
+              className="flex items-center gap-4 p-4 hover:bg-muted/50"
+            >
+              <div className="w-12 text-center">
+                <p className="text-xl font-bold text-primary">{format(event.eventDate, "dd")}</p>
+                <p className="text-xs uppercase text-muted-foreground">{format(event.eventDate, "EEE")}</p>
+              </div>
+              <div className="min-w-0">
+                <p className="font-medium text-foreground truncate">{event.title}</p>
+                <p className="text-sm text-muted-foreground">{event.startTime}</p>
+              </div>
+            </Link>
+          ))
+        ) : (
+          <p className="p-6 text-center text-muted-foreground">No events this month.</p>
+        )}
+      </div>
+    </div>
+  );
+}
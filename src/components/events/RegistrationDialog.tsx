@@ -0,0 +1,254 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { EventOccurrence } from "@/integrations/firebase/firestore/church";
+import { registerForEvent, cancelEventRegistration } from "@/integrations/firebase/helpers";
+import { registrationSchema, MAX_GUESTS, RegistrationStatus } from "@/lib/eventRegistration";
+import { Button, ButtonProps } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { CheckCircle, Clock, Ticket } from "lucide-react";
+import { toast } from "sonner";
+
+interface RegistrationDialogProps {
+  event: EventOccurrence;
+  size?: ButtonProps["size"];
+  className?: string;
+}
+
+type FormErrors = {
+  name?: string;
+  email?: string;
+  phone?: string;
+  guests?: string;
+};
+
+const defaultFormData = { name: "", email: "", phone: "", guests: "0" };
+
+const getSeatsLeft = (event: EventOccurrence): number | null =>
+  event.capacity ? Math.max(0, event.capacity - (event.registeredCount || 0)) : null;
+
+export function RegistrationDialog({ event, size = "sm", className }: RegistrationDialogProps) {
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [mode, setMode] = useState<"register" | "cancel">("register");
+  const [formData, setFormData] = useState(defaultFormData);
+  const [cancelData, setCancelData] = useState({ confirmationCode: "", email: "" });
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [result, setResult] = useState<{ status: RegistrationStatus; confirmationCode: string } | null>(null);
+
+  const seatsLeft = getSeatsLeft(event);
+  const isFull = seatsLeft !== null && seatsLeft === 0;
+
+  const refreshEvents = () => {
+    queryClient.invalidateQueries({ queryKey: ["events"] });
+    queryClient.invalidateQueries({ queryKey: ["all-events"] });
+  };
+
+  const registerMutation = useMutation({
+    mutationFn: async () => {
+      const response = await registerForEvent(event.id!, {
+        name: formData.name,
+        email: formData.email,
+        phone: formData.phone,
+        guests: parseInt(formData.guests) || 0,
+      });
+      if (!response.success) throw new Error(response.error);
+      return response;
+    },
+    onSuccess: (response) => {
+      setResult({ status: response.status!, confirmationCode: response.confirmationCode! });
+      setFormData(defaultFormData);
+      refreshEvents();
+    },
+    onError: (error) => toast.error(error instanceof Error ? error.message : "Registration failed"),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await cancelEventRegistration(cancelData.confirmationCode, cancelData.email);
+      if (!response.success) throw new Error(response.error);
+    },
+    onSuccess: () => {
+      toast.success("Your registration has been cancelled");
+      setCancelData({ confirmationCode: "", email: "" });
+      setMode("register");
+      setIsOpen(false);
+      refreshEvents();
+    },
+    onError: (error) => toast.error(error instanceof Error ? error.message : "Cancellation failed"),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsed = registrationSchema.safeParse({ ...formData, guests: parseInt(formData.guests) || 0 });
+    if (!parsed.success) {
+      const fieldErrors: FormErrors = {};
+      parsed.error.errors.forEach((err) => {
+        const field = err.path[0] as keyof FormErrors;
+        if (!fieldErrors[field]) {
+          fieldErrors[field] = err.message;
+        }
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setErrors({});
+    registerMutation.mutate();
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setResult(null);
+      setMode("register");
+      setErrors({});
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size={size} variant={isFull ? "secondary" : "default"} className={className}>
+          <Ticket className="h-4 w-4 mr-2" />
+          {isFull ? "Join waitlist" : "Register"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{mode === "register" ? `Register for ${event.title}` : "Cancel a registration"}</DialogTitle>
+          <DialogDescription>
+            {mode === "cancel"
+              ? "Enter the confirmation code you received and the email you registered with."
+              : isFull
+                ? "This event is full. Register to join the waitlist and we'll move you up if a seat opens."
+                : seatsLeft !== null
+                  ? `${seatsLeft} seat${seatsLeft === 1 ? "" : "s"} left.`
+                  : "Let us know you're coming."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="text-center py-4">
+            {result.status === "confirmed" ? (
+              <CheckCircle className="h-14 w-14 text-green-500 mx-auto mb-4" />
+            ) : (
+              <Clock className="h-14 w-14 text-accent mx-auto mb-4" />
+            )}
+            <h3 className="text-lg font-semibold text-foreground mb-2">
+              {result.status === "confirmed" ? "You're registered!" : "You're on the waitlist"}
+            </h3>
+            <p className="text-sm text-muted-foreground mb-4">
+              {result.status === "confirmed"
+                ? "Keep your confirmation code handy for check-in or to cancel."
+                : "We'll confirm your place automatically if a seat opens up."}
+            </p>
+            <p className="font-mono text-2xl font-bold tracking-widest text-primary mb-6">{result.confirmationCode}</p>
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Done
+            </Button>
+          </div>
+        ) : mode === "register" ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rsvp-name">Full Name</Label>
+              <Input
+                id="rsvp-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className={errors.name ? "border-destructive" : ""}
+              />
+              {errors.name && <p className="text-sm text-destructive">{errors.name}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rsvp-email">Email</Label>
+              <Input
+                id="rsvp-email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                className={errors.email ? "border-destructive" : ""}
+              />
+              {errors.email && <p className="text-sm text-destructive">{errors.email}</p>}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rsvp-phone">Phone (optional)</Label>
+                <Input
+                  id="rsvp-phone"
+                  type="tel"
+                  value={formData.phone}
+                  onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                  className={errors.phone ? "border-destructive" : ""}
+                />
+                {errors.phone && <p className="text-sm text-destructive">{errors.phone}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rsvp-guests">Guests</Label>
+                <Input
+                  id="rsvp-guests"
+                  type="number"
+                  min={0}
+                  max={MAX_GUESTS}
+                  value={formData.guests}
+                  onChange={(e) => setFormData({ ...formData, guests: e.target.value })}
+                  className={errors.guests ? "border-destructive" : ""}
+                />
+                {errors.guests && <p className="text-sm text-destructive">{errors.guests}</p>}
+              </div>
+            </div>
+            <Button type="submit" className="w-full" disabled={registerMutation.isPending}>
+              {registerMutation.isPending ? "Registering..." : isFull ? "Join Waitlist" : "Register"}
+            </Button>
+            <button
+              type="button"
+              className="w-full text-sm text-muted-foreground hover:text-foreground"
+              onClick={() => setMode("cancel")}
+            >
+              Already registered? Cancel a registration
+            </button>
+          </form>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              cancelMutation.mutate();
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="cancel-code">Confirmation Code</Label>
+              <Input
+                id="cancel-code"
+                className="font-mono uppercase"
+                value={cancelData.confirmationCode}
+                onChange={(e) => setCancelData({ ...cancelData, confirmationCode: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cancel-email">Email</Label>
+              <Input
+                id="cancel-email"
+                type="email"
+                value={cancelData.email}
+                onChange={(e) => setCancelData({ ...cancelData, email: e.target.value })}
+                required
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setMode("register")}>
+                Back
+              </Button>
+              <Button type="submit" variant="destructive" className="flex-1" disabled={cancelMutation.isPending}>
+                {cancelMutation.isPending ? "Cancelling..." : "Cancel Registration"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,77 @@
+import { Facebook, Twitter, MessageCircle, Mail, Link2, Share2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+
+interface ShareButtonsProps {
+  url: string;
+  title: string;
+  text?: string;
+}
+
+export function ShareButtons({ url, title, text }: ShareButtonsProps) {
+  const message = text ? `${title} - ${text}` : title;
+  const encodedUrl = encodeURIComponent(url);
+  const encodedMessage = encodeURIComponent(message);
+
+  const links = [
+    {
+      label: "WhatsApp",
+      icon: MessageCircle,
+      href: `https://wa.me/?text=${encodeURIComponent(`${message} ${url}`)}`,
+    },
+    {
+      label: "Facebook",
+      icon: Facebook,
+      href: `https://www.facebook.com/sharer/sharer.php?u=${encodedUrl}`,
+    },
+    {
+      label: "X",
+      icon: Twitter,
+      href: `https://twitter.com/intent/tweet?text=${encodedMessage}&url=${encodedUrl}`,
+    },
+    {
+      label: "Email",
+      icon: Mail,
+      href: `mailto:?subject=${encodeURIComponent(title)}&body=${encodeURIComponent(`${message}\n\n${url}`)}`,
+    },
+  ];
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Link copied to clipboard");
+    } catch {
+      toast.error("Could not copy the link");
+    }
+  };
+
+  // Phones get the system share sheet, which covers every installed app
+  const handleNativeShare = async () => {
+    try {
+      await navigator.share({ title, text: message, url });
+    } catch {
+      // Dismissing the share sheet rejects; nothing to do
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {typeof navigator !== "undefined" && "share" in navigator && (
+        <Button variant="default" size="sm" onClick={handleNativeShare}>
+          <Share2 className="h-4 w-4 mr-2" />
+          Share
+        </Button>
+      )}
+      {links.map(({ label, icon: Icon, href }) => (
+        <Button key={label} variant="outline" size="icon" asChild title={`Share via ${label}`}>
+          <a href={href} target="_blank" rel="noopener noreferrer" aria-label={`Share via ${label}`}>
+            <Icon className="h-4 w-4" />
+          </a>
+        </Button>
+      ))}
+      <Button variant="outline" size="icon" onClick={handleCopy} title="Copy link" aria-label="Copy link">
+        <Link2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
 import { getChurchInfo } from "@/integrations/firebase/firestore/church";
 import { Facebook, Youtube, Instagram, Mail, Phone, MapPin } from "lucide-react";
 
@@ -104,6 +105,9 @@ export function Footer() {
           <p>
             © {new Date().getFullYear()} {churchInfo?.church_name || "Shiloh Intercession Mountain"}. All rights reserved.
           </p>
+          <Link to="/my-data" className="inline-block mt-2 hover:text-background transition-colors">
+            My Data &amp; Privacy
+          </Link>
         </div>
       </div>
     </footer>
@@ -1,9 +1,11 @@
 import { useState, useEffect } from "react";
-import { Menu, X, LogIn, LogOut, User } from "lucide-react";
-import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Menu, X, LogIn, LogOut, User, Radio } from "lucide-react";
+import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { getCurrentLivestreams } from "@/integrations/firebase/firestore/livestreams";
 import logo from "@/assets/logo.jpg";
 
 const navLinks = [
@@ -11,6 +13,8 @@ const navLinks = [
   { name: "About", href: "#about" },
   { name: "Events", href: "#events" },
   { name: "Gallery", href: "#gallery" },
+  { name: "Teachings", href: "/teachings" },
+  { name: "Prayer", href: "/prayer" },
   { name: "Contact", href: "#contact" },
 ];
 
@@ -18,6 +22,15 @@ export function Header() {
   const [isScrolled, setIsScrolled] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const { user, signOut } = useFirebaseAuth();
+  const navigate = useNavigate();
+
+  // Polled so the banner appears on open pages when a stream goes live
+  const { data: livestreams } = useQuery({
+    queryKey: ["current-livestreams"],
+    queryFn: getCurrentLivestreams,
+    refetchInterval: 60_000,
+  });
+  const liveStream = livestreams?.find((stream) => stream.status === "live");
 
   useEffect(() => {
     const handleScroll = () => {
@@ -28,6 +41,12 @@ export function Header() {
   }, []);
 
   const scrollToSection = (href: string) => {
+    // Page links (e.g. /prayer) navigate instead of scrolling
+    if (href.startsWith("/")) {
+      navigate(href);
+      setIsMobileMenuOpen(false);
+      return;
+    }
     const element = document.querySelector(href);
     if (element) {
       element.scrollIntoView({ behavior: "smooth" });
@@ -48,6 +67,24 @@ export function Header() {
           : "bg-primary/90 backdrop-blur-sm"
       )}
     >
+      {/* Live Banner */}
+      {liveStream && (
+        <Link
+          to={`/live/${liveStream.id}`}
+          className="block bg-destructive text-destructive-foreground hover:bg-destructive/90 transition-colors"
+        >
+          <div className="container mx-auto px-4 py-2 flex items-center justify-center gap-2 text-sm font-medium">
+            <span className="h-2 w-2 rounded-full bg-current animate-pulse" />
+            <span className="uppercase tracking-wide font-bold">We're live</span>
+            <span className="truncate">{liveStream.title}</span>
+            <span className="hidden sm:inline-flex items-center gap-1 underline underline-offset-2">
+              <Radio className="h-4 w-4" />
+              Watch now
+            </span>
+          </div>
+        </Link>
+      )}
+
       <div className="container mx-auto px-4">
         <div className="flex items-center justify-between h-16 md:h-20">
           {/* Logo */}
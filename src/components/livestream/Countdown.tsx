@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+import { cn } from "@/lib/utils";
+
+interface CountdownProps {
+  target: Date;
+  className?: string;
+  // Extra classes for each number box
+  unitClassName?: string;
+}
+
+const UNITS = [
+  { label: "Days", seconds: 86400 },
+  { label: "Hours", seconds: 3600 },
+  { label: "Min", seconds: 60 },
+  { label: "Sec", seconds: 1 },
+];
+
+/**
+ * Ticks down to a start time once a second. Shows "Starting soon" once the
+ * time has passed, until an admin switches the stream to live.
+ */
+export function Countdown({ target, className, unitClassName }: CountdownProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  let remaining = Math.max(0, Math.floor((target.getTime() - now) / 1000));
+
+  if (remaining === 0) {
+    return <p className={cn("font-semibold", className)}>Starting soon</p>;
+  }
+
+  const parts = UNITS.map((unit) => {
+    const value = Math.floor(remaining / unit.seconds);
+    remaining -= value * unit.seconds;
+    return { label: unit.label, value };
+  });
+  // Drop leading zero days so a same-day countdown stays compact
+  const visible = parts[0].value === 0 ? parts.slice(1) : parts;
+
+  return (
+    <div className={cn("flex items-center justify-center gap-2", className)} role="timer">
+      {visible.map((part) => (
+        <div key={part.label} className={cn("min-w-14 rounded-lg px-2 py-1 text-center", unitClassName)}>
+          <div className="font-display text-2xl font-bold tabular-nums">{String(part.value).padStart(2, "0")}</div>
+          <div className="text-xs uppercase tracking-wide opacity-80">{part.label}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  getCannedResponses,
+  createCannedResponse,
+  updateCannedResponse,
+  deleteCannedResponse,
+  CANNED_RESPONSE_PLACEHOLDERS,
+  CannedResponse,
+} from "@/integrations/firebase/firestore/cannedResponses";
+import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeft, MessageSquareText, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+
+const defaultFormData = { title: "", body: "" };
+
+/**
+ * Library of reusable replies, most used first. Editing happens inside the
+ * same dialog so admins can return to the list without losing their place.
+ */
+export function CannedResponsesDialog() {
+  const queryClient = useQueryClient();
+  const { user } = useFirebaseAuth();
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  // null shows the list, "new" an empty form, otherwise the response being edited
+  const [editing, setEditing] = useState<CannedResponse | "new" | null>(null);
+  const [formData, setFormData] = useState(defaultFormData);
+
+  const { data: responses, isLoading } = useQuery({
+    queryKey: ["canned-responses"],
+    queryFn: getCannedResponses,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = { title: formData.title.trim(), body: formData.body.trim() };
+      if (editing && editing !== "new") {
+        await updateCannedResponse(editing.id!, data);
+      } else {
+        await createCannedResponse({ ...data, createdBy: user!.uid });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["canned-responses"] });
+      toast.success(editing === "new" ? "Response added" : "Response updated");
+      setEditing(null);
+    },
+    onError: () => toast.error("Failed to save response"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteCannedResponse,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["canned-responses"] });
+      toast.success("Response deleted");
+    },
+    onError: () => toast.error("Failed to delete response"),
+  });
+
+  const openForm = (response?: CannedResponse) => {
+    setEditing(response || "new");
+    setFormData(response ? { title: response.title, body: response.body } : defaultFormData);
+  };
+
+  const insertPlaceholder = (name: string) => {
+    const token = `{{${name}}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? formData.body.length;
+    const end = textarea?.selectionEnd ?? formData.body.length;
+    setFormData({ ...formData, body: formData.body.slice(0, start) + token + formData.body.slice(end) });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  const sortedResponses = [...(responses || [])].sort((a, b) => (b.usageCount || 0) - (a.usageCount || 0));
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (!open) setEditing(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <MessageSquareText className="h-4 w-4" />
+          Responses
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {editing === null ? "Canned Responses" : editing === "new" ? "New Response" : "Edit Response"}
+          </DialogTitle>
+          <DialogDescription>
+            Reusable replies for common questions. Placeholders are filled with the latest church details when inserted.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing === null ? (
+          <div className="space-y-4">
+            <Button onClick={() => openForm()} className="gap-2">
+              <Plus className="h-4 w-4" />
+              New Response
+            </Button>
+            {isLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : sortedResponses.length > 0 ? (
+              <ul className="divide-y rounded-lg border">
+                {sortedResponses.map((response) => (
+                  <li key={response.id} className="flex items-start justify-between gap-4 p-3">
+                    <div className="min-w-0">
+                      <p className="font-medium text-foreground">{response.title}</p>
+                      <p className="text-sm text-muted-foreground line-clamp-2">{response.body}</p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Used {response.usageCount || 0} time{response.usageCount === 1 ? "" : "s"}
+                        {response.lastUsedAt &&
+                          ` - last on ${format(
+                            response.lastUsedAt instanceof Date ? response.lastUsedAt : response.lastUsedAt.toDate(),
+                            "d MMM yyyy"
+                          )}`}
+                      </p>
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      <Button variant="ghost" size="icon" onClick={() => openForm(response)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => {
+                          if (confirm(`Delete "${response.title}"?`)) {
+                            deleteMutation.mutate(response.id!);
+                          }
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No responses yet. Add answers to the questions you get most, like directions or service times.
+              </p>
+            )}
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="response-title">Title</Label>
+              <Input
+                id="response-title"
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                placeholder="Directions to the mountain"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="response-body">Response</Label>
+              <Textarea
+                id="response-body"
+                ref={bodyRef}
+                value={formData.body}
+                onChange={(e) => setFormData({ ...formData, body: e.target.value })}
+                rows={8}
+                required
+              />
+              <div className="flex flex-wrap gap-1">
+                {CANNED_RESPONSE_PLACEHOLDERS.map((placeholder) => (
+                  <Button
+                    key={placeholder.name}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="h-7 px-2 font-mono text-xs"
+                    title={placeholder.description}
+                    onClick={() => insertPlaceholder(placeholder.name)}
+                  >
+                    {`{{${placeholder.name}}}`}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="flex gap-2 pt-2">
+              <Button type="button" variant="outline" onClick={() => setEditing(null)} className="flex-1 gap-2">
+                <ArrowLeft className="h-4 w-4" />
+                Back
+              </Button>
+              <Button type="submit" className="flex-1" disabled={saveMutation.isPending}>
+                {editing === "new" ? "Add Response" : "Update Response"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  saveContactRouting,
+  AdminDirectoryEntry,
+  ContactRoutingMap,
+} from "@/integrations/firebase/firestore/messages";
+import { CONTACT_CATEGORIES, ContactCategory } from "@/lib/contact";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Route } from "lucide-react";
+import { toast } from "sonner";
+
+interface CategoryRoutingDialogProps {
+  admins: AdminDirectoryEntry[];
+  routing: ContactRoutingMap;
+  userId: string;
+}
+
+/**
+ * Lets super admins choose which admins look after each contact form category.
+ * Those admins see the category in My Messages and in their own unread badge.
+ */
+export function CategoryRoutingDialog({ admins, routing, userId }: CategoryRoutingDialogProps) {
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<ContactRoutingMap>({});
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveContactRouting(draft, userId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["contact-routing"] });
+      setIsOpen(false);
+      toast.success("Message routing saved");
+    },
+    onError: () => toast.error("Failed to save message routing"),
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setDraft(Object.fromEntries(CONTACT_CATEGORIES.map((category) => [category.value, routing[category.value] || []])));
+    }
+    setIsOpen(open);
+  };
+
+  const toggleAdmin = (category: ContactCategory, adminId: string, checked: boolean) => {
+    const current = draft[category] || [];
+    setDraft({
+      ...draft,
+      [category]: checked ? [...current, adminId] : current.filter((id) => id !== adminId),
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Route className="h-4 w-4" />
+          Routing
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Message Routing</DialogTitle>
+          <DialogDescription>
+            Choose who looks after each kind of message. Everyone can still see the full inbox.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-5">
+          {CONTACT_CATEGORIES.map((category) => (
+            <div key={category.value} className="space-y-2">
+              <p className="font-medium text-foreground">{category.label}</p>
+              {admins.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No admins found.</p>
+              ) : (
+                <div className="grid sm:grid-cols-2 gap-2">
+                  {admins.map((admin) => {
+                    const id = `${category.value}-${admin.userId}`;
+                    return (
+                      <div key={admin.userId} className="flex items-center gap-2">
+                        <Checkbox
+                          id={id}
+                          checked={(draft[category.value] || []).includes(admin.userId)}
+                          onCheckedChange={(checked) => toggleAdmin(category.value, admin.userId, checked === true)}
+                        />
+                        <Label htmlFor={id} className="font-normal">
+                          {admin.name}
+                        </Label>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2 pt-2">
+          <Button type="button" variant="outline" onClick={() => setIsOpen(false)} className="flex-1">
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} className="flex-1" disabled={saveMutation.isPending}>
+            Save Routing
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,222 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  getEmailTemplates,
+  saveEmailTemplate,
+  resetEmailTemplate,
+  StoredEmailTemplate,
+} from "@/integrations/firebase/firestore/emailTemplates";
+import {
+  EMAIL_TEMPLATES,
+  EmailTemplate,
+  EmailTemplateDefinition,
+  getExampleValues,
+  renderEmailTemplate,
+} from "@/lib/emailTemplates";
+import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { RotateCcw, Save } from "lucide-react";
+import { toast } from "sonner";
+
+interface EmailTemplatesEditorProps {
+  // Current (possibly unsaved) church details, so the preview matches the Settings form
+  church: { churchName: string; email: string; phone: string };
+}
+
+export function EmailTemplatesEditor({ church }: EmailTemplatesEditorProps) {
+  const { data: templates, isLoading } = useQuery({
+    queryKey: ["email-templates"],
+    queryFn: getEmailTemplates,
+  });
+
+  if (isLoading || !templates) {
+    return (
+      <Card className="border-0 shadow-md">
+        <CardContent className="p-6 space-y-4">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-40 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      {EMAIL_TEMPLATES.map((definition) => (
+        <TemplateCard
+          key={definition.key}
+          definition={definition}
+          stored={templates[definition.key]}
+          church={church}
+        />
+      ))}
+    </>
+  );
+}
+
+interface TemplateCardProps extends EmailTemplatesEditorProps {
+  definition: EmailTemplateDefinition;
+  stored: StoredEmailTemplate;
+}
+
+function TemplateCard({ definition, stored, church }: TemplateCardProps) {
+  const queryClient = useQueryClient();
+  const { user } = useFirebaseAuth();
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const [draft, setDraft] = useState<EmailTemplate>(stored);
+
+  useEffect(() => {
+    setDraft({ subject: stored.subject, body: stored.body, enabled: stored.enabled });
+  }, [stored]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveEmailTemplate(definition.key, draft, user!.uid),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["email-templates"] });
+      toast.success("Email template saved");
+    },
+    onError: () => toast.error("Failed to save email template"),
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: () => resetEmailTemplate(definition.key),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["email-templates"] });
+      toast.success("Email template reset to the default");
+    },
+    onError: () => toast.error("Failed to reset email template"),
+  });
+
+  // Inserts the placeholder at the cursor in the body
+  const insertPlaceholder = (name: string) => {
+    const token = `{{${name}}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? draft.body.length;
+    const end = textarea?.selectionEnd ?? draft.body.length;
+    setDraft({ ...draft, body: draft.body.slice(0, start) + token + draft.body.slice(end) });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const preview = renderEmailTemplate(draft, {
+    ...getExampleValues(definition.key),
+    ...(church.churchName && { churchName: church.churchName }),
+    ...(church.email && { churchEmail: church.email }),
+    ...(church.phone && { churchPhone: church.phone }),
+  });
+  const isDirty =
+    draft.subject !== stored.subject || draft.body !== stored.body || draft.enabled !== stored.enabled;
+
+  return (
+    <Card className="border-0 shadow-md">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              {definition.label}
+              {!stored.isCustomized && <Badge variant="secondary">Default</Badge>}
+            </CardTitle>
+            <CardDescription>{definition.description}</CardDescription>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <Switch
+              id={`${definition.key}-enabled`}
+              checked={draft.enabled}
+              onCheckedChange={(enabled) => setDraft({ ...draft, enabled })}
+            />
+            <Label htmlFor={`${definition.key}-enabled`}>{draft.enabled ? "On" : "Off"}</Label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={`${definition.key}-subject`}>Subject</Label>
+              <Input
+                id={`${definition.key}-subject`}
+                value={draft.subject}
+                onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`${definition.key}-body`}>Message</Label>
+              <Textarea
+                id={`${definition.key}-body`}
+                ref={bodyRef}
+                value={draft.body}
+                onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                rows={12}
+                className="font-mono text-sm"
+              />
+            </div>
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">Click a placeholder to insert it:</p>
+              <div className="flex flex-wrap gap-1">
+                {definition.placeholders.map((placeholder) => (
+                  <Button
+                    key={placeholder.name}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="h-7 px-2 font-mono text-xs"
+                    title={placeholder.description}
+                    onClick={() => insertPlaceholder(placeholder.name)}
+                  >
+                    {`{{${placeholder.name}}}`}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Preview</Label>
+            <div className="rounded-lg border bg-muted/30 p-4 text-sm">
+              <p className="font-medium text-foreground border-b pb-2 mb-3">{preview.subject}</p>
+              <p className="whitespace-pre-wrap text-muted-foreground">{preview.text}</p>
+            </div>
+            <p className="text-xs text-muted-foreground">Shown with example details</p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            type="button"
+            className="gap-2"
+            onClick={() => saveMutation.mutate()}
+            disabled={!isDirty || !draft.subject.trim() || !draft.body.trim() || saveMutation.isPending}
+          >
+            <Save className="h-4 w-4" />
+            Save Template
+          </Button>
+          {stored.isCustomized && (
+            <Button
+              type="button"
+              variant="outline"
+              className="gap-2"
+              onClick={() => {
+                if (confirm("Replace this template with the default wording?")) {
+                  resetMutation.mutate();
+                }
+              }}
+              disabled={resetMutation.isPending}
+            >
+              <RotateCcw className="h-4 w-4" />
+              Reset to Default
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
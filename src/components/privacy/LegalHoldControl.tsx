@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { setLegalHold, LegalHold } from "@/integrations/firebase/firestore/retention";
+import { RetentionCollection } from "@/lib/retention";
+import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Gavel } from "lucide-react";
+import { toast } from "sonner";
+
+interface LegalHoldControlProps {
+  collection: RetentionCollection;
+  recordId: string;
+  record: LegalHold;
+  // Only super admins may place or release holds; everyone else just sees the badge
+  canManage: boolean;
+  onChange: () => void;
+}
+
+/**
+ * Badge and toggle for the legal hold flag. Held records are skipped by the
+ * retention-purge function and cannot be deleted until the hold is released.
+ */
+export function LegalHoldControl({ collection, recordId, record, canManage, onChange }: LegalHoldControlProps) {
+  const { user } = useFirebaseAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const holdMutation = useMutation({
+    mutationFn: (hold: boolean) =>
+      setLegalHold(collection, recordId, hold ? { reason: reason.trim(), userId: user!.uid } : null),
+    onSuccess: (_, hold) => {
+      onChange();
+      setIsOpen(false);
+      setReason("");
+      toast.success(hold ? "Legal hold placed" : "Legal hold released");
+    },
+    onError: () => toast.error("Failed to update legal hold"),
+  });
+
+  if (record.legalHold) {
+    return (
+      <div className="flex items-center gap-2">
+        <Badge variant="outline" className="gap-1 border-amber-500 text-amber-700" title={record.legalHoldReason}>
+          <Gavel className="h-3 w-3" />
+          Legal hold
+        </Badge>
+        {canManage && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => {
+              if (confirm("Release the legal hold? The retention policy will apply to this record again.")) {
+                holdMutation.mutate(false);
+              }
+            }}
+            disabled={holdMutation.isPending}
+          >
+            Release
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  if (!canManage) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="h-8 gap-1 text-xs">
+          <Gavel className="h-3 w-3" />
+          Legal hold
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Place legal hold</DialogTitle>
+          <DialogDescription>
+            The record will be kept as it is, past its retention period, until the hold is released.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor={`legal-hold-${recordId}`}>Reason</Label>
+          <Textarea
+            id={`legal-hold-${recordId}`}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Requested by our attorneys regarding case 2024/118"
+            rows={3}
+          />
+        </div>
+        <DialogFooter>
+          <Button type="button" onClick={() => holdMutation.mutate(true)} disabled={!reason.trim() || holdMutation.isPending}>
+            Place Hold
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  getRetentionPolicies,
+  saveRetentionPolicy,
+  getRetentionReports,
+  StoredRetentionPolicy,
+} from "@/integrations/firebase/firestore/retention";
+import {
+  RETENTION_DEFINITIONS,
+  RETENTION_ACTION_LABELS,
+  MIN_RETENTION_DAYS,
+  RetentionAction,
+  RetentionDefinition,
+  RetentionPolicy,
+  getRetentionDefinition,
+  isValidRetentionDays,
+} from "@/lib/retention";
+import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertTriangle, Save } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Timestamp } from "firebase/firestore";
+
+const toDate = (value: Date | Timestamp) => (value instanceof Date ? value : value.toDate());
+
+export function RetentionSettings() {
+  const { role } = useFirebaseAuth();
+
+  const { data: policies, isLoading } = useQuery({
+    queryKey: ["retention-policies"],
+    queryFn: getRetentionPolicies,
+  });
+
+  const isSuperAdmin = role === "super_admin";
+
+  if (isLoading || !policies) {
+    return (
+      <Card className="border-0 shadow-md">
+        <CardContent className="p-6 space-y-4">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-24 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      {!isSuperAdmin && (
+        <p className="text-sm text-muted-foreground">Only super admins can change retention policies.</p>
+      )}
+      {RETENTION_DEFINITIONS.map((definition) => (
+        <PolicyCard
+          key={definition.collection}
+          definition={definition}
+          stored={policies[definition.collection]}
+          canEdit={isSuperAdmin}
+        />
+      ))}
+      {isSuperAdmin && <RetentionReports />}
+    </>
+  );
+}
+
+interface PolicyCardProps {
+  definition: RetentionDefinition;
+  stored: StoredRetentionPolicy;
+  canEdit: boolean;
+}
+
+function PolicyCard({ definition, stored, canEdit }: PolicyCardProps) {
+  const queryClient = useQueryClient();
+  const { user } = useFirebaseAuth();
+  const [draft, setDraft] = useState<RetentionPolicy>(stored);
+
+  useEffect(() => {
+    setDraft({ enabled: stored.enabled, retentionDays: stored.retentionDays, action: stored.action });
+  }, [stored]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveRetentionPolicy(definition.collection, draft, user!.uid),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["retention-policies"] });
+      toast.success("Retention policy saved");
+    },
+    onError: () => toast.error("Failed to save retention policy"),
+  });
+
+  const handleSave = () => {
+    if (
+      draft.enabled &&
+      draft.action === "purge" &&
+      !confirm(`Records older than ${draft.retentionDays} days will be permanently deleted every night. Continue?`)
+    ) {
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  const isDirty =
+    draft.enabled !== stored.enabled || draft.retentionDays !== stored.retentionDays || draft.action !== stored.action;
+
+  return (
+    <Card className="border-0 shadow-md">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>{definition.label}</CardTitle>
+            <CardDescription>{definition.description}</CardDescription>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <Switch
+              id={`${definition.collection}-enabled`}
+              checked={draft.enabled}
+              onCheckedChange={(enabled) => setDraft({ ...draft, enabled })}
+              disabled={!canEdit}
+            />
+            <Label htmlFor={`${definition.collection}-enabled`}>{draft.enabled ? "On" : "Off"}</Label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor={`${definition.collection}-days`}>Keep for (days)</Label>
+            <Input
+              id={`${definition.collection}-days`}
+              type="number"
+              min={MIN_RETENTION_DAYS}
+              value={draft.retentionDays}
+              onChange={(e) => setDraft({ ...draft, retentionDays: parseInt(e.target.value) || 0 })}
+              disabled={!canEdit}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Then</Label>
+            <Select
+              value={draft.action}
+              onValueChange={(action) => setDraft({ ...draft, action: action as RetentionAction })}
+              disabled={!canEdit}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(RETENTION_ACTION_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {draft.action === "anonymise"
+            ? `Removes: ${definition.anonymises}.`
+            : "Deletes the record and everything stored with it."}{" "}
+          Records on legal hold are always kept.
+        </p>
+        {canEdit && (
+          <Button
+            type="button"
+            className="gap-2"
+            onClick={handleSave}
+            disabled={!isDirty || !isValidRetentionDays(draft.retentionDays) || saveMutation.isPending}
+          >
+            <Save className="h-4 w-4" />
+            Save Policy
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RetentionReports() {
+  const { data: reports, isLoading } = useQuery({
+    queryKey: ["retention-reports"],
+    queryFn: () => getRetentionReports(),
+  });
+
+  return (
+    <Card className="border-0 shadow-md">
+      <CardHeader>
+        <CardTitle>Retention Runs</CardTitle>
+        <CardDescription>The policies are applied every night at 04:00 (SAST); the latest runs are listed here</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : reports && reports.length > 0 ? (
+          <ul className="divide-y">
+            {reports.map((report) => (
+              <li key={report.id} className="py-3 space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium text-foreground">
+                    {report.ranAt ? format(toDate(report.ranAt), "d MMM yyyy, HH:mm") : "Running"}
+                  </p>
+                  {report.errors.length > 0 && (
+                    <Badge variant="destructive" className="gap-1">
+                      <AlertTriangle className="h-3 w-3" />
+                      {report.errors.length} error{report.errors.length === 1 ? "" : "s"}
+                    </Badge>
+                  )}
+                </div>
+                {report.results.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No policies switched on</p>
+                ) : (
+                  report.results.map((result) => (
+                    <p key={result.collection} className="text-sm text-muted-foreground">
+                      {getRetentionDefinition(result.collection).label}: {result.processed}{" "}
+                      {result.action === "purge" ? "deleted" : "anonymised"}
+                      {result.held > 0 && `, ${result.held} on legal hold`}
+                      {result.failed > 0 && `, ${result.failed} failed`}
+                      {result.remaining > 0 && `, ${result.remaining} left for the next run`}
+                      {` (before ${format(new Date(result.cutoff), "d MMM yyyy")})`}
+                    </p>
+                  ))
+                )}
+                {report.errors.map((error) => (
+                  <p key={error} className="text-xs text-destructive font-mono break-all">
+                    {error}
+                  </p>
+                ))}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">No runs yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
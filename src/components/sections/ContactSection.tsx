@@ -1,80 +1,102 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { getChurchInfo, createContactSubmission } from "@/integrations/firebase/firestore/church";
-import { MapPin, Phone, Mail, Send, CheckCircle } from "lucide-react";
+import { getChurchInfo } from "@/integrations/firebase/firestore/church";
+import { getContactChallenge, submitContactMessage } from "@/integrations/firebase/helpers";
+import {
+  contactSchema,
+  contactFieldsSchema,
+  solveProofOfWork,
+  getContactMessageMaxLength,
+  CONTACT_CATEGORIES,
+  DEFAULT_CONTACT_CATEGORY,
+  HONEYPOT_FIELD,
+  CHALLENGE_TTL_SECONDS,
+  ContactCategory,
+} from "@/lib/contact";
+import { MapPin, Phone, Mail, Send, CheckCircle, HandHeart } from "lucide-react";
+import { Link } from "react-router-dom";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { z } from "zod";
-
-const contactSchema = z.object({
-  name: z
-    .string()
-    .trim()
-    .min(1, "Name is required")
-    .max(100, "Name must be less than 100 characters")
-    .regex(/^[a-zA-Z\s'-]+$/, "Name can only contain letters, spaces, hyphens, and apostrophes"),
-  email: z
-    .string()
-    .trim()
-    .min(1, "Email is required")
-    .email("Please enter a valid email address")
-    .max(255, "Email must be less than 255 characters"),
-  message: z
-    .string()
-    .trim()
-    .min(1, "Message is required")
-    .max(255, "Message must be 255 characters or less"),
-});
 
 type FormErrors = {
   name?: string;
   email?: string;
+  category?: string;
   message?: string;
 };
 
+const emptyForm = {
+  name: "",
+  email: "",
+  category: DEFAULT_CONTACT_CATEGORY as string,
+  message: "",
+};
+
 export function ContactSection() {
   const queryClient = useQueryClient();
   const [isSubmitted, setIsSubmitted] = useState(false);
-  const [formData, setFormData] = useState({
-    name: "",
-    email: "",
-    message: "",
-  });
+  const [formData, setFormData] = useState(emptyForm);
   const [errors, setErrors] = useState<FormErrors>({});
+  // Left empty by people; bots that fill every field end up in the spam folder
+  const [honeypot, setHoneypot] = useState("");
 
   const { data: churchInfo } = useQuery({
     queryKey: ["church-info-contact"],
     queryFn: getChurchInfo,
   });
 
+  // The challenge is issued when the form loads; the server checks how long the form was open
+  const { data: challengeResponse } = useQuery({
+    queryKey: ["contact-challenge"],
+    queryFn: getContactChallenge,
+    staleTime: (CHALLENGE_TTL_SECONDS * 1000) / 2,
+    refetchOnWindowFocus: false,
+  });
+
   const submitMutation = useMutation({
     mutationFn: async (data: typeof formData) => {
-      await createContactSubmission({
-        name: data.name.trim(),
-        email: data.email.trim(),
-        message: data.message.trim(),
-      });
+      const challenge = challengeResponse?.challenge || null;
+      const counter = challenge ? await solveProofOfWork(challenge) : null;
+      const result = await submitContactMessage(
+        {
+          name: data.name.trim(),
+          email: data.email.trim(),
+          category: data.category as ContactCategory,
+          message: data.message.trim(),
+        },
+        { challenge, counter, honeypot }
+      );
+      if (!result.success) throw new Error(result.error);
     },
     onSuccess: () => {
       setIsSubmitted(true);
-      setFormData({ name: "", email: "", message: "" });
+      setFormData(emptyForm);
       setErrors({});
+      queryClient.invalidateQueries({ queryKey: ["contact-challenge"] });
       toast.success("Message sent successfully! We'll get back to you soon.");
     },
-    onError: () => {
-      toast.error("Failed to send message. Please try again.");
+    onError: (error: Error) => {
+      // Each challenge is accepted once, so a retry needs a fresh one
+      queryClient.invalidateQueries({ queryKey: ["contact-challenge"] });
+      toast.error(error.message || "Failed to send message. Please try again.");
     },
   });
 
+  const maxMessageLength = getContactMessageMaxLength(formData.category);
+
   const validateField = (field: keyof typeof formData, value: string) => {
-    const result = contactSchema.shape[field].safeParse(value);
+    const result = contactFieldsSchema.shape[field].safeParse(value);
     if (!result.success) {
       return result.error.errors[0].message;
     }
+    if (field === "message" && value.trim().length > maxMessageLength) {
+      return `Message must be ${maxMessageLength} characters or less`;
+    }
     return undefined;
   };
 
@@ -122,6 +144,13 @@ export function ContactSection() {
           <p className="text-muted-foreground text-lg max-w-2xl mx-auto">
             We'd love to hear from you. Whether you have a question, prayer request, or just want to say hello, feel free to reach out.
           </p>
+          <Link
+            to="/prayer"
+            className="inline-flex items-center gap-2 text-primary font-medium hover:underline mt-4"
+          >
+            <HandHeart className="h-4 w-4" />
+            Need prayer? Share a request on our prayer wall
+          </Link>
         </div>
 
         <div className="grid lg:grid-cols-2 gap-12 max-w-6xl mx-auto">
@@ -149,7 +178,7 @@ export function ContactSection() {
                   </Button>
                 </div>
               ) : (
-                <form onSubmit={handleSubmit} className="space-y-6">
+                <form onSubmit={handleSubmit} className="relative space-y-6">
                   <div className="space-y-2">
                     <Label htmlFor="name">Your Name</Label>
                     <Input
@@ -183,11 +212,33 @@ export function ContactSection() {
                     )}
                   </div>
 
+                  <div className="space-y-2">
+                    <Label htmlFor="category">What is your message about?</Label>
+                    <Select
+                      value={formData.category}
+                      onValueChange={(value) => handleFieldChange("category", value)}
+                    >
+                      <SelectTrigger id="category" className={errors.category ? "border-destructive" : ""}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CONTACT_CATEGORIES.map((category) => (
+                          <SelectItem key={category.value} value={category.value}>
+                            {category.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {errors.category && (
+                      <p className="text-sm text-destructive">{errors.category}</p>
+                    )}
+                  </div>
+
                   <div className="space-y-2">
                     <div className="flex justify-between">
                       <Label htmlFor="message">Your Message</Label>
-                      <span className={`text-xs ${formData.message.length > 255 ? "text-destructive" : "text-muted-foreground"}`}>
-                        {formData.message.length}/255
+                      <span className={`text-xs ${formData.message.length > maxMessageLength ? "text-destructive" : "text-muted-foreground"}`}>
+                        {formData.message.length}/{maxMessageLength}
                       </span>
                     </div>
                     <Textarea
@@ -198,7 +249,7 @@ export function ContactSection() {
                       onChange={(e) => handleFieldChange("message", e.target.value)}
                       onBlur={() => handleFieldBlur("message")}
                       className={errors.message ? "border-destructive" : ""}
-                      maxLength={255}
+                      maxLength={maxMessageLength}
                       required
                     />
                     {errors.message && (
@@ -206,6 +257,19 @@ export function ContactSection() {
                     )}
                   </div>
 
+                  <div className="absolute -left-[9999px]" aria-hidden="true">
+                    <label htmlFor={HONEYPOT_FIELD}>Leave this field empty</label>
+                    <input
+                      id={HONEYPOT_FIELD}
+                      name={HONEYPOT_FIELD}
+                      type="text"
+                      tabIndex={-1}
+                      autoComplete="off"
+                      value={honeypot}
+                      onChange={(e) => setHoneypot(e.target.value)}
+                    />
+                  </div>
+
                   <Button
                     type="submit"
                     size="lg"
@@ -1,12 +1,17 @@
 import { useQuery } from "@tanstack/react-query";
-import { getActiveEvents } from "@/integrations/firebase/firestore/church";
-import { Calendar, Clock, MapPin, ArrowRight } from "lucide-react";
+import { Link } from "react-router-dom";
+import { getEventOccurrences } from "@/integrations/firebase/firestore/church";
+import { describeRecurrence } from "@/lib/recurrence";
+import { getEventPath } from "@/lib/eventDetails";
+import { Calendar, Clock, MapPin, ArrowRight, Repeat } from "lucide-react";
 import { Timestamp } from "firebase/firestore";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { format, parseISO } from "date-fns";
+import { format, parseISO, addMonths } from "date-fns";
 import { Skeleton } from "@/components/ui/skeleton";
+import { AddToCalendarButton } from "@/components/events/AddToCalendarButton";
+import { RegistrationDialog } from "@/components/events/RegistrationDialog";
 import eventsBg from "@/assets/events-bg.jpg";
 
 const eventTypeColors: Record<string, string> = {
@@ -21,18 +26,11 @@ export function EventsSection() {
   const { data: events, isLoading } = useQuery({
     queryKey: ["events"],
     queryFn: async () => {
-      const allEvents = await getActiveEvents();
-      // Filter for upcoming events and limit to 4
+      // Expand recurring series and show the next 4 occurrences
       const today = new Date();
       today.setHours(0, 0, 0, 0);
-      return allEvents
-        .filter(event => {
-          const eventDate = event.eventDate instanceof Date 
-            ? event.eventDate 
-            : (event.eventDate as any).toDate();
-          return eventDate >= today;
-        })
-        .slice(0, 4);
+      const occurrences = await getEventOccurrences(today, addMonths(today, 12));
+      return occurrences.slice(0, 4);
     },
     staleTime: 0,
     refetchOnWindowFocus: true,
@@ -96,7 +94,7 @@ export function EventsSection() {
                 : (event.eventDate as any).toDate();
               return (
                 <Card
-                  key={event.id}
+                  key={`${event.id}-${event.occurrenceKey}`}
                   className="border-0 shadow-md hover:shadow-xl transition-all duration-300 overflow-hidden group"
                 >
                   <CardContent className="p-0">
@@ -122,10 +120,16 @@ export function EventsSection() {
                         >
                           {(event.eventType || "general").charAt(0).toUpperCase() + (event.eventType || "general").slice(1)}
                         </Badge>
+                        {event.recurrence && (
+                          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <Repeat className="h-3 w-3" />
+                            {describeRecurrence(event.recurrence, event.seriesStart)}
+                          </span>
+                        )}
                       </div>
 
                       <h3 className="font-display text-xl font-bold text-foreground mb-2 group-hover:text-primary transition-colors">
-                        {event.title}
+                        <Link to={getEventPath(event)}>{event.title}</Link>
                       </h3>
 
                       {event.description && (
@@ -146,6 +150,11 @@ export function EventsSection() {
                           </div>
                         )}
                       </div>
+
+                      <div className="flex flex-wrap gap-2 mt-4">
+                        {event.registrationEnabled && <RegistrationDialog event={event} />}
+                        <AddToCalendarButton event={event} />
+                      </div>
                     </div>
                   </CardContent>
                 </Card>
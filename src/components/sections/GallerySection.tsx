@@ -1,27 +1,44 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
 import { getActiveVideos, getChurchInfo } from "@/integrations/firebase/firestore/church";
-import { Play, ExternalLink, Video, Image } from "lucide-react";
+import { getAllPlaylists, getPlaylistVideos } from "@/integrations/firebase/firestore/playlists";
+import { VideoPlayerModal } from "@/components/videos/VideoPlayerModal";
+import { Play, ExternalLink, Video, Image, ListVideo } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 
+const HOME_VIDEO_LIMIT = 6;
+
 export function GallerySection() {
-  const { data: videos, isLoading } = useQuery({
+  const [playingIndex, setPlayingIndex] = useState<number | null>(null);
+
+  const { data: allVideos, isLoading } = useQuery({
     queryKey: ["videos"],
     queryFn: async () => {
       const allVideos = await getActiveVideos();
-      return allVideos.slice(0, 6); // Limit to 6
+      // Audio-only teachings have no YouTube video to show here
+      return allVideos.filter((video) => video.youtubeVideoId);
     },
   });
 
+  const { data: playlists } = useQuery({
+    queryKey: ["video-playlists"],
+    queryFn: getAllPlaylists,
+  });
+
   const { data: churchInfo } = useQuery({
     queryKey: ["church-info"],
     queryFn: getChurchInfo,
   });
 
-  const openVideo = (videoId: string) => {
-    window.open(`https://www.youtube.com/watch?v=${videoId}`, "_blank");
-  };
+  // The featured playlist leads the section; without one, show the first videos in display order
+  const featuredPlaylist = playlists?.find((playlist) => playlist.isFeatured);
+  const featuredVideos = featuredPlaylist ? getPlaylistVideos(allVideos || [], featuredPlaylist.id!) : [];
+  const queue = featuredVideos.length > 0 ? featuredVideos : allVideos || [];
+  const videos = queue.slice(0, HOME_VIDEO_LIMIT);
+  const showingPlaylist = featuredVideos.length > 0;
 
   return (
     <section id="gallery" className="section-padding bg-muted/30">
@@ -31,8 +48,15 @@ export function GallerySection() {
           <h2 className="font-display text-3xl md:text-5xl font-bold text-foreground mb-4">
             Video Gallery
           </h2>
+          {showingPlaylist && (
+            <p className="inline-flex items-center gap-2 text-primary font-medium mb-2">
+              <ListVideo className="h-4 w-4" />
+              {featuredPlaylist!.title}
+            </p>
+          )}
           <p className="text-muted-foreground text-lg max-w-2xl mx-auto">
-            Watch our latest sermons, worship sessions, and event highlights from our YouTube channel.
+            {(showingPlaylist && featuredPlaylist!.description) ||
+              "Watch our latest sermons, worship sessions, and event highlights from our YouTube channel."}
           </p>
         </div>
 
@@ -50,17 +74,17 @@ export function GallerySection() {
               </Card>
             ))
           ) : videos && videos.length > 0 ? (
-            videos.map((video) => (
+            videos.map((video, index) => (
               <Card
                 key={video.id}
                 className="border-0 shadow-md hover:shadow-xl transition-all duration-300 overflow-hidden group cursor-pointer"
-                onClick={() => openVideo(video.youtubeVideoId)}
+                onClick={() => setPlayingIndex(index)}
               >
                 <CardContent className="p-0">
                   {/* Thumbnail */}
                   <div className="relative aspect-video bg-muted overflow-hidden">
                     <img
-                      src={`https://img.youtube.com/vi/${video.youtubeVideoId}/maxresdefault.jpg`}
+                      src={video.thumbnailUrl || `https://img.youtube.com/vi/${video.youtubeVideoId}/maxresdefault.jpg`}
                       alt={video.title}
                       className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
                       onError={(e) => {
@@ -98,12 +122,19 @@ export function GallerySection() {
             variant="outline"
             size="lg"
             className="gap-2"
-            onClick={() => window.open(churchInfo?.youtube_channel_url || "https://www.youtube.com", "_blank")}
+            onClick={() => window.open(churchInfo?.youtubeChannelUrl || "https://www.youtube.com", "_blank")}
           >
             <ExternalLink className="h-4 w-4" />
             Watch More on YouTube
           </Button>
+          <Button size="lg" className="gap-2" asChild>
+            <Link to={showingPlaylist ? `/videos?playlist=${featuredPlaylist!.id}` : "/videos"}>
+              <Video className="h-4 w-4" />
+              {queue.length > HOME_VIDEO_LIMIT ? `View All ${queue.length} Videos` : "View All Videos"}
+            </Link>
+          </Button>
           <Button
+            variant="outline"
             size="lg"
             className="gap-2"
             onClick={() => window.location.href = "/gallery"}
@@ -113,6 +144,13 @@ export function GallerySection() {
           </Button>
         </div>
       </div>
+
+      <VideoPlayerModal
+        videos={queue}
+        index={playingIndex}
+        onIndexChange={setPlayingIndex}
+        queueTitle={showingPlaylist ? `Up next in ${featuredPlaylist!.title}` : undefined}
+      />
     </section>
   );
 }
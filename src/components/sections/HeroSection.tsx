@@ -1,8 +1,25 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import {
+  getCurrentLivestreams,
+  getFeaturedLivestream,
+  getScheduledStart,
+} from "@/integrations/firebase/firestore/livestreams";
+import { Countdown } from "@/components/livestream/Countdown";
 import { Button } from "@/components/ui/button";
-import { Clock, MapPin } from "lucide-react";
+import { Clock, MapPin, Radio } from "lucide-react";
+import { format } from "date-fns";
 import heroBg from "@/assets/hero-bg.png";
 
 export function HeroSection() {
+  const { data: livestreams } = useQuery({
+    queryKey: ["current-livestreams"],
+    queryFn: getCurrentLivestreams,
+    refetchInterval: 60_000,
+  });
+
+  const livestream = getFeaturedLivestream(livestreams || []);
+
   const scrollToSection = (href: string) => {
     const element = document.querySelector(href);
     if (element) {
@@ -46,6 +63,32 @@ export function HeroSection() {
             </div>
           </div>
 
+          {/* Next Livestream */}
+          {livestream && (
+            <div className="mb-10 opacity-0 animate-fade-in" style={{ animationDelay: "0.7s" }}>
+              <Link
+                to={`/live/${livestream.id}`}
+                className="inline-block bg-white/10 backdrop-blur-sm rounded-2xl px-6 py-4 hover:bg-white/15 transition-colors"
+              >
+                {livestream.status === "live" ? (
+                  <p className="flex items-center gap-2 font-semibold">
+                    <span className="h-2.5 w-2.5 rounded-full bg-red-500 animate-pulse" />
+                    Live now: {livestream.title}
+                  </p>
+                ) : (
+                  <>
+                    <p className="flex items-center justify-center gap-2 text-sm text-white/80 mb-2">
+                      <Radio className="h-4 w-4" />
+                      Next livestream: {livestream.title} ·{" "}
+                      {format(getScheduledStart(livestream), "EEE d MMM, HH:mm")}
+                    </p>
+                    <Countdown target={getScheduledStart(livestream)} unitClassName="bg-white/10" />
+                  </>
+                )}
+              </Link>
+            </div>
+          )}
+
           <div className="flex flex-col sm:flex-row items-center justify-center gap-4 opacity-0 animate-fade-in" style={{ animationDelay: "0.8s" }}>
             <Button
               size="lg"
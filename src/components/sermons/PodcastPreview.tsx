@@ -0,0 +1,149 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "sonner";
+import { AlertCircle, Copy, Headphones, RefreshCw } from "lucide-react";
+import { format } from "date-fns";
+
+interface FeedPreview {
+  title: string;
+  description: string;
+  imageUrl: string | null;
+  episodes: { guid: string; title: string; publishedAt: Date | null; duration: string | null }[];
+  xml: string;
+}
+
+const ITUNES_NS = "http://www.itunes.com/dtds/podcast-1.0.dtd";
+
+const parseFeed = (xml: string): FeedPreview => {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.querySelector("parsererror")) {
+    throw new Error("The feed is not valid XML");
+  }
+
+  const channel = doc.querySelector("channel");
+  const text = (parent: Element | null, tag: string) => parent?.querySelector(`:scope > ${tag}`)?.textContent || "";
+
+  return {
+    title: text(channel, "title"),
+    description: text(channel, "description"),
+    imageUrl: channel?.getElementsByTagNameNS(ITUNES_NS, "image")[0]?.getAttribute("href") || null,
+    episodes: Array.from(doc.querySelectorAll("item")).map((item) => {
+      const pubDate = text(item, "pubDate");
+      return {
+        guid: text(item, "guid"),
+        title: text(item, "title"),
+        publishedAt: pubDate ? new Date(pubDate) : null,
+        duration: item.getElementsByTagNameNS(ITUNES_NS, "duration")[0]?.textContent || null,
+      };
+    }),
+    xml,
+  };
+};
+
+/**
+ * Shows the podcast feed the way podcast apps will read it.
+ * Reflects saved settings only, so save before refreshing.
+ */
+export function PodcastPreview() {
+  const feedUrl = `${window.location.origin}/podcast.xml`;
+
+  const { data: feed, isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: ["podcast-feed-preview"],
+    queryFn: async () => {
+      const response = await fetch("/.netlify/functions/podcast-feed");
+      if (!response.ok) {
+        throw new Error(`The feed returned ${response.status}`);
+      }
+      return parseFeed(await response.text());
+    },
+    retry: false,
+  });
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success("Feed URL copied to clipboard");
+    } catch {
+      toast.error("Could not copy the feed URL");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Input value={feedUrl} readOnly className="font-mono text-sm" />
+        <Button type="button" variant="outline" size="icon" onClick={handleCopy} title="Copy feed URL">
+          <Copy className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={() => refetch()}
+          disabled={isFetching}
+          title="Refresh preview"
+        >
+          <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Submit this URL to Apple Podcasts or Spotify. Save your changes before refreshing the preview.
+      </p>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-20 w-full" />
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : error ? (
+        <div className="flex items-center gap-2 rounded-lg border border-destructive/50 p-4 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          Could not load the feed: {(error as Error).message}
+        </div>
+      ) : feed ? (
+        <div className="rounded-lg border">
+          <div className="flex gap-4 p-4 border-b">
+            {feed.imageUrl ? (
+              <img src={feed.imageUrl} alt={feed.title} className="h-20 w-20 rounded-md object-cover" />
+            ) : (
+              <div className="h-20 w-20 rounded-md bg-primary/10 flex items-center justify-center shrink-0">
+                <Headphones className="h-8 w-8 text-primary" />
+              </div>
+            )}
+            <div className="min-w-0">
+              <p className="font-semibold text-foreground">{feed.title}</p>
+              <p className="text-sm text-muted-foreground line-clamp-3">{feed.description}</p>
+            </div>
+          </div>
+
+          {feed.episodes.length > 0 ? (
+            <ul className="divide-y max-h-80 overflow-y-auto">
+              {feed.episodes.map((episode) => (
+                <li key={episode.guid} className="flex items-center justify-between gap-4 px-4 py-3 text-sm">
+                  <span className="font-medium text-foreground line-clamp-1">{episode.title}</span>
+                  <span className="text-muted-foreground shrink-0">
+                    {[episode.publishedAt && format(episode.publishedAt, "d MMM yyyy"), episode.duration]
+                      .filter(Boolean)
+                      .join(" • ")}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="p-4 text-sm text-muted-foreground">
+              No episodes yet. Upload audio to an active teaching to publish it.
+            </p>
+          )}
+
+          <details className="border-t p-4">
+            <summary className="cursor-pointer text-sm text-muted-foreground">Raw XML</summary>
+            <pre className="mt-3 max-h-80 overflow-auto rounded-md bg-muted p-3 text-xs">{feed.xml}</pre>
+          </details>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  getAllSermonSeries,
+  createSermonSeries,
+  updateSermonSeries,
+  deleteSermonSeries,
+  SermonSeries,
+} from "@/integrations/firebase/firestore/sermons";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Plus, Pencil, Trash2, Library } from "lucide-react";
+import { toast } from "sonner";
+
+const defaultFormData = { title: "", description: "" };
+
+export function SeriesManager() {
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingSeries, setEditingSeries] = useState<string | null>(null);
+  const [formData, setFormData] = useState(defaultFormData);
+
+  const { data: series, isLoading } = useQuery({
+    queryKey: ["sermon-series"],
+    queryFn: getAllSermonSeries,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = { title: formData.title.trim(), description: formData.description.trim() };
+      if (editingSeries) {
+        await updateSermonSeries(editingSeries, data);
+      } else {
+        await createSermonSeries(data);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["sermon-series"] });
+      setIsDialogOpen(false);
+      toast.success(editingSeries ? "Series updated" : "Series added");
+    },
+    onError: () => toast.error("Failed to save series"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteSermonSeries,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["sermon-series"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-videos"] });
+      toast.success("Series deleted");
+    },
+    onError: () => toast.error("Failed to delete series"),
+  });
+
+  const openDialog = (item?: SermonSeries) => {
+    setEditingSeries(item?.id || null);
+    setFormData(item ? { title: item.title, description: item.description || "" } : defaultFormData);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-muted-foreground">Group teachings into series so they can be followed in order.</p>
+        <Button onClick={() => openDialog()} className="gap-2">
+          <Plus className="h-4 w-4" />
+          Add Series
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : series && series.length > 0 ? (
+        <div className="grid sm:grid-cols-2 gap-4">
+          {series.map((item) => (
+            <Card key={item.id} className="border-0 shadow-md">
+              <CardContent className="p-4 flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <h3 className="font-semibold text-foreground">{item.title}</h3>
+                  {item.description && (
+                    <p className="text-sm text-muted-foreground line-clamp-2">{item.description}</p>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => openDialog(item)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => {
+                      if (confirm(`Delete "${item.title}"? Its teachings stay in the library without a series.`)) {
+                        deleteMutation.mutate(item.id!);
+                      }
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <Card className="border-0 shadow-md">
+          <CardContent className="p-12 text-center">
+            <Library className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No series yet.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingSeries ? "Edit Series" : "Add Series"}</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="series-title">Title</Label>
+              <Input
+                id="series-title"
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                placeholder="The Sermon on the Mount"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="series-description">Description (optional)</Label>
+              <Textarea
+                id="series-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                rows={3}
+              />
+            </div>
+            <div className="flex gap-2 pt-2">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)} className="flex-1">
+                Cancel
+              </Button>
+              <Button type="submit" className="flex-1" disabled={saveMutation.isPending}>
+                {editingSeries ? "Update" : "Add Series"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  getAllSpeakers,
+  createSpeaker,
+  updateSpeaker,
+  deleteSpeaker,
+  Speaker,
+} from "@/integrations/firebase/firestore/sermons";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Plus, Pencil, Trash2, UserRound } from "lucide-react";
+import { toast } from "sonner";
+
+const defaultFormData = { name: "", role: "", bio: "" };
+
+export function SpeakerManager() {
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingSpeaker, setEditingSpeaker] = useState<string | null>(null);
+  const [formData, setFormData] = useState(defaultFormData);
+
+  const { data: speakers, isLoading } = useQuery({
+    queryKey: ["speakers"],
+    queryFn: getAllSpeakers,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = { name: formData.name.trim(), role: formData.role.trim(), bio: formData.bio.trim() };
+      if (editingSpeaker) {
+        await updateSpeaker(editingSpeaker, data);
+      } else {
+        await createSpeaker(data);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["speakers"] });
+      setIsDialogOpen(false);
+      toast.success(editingSpeaker ? "Speaker updated" : "Speaker added");
+    },
+    onError: () => toast.error("Failed to save speaker"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteSpeaker,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["speakers"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-videos"] });
+      toast.success("Speaker deleted");
+    },
+    onError: () => toast.error("Failed to delete speaker"),
+  });
+
+  const openDialog = (item?: Speaker) => {
+    setEditingSpeaker(item?.id || null);
+    setFormData(item ? { name: item.name, role: item.role || "", bio: item.bio || "" } : defaultFormData);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-muted-foreground">Preachers and teachers credited on sermons.</p>
+        <Button onClick={() => openDialog()} className="gap-2">
+          <Plus className="h-4 w-4" />
+          Add Speaker
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : speakers && speakers.length > 0 ? (
+        <div className="grid sm:grid-cols-2 gap-4">
+          {speakers.map((item) => (
+            <Card key={item.id} className="border-0 shadow-md">
+              <CardContent className="p-4 flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <h3 className="font-semibold text-foreground">{item.name}</h3>
+                  {item.role && <p className="text-sm text-primary">{item.role}</p>}
+                  {item.bio && <p className="text-sm text-muted-foreground line-clamp-2">{item.bio}</p>}
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => openDialog(item)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => {
+                      if (confirm(`Delete ${item.name}? Their sermons stay in the library without a speaker.`)) {
+                        deleteMutation.mutate(item.id!);
+                      }
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <Card className="border-0 shadow-md">
+          <CardContent className="p-12 text-center">
+            <UserRound className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No speakers yet.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingSpeaker ? "Edit Speaker" : "Add Speaker"}</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="speaker-name">Name</Label>
+              <Input
+                id="speaker-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Pastor John Doe"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="speaker-role">Role (optional)</Label>
+              <Input
+                id="speaker-role"
+                value={formData.role}
+                onChange={(e) => setFormData({ ...formData, role: e.target.value })}
+                placeholder="Senior Pastor"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="speaker-bio">Bio (optional)</Label>
+              <Textarea
+                id="speaker-bio"
+                value={formData.bio}
+                onChange={(e) => setFormData({ ...formData, bio: e.target.value })}
+                rows={3}
+              />
+            </div>
+            <div className="flex gap-2 pt-2">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)} className="flex-1">
+                Cancel
+              </Button>
+              <Button type="submit" className="flex-1" disabled={saveMutation.isPending}>
+                {editingSpeaker ? "Update" : "Add Speaker"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
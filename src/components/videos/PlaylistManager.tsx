@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { getAllVideos } from "@/integrations/firebase/firestore/church";
+import {
+  getAllPlaylists,
+  createPlaylist,
+  updatePlaylist,
+  deletePlaylist,
+  setFeaturedPlaylist,
+  getPlaylistVideos,
+  VideoPlaylist,
+} from "@/integrations/firebase/firestore/playlists";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Plus, Pencil, Trash2, ListVideo, Star } from "lucide-react";
+import { toast } from "sonner";
+
+const defaultFormData = { title: "", description: "" };
+
+export function PlaylistManager() {
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPlaylist, setEditingPlaylist] = useState<string | null>(null);
+  const [formData, setFormData] = useState(defaultFormData);
+
+  const { data: playlists, isLoading } = useQuery({
+    queryKey: ["video-playlists"],
+    queryFn: getAllPlaylists,
+  });
+
+  const { data: videos } = useQuery({
+    queryKey: ["admin-videos"],
+    queryFn: getAllVideos,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = { title: formData.title.trim(), description: formData.description.trim() };
+      if (editingPlaylist) {
+        await updatePlaylist(editingPlaylist, data);
+      } else {
+        const maxOrder = playlists?.length ? Math.max(...playlists.map((item) => item.displayOrder || 0)) : 0;
+        await createPlaylist({ ...data, displayOrder: maxOrder + 1, isFeatured: false });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["video-playlists"] });
+      setIsDialogOpen(false);
+      toast.success(editingPlaylist ? "Playlist updated" : "Playlist added");
+    },
+    onError: () => toast.error("Failed to save playlist"),
+  });
+
+  const featureMutation = useMutation({
+    mutationFn: setFeaturedPlaylist,
+    onSuccess: (_, playlistId) => {
+      queryClient.invalidateQueries({ queryKey: ["video-playlists"] });
+      toast.success(playlistId ? "Playlist featured on the home page" : "Home page shows the latest videos");
+    },
+    onError: () => toast.error("Failed to update the featured playlist"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deletePlaylist,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["video-playlists"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-videos"] });
+      toast.success("Playlist deleted");
+    },
+    onError: () => toast.error("Failed to delete playlist"),
+  });
+
+  const openDialog = (item?: VideoPlaylist) => {
+    setEditingPlaylist(item?.id || null);
+    setFormData(item ? { title: item.title, description: item.description || "" } : defaultFormData);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-muted-foreground">
+          Group videos into playlists. The featured playlist is shown on the home page.
+        </p>
+        <Button onClick={() => openDialog()} className="gap-2">
+          <Plus className="h-4 w-4" />
+          Add Playlist
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : playlists && playlists.length > 0 ? (
+        <div className="grid sm:grid-cols-2 gap-4">
+          {playlists.map((item) => {
+            const videoCount = getPlaylistVideos(videos || [], item.id!).length;
+            return (
+              <Card key={item.id} className="border-0 shadow-md">
+                <CardContent className="p-4 flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold text-foreground">{item.title}</h3>
+                      {item.isFeatured && <Badge>Featured</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {videoCount} video{videoCount !== 1 ? "s" : ""}
+                    </p>
+                    {item.description && (
+                      <p className="text-sm text-muted-foreground line-clamp-2">{item.description}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => featureMutation.mutate(item.isFeatured ? null : item.id!)}
+                      disabled={featureMutation.isPending}
+                      title={item.isFeatured ? "Stop featuring" : "Feature on home page"}
+                    >
+                      <Star className={`h-4 w-4 ${item.isFeatured ? "fill-primary text-primary" : ""}`} />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => openDialog(item)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => {
+                        if (confirm(`Delete "${item.title}"? Its videos are kept.`)) {
+                          deleteMutation.mutate(item.id!);
+                        }
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card className="border-0 shadow-md">
+          <CardContent className="p-12 text-center">
+            <ListVideo className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No playlists yet.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingPlaylist ? "Edit Playlist" : "Add Playlist"}</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="playlist-title">Title</Label>
+              <Input
+                id="playlist-title"
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                placeholder="Worship Nights"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="playlist-description">Description (optional)</Label>
+              <Textarea
+                id="playlist-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                rows={3}
+              />
+            </div>
+            <div className="flex gap-2 pt-2">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)} className="flex-1">
+                Cancel
+              </Button>
+              <Button type="submit" className="flex-1" disabled={saveMutation.isPending}>
+                {editingPlaylist ? "Update" : "Add Playlist"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
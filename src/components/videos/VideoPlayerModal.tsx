@@ -0,0 +1,241 @@
+import { useEffect, useRef, useState } from "react";
+import { Video } from "@/integrations/firebase/firestore/church";
+import { getVideoCategoryLabel } from "@/integrations/firebase/firestore/playlists";
+import { getYouTubeEmbedUrl, getYouTubeThumbnailUrl } from "@/lib/youtube";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ChevronLeft, ChevronRight, Play } from "lucide-react";
+
+// Just the parts of the YouTube IFrame Player API used here
+interface YouTubePlayer {
+  destroy: () => void;
+}
+
+interface YouTubeIframeApi {
+  Player: new (
+    element: HTMLElement,
+    options: {
+      host: string;
+      videoId: string;
+      playerVars: Record<string, number>;
+      events: { onStateChange: (event: { data: number }) => void };
+    }
+  ) => YouTubePlayer;
+  PlayerState: { ENDED: number };
+}
+
+declare global {
+  interface Window {
+    YT?: YouTubeIframeApi;
+    onYouTubeIframeAPIReady?: () => void;
+  }
+}
+
+let iframeApiPromise: Promise<YouTubeIframeApi> | null = null;
+
+// The player API tells us when a video ends, which plain embeds cannot
+const loadIframeApi = (): Promise<YouTubeIframeApi> => {
+  if (window.YT?.Player) return Promise.resolve(window.YT);
+  if (!iframeApiPromise) {
+    iframeApiPromise = new Promise((resolve, reject) => {
+      const previousReady = window.onYouTubeIframeAPIReady;
+      window.onYouTubeIframeAPIReady = () => {
+        previousReady?.();
+        resolve(window.YT!);
+      };
+      const script = document.createElement("script");
+      script.src = "https://www.youtube.com/iframe_api";
+      script.onerror = () => {
+        iframeApiPromise = null;
+        reject(new Error("YouTube player API failed to load"));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return iframeApiPromise;
+};
+
+function Player({ video, onEnded }: { video: Video; onEnded: () => void }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const onEndedRef = useRef(onEnded);
+  const [useFallback, setUseFallback] = useState(false);
+
+  useEffect(() => {
+    onEndedRef.current = onEnded;
+  }, [onEnded]);
+
+  useEffect(() => {
+    let player: YouTubePlayer | null = null;
+    let cancelled = false;
+
+    loadIframeApi()
+      .then((api) => {
+        if (cancelled || !containerRef.current) return;
+        // The API replaces the element it is given, so hand it a child it can own
+        const target = document.createElement("div");
+        containerRef.current.replaceChildren(target);
+        player = new api.Player(target, {
+          host: "https://www.youtube-nocookie.com",
+          videoId: video.youtubeVideoId,
+          playerVars: { autoplay: 1, rel: 0, playsinline: 1 },
+          events: {
+            onStateChange: (event) => {
+              if (event.data === api.PlayerState.ENDED) onEndedRef.current();
+            },
+          },
+        });
+      })
+      .catch(() => {
+        if (!cancelled) setUseFallback(true);
+      });
+
+    return () => {
+      cancelled = true;
+      player?.destroy();
+    };
+  }, [video.youtubeVideoId]);
+
+  if (useFallback) {
+    return (
+      <iframe
+        src={getYouTubeEmbedUrl(video.youtubeVideoId, { autoplay: "1" })}
+        title={video.title}
+        className="w-full h-full"
+        allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+        allowFullScreen
+      />
+    );
+  }
+
+  return <div ref={containerRef} className="w-full h-full [&_iframe]:w-full [&_iframe]:h-full" />;
+}
+
+interface VideoPlayerModalProps {
+  videos: Video[];
+  // Index of the playing video in videos; null when closed
+  index: number | null;
+  onIndexChange: (index: number | null) => void;
+  // Shown above the up next list, e.g. the playlist title
+  queueTitle?: string;
+}
+
+/**
+ * Plays a video in a modal with the rest of the list as "up next".
+ * When autoplay is on, the next video starts as soon as the current one ends.
+ */
+export function VideoPlayerModal({ videos, index, onIndexChange, queueTitle }: VideoPlayerModalProps) {
+  const [autoplay, setAutoplay] = useState(true);
+  const video = index !== null ? videos[index] : null;
+  const hasPrevious = index !== null && index > 0;
+  const hasNext = index !== null && index < videos.length - 1;
+  const categoryLabel = getVideoCategoryLabel(video?.category);
+
+  const handleEnded = () => {
+    if (autoplay && hasNext) onIndexChange(index! + 1);
+  };
+
+  return (
+    <Dialog open={!!video} onOpenChange={(open) => !open && onIndexChange(null)}>
+      <DialogContent className="max-w-6xl p-0 gap-0 overflow-hidden">
+        {video && (
+          <div className="grid lg:grid-cols-3">
+            <div className="lg:col-span-2">
+              <div className="aspect-video bg-foreground">
+                <Player key={video.youtubeVideoId} video={video} onEnded={handleEnded} />
+              </div>
+              <div className="p-6 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <DialogTitle className="font-display text-xl">{video.title}</DialogTitle>
+                    {categoryLabel && (
+                      <Badge variant="secondary" className="mt-2">
+                        {categoryLabel}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => onIndexChange(index! - 1)}
+                      disabled={!hasPrevious}
+                      title="Previous video"
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => onIndexChange(index! + 1)}
+                      disabled={!hasNext}
+                      title="Next video"
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <DialogDescription className="whitespace-pre-line line-clamp-4">
+                  {video.description}
+                </DialogDescription>
+              </div>
+            </div>
+
+            {videos.length > 1 && (
+              <div className="border-t lg:border-t-0 lg:border-l flex flex-col lg:max-h-[80vh]">
+                <div className="p-4 border-b space-y-2">
+                  <p className="font-semibold text-foreground">{queueTitle || "Up next"}</p>
+                  <div className="flex items-center gap-2">
+                    <Switch id="video-autoplay" checked={autoplay} onCheckedChange={setAutoplay} />
+                    <Label htmlFor="video-autoplay" className="text-sm text-muted-foreground">
+                      Autoplay next video
+                    </Label>
+                  </div>
+                </div>
+                <ScrollArea className="flex-1 max-h-72 lg:max-h-none">
+                  <ol className="p-2">
+                    {videos.map((item, itemIndex) => (
+                      <li key={item.id}>
+                        <button
+                          type="button"
+                          onClick={() => onIndexChange(itemIndex)}
+                          className={`w-full flex gap-3 rounded-md p-2 text-left ${
+                            itemIndex === index ? "bg-primary/10" : "hover:bg-muted"
+                          }`}
+                        >
+                          <div className="relative w-28 aspect-video rounded overflow-hidden bg-muted shrink-0">
+                            <img
+                              src={item.thumbnailUrl || getYouTubeThumbnailUrl(item.youtubeVideoId)}
+                              alt=""
+                              className="w-full h-full object-cover"
+                              loading="lazy"
+                            />
+                            {itemIndex === index && (
+                              <div className="absolute inset-0 bg-foreground/50 flex items-center justify-center">
+                                <Play className="h-5 w-5 text-background" />
+                              </div>
+                            )}
+                          </div>
+                          <span
+                            className={`text-sm line-clamp-2 ${
+                              itemIndex === index ? "text-primary font-medium" : "text-foreground"
+                            }`}
+                          >
+                            {item.title}
+                          </span>
+                        </button>
+                      </li>
+                    ))}
+                  </ol>
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 // Firebase Authentication Context and Hook
-import { useState, useEffect, createContext, useContext, ReactNode } from "react";
-import { User, onAuthStateChanged } from "firebase/auth";
+import { useState, useEffect, useRef, createContext, useContext, ReactNode } from "react";
+import { User, onIdTokenChanged } from "firebase/auth";
 import { auth } from "@/integrations/firebase/client";
 import {
   signInWithEmail as firebaseSignInWithEmail,
@@ -9,11 +9,15 @@ import {
   handleGoogleRedirect,
   signOut as firebaseSignOut,
 } from "@/integrations/firebase/auth";
-import { getUserRole, isUserAdmin } from "@/integrations/firebase/firestore/users";
+import { UserRole } from "@/integrations/firebase/firestore/users";
+import { syncRoleClaims } from "@/integrations/firebase/helpers";
+import { Capability, hasCapability, isAdminRole } from "@/lib/permissions";
 
 interface FirebaseAuthContextType {
   user: User | null;
+  role: UserRole | null;
   isAdmin: boolean;
+  can: (capability: Capability) => boolean;
   isLoading: boolean;
   signIn: (email: string, password: string, rememberMe?: boolean) => Promise<{ error: Error | null }>;
   signInWithGoogle: (rememberMe?: boolean) => Promise<void>;
@@ -25,16 +29,27 @@ const FirebaseAuthContext = createContext<FirebaseAuthContextType | undefined>(u
 
 export function FirebaseAuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [role, setRole] = useState<UserRole | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const syncedUserIds = useRef(new Set<string>());
 
-  const checkAdminRole = async (uid: string) => {
+  // Roles live in the ID token's custom claims, set by the user-roles Netlify function
+  const loadRole = async (firebaseUser: User) => {
     try {
-      const adminStatus = await isUserAdmin(uid);
-      setIsAdmin(adminStatus);
+      const { claims } = await firebaseUser.getIdTokenResult();
+      if (claims.role || syncedUserIds.current.has(firebaseUser.uid)) {
+        setRole((claims.role as UserRole) || null);
+        return;
+      }
+
+      // Older accounts have their role in user_roles only; copy it into the token once
+      syncedUserIds.current.add(firebaseUser.uid);
+      await syncRoleClaims();
+      const refreshed = await firebaseUser.getIdTokenResult();
+      setRole((refreshed.claims.role as UserRole) || null);
     } catch (error) {
-      console.error("Error checking admin status:", error);
-      setIsAdmin(false);
+      console.error("Error loading user role:", error);
+      setRole(null);
     }
   };
 
@@ -44,17 +59,17 @@ export function FirebaseAuthProvider({ children }: { children: ReactNode }) {
       console.error("Error handling Google redirect:", error);
     });
 
-    // Listen to auth state changes
-    const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
-      setUser(firebaseUser);
-      
+    // Listen to sign-in, sign-out and token refreshes, which is when role changes arrive
+    const unsubscribe = onIdTokenChanged(auth, async (firebaseUser) => {
       if (firebaseUser) {
-        // Check admin role when user signs in
-        await checkAdminRole(firebaseUser.uid);
+        // Load the role (and so the capabilities) from the token before exposing the user,
+        // so pages never see a signed-in user whose role has not arrived yet
+        await loadRole(firebaseUser);
       } else {
-        setIsAdmin(false);
+        setRole(null);
       }
       
+      setUser(firebaseUser);
       setIsLoading(false);
     });
 
@@ -82,14 +97,18 @@ export function FirebaseAuthProvider({ children }: { children: ReactNode }) {
   const signOut = async () => {
     await firebaseSignOut();
     setUser(null);
-    setIsAdmin(false);
+    setRole(null);
   };
 
+  const can = (capability: Capability) => hasCapability(role, capability);
+
   return (
     <FirebaseAuthContext.Provider
       value={{
         user,
-        isAdmin,
+        role,
+        isAdmin: isAdminRole(role),
+        can,
         isLoading,
         signIn,
         signInWithGoogle,
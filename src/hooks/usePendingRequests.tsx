@@ -1,7 +1,7 @@
 import { useEffect } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { getPendingAdminRequests } from "@/integrations/firebase/firestore/users";
-import { collection, onSnapshot, query, where } from "firebase/firestore";
+import { collection, onSnapshot, query, where, Timestamp } from "firebase/firestore";
 import { db } from "@/integrations/firebase/client";
 import { toast } from "sonner";
 
@@ -9,13 +9,19 @@ interface AdminRequest {
   id: string;
   userId: string;
   email: string;
+  displayName: string;
+  ministry: string;
+  justification: string;
   status: string;
   createdAt: Date;
-  reviewedAt: Date | null;
-  reviewedBy: string | null;
+  expiresAt: Date | null;
 }
 
-export function usePendingRequests() {
+const toDate = (value: Date | Timestamp | undefined): Date | null =>
+  value ? (value instanceof Date ? value : value.toDate()) : null;
+
+// Pass false for admins who cannot manage other admins, so nothing is queried for them
+export function usePendingRequests(enabled: boolean = true) {
   const queryClient = useQueryClient();
 
   const { data: pendingRequests = [], ...queryResult } = useQuery({
@@ -26,17 +32,22 @@ export function usePendingRequests() {
         id: req.id || req.userId,
         userId: req.userId,
         email: req.email,
+        displayName: req.displayName || "",
+        ministry: req.ministry || "",
+        justification: req.justification || "",
         status: req.status,
-        createdAt: req.createdAt instanceof Date ? req.createdAt : new Date(),
-        reviewedAt: req.reviewedAt instanceof Date ? req.reviewedAt : null,
-        reviewedBy: req.reviewedBy || null
+        createdAt: toDate(req.createdAt) || new Date(),
+        expiresAt: toDate(req.expiresAt),
       })) as AdminRequest[];
     },
     refetchInterval: 30000, // Background refresh every 30 seconds
+    enabled,
   });
 
   // Set up Firestore realtime listener for new requests
   useEffect(() => {
+    if (!enabled) return;
+
     const requestsRef = collection(db, 'admin_requests');
     const q = query(requestsRef, where('status', '==', 'pending'));
     
@@ -56,7 +67,7 @@ export function usePendingRequests() {
     });
 
     return () => unsubscribe();
-  }, [queryClient]);
+  }, [queryClient, enabled]);
 
   return {
     pendingRequests,
@@ -8,21 +8,19 @@ import {
 } from 'firebase/auth';
 import {
   deleteDoc,
-  doc,
   getDocs,
   collection,
   query,
-  where,
-  writeBatch
+  where
 } from 'firebase/firestore';
 import { db } from './client';
-import { isUserAdmin } from './firestore/users';
+import { deleteUser } from './helpers';
+import { isUserAdmin, UserProfile } from './firestore/users';
 
 /**
- * Delete user and all associated data
- * NOTE: This requires Firebase Admin SDK for full functionality
- * For production, implement this as a Firebase Cloud Function
- * 
+ * Delete user and all associated data through the delete-user Netlify function,
+ * which also removes the Auth account and refuses to delete the last super admin
+ *
  * @param userId - User ID to delete
  * @param requestingUserId - ID of user performing the deletion (must be admin)
  */
@@ -30,51 +28,12 @@ export const deleteUserAccount = async (
   userId: string,
   requestingUserId: string
 ): Promise<{ success: boolean; error?: string }> => {
-  try {
-    // Verify requesting user is admin
-    const isAdmin = await isUserAdmin(requestingUserId);
-    if (!isAdmin) {
-      return { success: false, error: 'Only admins can delete users' };
-    }
-
-    // Prevent self-deletion
-    if (userId === requestingUserId) {
-      return { success: false, error: 'Cannot delete your own account' };
-    }
-
-    const batch = writeBatch(db);
-
-    // Delete from user_roles
-    const roleRef = doc(db, 'user_roles', userId);
-    batch.delete(roleRef);
-
-    // Delete from admin_requests
-    const requestRef = doc(db, 'admin_requests', userId);
-    batch.delete(requestRef);
-
-    // Delete from profiles
-    const profileRef = doc(db, 'users', userId);
-    batch.delete(profileRef);
-
-    // Commit batch
-    await batch.commit();
-
-    // NOTE: Deleting from Firebase Auth requires Admin SDK or Cloud Function
-    // For client-side, you can only delete the current user
-    // Implement this in a Cloud Function for production:
-    console.warn('Auth user deletion should be done via Firebase Cloud Function');
-    
-    return { 
-      success: true, 
-      error: 'User data deleted. Note: Auth account requires Cloud Function for full deletion' 
-    };
-  } catch (error) {
-    console.error('Error deleting user:', error);
-    return { 
-      success: false, 
-      error: error instanceof Error ? error.message : 'Failed to delete user' 
-    };
+  // Prevent self-deletion
+  if (userId === requestingUserId) {
+    return { success: false, error: 'Cannot delete your own account' };
   }
+
+  return deleteUser(userId);
 };
 
 /**
@@ -106,7 +65,7 @@ export const batchDeleteUsers = async (
 /**
  * Get all users (admin only)
  */
-export const getAllUsers = async (requestingUserId: string) => {
+export const getAllUsers = async (requestingUserId: string): Promise<UserProfile[]> => {
   try {
     const isAdmin = await isUserAdmin(requestingUserId);
     if (!isAdmin) {
@@ -117,9 +76,9 @@ export const getAllUsers = async (requestingUserId: string) => {
     const snapshot = await getDocs(usersRef);
     
     return snapshot.docs.map(doc => ({
-      id: doc.id,
+      uid: doc.id,
       ...doc.data()
-    }));
+    } as UserProfile));
   } catch (error) {
     console.error('Error getting all users:', error);
     throw error;
@@ -7,6 +7,8 @@ import {
   GoogleAuthProvider,
   signOut as firebaseSignOut,
   sendPasswordResetEmail,
+  sendEmailVerification,
+  reload,
   updateProfile,
   updateEmail,
   updatePassword,
@@ -17,7 +19,6 @@ import {
 } from 'firebase/auth';
 import { auth, browserLocalPersistence, browserSessionPersistence } from './client';
 import { createUserProfile, getUserRole } from './firestore/users';
-import { createAdminRequest, getAdminRequestStatus, isUserAdmin } from './firestore/users';
 
 // Google provider for OAuth
 const googleProvider = new GoogleAuthProvider();
@@ -45,20 +46,19 @@ export const signUpWithEmail = async (
       await updateProfile(userCredential.user, { displayName });
     }
     
-    // Create user profile in Firestore (this also auto-grants admin if first user)
+    // Create user profile in Firestore
     await createUserProfile(userCredential.user.uid, {
       email: userCredential.user.email || email,
       displayName: displayName || userCredential.user.displayName || '',
       createdAt: new Date(),
     });
+
+    // Anything sent from the website with this address is only linked to the account once it is verified
+    await sendEmailVerification(userCredential.user).catch((error) =>
+      console.error('Error sending verification email:', error)
+    );
     
-    // Check if user was made admin (first user), if not create admin request
-    const isAdmin = await isUserAdmin(userCredential.user.uid);
-    if (!isAdmin) {
-      await createAdminRequest(userCredential.user.uid, email);
-      console.log('Admin request created for new user');
-    }
-    
+    // Anyone who wants admin access asks from the /admin-request page
     return { user: userCredential.user, error: null };
   } catch (error) {
     console.error('Error signing up:', error);
@@ -131,20 +131,6 @@ export const handleGoogleRedirect = async (): Promise<{ user: User | null; error
           photoURL: userCredential.user.photoURL || '',
           createdAt: new Date(),
         });
-        
-        // After creating profile, check if user is admin
-        // If not admin and no existing request, create an admin request
-        const isAdmin = await isUserAdmin(userCredential.user.uid);
-        if (!isAdmin) {
-          const existingRequest = await getAdminRequestStatus(userCredential.user.uid);
-          if (!existingRequest) {
-            await createAdminRequest(
-              userCredential.user.uid,
-              userCredential.user.email || ''
-            );
-            console.log('Admin request created for Google sign-in user');
-          }
-        }
       }
       
       return { user: userCredential.user, error: null };
@@ -183,6 +169,40 @@ export const resetPassword = async (email: string): Promise<{ error: Error | nul
   }
 };
 
+/**
+ * Email the signed-in user a link to confirm they own their address
+ */
+export const sendVerificationEmail = async (): Promise<{ error: Error | null }> => {
+  try {
+    if (!auth.currentUser) {
+      throw new Error('No user is currently signed in');
+    }
+
+    await sendEmailVerification(auth.currentUser);
+    return { error: null };
+  } catch (error) {
+    console.error('Error sending verification email:', error);
+    return { error: error as Error };
+  }
+};
+
+/**
+ * Reload the signed-in user to pick up a verification done in another tab
+ */
+export const reloadEmailVerified = async (): Promise<{ verified: boolean; error: Error | null }> => {
+  try {
+    if (!auth.currentUser) {
+      throw new Error('No user is currently signed in');
+    }
+
+    await reload(auth.currentUser);
+    return { verified: auth.currentUser.emailVerified, error: null };
+  } catch (error) {
+    console.error('Error reloading user:', error);
+    return { verified: false, error: error as Error };
+  }
+};
+
 /**
  * Update user profile
  */
@@ -0,0 +1,117 @@
+// Firestore - Canned responses for the Messages inbox
+// Reusable replies with {{placeholders}} filled from live church info and service times when inserted
+import {
+  collection,
+  doc,
+  getDocs,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  orderBy,
+  increment,
+  writeBatch,
+  Timestamp,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { db } from '../client';
+import { ChurchInfo, ContactSubmission, ServiceTime } from './church';
+import { renderTemplateString } from '../../../lib/emailTemplates';
+
+// Collection names
+const CANNED_RESPONSES_COLLECTION = 'canned_responses';
+
+export interface CannedResponse {
+  id?: string;
+  title: string;
+  body: string;
+  usageCount: number; // Replies and notes sent with this response
+  lastUsedAt?: Date | Timestamp;
+  createdBy: string;
+  createdAt: Date | Timestamp;
+  updatedAt?: Date | Timestamp;
+}
+
+export const CANNED_RESPONSE_PLACEHOLDERS = [
+  { name: 'name', description: "Sender's name" },
+  { name: 'churchName', description: 'Church name from Settings' },
+  { name: 'churchAddress', description: 'Church address from Settings' },
+  { name: 'churchPhone', description: 'Church phone from Settings' },
+  { name: 'churchEmail', description: 'Church email from Settings' },
+  { name: 'serviceTimes', description: 'Active service times, one per line' },
+];
+
+// "14:30" -> "2:30 PM", matching the About section
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':');
+  const hour = parseInt(hours);
+  return `${hour % 12 || 12}:${minutes} ${hour >= 12 ? 'PM' : 'AM'}`;
+};
+
+export const formatServiceTimes = (serviceTimes: ServiceTime[]): string =>
+  serviceTimes
+    .map((service) => {
+      const time = service.endTime
+        ? `${formatTime(service.startTime)} - ${formatTime(service.endTime)}`
+        : formatTime(service.startTime);
+      return `${service.serviceName}: ${service.dayOfWeek}, ${time}`;
+    })
+    .join('\n');
+
+export const renderCannedResponse = (
+  response: Pick<CannedResponse, 'body'>,
+  data: { churchInfo: ChurchInfo | null; serviceTimes: ServiceTime[]; message: ContactSubmission | null }
+): string =>
+  renderTemplateString(response.body, {
+    name: data.message?.name || '',
+    churchName: data.churchInfo?.churchName || '',
+    churchAddress: data.churchInfo?.address || '',
+    churchPhone: data.churchInfo?.phone || '',
+    churchEmail: data.churchInfo?.email || '',
+    serviceTimes: formatServiceTimes(data.serviceTimes),
+  });
+
+export const getCannedResponses = async (): Promise<CannedResponse[]> => {
+  const q = query(collection(db, CANNED_RESPONSES_COLLECTION), orderBy('title', 'asc'));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as CannedResponse));
+};
+
+export const createCannedResponse = async (
+  response: Pick<CannedResponse, 'title' | 'body' | 'createdBy'>
+): Promise<string> => {
+  const docRef = await addDoc(collection(db, CANNED_RESPONSES_COLLECTION), {
+    ...response,
+    usageCount: 0,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  return docRef.id;
+};
+
+export const updateCannedResponse = async (
+  responseId: string,
+  updates: Pick<CannedResponse, 'title' | 'body'>
+): Promise<void> => {
+  await updateDoc(doc(db, CANNED_RESPONSES_COLLECTION, responseId), {
+    ...updates,
+    updatedAt: serverTimestamp(),
+  });
+};
+
+export const deleteCannedResponse = async (responseId: string): Promise<void> => {
+  await deleteDoc(doc(db, CANNED_RESPONSES_COLLECTION, responseId));
+};
+
+// Counted once per sent reply or note, however many times it was inserted into the draft
+export const recordCannedResponseUsage = async (responseIds: string[]): Promise<void> => {
+  if (responseIds.length === 0) return;
+  const batch = writeBatch(db);
+  new Set(responseIds).forEach((responseId) => {
+    batch.update(doc(db, CANNED_RESPONSES_COLLECTION, responseId), {
+      usageCount: increment(1),
+      lastUsedAt: serverTimestamp(),
+    });
+  });
+  await batch.commit();
+};
@@ -11,19 +11,38 @@ import {
   where,
   orderBy,
   limit,
+  increment,
+  writeBatch,
+  deleteField,
   Timestamp,
   serverTimestamp,
 } from 'firebase/firestore';
 import { db } from '../client';
+import {
+  expandRecurrence,
+  toOccurrenceKey,
+  OccurrenceException,
+  RecurrenceRule,
+} from '../../../lib/recurrence';
+import { RegistrationStatus } from '../../../lib/eventRegistration';
+import type { MessageStatus } from './messages';
+import type { ContactCategory, SpamReason } from '../../../lib/contact';
+import type { LegalHold } from './retention';
 
 // Collection names
 const EVENTS_COLLECTION = 'events';
 const VIDEOS_COLLECTION = 'videos';
+const YOUTUBE_SYNC_STATUS_DOC = 'youtube_sync/status';
 const CONTACT_SUBMISSIONS_COLLECTION = 'contact_submissions';
 const CHURCH_INFO_COLLECTION = 'church_info';
 const SERVICE_TIMES_COLLECTION = 'service_times';
 const GALLERY_ALBUMS_COLLECTION = 'gallery_albums';
 const GALLERY_IMAGES_COLLECTION = 'gallery_images';
+const EVENT_REGISTRATIONS_COLLECTION = 'event_registrations';
+const PRAYER_REQUESTS_COLLECTION = 'prayer_requests';
+// Requester name/email live in a subcollection so the public wall never exposes them
+const PRAYER_CONTACT_SUBCOLLECTION = 'private';
+const PRAYER_CONTACT_DOC = 'contact';
 
 // Event types
 export interface Event {
@@ -36,29 +55,88 @@ export interface Event {
   location?: string;
   eventType?: string;
   isActive: boolean;
+  recurrence?: RecurrenceRule | null; // eventDate is the first occurrence when set
+  exceptions?: Record<string, OccurrenceException>; // Keyed by yyyy-MM-dd occurrence date
+  registrationEnabled?: boolean;
+  capacity?: number | null; // Seats including guests; null means unlimited
+  registeredCount?: number; // Confirmed seats, maintained by the event-registration function
+  waitlistCount?: number;   // Waitlisted seats, maintained by the event-registration function
   createdAt: Date | Timestamp;
   updatedAt?: Date | Timestamp;
 }
 
+// A single dated instance of an event; eventDate is the occurrence's own date
+export interface EventOccurrence extends Event {
+  eventDate: Date;
+  seriesStart: Date; // First occurrence, which recurrence rules are described from
+  occurrenceKey: string;
+  isRecurring: boolean;
+}
+
+// Event registration types; the doc ID is the confirmation code
+export interface EventRegistration {
+  id?: string;
+  eventId: string;
+  eventTitle: string;
+  name: string;
+  email: string;
+  phone?: string;
+  guests: number;
+  seats: number;
+  status: RegistrationStatus;
+  confirmationCode: string;
+  promotedAt?: Date | Timestamp;
+  cancelledAt?: Date | Timestamp;
+  cancelledBy?: 'admin' | 'registrant';
+  createdAt: Date | Timestamp;
+}
+
 // Video types
 export interface Video {
   id?: string;
   title: string;
-  youtubeVideoId: string;
+  youtubeVideoId: string; // Empty for audio-only teachings
   description?: string;
   displayOrder: number;
   isActive: boolean;
+  category?: string | null;  // One of VIDEO_CATEGORIES
+  playlistIds?: string[];    // video_playlists document IDs
+  // Teaching library details, set when the video is a sermon or teaching
+  isSermon?: boolean;
+  seriesId?: string | null;
+  speakerId?: string | null;
+  preachedOn?: Date | Timestamp | null;
+  scriptures?: string[];    // e.g. "John 3:16-21"
+  topics?: string[];
+  audioUrl?: string | null;
+  audioPath?: string | null; // Storage path, kept so the file can be deleted
+  audioSize?: number | null; // Bytes, for the podcast feed enclosure
+  audioType?: string | null;
+  audioDuration?: number | null; // Seconds
+  // Filled in by the YouTube channel sync
+  thumbnailUrl?: string | null;
+  duration?: number | null;        // Seconds
+  publishedAt?: Date | Timestamp | null;
+  importedFromYouTube?: boolean;
+  removedUpstreamAt?: Date | Timestamp | null; // Set when the video is deleted or made private on YouTube
   createdAt: Date | Timestamp;
   updatedAt?: Date | Timestamp;
 }
 
 // Contact submission types
-export interface ContactSubmission {
+export interface ContactSubmission extends LegalHold {
   id?: string;
   name: string;
   email: string;
+  category?: ContactCategory; // Missing on messages sent before categories existed - treat as 'general'
   message: string;
   isRead: boolean;
+  status?: MessageStatus; // Missing on messages received before the inbox existed - treat as 'new'
+  assignedTo?: string | null; // Admin user ID
+  replyCount?: number;
+  lastActivityAt?: Date | Timestamp;
+  isSpam?: boolean;
+  spamReasons?: SpamReason[];
   createdAt: Date | Timestamp;
 }
 
@@ -75,6 +153,9 @@ export interface ChurchInfo {
   facebookUrl?: string;
   instagramUrl?: string;
   googleMapsEmbedUrl?: string;
+  podcastDescription?: string;
+  podcastImageUrl?: string; // Square artwork for podcast apps
+  adminRequestExpiryDays?: number; // Defaults to DEFAULT_ADMIN_REQUEST_EXPIRY_DAYS in lib/adminRequests
   createdAt: Date | Timestamp;
   updatedAt?: Date | Timestamp;
 }
@@ -115,6 +196,27 @@ export interface GalleryImage {
   createdAt: Date | Timestamp;
 }
 
+// Prayer request types
+export type PrayerPrivacy = 'public' | 'intercessors' | 'leadership';
+export type PrayerRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface PrayerRequest extends LegalHold {
+  id?: string;
+  displayName: string;
+  request: string;
+  privacy: PrayerPrivacy;
+  status: PrayerRequestStatus;
+  prayerCount: number;
+  reviewedBy?: string;
+  reviewedAt?: Date | Timestamp;
+  createdAt: Date | Timestamp;
+}
+
+export interface PrayerRequestContact {
+  name: string;
+  email?: string;
+}
+
 // ===== EVENTS =====
 
 export const getActiveEvents = async (): Promise<Event[]> => {
@@ -135,6 +237,12 @@ export const getAllEvents = async (): Promise<Event[]> => {
   return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Event));
 };
 
+export const getEventById = async (eventId: string): Promise<Event | null> => {
+  const eventRef = doc(db, EVENTS_COLLECTION, eventId);
+  const eventSnap = await getDoc(eventRef);
+  return eventSnap.exists() ? ({ id: eventSnap.id, ...eventSnap.data() } as Event) : null;
+};
+
 export const createEvent = async (event: Omit<Event, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> => {
   const eventsRef = collection(db, EVENTS_COLLECTION);
   const docRef = await addDoc(eventsRef, {
@@ -158,8 +266,113 @@ export const deleteEvent = async (eventId: string): Promise<void> => {
   await deleteDoc(eventRef);
 };
 
+/**
+ * Expands an event into its occurrences between rangeStart and rangeEnd.
+ * One-off events yield themselves when in range; cancelled occurrences are dropped
+ * and edited ones carry their overrides.
+ */
+export const expandEventOccurrences = (
+  event: Event,
+  rangeStart: Date,
+  rangeEnd: Date
+): EventOccurrence[] => {
+  const seriesStart = event.eventDate instanceof Date ? event.eventDate : event.eventDate.toDate();
+
+  if (!event.recurrence) {
+    const from = new Date(rangeStart);
+    from.setHours(0, 0, 0, 0);
+    if (seriesStart < from || seriesStart > rangeEnd) return [];
+    return [{ ...event, eventDate: seriesStart, seriesStart, occurrenceKey: toOccurrenceKey(seriesStart), isRecurring: false }];
+  }
+
+  return expandRecurrence(seriesStart, event.recurrence, rangeStart, rangeEnd)
+    .map(date => ({ date, key: toOccurrenceKey(date) }))
+    .filter(({ key }) => !event.exceptions?.[key]?.cancelled)
+    .map(({ date, key }) => {
+      const exception = event.exceptions?.[key];
+      return {
+        ...event,
+        title: exception?.title || event.title,
+        description: exception?.description ?? event.description,
+        startTime: exception?.startTime || event.startTime,
+        endTime: exception?.endTime ?? event.endTime,
+        location: exception?.location ?? event.location,
+        eventDate: date,
+        seriesStart,
+        occurrenceKey: key,
+        isRecurring: true,
+      };
+    });
+};
+
+export const getEventOccurrences = async (
+  rangeStart: Date,
+  rangeEnd: Date
+): Promise<EventOccurrence[]> => {
+  const events = await getActiveEvents();
+  return events
+    .flatMap(event => expandEventOccurrences(event, rangeStart, rangeEnd))
+    .sort((a, b) =>
+      a.occurrenceKey === b.occurrenceKey
+        ? a.startTime.localeCompare(b.startTime)
+        : a.occurrenceKey.localeCompare(b.occurrenceKey)
+    );
+};
+
+// Cancels or edits one occurrence of a recurring event without touching the series
+export const setEventOccurrenceException = async (
+  eventId: string,
+  occurrenceKey: string,
+  exception: OccurrenceException
+): Promise<void> => {
+  const eventRef = doc(db, EVENTS_COLLECTION, eventId);
+  await updateDoc(eventRef, {
+    [`exceptions.${occurrenceKey}`]: exception,
+    updatedAt: serverTimestamp(),
+  });
+};
+
+export const clearEventOccurrenceException = async (
+  eventId: string,
+  occurrenceKey: string
+): Promise<void> => {
+  const eventRef = doc(db, EVENTS_COLLECTION, eventId);
+  await updateDoc(eventRef, {
+    [`exceptions.${occurrenceKey}`]: deleteField(),
+    updatedAt: serverTimestamp(),
+  });
+};
+
+// ===== EVENT REGISTRATIONS =====
+// Registrations are written by the event-registration Netlify function; admins read them here
+
+export const getEventRegistrations = async (eventId: string): Promise<EventRegistration[]> => {
+  const registrationsRef = collection(db, EVENT_REGISTRATIONS_COLLECTION);
+  const q = query(registrationsRef, where('eventId', '==', eventId));
+  const snapshot = await getDocs(q);
+  const registrations = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as EventRegistration));
+  // Sorted here to avoid a composite index on eventId + createdAt
+  return registrations.sort((a, b) => {
+    const aTime = a.createdAt instanceof Date ? a.createdAt.getTime() : a.createdAt?.toMillis() ?? 0;
+    const bTime = b.createdAt instanceof Date ? b.createdAt.getTime() : b.createdAt?.toMillis() ?? 0;
+    return aTime - bTime;
+  });
+};
+
 // ===== VIDEOS =====
 
+// Result of the last YouTube channel sync, written by the youtube-sync Netlify function
+export interface YouTubeSyncStatus {
+  imported: number;
+  removed: number;
+  restored: number;
+  checked: number;
+  source: string;
+  channelUrl: string;
+  syncedBy: string;
+  syncedAt: Date | Timestamp;
+}
+
 export const getActiveVideos = async (): Promise<Video[]> => {
   const videosRef = collection(db, VIDEOS_COLLECTION);
   const q = query(
@@ -201,19 +414,14 @@ export const deleteVideo = async (videoId: string): Promise<void> => {
   await deleteDoc(videoRef);
 };
 
+export const getYouTubeSyncStatus = async (): Promise<YouTubeSyncStatus | null> => {
+  const snapshot = await getDoc(doc(db, YOUTUBE_SYNC_STATUS_DOC));
+  return snapshot.exists() ? (snapshot.data() as YouTubeSyncStatus) : null;
+};
+
 // ===== CONTACT SUBMISSIONS =====
 
-export const createContactSubmission = async (
-  submission: Omit<ContactSubmission, 'id' | 'isRead' | 'createdAt'>
-): Promise<string> => {
-  const submissionsRef = collection(db, CONTACT_SUBMISSIONS_COLLECTION);
-  const docRef = await addDoc(submissionsRef, {
-    ...submission,
-    isRead: false,
-    createdAt: serverTimestamp(),
-  });
-  return docRef.id;
-};
+// Messages are created by the contact-submit Netlify function, which also screens for spam
 
 export const getContactSubmissions = async (onlyUnread = false): Promise<ContactSubmission[]> => {
   const submissionsRef = collection(db, CONTACT_SUBMISSIONS_COLLECTION);
@@ -404,4 +612,106 @@ export const updateImageOrder = async (
 ): Promise<void> => {
   const imageRef = doc(db, GALLERY_IMAGES_COLLECTION, imageId);
   await updateDoc(imageRef, { displayOrder });
-};
\ No newline at end of file
+};
+
+// ===== PRAYER REQUESTS =====
+
+export const createPrayerRequest = async (
+  prayerRequest: Pick<PrayerRequest, 'request' | 'privacy'>,
+  contact: PrayerRequestContact,
+  isAnonymous: boolean
+): Promise<string> => {
+  const requestRef = doc(collection(db, PRAYER_REQUESTS_COLLECTION));
+  const contactRef = doc(requestRef, PRAYER_CONTACT_SUBCOLLECTION, PRAYER_CONTACT_DOC);
+
+  const batch = writeBatch(db);
+  batch.set(requestRef, {
+    ...prayerRequest,
+    displayName: isAnonymous ? 'Anonymous' : contact.name,
+    status: 'pending' as PrayerRequestStatus,
+    prayerCount: 0,
+    createdAt: serverTimestamp(),
+  });
+  // Lower-cased so a My Data request finds it however the address was typed; the rules insist on it
+  batch.set(contactRef, {
+    name: contact.name,
+    ...(contact.email && { email: contact.email.toLowerCase() }),
+  });
+  await batch.commit();
+  return requestRef.id;
+};
+
+/**
+ * Approved requests for the public wall.
+ * Intercessor-only requests are included for roles with prayer.read; leadership-only
+ * requests are never returned here.
+ */
+export const getApprovedPrayerRequests = async (
+  includeIntercessors = false
+): Promise<PrayerRequest[]> => {
+  const requestsRef = collection(db, PRAYER_REQUESTS_COLLECTION);
+  const privacyLevels: PrayerPrivacy[] = includeIntercessors ? ['public', 'intercessors'] : ['public'];
+  const q = query(
+    requestsRef,
+    where('status', '==', 'approved'),
+    where('privacy', 'in', privacyLevels),
+    orderBy('createdAt', 'desc')
+  );
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as PrayerRequest));
+};
+
+export const getPrayerRequests = async (status?: PrayerRequestStatus): Promise<PrayerRequest[]> => {
+  const requestsRef = collection(db, PRAYER_REQUESTS_COLLECTION);
+  let q = query(requestsRef, orderBy('createdAt', 'desc'));
+
+  if (status) {
+    q = query(requestsRef, where('status', '==', status), orderBy('createdAt', 'desc'));
+  }
+
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as PrayerRequest));
+};
+
+export const getPrayerRequestContact = async (requestId: string): Promise<PrayerRequestContact | null> => {
+  const contactRef = doc(db, PRAYER_REQUESTS_COLLECTION, requestId, PRAYER_CONTACT_SUBCOLLECTION, PRAYER_CONTACT_DOC);
+  const contactSnap = await getDoc(contactRef);
+  return contactSnap.exists() ? (contactSnap.data() as PrayerRequestContact) : null;
+};
+
+export const reviewPrayerRequest = async (
+  requestId: string,
+  status: PrayerRequestStatus,
+  reviewedBy: string
+): Promise<void> => {
+  const requestRef = doc(db, PRAYER_REQUESTS_COLLECTION, requestId);
+  await updateDoc(requestRef, {
+    status,
+    reviewedBy,
+    reviewedAt: serverTimestamp(),
+  });
+};
+
+export const updatePrayerRequestPrivacy = async (
+  requestId: string,
+  privacy: PrayerPrivacy
+): Promise<void> => {
+  const requestRef = doc(db, PRAYER_REQUESTS_COLLECTION, requestId);
+  await updateDoc(requestRef, { privacy });
+};
+
+// Raises the "I prayed" counter; the security rules only allow +1 steps from visitors
+export const recordPrayer = async (requestId: string): Promise<void> => {
+  const requestRef = doc(db, PRAYER_REQUESTS_COLLECTION, requestId);
+  await updateDoc(requestRef, { prayerCount: increment(1) });
+};
+
+export const deletePrayerRequest = async (requestId: string): Promise<void> => {
+  const requestRef = doc(db, PRAYER_REQUESTS_COLLECTION, requestId);
+  const contactRef = doc(requestRef, PRAYER_CONTACT_SUBCOLLECTION, PRAYER_CONTACT_DOC);
+
+  const batch = writeBatch(db);
+  batch.delete(contactRef);
+  batch.delete(requestRef);
+  await batch.commit();
+};
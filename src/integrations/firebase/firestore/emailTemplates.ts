@@ -0,0 +1,58 @@
+// Firestore - Editable email templates
+// Each template is stored only once an admin edits it; until then the defaults in lib/emailTemplates apply
+import {
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  Timestamp,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { db } from '../client';
+import { EMAIL_TEMPLATES, EmailTemplate, EmailTemplateKey } from '../../../lib/emailTemplates';
+
+// Collection names
+const EMAIL_TEMPLATES_COLLECTION = 'email_templates';
+
+export interface StoredEmailTemplate extends EmailTemplate {
+  isCustomized: boolean;
+  updatedBy?: string;
+  updatedAt?: Date | Timestamp;
+}
+
+export const getEmailTemplates = async (): Promise<Record<EmailTemplateKey, StoredEmailTemplate>> => {
+  const snapshot = await getDocs(collection(db, EMAIL_TEMPLATES_COLLECTION));
+  const stored = new Map(snapshot.docs.map((templateDoc) => [templateDoc.id, templateDoc.data()]));
+
+  return Object.fromEntries(
+    EMAIL_TEMPLATES.map((definition) => {
+      const data = stored.get(definition.key);
+      return [
+        definition.key,
+        data
+          ? { ...definition.defaults, ...data, isCustomized: true }
+          : { ...definition.defaults, isCustomized: false },
+      ];
+    })
+  ) as Record<EmailTemplateKey, StoredEmailTemplate>;
+};
+
+export const saveEmailTemplate = async (
+  key: EmailTemplateKey,
+  template: EmailTemplate,
+  updatedBy: string
+): Promise<void> => {
+  await setDoc(doc(db, EMAIL_TEMPLATES_COLLECTION, key), {
+    subject: template.subject,
+    body: template.body,
+    enabled: template.enabled,
+    updatedBy,
+    updatedAt: serverTimestamp(),
+  });
+};
+
+// Removing the stored copy brings back the default wording
+export const resetEmailTemplate = async (key: EmailTemplateKey): Promise<void> => {
+  await deleteDoc(doc(db, EMAIL_TEMPLATES_COLLECTION, key));
+};
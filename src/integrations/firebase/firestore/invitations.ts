@@ -0,0 +1,32 @@
+// Firestore - Admin invitations
+// Written only by the admin-invitations Netlify function; the admin panel reads them
+import { collection, getDocs, query, orderBy, Timestamp } from 'firebase/firestore';
+import { db } from '../client';
+import { AdminRole } from '../../../lib/permissions';
+import { InvitationStatus } from '../../../lib/invitations';
+
+// Collection name
+const ADMIN_INVITATIONS_COLLECTION = 'admin_invitations';
+
+export interface AdminInvitation {
+  id?: string;
+  email: string; // Lowercased
+  role: AdminRole;
+  status: InvitationStatus;
+  invitedBy: string;
+  invitedByName: string;
+  sendCount: number;
+  createdAt: Date | Timestamp;
+  sentAt: Date | Timestamp;
+  expiresAt: Date | Timestamp;
+  acceptedBy?: string;
+  acceptedAt?: Date | Timestamp;
+  revokedBy?: string;
+  revokedAt?: Date | Timestamp;
+}
+
+export const getAdminInvitations = async (): Promise<AdminInvitation[]> => {
+  const q = query(collection(db, ADMIN_INVITATIONS_COLLECTION), orderBy('createdAt', 'desc'));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as AdminInvitation));
+};
@@ -0,0 +1,149 @@
+// Firestore - Livestreams (scheduled YouTube streams of services and prayer sessions)
+// Admins move a stream from upcoming to live to ended; an ended stream can become a video
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  writeBatch,
+  Timestamp,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { db } from '../client';
+
+// Collection names
+const LIVESTREAMS_COLLECTION = 'livestreams';
+const VIDEOS_COLLECTION = 'videos';
+
+export type LivestreamStatus = 'upcoming' | 'live' | 'ended';
+
+export interface Livestream {
+  id?: string;
+  title: string;
+  description?: string;
+  streamId: string;         // YouTube video ID of the live stream
+  scheduledStart: Date | Timestamp;
+  status: LivestreamStatus;
+  startedAt?: Date | Timestamp | null;
+  endedAt?: Date | Timestamp | null;
+  videoId?: string | null;  // Set once the recording has been converted to a video
+  createdAt: Date | Timestamp;
+  updatedAt?: Date | Timestamp;
+}
+
+const toDate = (value: Date | Timestamp): Date => (value instanceof Date ? value : value.toDate());
+
+export const getScheduledStart = (stream: Livestream): Date => toDate(stream.scheduledStart);
+
+/**
+ * The stream to promote on the site: whatever is live now, otherwise the
+ * next upcoming one. Upcoming streams past their start time still count,
+ * since admins switch them to live by hand.
+ */
+export const getFeaturedLivestream = (streams: Livestream[]): Livestream | null =>
+  streams.find((stream) => stream.status === 'live') ||
+  streams
+    .filter((stream) => stream.status === 'upcoming')
+    .sort((a, b) => getScheduledStart(a).getTime() - getScheduledStart(b).getTime())[0] ||
+  null;
+
+// ===== LIVESTREAMS =====
+
+// Upcoming and live streams, for the header banner and hero countdown
+export const getCurrentLivestreams = async (): Promise<Livestream[]> => {
+  const streamsRef = collection(db, LIVESTREAMS_COLLECTION);
+  const q = query(streamsRef, where('status', 'in', ['upcoming', 'live']));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Livestream));
+};
+
+export const getAllLivestreams = async (): Promise<Livestream[]> => {
+  const streamsRef = collection(db, LIVESTREAMS_COLLECTION);
+  const q = query(streamsRef, orderBy('scheduledStart', 'desc'));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Livestream));
+};
+
+export const getLivestreamById = async (streamId: string): Promise<Livestream | null> => {
+  const streamSnap = await getDoc(doc(db, LIVESTREAMS_COLLECTION, streamId));
+  if (!streamSnap.exists()) return null;
+  return { id: streamSnap.id, ...streamSnap.data() } as Livestream;
+};
+
+export const createLivestream = async (
+  stream: Omit<Livestream, 'id' | 'status' | 'createdAt' | 'updatedAt'>
+): Promise<string> => {
+  const streamsRef = collection(db, LIVESTREAMS_COLLECTION);
+  const docRef = await addDoc(streamsRef, {
+    ...stream,
+    status: 'upcoming',
+    startedAt: null,
+    endedAt: null,
+    videoId: null,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  return docRef.id;
+};
+
+export const updateLivestream = async (streamId: string, data: Partial<Livestream>): Promise<void> => {
+  const streamRef = doc(db, LIVESTREAMS_COLLECTION, streamId);
+  await updateDoc(streamRef, {
+    ...data,
+    updatedAt: serverTimestamp(),
+  });
+};
+
+// Records when the stream actually started or ended alongside the status
+export const setLivestreamStatus = async (streamId: string, status: LivestreamStatus): Promise<void> => {
+  await updateLivestream(streamId, {
+    status,
+    ...(status === 'upcoming' && { startedAt: null, endedAt: null }),
+    ...(status === 'live' && { startedAt: Timestamp.now(), endedAt: null }),
+    ...(status === 'ended' && { endedAt: Timestamp.now() }),
+  });
+};
+
+export const deleteLivestream = async (streamId: string): Promise<void> => {
+  await deleteDoc(doc(db, LIVESTREAMS_COLLECTION, streamId));
+};
+
+/**
+ * Turns an ended stream into a published video at the end of the video list.
+ * YouTube keeps the recording under the same video ID, so no upload is needed.
+ */
+export const convertLivestreamToVideo = async (stream: Livestream): Promise<string> => {
+  const videosRef = collection(db, VIDEOS_COLLECTION);
+  const lastVideo = await getDocs(query(videosRef, orderBy('displayOrder', 'desc'), limit(1)));
+  const maxOrder = lastVideo.docs[0]?.data().displayOrder || 0;
+
+  const startedAt = stream.startedAt ? toDate(stream.startedAt) : getScheduledStart(stream);
+  const endedAt = stream.endedAt ? toDate(stream.endedAt) : null;
+
+  const videoRef = doc(videosRef);
+  const batch = writeBatch(db);
+  batch.set(videoRef, {
+    title: stream.title,
+    youtubeVideoId: stream.streamId,
+    description: stream.description || '',
+    displayOrder: maxOrder + 1,
+    isActive: true,
+    publishedAt: Timestamp.fromDate(startedAt),
+    duration: endedAt ? Math.round((endedAt.getTime() - startedAt.getTime()) / 1000) : null,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  batch.update(doc(db, LIVESTREAMS_COLLECTION, stream.id!), {
+    videoId: videoRef.id,
+    updatedAt: serverTimestamp(),
+  });
+  await batch.commit();
+  return videoRef.id;
+};
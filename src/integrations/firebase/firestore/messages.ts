@@ -0,0 +1,207 @@
+// Firestore - Contact message inbox
+// Statuses, assignment, category routing and the per-message thread of emailed replies and internal notes
+import {
+  collection,
+  doc,
+  getDocs,
+  addDoc,
+  query,
+  orderBy,
+  writeBatch,
+  Timestamp,
+  serverTimestamp,
+  WriteBatch,
+} from 'firebase/firestore';
+import { db } from '../client';
+import { ContactSubmission } from './church';
+import { getAllAdmins, getUserProfile } from './users';
+import { ContactCategory, DEFAULT_CONTACT_CATEGORY } from '../../../lib/contact';
+import { hasCapability } from '../../../lib/permissions';
+
+// Collection names
+const CONTACT_SUBMISSIONS_COLLECTION = 'contact_submissions';
+const THREAD_SUBCOLLECTION = 'thread';
+const CONTACT_ROUTING_COLLECTION = 'contact_routing';
+
+// Firestore batches are capped at 500 writes
+const BATCH_LIMIT = 500;
+
+export type MessageStatus = 'new' | 'in_progress' | 'awaiting_reply' | 'resolved';
+
+export const MESSAGE_STATUSES: { value: MessageStatus; label: string }[] = [
+  { value: 'new', label: 'New' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'awaiting_reply', label: 'Awaiting Reply' },
+  { value: 'resolved', label: 'Resolved' },
+];
+
+export const getMessageStatus = (message: ContactSubmission): MessageStatus => message.status || 'new';
+
+export const getMessageCategory = (message: ContactSubmission): ContactCategory =>
+  message.category || DEFAULT_CONTACT_CATEGORY;
+
+export const getMessageStatusLabel = (status: MessageStatus): string =>
+  MESSAGE_STATUSES.find((item) => item.value === status)?.label || status;
+
+// Replies are written by the contact-reply Netlify function after the email is sent
+export interface MessageThreadEntry {
+  id?: string;
+  type: 'reply' | 'note';
+  body: string;
+  authorId: string;
+  authorName: string;
+  emailedTo?: string;
+  createdAt: Date | Timestamp;
+}
+
+// One document per category, managed by super admins
+export interface ContactRouting {
+  adminIds: string[];
+  updatedBy?: string;
+  updatedAt?: Date | Timestamp;
+}
+
+export type ContactRoutingMap = Partial<Record<ContactCategory, string[]>>;
+
+export interface AdminDirectoryEntry {
+  userId: string;
+  name: string;
+}
+
+// ===== THREAD =====
+
+export const getMessageThread = async (submissionId: string): Promise<MessageThreadEntry[]> => {
+  const threadRef = collection(db, CONTACT_SUBMISSIONS_COLLECTION, submissionId, THREAD_SUBCOLLECTION);
+  const snapshot = await getDocs(query(threadRef, orderBy('createdAt', 'asc')));
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as MessageThreadEntry));
+};
+
+export const addMessageNote = async (
+  submissionId: string,
+  note: { body: string; authorId: string; authorName: string }
+): Promise<string> => {
+  const threadRef = collection(db, CONTACT_SUBMISSIONS_COLLECTION, submissionId, THREAD_SUBCOLLECTION);
+  const docRef = await addDoc(threadRef, {
+    ...note,
+    type: 'note',
+    createdAt: serverTimestamp(),
+  });
+  return docRef.id;
+};
+
+// ===== BULK ACTIONS =====
+
+// Runs one write per id, committing a new batch whenever the current one is full
+const commitInBatches = async (
+  ids: string[],
+  write: (batch: WriteBatch, id: string) => void
+): Promise<void> => {
+  for (let start = 0; start < ids.length; start += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    ids.slice(start, start + BATCH_LIMIT).forEach((id) => write(batch, id));
+    await batch.commit();
+  }
+};
+
+export const updateMessagesStatus = async (ids: string[], status: MessageStatus): Promise<void> => {
+  await commitInBatches(ids, (batch, id) =>
+    batch.update(doc(db, CONTACT_SUBMISSIONS_COLLECTION, id), {
+      status,
+      // Anyone who has picked a message up has read it
+      ...(status !== 'new' && { isRead: true }),
+      lastActivityAt: serverTimestamp(),
+    })
+  );
+};
+
+export const assignMessages = async (ids: string[], userId: string | null): Promise<void> => {
+  await commitInBatches(ids, (batch, id) =>
+    batch.update(doc(db, CONTACT_SUBMISSIONS_COLLECTION, id), {
+      assignedTo: userId,
+      lastActivityAt: serverTimestamp(),
+    })
+  );
+};
+
+export const markMessagesRead = async (ids: string[], isRead: boolean): Promise<void> => {
+  await commitInBatches(ids, (batch, id) =>
+    batch.update(doc(db, CONTACT_SUBMISSIONS_COLLECTION, id), { isRead })
+  );
+};
+
+// Moving a message out of spam puts it back in the inbox as unread
+export const markMessagesSpam = async (ids: string[], isSpam: boolean): Promise<void> => {
+  await commitInBatches(ids, (batch, id) =>
+    batch.update(doc(db, CONTACT_SUBMISSIONS_COLLECTION, id), {
+      isSpam,
+      isRead: isSpam,
+      lastActivityAt: serverTimestamp(),
+    })
+  );
+};
+
+/**
+ * Deletes messages together with their threads, which Firestore
+ * would otherwise leave behind as orphaned subcollections.
+ */
+export const deleteMessages = async (ids: string[]): Promise<void> => {
+  for (const id of ids) {
+    const thread = await getDocs(collection(db, CONTACT_SUBMISSIONS_COLLECTION, id, THREAD_SUBCOLLECTION));
+    await commitInBatches(thread.docs.map((entry) => entry.id), (batch, entryId) =>
+      batch.delete(doc(db, CONTACT_SUBMISSIONS_COLLECTION, id, THREAD_SUBCOLLECTION, entryId))
+    );
+  }
+  await commitInBatches(ids, (batch, id) => batch.delete(doc(db, CONTACT_SUBMISSIONS_COLLECTION, id)));
+};
+
+// ===== CATEGORY ROUTING =====
+
+export const getContactRouting = async (): Promise<ContactRoutingMap> => {
+  const snapshot = await getDocs(collection(db, CONTACT_ROUTING_COLLECTION));
+  const routing: ContactRoutingMap = {};
+  snapshot.docs.forEach((routingDoc) => {
+    routing[routingDoc.id as ContactCategory] = (routingDoc.data() as ContactRouting).adminIds || [];
+  });
+  return routing;
+};
+
+export const saveContactRouting = async (routing: ContactRoutingMap, updatedBy: string): Promise<void> => {
+  const batch = writeBatch(db);
+  Object.entries(routing).forEach(([category, adminIds]) => {
+    batch.set(doc(db, CONTACT_ROUTING_COLLECTION, category), {
+      adminIds,
+      updatedBy,
+      updatedAt: serverTimestamp(),
+    });
+  });
+  await batch.commit();
+};
+
+export const getRoutedCategories = (routing: ContactRoutingMap | undefined, userId: string | undefined): ContactCategory[] =>
+  userId
+    ? (Object.entries(routing || {}) as [ContactCategory, string[]][])
+        .filter(([, adminIds]) => adminIds.includes(userId))
+        .map(([category]) => category)
+    : [];
+
+// A message is someone's when it is in one of their categories or assigned to them directly
+export const isMessageForAdmin = (
+  message: ContactSubmission,
+  userId: string | undefined,
+  routedCategories: ContactCategory[]
+): boolean =>
+  (!!userId && message.assignedTo === userId) || routedCategories.includes(getMessageCategory(message));
+
+// ===== ASSIGNEES =====
+
+// Only admins whose role includes the inbox can be assigned messages or routed categories
+export const getAdminDirectory = async (): Promise<AdminDirectoryEntry[]> => {
+  const admins = await getAllAdmins();
+  const entries = await Promise.all(
+    admins.filter((admin) => hasCapability(admin.role, 'messages.read')).map(async (admin) => {
+      const profile = await getUserProfile(admin.userId);
+      return { userId: admin.userId, name: profile?.displayName || profile?.email || admin.userId };
+    })
+  );
+  return entries.sort((a, b) => a.name.localeCompare(b.name));
+};
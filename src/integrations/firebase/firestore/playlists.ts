@@ -0,0 +1,106 @@
+// Firestore - Video playlists and categories
+// Videos list their playlists in playlistIds; one playlist can be featured on the home page
+import {
+  collection,
+  doc,
+  getDocs,
+  addDoc,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  writeBatch,
+  arrayRemove,
+  Timestamp,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { db } from '../client';
+import { Video } from './church';
+
+// Collection names
+const VIDEOS_COLLECTION = 'videos';
+const PLAYLISTS_COLLECTION = 'video_playlists';
+
+export interface VideoPlaylist {
+  id?: string;
+  title: string;
+  description?: string;
+  displayOrder: number;
+  isFeatured: boolean; // Shown in the home page video gallery
+  createdAt: Date | Timestamp;
+  updatedAt?: Date | Timestamp;
+}
+
+export const VIDEO_CATEGORIES = [
+  { value: 'sermons', label: 'Sermons' },
+  { value: 'worship', label: 'Worship' },
+  { value: 'prayer', label: 'Prayer' },
+  { value: 'youth', label: 'Youth' },
+  { value: 'events', label: 'Event Highlights' },
+  { value: 'testimonies', label: 'Testimonies' },
+] as const;
+
+export const getVideoCategoryLabel = (category?: string | null): string | null =>
+  VIDEO_CATEGORIES.find((item) => item.value === category)?.label || null;
+
+// Videos in a playlist, in the admin's display order
+export const getPlaylistVideos = (videos: Video[], playlistId: string): Video[] =>
+  videos
+    .filter((video) => (video.playlistIds || []).includes(playlistId))
+    .sort((a, b) => (a.displayOrder || 0) - (b.displayOrder || 0));
+
+// ===== PLAYLISTS =====
+
+export const getAllPlaylists = async (): Promise<VideoPlaylist[]> => {
+  const playlistsRef = collection(db, PLAYLISTS_COLLECTION);
+  const q = query(playlistsRef, orderBy('displayOrder', 'asc'));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as VideoPlaylist));
+};
+
+export const createPlaylist = async (
+  playlist: Omit<VideoPlaylist, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<string> => {
+  const playlistsRef = collection(db, PLAYLISTS_COLLECTION);
+  const docRef = await addDoc(playlistsRef, {
+    ...playlist,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  return docRef.id;
+};
+
+export const updatePlaylist = async (playlistId: string, data: Partial<VideoPlaylist>): Promise<void> => {
+  const playlistRef = doc(db, PLAYLISTS_COLLECTION, playlistId);
+  await updateDoc(playlistRef, {
+    ...data,
+    updatedAt: serverTimestamp(),
+  });
+};
+
+/**
+ * Features a playlist on the home page. Only one playlist is featured at a time,
+ * so the previous one is unfeatured in the same batch.
+ */
+export const setFeaturedPlaylist = async (playlistId: string | null): Promise<void> => {
+  const playlistsRef = collection(db, PLAYLISTS_COLLECTION);
+  const featured = await getDocs(query(playlistsRef, where('isFeatured', '==', true)));
+  const batch = writeBatch(db);
+  featured.docs
+    .filter(playlistDoc => playlistDoc.id !== playlistId)
+    .forEach(playlistDoc => batch.update(playlistDoc.ref, { isFeatured: false, updatedAt: serverTimestamp() }));
+  if (playlistId) {
+    batch.update(doc(db, PLAYLISTS_COLLECTION, playlistId), { isFeatured: true, updatedAt: serverTimestamp() });
+  }
+  await batch.commit();
+};
+
+// Removes the playlist from every video that lists it, then deletes it
+export const deletePlaylist = async (playlistId: string): Promise<void> => {
+  const videosRef = collection(db, VIDEOS_COLLECTION);
+  const snapshot = await getDocs(query(videosRef, where('playlistIds', 'array-contains', playlistId)));
+  const batch = writeBatch(db);
+  snapshot.docs.forEach(videoDoc => batch.update(videoDoc.ref, { playlistIds: arrayRemove(playlistId) }));
+  batch.delete(doc(db, PLAYLISTS_COLLECTION, playlistId));
+  await batch.commit();
+};
@@ -0,0 +1,98 @@
+// Firestore - Data retention policies, run reports and legal holds
+// Policies are applied nightly by the retention-purge Netlify function; defaults in lib/retention apply until saved
+import {
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  query,
+  orderBy,
+  limit,
+  deleteField,
+  Timestamp,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { db } from '../client';
+import {
+  RETENTION_DEFINITIONS,
+  RetentionCollection,
+  RetentionPolicy,
+  RetentionRunResult,
+} from '../../../lib/retention';
+
+// Collection names
+const RETENTION_POLICIES_COLLECTION = 'retention_policies';
+const RETENTION_REPORTS_COLLECTION = 'retention_reports';
+
+export interface StoredRetentionPolicy extends RetentionPolicy {
+  updatedBy?: string;
+  updatedAt?: Date | Timestamp;
+}
+
+export interface RetentionReport {
+  id?: string;
+  ranAt: Date | Timestamp;
+  results: RetentionRunResult[]; // Only policies that were switched on
+  errors: string[];
+}
+
+// Fields set on a record to exempt it from retention
+export interface LegalHold {
+  legalHold?: boolean;
+  legalHoldReason?: string;
+  legalHoldBy?: string;
+  legalHoldAt?: Date | Timestamp;
+  anonymisedAt?: Date | Timestamp;
+}
+
+// ===== POLICIES =====
+
+export const getRetentionPolicies = async (): Promise<Record<RetentionCollection, StoredRetentionPolicy>> => {
+  const snapshot = await getDocs(collection(db, RETENTION_POLICIES_COLLECTION));
+  const stored = new Map(snapshot.docs.map((policyDoc) => [policyDoc.id, policyDoc.data()]));
+
+  return Object.fromEntries(
+    RETENTION_DEFINITIONS.map((definition) => [
+      definition.collection,
+      { ...definition.defaults, ...stored.get(definition.collection) },
+    ])
+  ) as Record<RetentionCollection, StoredRetentionPolicy>;
+};
+
+export const saveRetentionPolicy = async (
+  retentionCollection: RetentionCollection,
+  policy: RetentionPolicy,
+  updatedBy: string
+): Promise<void> => {
+  await setDoc(doc(db, RETENTION_POLICIES_COLLECTION, retentionCollection), {
+    enabled: policy.enabled,
+    retentionDays: policy.retentionDays,
+    action: policy.action,
+    updatedBy,
+    updatedAt: serverTimestamp(),
+  });
+};
+
+// ===== REPORTS =====
+
+export const getRetentionReports = async (count = 20): Promise<RetentionReport[]> => {
+  const q = query(collection(db, RETENTION_REPORTS_COLLECTION), orderBy('ranAt', 'desc'), limit(count));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as RetentionReport));
+};
+
+// ===== LEGAL HOLDS =====
+
+export const setLegalHold = async (
+  retentionCollection: RetentionCollection,
+  recordId: string,
+  hold: { reason: string; userId: string } | null
+): Promise<void> => {
+  await updateDoc(
+    doc(db, retentionCollection, recordId),
+    hold
+      ? { legalHold: true, legalHoldReason: hold.reason, legalHoldBy: hold.userId, legalHoldAt: serverTimestamp() }
+      : { legalHold: false, legalHoldReason: deleteField(), legalHoldBy: deleteField(), legalHoldAt: deleteField() }
+  );
+};
@@ -0,0 +1,209 @@
+// Firestore - Intercession watch roster
+import {
+  collection,
+  doc,
+  getDocs,
+  addDoc,
+  setDoc,
+  deleteDoc,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  writeBatch,
+  Timestamp,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { db } from '../client';
+
+// Collection names
+const WATCH_SLOTS_COLLECTION = 'watch_slots';
+const WATCH_SIGNUPS_COLLECTION = 'watch_signups';
+
+export const WEEK_DAYS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+// A recurring weekly prayer watch, e.g. "Night watch, Friday 22:00-02:00"
+export interface WatchSlot {
+  id?: string;
+  title: string;
+  dayOfWeek: string;
+  startTime: string;
+  endTime: string; // Earlier than startTime when the watch runs past midnight
+  capacity: number;
+  isActive: boolean;
+  createdAt: Date | Timestamp;
+  updatedAt?: Date | Timestamp;
+}
+
+// One intercessor covering one slot; the doc ID is `${slotId}_${userId}`
+export interface WatchSignup {
+  id?: string;
+  slotId: string;
+  userId: string;
+  displayName: string;
+  assignedBy?: string; // Set when an admin placed the person on the slot
+  createdAt: Date | Timestamp;
+}
+
+export interface WatchMember {
+  uid: string;
+  displayName: string;
+}
+
+const signupId = (slotId: string, userId: string) => `${slotId}_${userId}`;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// ===== WATCH SLOTS =====
+
+export const getActiveWatchSlots = async (): Promise<WatchSlot[]> => {
+  const slotsRef = collection(db, WATCH_SLOTS_COLLECTION);
+  const q = query(slotsRef, where('isActive', '==', true));
+  const snapshot = await getDocs(q);
+  return sortWatchSlots(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as WatchSlot)));
+};
+
+export const getAllWatchSlots = async (): Promise<WatchSlot[]> => {
+  const slotsRef = collection(db, WATCH_SLOTS_COLLECTION);
+  const snapshot = await getDocs(slotsRef);
+  return sortWatchSlots(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as WatchSlot)));
+};
+
+export const createWatchSlot = async (
+  slot: Omit<WatchSlot, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<string> => {
+  const slotsRef = collection(db, WATCH_SLOTS_COLLECTION);
+  const docRef = await addDoc(slotsRef, {
+    ...slot,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  return docRef.id;
+};
+
+export const updateWatchSlot = async (slotId: string, data: Partial<WatchSlot>): Promise<void> => {
+  const slotRef = doc(db, WATCH_SLOTS_COLLECTION, slotId);
+  await updateDoc(slotRef, {
+    ...data,
+    updatedAt: serverTimestamp(),
+  });
+};
+
+export const deleteWatchSlot = async (slotId: string): Promise<void> => {
+  // Remove everyone signed up for the slot along with it
+  const signupsRef = collection(db, WATCH_SIGNUPS_COLLECTION);
+  const q = query(signupsRef, where('slotId', '==', slotId));
+  const snapshot = await getDocs(q);
+
+  const batch = writeBatch(db);
+  snapshot.docs.forEach(doc => batch.delete(doc.ref));
+  batch.delete(doc(db, WATCH_SLOTS_COLLECTION, slotId));
+  await batch.commit();
+};
+
+// ===== WATCH SIGNUPS =====
+
+export const getWatchSignups = async (): Promise<WatchSignup[]> => {
+  const signupsRef = collection(db, WATCH_SIGNUPS_COLLECTION);
+  const q = query(signupsRef, orderBy('createdAt', 'asc'));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as WatchSignup));
+};
+
+// Used by prayer moderators placing someone on a slot; volunteers join through joinPrayerWatch
+export const claimWatchSlot = async (
+  slotId: string,
+  member: WatchMember,
+  assignedBy?: string
+): Promise<void> => {
+  const signupRef = doc(db, WATCH_SIGNUPS_COLLECTION, signupId(slotId, member.uid));
+  await setDoc(signupRef, {
+    slotId,
+    userId: member.uid,
+    displayName: member.displayName,
+    ...(assignedBy && { assignedBy }),
+    createdAt: serverTimestamp(),
+  });
+};
+
+export const releaseWatchSlot = async (slotId: string, userId: string): Promise<void> => {
+  const signupRef = doc(db, WATCH_SIGNUPS_COLLECTION, signupId(slotId, userId));
+  await deleteDoc(signupRef);
+};
+
+// Moves a slot from one intercessor to another in a single write
+export const reassignWatchSignup = async (
+  signup: WatchSignup,
+  member: WatchMember,
+  assignedBy: string
+): Promise<void> => {
+  const batch = writeBatch(db);
+  batch.delete(doc(db, WATCH_SIGNUPS_COLLECTION, signupId(signup.slotId, signup.userId)));
+  batch.set(doc(db, WATCH_SIGNUPS_COLLECTION, signupId(signup.slotId, member.uid)), {
+    slotId: signup.slotId,
+    userId: member.uid,
+    displayName: member.displayName,
+    assignedBy,
+    createdAt: serverTimestamp(),
+  });
+  await batch.commit();
+};
+
+// ===== COVERAGE =====
+
+export const sortWatchSlots = (slots: WatchSlot[]): WatchSlot[] =>
+  [...slots].sort((a, b) => {
+    const dayDiff = WEEK_DAYS.indexOf(a.dayOfWeek) - WEEK_DAYS.indexOf(b.dayOfWeek);
+    return dayDiff !== 0 ? dayDiff : toMinutes(a.startTime) - toMinutes(b.startTime);
+  });
+
+/**
+ * Hours of the week a slot touches, as [dayIndex, hour] pairs.
+ * A slot whose end time is not after its start time wraps into the next day.
+ */
+export const getSlotHours = (slot: WatchSlot): [number, number][] => {
+  const dayIndex = WEEK_DAYS.indexOf(slot.dayOfWeek);
+  if (dayIndex === -1) return [];
+
+  const start = toMinutes(slot.startTime);
+  let end = toMinutes(slot.endTime);
+  if (end <= start) end += 24 * 60;
+
+  const hours: [number, number][] = [];
+  for (let minute = Math.floor(start / 60) * 60; minute < end; minute += 60) {
+    const hourOfWeek = (dayIndex * 24 + minute / 60) % (7 * 24);
+    hours.push([Math.floor(hourOfWeek / 24), hourOfWeek % 24]);
+  }
+  return hours;
+};
+
+/**
+ * Number of intercessors covering each hour of the week, indexed [dayIndex][hour].
+ * Only active slots count, and an hour is covered when any signed-up slot overlaps it.
+ */
+export const buildCoverageGrid = (slots: WatchSlot[], signups: WatchSignup[]): number[][] => {
+  const grid = WEEK_DAYS.map(() => Array<number>(24).fill(0));
+
+  slots
+    .filter(slot => slot.isActive)
+    .forEach(slot => {
+      const people = signups.filter(signup => signup.slotId === slot.id).length;
+      if (people === 0) return;
+      getSlotHours(slot).forEach(([day, hour]) => {
+        grid[day][hour] += people;
+      });
+    });
+
+  return grid;
+};
@@ -0,0 +1,141 @@
+// Firestore - Teaching library (sermons, series and speakers)
+// Sermons are videos with isSermon set; series and speakers are referenced by ID
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  writeBatch,
+  Timestamp,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { db } from '../client';
+import { Video } from './church';
+
+// Collection names
+const VIDEOS_COLLECTION = 'videos';
+const SERMON_SERIES_COLLECTION = 'sermon_series';
+const SPEAKERS_COLLECTION = 'speakers';
+
+export interface SermonSeries {
+  id?: string;
+  title: string;
+  description?: string;
+  createdAt: Date | Timestamp;
+  updatedAt?: Date | Timestamp;
+}
+
+export interface Speaker {
+  id?: string;
+  name: string;
+  role?: string; // e.g. "Senior Pastor", "Guest Speaker"
+  bio?: string;
+  createdAt: Date | Timestamp;
+  updatedAt?: Date | Timestamp;
+}
+
+const getPreachedTime = (video: Video): number => {
+  if (!video.preachedOn) return 0;
+  return video.preachedOn instanceof Date ? video.preachedOn.getTime() : video.preachedOn.toMillis();
+};
+
+// Newest first; sermons without a preach date sink to the end
+export const sortSermons = (sermons: Video[]): Video[] =>
+  [...sermons].sort((a, b) => getPreachedTime(b) - getPreachedTime(a));
+
+// ===== SERMONS =====
+
+export const getActiveSermons = async (): Promise<Video[]> => {
+  const videosRef = collection(db, VIDEOS_COLLECTION);
+  const q = query(videosRef, where('isSermon', '==', true), where('isActive', '==', true));
+  const snapshot = await getDocs(q);
+  return sortSermons(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Video)));
+};
+
+export const getSermonById = async (videoId: string): Promise<Video | null> => {
+  const videoRef = doc(db, VIDEOS_COLLECTION, videoId);
+  const videoSnap = await getDoc(videoRef);
+  if (!videoSnap.exists() || !videoSnap.data().isSermon) return null;
+  return { id: videoSnap.id, ...videoSnap.data() } as Video;
+};
+
+// Clears a series or speaker reference from every sermon that uses it
+const unlinkSermons = async (field: 'seriesId' | 'speakerId', id: string): Promise<void> => {
+  const videosRef = collection(db, VIDEOS_COLLECTION);
+  const snapshot = await getDocs(query(videosRef, where(field, '==', id)));
+  const batch = writeBatch(db);
+  snapshot.docs.forEach(videoDoc => batch.update(videoDoc.ref, { [field]: null }));
+  await batch.commit();
+};
+
+// ===== SERIES =====
+
+export const getAllSermonSeries = async (): Promise<SermonSeries[]> => {
+  const seriesRef = collection(db, SERMON_SERIES_COLLECTION);
+  const q = query(seriesRef, orderBy('title', 'asc'));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as SermonSeries));
+};
+
+export const createSermonSeries = async (
+  series: Omit<SermonSeries, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<string> => {
+  const seriesRef = collection(db, SERMON_SERIES_COLLECTION);
+  const docRef = await addDoc(seriesRef, {
+    ...series,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  return docRef.id;
+};
+
+export const updateSermonSeries = async (seriesId: string, data: Partial<SermonSeries>): Promise<void> => {
+  const seriesRef = doc(db, SERMON_SERIES_COLLECTION, seriesId);
+  await updateDoc(seriesRef, {
+    ...data,
+    updatedAt: serverTimestamp(),
+  });
+};
+
+export const deleteSermonSeries = async (seriesId: string): Promise<void> => {
+  await unlinkSermons('seriesId', seriesId);
+  await deleteDoc(doc(db, SERMON_SERIES_COLLECTION, seriesId));
+};
+
+// ===== SPEAKERS =====
+
+export const getAllSpeakers = async (): Promise<Speaker[]> => {
+  const speakersRef = collection(db, SPEAKERS_COLLECTION);
+  const q = query(speakersRef, orderBy('name', 'asc'));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Speaker));
+};
+
+export const createSpeaker = async (speaker: Omit<Speaker, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> => {
+  const speakersRef = collection(db, SPEAKERS_COLLECTION);
+  const docRef = await addDoc(speakersRef, {
+    ...speaker,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  return docRef.id;
+};
+
+export const updateSpeaker = async (speakerId: string, data: Partial<Speaker>): Promise<void> => {
+  const speakerRef = doc(db, SPEAKERS_COLLECTION, speakerId);
+  await updateDoc(speakerRef, {
+    ...data,
+    updatedAt: serverTimestamp(),
+  });
+};
+
+export const deleteSpeaker = async (speakerId: string): Promise<void> => {
+  await unlinkSermons('speakerId', speakerId);
+  await deleteDoc(doc(db, SPEAKERS_COLLECTION, speakerId));
+};
@@ -0,0 +1,63 @@
+// Firestore - Dashboard statistics
+// Counts use aggregation queries, which are billed per 1,000 matches instead of per document read
+import {
+  collection,
+  query,
+  where,
+  getCountFromServer,
+  Timestamp,
+  QueryConstraint,
+} from 'firebase/firestore';
+import { db } from '../client';
+
+// Collection names
+const EVENTS_COLLECTION = 'events';
+const VIDEOS_COLLECTION = 'videos';
+const CONTACT_SUBMISSIONS_COLLECTION = 'contact_submissions';
+const GALLERY_IMAGES_COLLECTION = 'gallery_images';
+
+export interface DateBucket {
+  start: Date;
+  end: Date; // Exclusive
+}
+
+export interface BucketCount extends DateBucket {
+  count: number;
+}
+
+const countDocuments = async (collectionName: string, ...constraints: QueryConstraint[]): Promise<number> => {
+  const snapshot = await getCountFromServer(query(collection(db, collectionName), ...constraints));
+  return snapshot.data().count;
+};
+
+// One count query per bucket; a range on a single field needs no composite index
+const countByCreatedAt = (collectionName: string, buckets: DateBucket[]): Promise<BucketCount[]> =>
+  Promise.all(
+    buckets.map(async (bucket) => ({
+      ...bucket,
+      count: await countDocuments(
+        collectionName,
+        where('createdAt', '>=', Timestamp.fromDate(bucket.start)),
+        where('createdAt', '<', Timestamp.fromDate(bucket.end))
+      ),
+    }))
+  );
+
+// ===== TOTALS =====
+
+export const countEvents = (): Promise<number> => countDocuments(EVENTS_COLLECTION);
+
+export const countVideos = (): Promise<number> => countDocuments(VIDEOS_COLLECTION);
+
+export const countUnreadMessages = (): Promise<number> =>
+  countDocuments(CONTACT_SUBMISSIONS_COLLECTION, where('isRead', '==', false));
+
+export const countGalleryImages = (): Promise<number> => countDocuments(GALLERY_IMAGES_COLLECTION);
+
+// ===== TRENDS =====
+
+export const getMessageCountsByWeek = (buckets: DateBucket[]): Promise<BucketCount[]> =>
+  countByCreatedAt(CONTACT_SUBMISSIONS_COLLECTION, buckets);
+
+export const getGalleryUploadCountsByMonth = (buckets: DateBucket[]): Promise<BucketCount[]> =>
+  countByCreatedAt(GALLERY_IMAGES_COLLECTION, buckets);
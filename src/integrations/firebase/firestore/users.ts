@@ -12,14 +12,21 @@ import {
   serverTimestamp,
 } from 'firebase/firestore';
 import { db } from '../client';
+import { approveAdminRequestRole, assignUserRole, rejectAdminRequest, revokeUserRole, submitAdminRequest } from '../helpers';
+import type { LegalHold } from './retention';
+import type { DeletionRequestStatus } from '../../../lib/myData';
+import { ADMIN_ROLES, isAdminRole, AdminRole, UserRole } from '../../../lib/permissions';
+import type { AdminRequestInput, AdminRequestStatus } from '../../../lib/adminRequests';
+
+export type { UserRole };
 
 // Collection references
 const USERS_COLLECTION = 'users';
 const USER_ROLES_COLLECTION = 'user_roles';
 const ADMIN_REQUESTS_COLLECTION = 'admin_requests';
+const DELETION_REQUESTS_COLLECTION = 'deletion_requests';
 
-export type UserRole = 'user' | 'admin' | 'super_admin';
-export type RequestStatus = 'pending' | 'approved' | 'rejected';
+export type RequestStatus = AdminRequestStatus;
 
 export interface UserProfile {
   uid: string;
@@ -41,14 +48,33 @@ export interface UserRoleDoc {
   assignedAt: Date | Timestamp;
 }
 
-export interface AdminRequest {
+// Written by the admin-requests Netlify functions; the doc ID is the requester's UID
+export interface AdminRequest extends LegalHold {
   id?: string;
   userId: string;
   email: string;
+  displayName?: string;
+  ministry?: string; // Older requests have no ministry or justification
+  justification?: string;
   status: RequestStatus;
+  role?: AdminRole; // Set on approval
+  rejectionReason?: string;
   reviewedBy?: string;
   createdAt: Date | Timestamp;
+  expiresAt?: Date | Timestamp;
   reviewedAt?: Date | Timestamp;
+  expiredAt?: Date | Timestamp;
+}
+
+// Written by the my-data and account-deletion Netlify functions; the doc ID is the user's UID
+export interface DeletionRequest {
+  userId: string;
+  email?: string; // Removed once the account is deleted
+  status: DeletionRequestStatus;
+  requestedAt: Date | Timestamp;
+  scheduledFor: Date | Timestamp;
+  cancelledAt?: Date | Timestamp;
+  completedAt?: Date | Timestamp;
 }
 
 /**
@@ -67,13 +93,6 @@ export const createUserProfile = async (
       createdAt: serverTimestamp(),
       updatedAt: serverTimestamp(),
     });
-    
-    // Check if this is the first user - if so, make them admin
-    const admins = await getAllAdmins();
-    if (admins.length === 0) {
-      console.log('First user detected - granting admin privileges');
-      await setUserRole(uid, 'super_admin', 'system');
-    }
   } catch (error) {
     console.error('Error creating user profile:', error);
     throw error;
@@ -118,7 +137,8 @@ export const updateUserProfile = async (
 };
 
 /**
- * Get user role
+ * Get a user's stored role
+ * The signed-in user's own role comes from their ID token (see useFirebaseAuth)
  */
 export const getUserRole = async (userId: string): Promise<UserRole | null> => {
   try {
@@ -136,12 +156,12 @@ export const getUserRole = async (userId: string): Promise<UserRole | null> => {
 };
 
 /**
- * Check if user is admin
+ * Check if user has any admin role
  */
 export const isUserAdmin = async (userId: string): Promise<boolean> => {
   try {
     const role = await getUserRole(userId);
-    return role === 'admin' || role === 'super_admin';
+    return isAdminRole(role);
   } catch (error) {
     console.error('Error checking admin status:', error);
     return false;
@@ -150,20 +170,12 @@ export const isUserAdmin = async (userId: string): Promise<boolean> => {
 
 /**
  * Set user role (admin only)
+ * Goes through the user-roles Netlify function so the role also lands in the user's custom claims
  */
-export const setUserRole = async (
-  userId: string,
-  role: UserRole,
-  assignedBy: string
-): Promise<void> => {
+export const setUserRole = async (userId: string, role: UserRole): Promise<void> => {
   try {
-    const roleRef = doc(db, USER_ROLES_COLLECTION, userId);
-    await setDoc(roleRef, {
-      userId,
-      role,
-      assignedBy,
-      assignedAt: serverTimestamp(),
-    });
+    const result = await assignUserRole(userId, role);
+    if (!result.success) throw new Error(result.error);
   } catch (error) {
     console.error('Error setting user role:', error);
     throw error;
@@ -171,22 +183,12 @@ export const setUserRole = async (
 };
 
 /**
- * Create admin request
+ * Ask for admin access as the signed-in user; the reviewers are emailed
  */
-export const createAdminRequest = async (
-  userId: string,
-  email: string
-): Promise<void> => {
+export const createAdminRequest = async (request: AdminRequestInput): Promise<void> => {
   try {
-    console.log('Creating admin request for:', email, userId);
-    const requestRef = doc(db, ADMIN_REQUESTS_COLLECTION, userId);
-    await setDoc(requestRef, {
-      userId,
-      email,
-      status: 'pending' as RequestStatus,
-      createdAt: serverTimestamp(),
-    });
-    console.log('Admin request created successfully for:', email);
+    const result = await submitAdminRequest(request);
+    if (!result.success) throw new Error(result.error);
   } catch (error) {
     console.error('Error creating admin request:', error);
     throw error;
@@ -235,38 +237,12 @@ export const getPendingAdminRequests = async (): Promise<AdminRequest[]> => {
 };
 
 /**
- * Update admin request status (admin only)
- */
-export const updateAdminRequest = async (
-  userId: string,
-  status: RequestStatus,
-  reviewedBy: string
-): Promise<void> => {
-  try {
-    const requestRef = doc(db, ADMIN_REQUESTS_COLLECTION, userId);
-    await updateDoc(requestRef, {
-      status,
-      reviewedBy,
-      reviewedAt: serverTimestamp(),
-    });
-    
-    // If approved, set user role to admin
-    if (status === 'approved') {
-      await setUserRole(userId, 'admin', reviewedBy);
-    }
-  } catch (error) {
-    console.error('Error updating admin request:', error);
-    throw error;
-  }
-};
-
-/**
- * Get all admins
+ * Get everyone with an admin role
  */
 export const getAllAdmins = async (): Promise<UserRoleDoc[]> => {
   try {
     const rolesRef = collection(db, USER_ROLES_COLLECTION);
-    const q = query(rolesRef, where('role', 'in', ['admin', 'super_admin']));
+    const q = query(rolesRef, where('role', 'in', ADMIN_ROLES));
     const querySnapshot = await getDocs(q);
     
     const admins: UserRoleDoc[] = [];
@@ -286,10 +262,8 @@ export const getAllAdmins = async (): Promise<UserRoleDoc[]> => {
  */
 export const removeUserRole = async (userId: string): Promise<void> => {
   try {
-    const roleRef = doc(db, USER_ROLES_COLLECTION, userId);
-    await updateDoc(roleRef, {
-      role: 'user' as UserRole,
-    });
+    const result = await revokeUserRole(userId);
+    if (!result.success) throw new Error(result.error);
   } catch (error) {
     console.error('Error removing user role:', error);
     throw error;
@@ -297,15 +271,12 @@ export const removeUserRole = async (userId: string): Promise<void> => {
 };
 
 /**
- * Approve admin request - wrapper for updateAdminRequest
+ * Approve admin request with the chosen role (admin only); the requester is emailed
  */
-export const approveAdminRequest = async (
-  requestId: string,
-  userId: string,
-  reviewedBy: string
-): Promise<void> => {
+export const approveAdminRequest = async (userId: string, role: AdminRole = 'admin'): Promise<void> => {
   try {
-    await updateAdminRequest(userId, 'approved', reviewedBy);
+    const result = await approveAdminRequestRole(userId, role);
+    if (!result.success) throw new Error(result.error);
   } catch (error) {
     console.error('Error approving admin request:', error);
     throw error;
@@ -313,15 +284,12 @@ export const approveAdminRequest = async (
 };
 
 /**
- * Deny admin request - wrapper for updateAdminRequest
+ * Deny admin request with a reason (admin only); the requester is emailed the reason
  */
-export const denyAdminRequest = async (
-  requestId: string,
-  userId: string,
-  reviewedBy: string
-): Promise<void> => {
+export const denyAdminRequest = async (userId: string, reason: string): Promise<void> => {
   try {
-    await updateAdminRequest(userId, 'rejected', reviewedBy);
+    const result = await rejectAdminRequest(userId, reason);
+    if (!result.success) throw new Error(result.error);
   } catch (error) {
     console.error('Error denying admin request:', error);
     throw error;
@@ -350,17 +318,14 @@ export const getUsersByRole = async (role: UserRole): Promise<UserRoleDoc[]> =>
 };
 
 /**
- * Manually create a super admin user
- * Use this function in the browser console if you need to grant admin access
- * Example: import { createSuperAdmin } from '@/integrations/firebase/firestore/users';
- *          createSuperAdmin('user-uid-here');
+ * Get the user's own account deletion request, if they have made one
  */
-export const createSuperAdmin = async (userId: string): Promise<void> => {
+export const getDeletionRequest = async (userId: string): Promise<DeletionRequest | null> => {
   try {
-    await setUserRole(userId, 'super_admin', 'manual');
-    console.log(`Successfully granted super admin privileges to user: ${userId}`);
+    const requestSnap = await getDoc(doc(db, DELETION_REQUESTS_COLLECTION, userId));
+    return requestSnap.exists() ? (requestSnap.data() as DeletionRequest) : null;
   } catch (error) {
-    console.error('Error creating super admin:', error);
+    console.error('Error getting deletion request:', error);
     throw error;
   }
 };
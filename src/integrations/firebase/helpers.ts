@@ -1,5 +1,11 @@
 // Helper functions for Firebase client-side operations
 import { auth } from './client';
+import { RegistrationInput, RegistrationStatus } from '../../lib/eventRegistration';
+import { ContactChallenge, ContactInput, HONEYPOT_FIELD } from '../../lib/contact';
+import { MyDataExport } from '../../lib/myData';
+import { AdminRole, UserRole } from '../../lib/permissions';
+import { InvitationSummary } from '../../lib/invitations';
+import { AdminRequestInput } from '../../lib/adminRequests';
 
 /**
  * Delete a user (calls Netlify function)
@@ -40,3 +46,533 @@ export const deleteUser = async (userId: string): Promise<{ success: boolean; er
     };
   }
 };
+
+type YouTubeSyncResponse = {
+  success: boolean;
+  error?: string;
+  imported?: number;
+  removed?: number;
+  restored?: number;
+  checked?: number;
+};
+
+/**
+ * Import new uploads from the church YouTube channel (calls the youtube-sync Netlify function)
+ * New uploads arrive as inactive drafts; videos deleted on YouTube are flagged
+ */
+export const syncYouTubeChannel = async (): Promise<YouTubeSyncResponse> => {
+  try {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new Error('No authenticated user');
+    }
+
+    const token = await currentUser.getIdToken();
+
+    const response = await fetch('/.netlify/functions/youtube-sync', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to sync YouTube channel');
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error syncing YouTube channel:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+};
+
+/**
+ * Email a reply to a contact form message (calls the contact-reply Netlify function)
+ * The reply is added to the message thread once the email has been sent
+ */
+export const replyToContactSubmission = async (
+  submissionId: string,
+  message: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new Error('No authenticated user');
+    }
+
+    const token = await currentUser.getIdToken();
+
+    const response = await fetch('/.netlify/functions/contact-reply', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ submissionId, message }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to send reply');
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error sending reply:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+};
+
+type ContactSubmitResponse = {
+  success: boolean;
+  error?: string;
+  challenge?: ContactChallenge;
+};
+
+/**
+ * Call the contact-submit Netlify function (public, no sign-in needed)
+ */
+const callContactSubmit = async (payload: Record<string, unknown>): Promise<ContactSubmitResponse> => {
+  try {
+    const response = await fetch('/.netlify/functions/contact-submit', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to send message');
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error calling contact submit:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+};
+
+/**
+ * Fetch a signed spam challenge when the contact form loads
+ */
+export const getContactChallenge = () => callContactSubmit({ action: 'challenge' });
+
+/**
+ * Send a contact form message with the solved challenge and the (normally empty) honeypot field
+ */
+export const submitContactMessage = (
+  message: ContactInput,
+  spamCheck: { challenge: ContactChallenge | null; counter: number | null; honeypot: string }
+) =>
+  callContactSubmit({
+    action: 'submit',
+    ...message,
+    challenge: spamCheck.challenge,
+    counter: spamCheck.counter,
+    [HONEYPOT_FIELD]: spamCheck.honeypot,
+  });
+
+type RegistrationResponse = {
+  success: boolean;
+  error?: string;
+  status?: RegistrationStatus;
+  confirmationCode?: string;
+  promotedSeats?: number;
+  registration?: {
+    confirmationCode: string;
+    eventId: string;
+    eventTitle: string;
+    name: string;
+    guests: number;
+    status: RegistrationStatus;
+  };
+};
+
+/**
+ * Call the event-registration Netlify function
+ * The admin's token is attached when signed in so admins can cancel any registration
+ */
+const callEventRegistration = async (payload: Record<string, unknown>): Promise<RegistrationResponse> => {
+  try {
+    const token = await auth.currentUser?.getIdToken();
+
+    const response = await fetch('/.netlify/functions/event-registration', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { 'Authorization': `Bearer ${token}` }),
+      },
+      body: JSON.stringify(payload),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Registration request failed');
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error calling event registration:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+};
+
+/**
+ * Register for an event; returns the confirmation code and whether the seat is confirmed or waitlisted
+ */
+export const registerForEvent = (eventId: string, registration: RegistrationInput) =>
+  callEventRegistration({ action: 'register', eventId, ...registration });
+
+/**
+ * Cancel a registration. Registrants confirm with their email; admins only need the code.
+ * Freed seats are offered to the waitlist automatically.
+ */
+export const cancelEventRegistration = (confirmationCode: string, email?: string) =>
+  callEventRegistration({ action: 'cancel', confirmationCode, email });
+
+/**
+ * Look up a registration by confirmation code and email
+ */
+export const lookupEventRegistration = (confirmationCode: string, email: string) =>
+  callEventRegistration({ action: 'lookup', confirmationCode, email });
+
+/**
+ * Fill open seats from the waitlist (admin only), e.g. after raising capacity
+ */
+export const promoteEventWaitlist = (eventId: string) =>
+  callEventRegistration({ action: 'promote', eventId });
+
+type WatchSignupResponse = {
+  success: boolean;
+  error?: string;
+};
+
+/**
+ * Call the watch-signup Netlify function, which checks the slot is open and has room
+ */
+const callWatchSignup = async (payload: Record<string, unknown>): Promise<WatchSignupResponse> => {
+  try {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new Error('No authenticated user');
+    }
+
+    const token = await currentUser.getIdToken();
+
+    const response = await fetch('/.netlify/functions/watch-signup', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(payload),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to join the watch');
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error joining watch:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+};
+
+/**
+ * Put the signed-in user on a prayer watch slot
+ */
+export const joinPrayerWatch = (slotId: string) => callWatchSignup({ action: 'claim', slotId });
+
+type MyDataResponse = {
+  success: boolean;
+  error?: string;
+  data?: MyDataExport;
+  scheduledFor?: string;
+};
+
+/**
+ * Call the my-data Netlify function as the signed-in user
+ */
+const callMyData = async (payload: Record<string, unknown>): Promise<MyDataResponse> => {
+  try {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new Error('No authenticated user');
+    }
+
+    const token = await currentUser.getIdToken();
+
+    const response = await fetch('/.netlify/functions/my-data', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(payload),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'My data request failed');
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error calling my data:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+};
+
+/**
+ * Everything held about the signed-in user, for download as JSON or ZIP
+ */
+export const exportMyData = () => callMyData({ action: 'export' });
+
+/**
+ * Schedule the signed-in user's account for deletion after the grace period; a confirmation email is sent
+ */
+export const requestAccountDeletion = () => callMyData({ action: 'request_deletion' });
+
+/**
+ * Cancel a scheduled account deletion during the grace period
+ */
+export const cancelAccountDeletion = () => callMyData({ action: 'cancel_deletion' });
+
+type UserRolesResponse = {
+  success: boolean;
+  error?: string;
+};
+
+/**
+ * Call the user-roles Netlify function, which stores the role and copies it into the user's custom claims
+ */
+const callUserRoles = async (payload: Record<string, unknown>): Promise<UserRolesResponse> => {
+  try {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new Error('No authenticated user');
+    }
+
+    const token = await currentUser.getIdToken();
+
+    const response = await fetch('/.netlify/functions/user-roles', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(payload),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to update role');
+    }
+
+    // Claims only reach a token when it is refreshed, so pick up our own change straight away
+    const changesOwnRole = ['sync_claims', 'transfer_ownership', 'bootstrap'].includes(payload.action as string);
+    if (payload.userId === currentUser.uid || changesOwnRole) {
+      await currentUser.getIdToken(true);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error updating role:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+};
+
+/**
+ * Give a user a role; they see the change the next time their token refreshes (within an hour) or they sign in
+ */
+export const assignUserRole = (userId: string, role: UserRole) =>
+  callUserRoles({ action: 'set_role', userId, role });
+
+/**
+ * Take away a user's admin role
+ */
+export const revokeUserRole = (userId: string) => callUserRoles({ action: 'remove_role', userId });
+
+/**
+ * Copy the signed-in user's stored role into their token, for accounts whose token has no role yet
+ */
+export const syncRoleClaims = () => callUserRoles({ action: 'sync_claims' });
+
+/**
+ * Make another admin the super admin; the signed-in super admin becomes an admin
+ */
+export const transferOwnership = (userId: string) => callUserRoles({ action: 'transfer_ownership', userId });
+
+/**
+ * Make the signed-in user the first super admin of a new site, using the ADMIN_BOOTSTRAP_CODE setup code
+ */
+export const bootstrapOwner = (code: string) => callUserRoles({ action: 'bootstrap', code });
+
+type AdminInvitationsResponse = {
+  success: boolean;
+  error?: string;
+  emailed?: boolean;
+  role?: AdminRole;
+  invitation?: InvitationSummary;
+};
+
+/**
+ * Call the admin-invitations Netlify function
+ * Looking up an invitation works signed out; everything else needs the user's token
+ */
+const callAdminInvitations = async (payload: Record<string, unknown>): Promise<AdminInvitationsResponse> => {
+  try {
+    const currentUser = auth.currentUser;
+    const token = await currentUser?.getIdToken();
+
+    const response = await fetch('/.netlify/functions/admin-invitations', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { 'Authorization': `Bearer ${token}` }),
+      },
+      body: JSON.stringify(payload),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Invitation request failed');
+    }
+
+    // Accepting sets our role claim, so refresh the token before opening the admin panel
+    if (payload.action === 'accept') {
+      await currentUser?.getIdToken(true);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error calling admin invitations:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+};
+
+/**
+ * Email someone a single-use link that gives them the role once they sign in with that address
+ */
+export const createAdminInvitation = (email: string, role: AdminRole) =>
+  callAdminInvitations({ action: 'create', email, role });
+
+/**
+ * Send a pending invitation again with a new link and expiry; the old link stops working
+ */
+export const resendAdminInvitation = (invitationId: string) =>
+  callAdminInvitations({ action: 'resend', invitationId });
+
+/**
+ * Cancel a pending invitation
+ */
+export const revokeAdminInvitation = (invitationId: string) =>
+  callAdminInvitations({ action: 'revoke', invitationId });
+
+/**
+ * Describe the invitation behind a link, before the person has signed in
+ */
+export const lookupAdminInvitation = (token: string) => callAdminInvitations({ action: 'lookup', token });
+
+/**
+ * Accept an invitation as the signed-in user
+ */
+export const acceptAdminInvitation = (token: string) => callAdminInvitations({ action: 'accept', token });
+
+type AdminRequestsResponse = {
+  success: boolean;
+  error?: string;
+};
+
+/**
+ * Call the admin-requests Netlify function, which emails the reviewers or the requester after each change
+ */
+const callAdminRequests = async (payload: Record<string, unknown>): Promise<AdminRequestsResponse> => {
+  try {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new Error('No authenticated user');
+    }
+
+    const token = await currentUser.getIdToken();
+
+    const response = await fetch('/.netlify/functions/admin-requests', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(payload),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Admin request failed');
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error calling admin requests:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+};
+
+/**
+ * Ask for admin access as the signed-in user
+ */
+export const submitAdminRequest = (request: AdminRequestInput) => callAdminRequests({ action: 'submit', ...request });
+
+/**
+ * Approve a pending admin request with the chosen role
+ */
+export const approveAdminRequestRole = (userId: string, role: AdminRole) =>
+  callAdminRequests({ action: 'approve', userId, role });
+
+/**
+ * Reject a pending admin request; the reason is emailed to the requester
+ */
+export const rejectAdminRequest = (userId: string, reason: string) =>
+  callAdminRequests({ action: 'reject', userId, reason });
@@ -0,0 +1,47 @@
+// Admin access request rules, shared by the request status page, the Admins page and the admin-requests functions
+import { z } from 'zod';
+import { isAdminRole, UserRole } from './permissions';
+
+export type AdminRequestStatus = 'pending' | 'approved' | 'rejected' | 'expired';
+
+export const ADMIN_REQUEST_STATUS_LABELS: Record<AdminRequestStatus, string> = {
+  pending: 'Awaiting review',
+  approved: 'Approved',
+  rejected: 'Not approved',
+  expired: 'Expired',
+};
+
+// Days a request waits for review before it expires; changed in Settings > General
+export const DEFAULT_ADMIN_REQUEST_EXPIRY_DAYS = 30;
+export const MIN_ADMIN_REQUEST_EXPIRY_DAYS = 3;
+export const MAX_ADMIN_REQUEST_EXPIRY_DAYS = 180;
+
+export const getAdminRequestExpiryDays = (configured: number | undefined): number =>
+  configured && configured >= MIN_ADMIN_REQUEST_EXPIRY_DAYS && configured <= MAX_ADMIN_REQUEST_EXPIRY_DAYS
+    ? configured
+    : DEFAULT_ADMIN_REQUEST_EXPIRY_DAYS;
+
+export const getAdminRequestExpiry = (submittedAt: Date, expiryDays: number): Date =>
+  new Date(submittedAt.getTime() + expiryDays * 24 * 60 * 60 * 1000);
+
+// Anyone without an admin role may ask unless a request is already waiting; an approved request
+// no longer counts once the role it gave has been removed
+export const canSubmitAdminRequest = (status: AdminRequestStatus | undefined, role: UserRole | null | undefined): boolean =>
+  !isAdminRole(role) && status !== 'pending';
+
+export const adminRequestSchema = z.object({
+  ministry: z.string().trim().min(2, 'Please tell us which ministry you serve in').max(100, 'Ministry must be less than 100 characters'),
+  justification: z
+    .string()
+    .trim()
+    .min(20, 'Please tell us a little more (at least 20 characters)')
+    .max(1000, 'Please keep this under 1000 characters'),
+});
+
+export type AdminRequestInput = z.infer<typeof adminRequestSchema>;
+
+export const rejectionReasonSchema = z
+  .string()
+  .trim()
+  .min(5, 'Please give the requester a reason')
+  .max(500, 'Reason must be less than 500 characters');
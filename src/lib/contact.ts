@@ -0,0 +1,114 @@
+// Contact form validation and spam challenge, shared by ContactSection and the contact-submit function
+import { z } from 'zod';
+
+export const CONTACT_CATEGORIES = [
+  { value: 'general', label: 'General Question', maxLength: 500 },
+  { value: 'prayer', label: 'Prayer Need', maxLength: 1000 },
+  { value: 'visiting', label: 'Planning a Visit', maxLength: 500 },
+  { value: 'partnership', label: 'Partnership', maxLength: 1000 },
+  { value: 'media', label: 'Media Request', maxLength: 750 },
+] as const;
+
+export type ContactCategory = (typeof CONTACT_CATEGORIES)[number]['value'];
+
+// Messages sent before categories existed count as general
+export const DEFAULT_CONTACT_CATEGORY: ContactCategory = 'general';
+
+const CATEGORY_VALUES = CONTACT_CATEGORIES.map((category) => category.value) as [ContactCategory, ...ContactCategory[]];
+
+export const getContactCategory = (value: string) =>
+  CONTACT_CATEGORIES.find((category) => category.value === value) || CONTACT_CATEGORIES[0];
+
+export const getContactMessageMaxLength = (category: string): number => getContactCategory(category).maxLength;
+
+// Per-field rules, used for inline validation as the visitor types
+export const contactFieldsSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be less than 100 characters')
+    .regex(/^[a-zA-Z\s'-]+$/, 'Name can only contain letters, spaces, hyphens, and apostrophes'),
+  email: z
+    .string()
+    .trim()
+    .min(1, 'Email is required')
+    .email('Please enter a valid email address')
+    .max(255, 'Email must be less than 255 characters'),
+  category: z.enum(CATEGORY_VALUES, { errorMap: () => ({ message: 'Please choose what your message is about' }) }),
+  message: z
+    .string()
+    .trim()
+    .min(1, 'Message is required'),
+});
+
+// The message length limit depends on the chosen category
+export const contactSchema = contactFieldsSchema.superRefine((data, ctx) => {
+  const maxLength = getContactMessageMaxLength(data.category);
+  if (data.message.length > maxLength) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['message'],
+      message: `Message must be ${maxLength} characters or less`,
+    });
+  }
+});
+
+export type ContactInput = z.infer<typeof contactSchema>;
+
+// Hidden form field that people never see but form-filling bots do
+export const HONEYPOT_FIELD = 'website';
+
+// Leading zero bits required in the proof-of-work hash - about 16,000 hashes, well under a second in a browser
+export const CHALLENGE_DIFFICULTY = 14;
+
+// Nobody types a message in less time than this after the form loads
+export const MIN_FILL_SECONDS = 3;
+
+export const CHALLENGE_TTL_SECONDS = 2 * 60 * 60;
+
+export type SpamReason = 'honeypot' | 'challenge' | 'too_fast' | 'proof_of_work' | 'links';
+
+export const SPAM_REASON_LABELS: Record<SpamReason, string> = {
+  honeypot: 'Filled in the hidden field',
+  challenge: 'Missing or expired form challenge',
+  too_fast: 'Sent too quickly after the form loaded',
+  proof_of_work: 'Failed the proof-of-work check',
+  links: 'Contains several links',
+};
+
+/**
+ * Issued and signed by the contact-submit function. The browser finds a counter
+ * whose hash has `difficulty` leading zero bits before it may submit.
+ */
+export interface ContactChallenge {
+  nonce: string;
+  issuedAt: number; // Unix milliseconds
+  difficulty: number;
+  signature: string;
+}
+
+export const getProofOfWorkInput = (nonce: string, counter: number): string => `${nonce}:${counter}`;
+
+export const hasLeadingZeroBits = (hexDigest: string, bits: number): boolean => {
+  const fullNibbles = Math.floor(bits / 4);
+  if (!/^0*$/.test(hexDigest.slice(0, fullNibbles))) return false;
+  const remainingBits = bits % 4;
+  if (remainingBits === 0) return true;
+  return parseInt(hexDigest[fullNibbles], 16) < 1 << (4 - remainingBits);
+};
+
+const sha256Hex = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Browser side of the challenge; the function checks the answer with a single hash
+export const solveProofOfWork = async (challenge: ContactChallenge): Promise<number> => {
+  for (let counter = 0; ; counter++) {
+    const digest = await sha256Hex(getProofOfWorkInput(challenge.nonce, counter));
+    if (hasLeadingZeroBits(digest, challenge.difficulty)) return counter;
+  }
+};
+
+export const countLinks = (text: string): number => (text.match(/https?:\/\/|www\./gi) || []).length;
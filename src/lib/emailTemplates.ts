@@ -0,0 +1,302 @@
+// Email templates with {{placeholder}} fields, shared by the Settings editor and the Netlify functions that send them
+
+export type EmailTemplateKey =
+  | 'contact_acknowledgement'
+  | 'contact_admin_alert'
+  | 'account_deletion_scheduled'
+  | 'account_deleted'
+  | 'admin_invitation'
+  | 'admin_request_received'
+  | 'admin_request_approved'
+  | 'admin_request_rejected'
+  | 'admin_request_expired';
+
+export interface EmailTemplate {
+  subject: string;
+  body: string;
+  enabled: boolean;
+}
+
+export interface EmailTemplateDefinition {
+  key: EmailTemplateKey;
+  label: string;
+  description: string;
+  placeholders: { name: string; description: string; example: string }[];
+  defaults: EmailTemplate;
+}
+
+const CHURCH_PLACEHOLDERS = [
+  { name: 'churchName', description: 'Church name from Settings', example: 'Shiloh Intercession Mountain' },
+  { name: 'churchEmail', description: 'Church email from Settings', example: 'info@example.org' },
+  { name: 'churchPhone', description: 'Church phone from Settings', example: '+27 12 345 6789' },
+];
+
+const MESSAGE_PLACEHOLDERS = [
+  { name: 'name', description: "Sender's name", example: 'Thandi Mokoena' },
+  { name: 'email', description: "Sender's email address", example: 'thandi@example.com' },
+  { name: 'category', description: 'What the message is about', example: 'Prayer Need' },
+  { name: 'message', description: 'The message itself', example: 'Please pray for my family as we move house this month.' },
+];
+
+const ACCOUNT_PLACEHOLDERS = [
+  { name: 'name', description: "The account holder's name", example: 'Thandi Mokoena' },
+  { name: 'email', description: "The account's email address", example: 'thandi@example.com' },
+];
+
+const ADMIN_REQUEST_PLACEHOLDERS = [
+  { name: 'name', description: "The requester's name", example: 'Thandi Mokoena' },
+  { name: 'email', description: "The requester's email address", example: 'thandi@example.com' },
+  { name: 'ministry', description: 'The ministry they serve in', example: 'Media team' },
+];
+
+export const EMAIL_TEMPLATES: EmailTemplateDefinition[] = [
+  {
+    key: 'contact_acknowledgement',
+    label: 'Contact form acknowledgement',
+    description: 'Sent to the visitor as soon as their contact form message arrives',
+    placeholders: [...MESSAGE_PLACEHOLDERS, ...CHURCH_PLACEHOLDERS],
+    defaults: {
+      enabled: true,
+      subject: 'We received your message - {{churchName}}',
+      body: [
+        'Dear {{name}},',
+        '',
+        'Thank you for contacting {{churchName}}. This is a quick note to let you know your message arrived safely, and someone from our team will get back to you soon.',
+        '',
+        'Your message:',
+        '{{message}}',
+        '',
+        'If your need is urgent, please call us on {{churchPhone}}.',
+        '',
+        'Blessings,',
+        '{{churchName}}',
+      ].join('\n'),
+    },
+  },
+  {
+    key: 'contact_admin_alert',
+    label: 'New message alert for admins',
+    description: 'Sent to the admins responsible for the message category, or to every admin when nobody is',
+    placeholders: [
+      ...MESSAGE_PLACEHOLDERS,
+      { name: 'messageUrl', description: 'Link to the message in the admin inbox', example: 'https://example.org/admin/messages?m=abc123' },
+      ...CHURCH_PLACEHOLDERS,
+    ],
+    defaults: {
+      enabled: true,
+      subject: 'New {{category}} message from {{name}}',
+      body: [
+        '{{name}} ({{email}}) sent a new {{category}} message through the website:',
+        '',
+        '{{message}}',
+        '',
+        'Open it in the inbox: {{messageUrl}}',
+      ].join('\n'),
+    },
+  },
+  {
+    key: 'account_deletion_scheduled',
+    label: 'Account deletion requested',
+    description: 'Sent when someone asks for their account to be deleted from the My Data page',
+    placeholders: [
+      ...ACCOUNT_PLACEHOLDERS,
+      { name: 'deletionDate', description: 'When the account will be deleted', example: '2 March 2025' },
+      { name: 'accountUrl', description: 'Link to the My Data page, where the deletion can be cancelled', example: 'https://example.org/my-data' },
+      ...CHURCH_PLACEHOLDERS,
+    ],
+    defaults: {
+      enabled: true,
+      subject: 'Your account will be deleted on {{deletionDate}}',
+      body: [
+        'Dear {{name}},',
+        '',
+        'We received your request to delete your {{churchName}} account ({{email}}).',
+        '',
+        'Your account and the personal information we hold about you will be deleted on {{deletionDate}}. Until then you can change your mind by signing in and cancelling the request:',
+        '{{accountUrl}}',
+        '',
+        'If you did not ask for this, please cancel it at the link above and change your password.',
+        '',
+        'Blessings,',
+        '{{churchName}}',
+      ].join('\n'),
+    },
+  },
+  {
+    key: 'account_deleted',
+    label: 'Account deleted',
+    description: 'Sent once the grace period is over and the account has been deleted',
+    placeholders: [...ACCOUNT_PLACEHOLDERS, ...CHURCH_PLACEHOLDERS],
+    defaults: {
+      enabled: true,
+      subject: 'Your {{churchName}} account has been deleted',
+      body: [
+        'Dear {{name}},',
+        '',
+        'As you asked, your account ({{email}}) and the personal information we held about you have now been deleted.',
+        '',
+        'You are always welcome to contact us again at {{churchEmail}}.',
+        '',
+        'Blessings,',
+        '{{churchName}}',
+      ].join('\n'),
+    },
+  },
+  {
+    key: 'admin_invitation',
+    label: 'Admin invitation',
+    description: 'Sent from the Admins page to invite someone to help run the website',
+    placeholders: [
+      { name: 'email', description: 'The invited email address', example: 'thandi@example.com' },
+      { name: 'role', description: 'The role they are invited to', example: 'Media Manager' },
+      { name: 'invitedBy', description: 'Name of the admin who sent the invitation', example: 'Pastor John' },
+      { name: 'inviteUrl', description: 'Single-use link to accept the invitation', example: 'https://example.org/accept-invite?token=...' },
+      { name: 'expiryDate', description: 'When the link stops working', example: '9 March 2025' },
+      ...CHURCH_PLACEHOLDERS,
+    ],
+    defaults: {
+      enabled: true,
+      subject: "You're invited to help run the {{churchName}} website",
+      body: [
+        'Hello,',
+        '',
+        '{{invitedBy}} has invited you ({{email}}) to join the {{churchName}} website team as {{role}}.',
+        '',
+        'To accept, open the link below and sign in, or create an account with this email address:',
+        '{{inviteUrl}}',
+        '',
+        'The link works once and expires on {{expiryDate}}. If you were not expecting this, you can ignore this email.',
+        '',
+        'Blessings,',
+        '{{churchName}}',
+      ].join('\n'),
+    },
+  },
+  {
+    key: 'admin_request_received',
+    label: 'New admin request alert',
+    description: 'Sent to every admin who can manage admins when someone asks for admin access',
+    placeholders: [
+      ...ADMIN_REQUEST_PLACEHOLDERS,
+      { name: 'justification', description: 'Why they are asking for access', example: 'I upload the Sunday sermons and photos.' },
+      { name: 'expiryDate', description: 'When the request expires if nobody reviews it', example: '9 March 2025' },
+      { name: 'reviewUrl', description: 'Link to the Admins page', example: 'https://example.org/admin/admins' },
+      ...CHURCH_PLACEHOLDERS,
+    ],
+    defaults: {
+      enabled: true,
+      subject: 'Admin access request from {{name}}',
+      body: [
+        '{{name}} ({{email}}) has asked for access to the {{churchName}} admin panel.',
+        '',
+        'Ministry: {{ministry}}',
+        '',
+        '{{justification}}',
+        '',
+        'Approve or reject the request before {{expiryDate}}:',
+        '{{reviewUrl}}',
+      ].join('\n'),
+    },
+  },
+  {
+    key: 'admin_request_approved',
+    label: 'Admin request approved',
+    description: 'Sent to the requester when their admin access request is approved',
+    placeholders: [
+      ...ADMIN_REQUEST_PLACEHOLDERS,
+      { name: 'role', description: 'The role they were given', example: 'Media Manager' },
+      { name: 'adminUrl', description: 'Link to the admin panel', example: 'https://example.org/admin' },
+      ...CHURCH_PLACEHOLDERS,
+    ],
+    defaults: {
+      enabled: true,
+      subject: 'Your admin access has been approved - {{churchName}}',
+      body: [
+        'Dear {{name}},',
+        '',
+        'Your request for admin access has been approved. You can now sign in to the admin panel as {{role}}:',
+        '{{adminUrl}}',
+        '',
+        'Blessings,',
+        '{{churchName}}',
+      ].join('\n'),
+    },
+  },
+  {
+    key: 'admin_request_rejected',
+    label: 'Admin request rejected',
+    description: "Sent to the requester when their admin access request is rejected, with the reviewer's reason",
+    placeholders: [
+      ...ADMIN_REQUEST_PLACEHOLDERS,
+      { name: 'reason', description: "The reviewer's reason", example: 'Please speak to your ministry leader first.' },
+      { name: 'statusUrl', description: 'Link to their request status page', example: 'https://example.org/admin-request' },
+      ...CHURCH_PLACEHOLDERS,
+    ],
+    defaults: {
+      enabled: true,
+      subject: 'Your admin access request - {{churchName}}',
+      body: [
+        'Dear {{name}},',
+        '',
+        'Thank you for offering to help with the {{churchName}} website. Your request for admin access was not approved this time.',
+        '',
+        'Reason: {{reason}}',
+        '',
+        'You can see your request, and ask again later, here:',
+        '{{statusUrl}}',
+        '',
+        'Blessings,',
+        '{{churchName}}',
+      ].join('\n'),
+    },
+  },
+  {
+    key: 'admin_request_expired',
+    label: 'Admin request expired',
+    description: 'Sent to the requester when nobody reviewed their admin access request in time',
+    placeholders: [
+      ...ADMIN_REQUEST_PLACEHOLDERS,
+      { name: 'statusUrl', description: 'Link to their request status page', example: 'https://example.org/admin-request' },
+      ...CHURCH_PLACEHOLDERS,
+    ],
+    defaults: {
+      enabled: true,
+      subject: 'Your admin access request has expired - {{churchName}}',
+      body: [
+        'Dear {{name}},',
+        '',
+        'Your request for admin access was not reviewed in time and has expired. We are sorry for the wait.',
+        '',
+        'You can send a new request here:',
+        '{{statusUrl}}',
+        '',
+        'If you need help, contact us at {{churchEmail}}.',
+        '',
+        'Blessings,',
+        '{{churchName}}',
+      ].join('\n'),
+    },
+  },
+];
+
+export const getEmailTemplateDefinition = (key: EmailTemplateKey): EmailTemplateDefinition =>
+  EMAIL_TEMPLATES.find((template) => template.key === key)!;
+
+/**
+ * Fills {{placeholders}} in a template string. Unknown placeholders are left
+ * as they are so a typo shows up in the preview instead of vanishing.
+ */
+export const renderTemplateString = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => (name in values ? values[name] : match));
+
+export const renderEmailTemplate = (
+  template: EmailTemplate,
+  values: Record<string, string>
+): { subject: string; text: string } => ({
+  // Subjects are a single header line
+  subject: renderTemplateString(template.subject, values).replace(/\s*\n\s*/g, ' '),
+  text: renderTemplateString(template.body, values),
+});
+
+export const getExampleValues = (key: EmailTemplateKey): Record<string, string> =>
+  Object.fromEntries(getEmailTemplateDefinition(key).placeholders.map((placeholder) => [placeholder.name, placeholder.example]));
@@ -0,0 +1,81 @@
+// Deep links and schema.org structured data for event detail pages
+import { CHURCH_UTC_OFFSET_HOURS } from './ical';
+
+export interface EventLinkTarget {
+  id?: string;
+  occurrenceKey?: string;
+  isRecurring?: boolean;
+}
+
+export interface EventSchemaInput {
+  title: string;
+  description?: string;
+  date: string;             // yyyy-MM-dd in the church's timezone
+  startTime: string;        // HH:mm
+  endTime?: string | null;  // Earlier than startTime when the event runs past midnight
+  location?: string;
+  url: string;
+  organizerName: string;
+  organizerUrl: string;
+  address?: string;
+  registrationEnabled?: boolean;
+  isFull?: boolean;
+}
+
+// Recurring events link to a specific occurrence so shared links show the right date
+export const getEventPath = (event: EventLinkTarget): string =>
+  event.isRecurring && event.occurrenceKey
+    ? `/events/${event.id}?date=${event.occurrenceKey}`
+    : `/events/${event.id}`;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const OFFSET = `+${pad(CHURCH_UTC_OFFSET_HOURS)}:00`;
+
+// ISO 8601 date-time with the church's UTC offset, optionally shifted by whole days
+const toIsoDateTime = (date: string, time: string, addDays = 0): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day + addDays));
+  const datePart = `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+  return `${datePart}T${time}:00${OFFSET}`;
+};
+
+export const buildEventJsonLd = (event: EventSchemaInput): Record<string, unknown> => {
+  const place = event.location || event.organizerName;
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Event',
+    name: event.title,
+    ...(event.description ? { description: event.description } : {}),
+    startDate: toIsoDateTime(event.date, event.startTime),
+    ...(event.endTime
+      ? { endDate: toIsoDateTime(event.date, event.endTime, event.endTime <= event.startTime ? 1 : 0) }
+      : {}),
+    eventStatus: 'https://schema.org/EventScheduled',
+    eventAttendanceMode: 'https://schema.org/OfflineEventAttendanceMode',
+    location: {
+      '@type': 'Place',
+      name: place,
+      address: event.address || place,
+    },
+    organizer: {
+      '@type': 'Organization',
+      name: event.organizerName,
+      url: event.organizerUrl,
+    },
+    url: event.url,
+    // Our gatherings are free; an offer tells search engines registration is open
+    ...(event.registrationEnabled
+      ? {
+          offers: {
+            '@type': 'Offer',
+            price: 0,
+            priceCurrency: 'ZAR',
+            url: event.url,
+            availability: event.isFull ? 'https://schema.org/SoldOut' : 'https://schema.org/InStock',
+          },
+        }
+      : {}),
+  };
+};
@@ -0,0 +1,35 @@
+// Event registration validation, shared by the RSVP form and the event-registration function
+import { z } from 'zod';
+
+export const MAX_GUESTS = 10;
+
+export const registrationSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be less than 100 characters'),
+  email: z
+    .string()
+    .trim()
+    .min(1, 'Email is required')
+    .email('Please enter a valid email address')
+    .max(255, 'Email must be less than 255 characters'),
+  phone: z
+    .string()
+    .trim()
+    .max(30, 'Phone number must be less than 30 characters')
+    .regex(/^[0-9+()\s-]*$/, 'Please enter a valid phone number'),
+  guests: z
+    .number()
+    .int()
+    .min(0, 'Guests cannot be negative')
+    .max(MAX_GUESTS, `You can bring up to ${MAX_GUESTS} guests`),
+});
+
+export type RegistrationInput = z.infer<typeof registrationSchema>;
+
+export type RegistrationStatus = 'confirmed' | 'waitlisted' | 'cancelled';
+
+export const normalizeConfirmationCode = (code: string): string =>
+  code.trim().toUpperCase().replace(/[^A-Z0-9]/g, '');
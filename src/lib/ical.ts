@@ -0,0 +1,210 @@
+// iCalendar (RFC 5545) generation for church events
+// Shared by the events-calendar Netlify function and the "Add to calendar" download
+import { getWeekdayPosition, OccurrenceException, RecurrenceRule } from './recurrence';
+
+export const CHURCH_TIMEZONE = 'Africa/Johannesburg';
+// South Africa has no daylight saving, so a fixed offset describes the zone fully
+export const CHURCH_UTC_OFFSET_HOURS = 2;
+
+const BYDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export interface CalendarEntry {
+  uid: string;
+  title: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  date: string;             // yyyy-MM-dd in the church's timezone
+  startTime: string;        // HH:mm
+  endTime?: string | null;  // Earlier than startTime when the event runs past midnight
+  recurrence?: RecurrenceRule | null;
+  exceptions?: Record<string, OccurrenceException>;
+  lastModified?: Date;
+}
+
+export interface CalendarOptions {
+  name: string;
+  description?: string;
+}
+
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Content lines longer than 75 octets are folded onto continuation lines
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatUtc = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// Local wall-clock date-time, e.g. 20261006T190000, optionally shifted by whole days
+const formatLocal = (date: string, time: string, addDays = 0): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day + addDays));
+  return `${shifted.getUTCFullYear()}${pad(shifted.getUTCMonth() + 1)}${pad(shifted.getUTCDate())}T` +
+    `${pad(hours)}${pad(minutes || 0)}00`;
+};
+
+const endsNextDay = (startTime: string, endTime: string) => endTime <= startTime;
+
+const buildRRule = (rule: RecurrenceRule, seriesDate: string): string => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+
+  if (rule.frequency === 'weekly' && rule.byWeekday?.length) {
+    parts.push(`BYDAY=${[...rule.byWeekday].sort().map(day => BYDAY_CODES[day]).join(',')}`);
+  }
+  if (rule.frequency === 'monthly') {
+    const [year, month, day] = seriesDate.split('-').map(Number);
+    const firstDate = new Date(year, month - 1, day);
+    const weekday = rule.weekday ?? firstDate.getDay();
+    const position = rule.weekOfMonth ?? getWeekdayPosition(firstDate);
+    parts.push(`BYDAY=${position}${BYDAY_CODES[weekday]}`);
+  }
+
+  if (rule.until) {
+    // UNTIL must be UTC when DTSTART carries a TZID; use the last second of the local day
+    const [year, month, day] = rule.until.split('-').map(Number);
+    const lastSecond = new Date(Date.UTC(year, month - 1, day, 23 - CHURCH_UTC_OFFSET_HOURS, 59, 59));
+    parts.push(`UNTIL=${formatUtc(lastSecond)}`);
+  } else if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+
+  return parts.join(';');
+};
+
+const buildTiming = (date: string, startTime: string, endTime?: string | null): string[] => {
+  const lines = [`DTSTART;TZID=${CHURCH_TIMEZONE}:${formatLocal(date, startTime)}`];
+  if (endTime) {
+    const dayOffset = endsNextDay(startTime, endTime) ? 1 : 0;
+    lines.push(`DTEND;TZID=${CHURCH_TIMEZONE}:${formatLocal(date, endTime, dayOffset)}`);
+  } else {
+    // No end time recorded; an hour keeps the event visible in calendar apps
+    lines.push('DURATION:PT1H');
+  }
+  return lines;
+};
+
+const buildDetails = (
+  entry: CalendarEntry,
+  title: string,
+  description?: string,
+  location?: string
+): string[] => {
+  const lines = [`SUMMARY:${escapeText(title)}`];
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+  if (location) lines.push(`LOCATION:${escapeText(location)}`);
+  if (entry.url) lines.push(`URL:${entry.url}`);
+  return lines;
+};
+
+const buildEntry = (entry: CalendarEntry, stamp: string): string[] => {
+  const header = [
+    'BEGIN:VEVENT',
+    `UID:${entry.uid}`,
+    `DTSTAMP:${stamp}`,
+    ...(entry.lastModified ? [`LAST-MODIFIED:${formatUtc(entry.lastModified)}`] : []),
+  ];
+
+  const lines = [
+    ...header,
+    ...buildTiming(entry.date, entry.startTime, entry.endTime),
+    ...buildDetails(entry, entry.title, entry.description, entry.location),
+  ];
+
+  if (!entry.recurrence) {
+    return [...lines, 'END:VEVENT'];
+  }
+
+  lines.push(`RRULE:${buildRRule(entry.recurrence, entry.date)}`);
+
+  const exceptions = Object.entries(entry.exceptions || {});
+  exceptions
+    .filter(([, exception]) => exception.cancelled)
+    .forEach(([key]) => {
+      lines.push(`EXDATE;TZID=${CHURCH_TIMEZONE}:${formatLocal(key, entry.startTime)}`);
+    });
+  lines.push('END:VEVENT');
+
+  // Edited occurrences are separate components that replace the matching instance
+  exceptions
+    .filter(([, exception]) => !exception.cancelled)
+    .forEach(([key, exception]) => {
+      const startTime = exception.startTime || entry.startTime;
+      lines.push(
+        ...header,
+        `RECURRENCE-ID;TZID=${CHURCH_TIMEZONE}:${formatLocal(key, entry.startTime)}`,
+        ...buildTiming(key, startTime, exception.endTime ?? entry.endTime),
+        ...buildDetails(
+          entry,
+          exception.title || entry.title,
+          exception.description ?? entry.description,
+          exception.location ?? entry.location
+        ),
+        'END:VEVENT'
+      );
+    });
+
+  return lines;
+};
+
+export const buildCalendar = (entries: CalendarEntry[], options: CalendarOptions): string => {
+  const stamp = formatUtc(new Date());
+  const offset = `+${pad(CHURCH_UTC_OFFSET_HOURS)}00`;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Shiloh Intercession Mountain//Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...(options.description ? [`X-WR-CALDESC:${escapeText(options.description)}`] : []),
+    `X-WR-TIMEZONE:${CHURCH_TIMEZONE}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    'X-PUBLISHED-TTL:PT6H',
+    'BEGIN:VTIMEZONE',
+    `TZID:${CHURCH_TIMEZONE}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    `TZOFFSETFROM:${offset}`,
+    `TZOFFSETTO:${offset}`,
+    'TZNAME:SAST',
+    'END:STANDARD',
+    'END:VTIMEZONE',
+    ...entries.flatMap(entry => buildEntry(entry, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// yyyy-MM-dd of a moment as seen in the church's timezone
+export const toChurchDate = (date: Date): string =>
+  date.toLocaleDateString('en-CA', { timeZone: CHURCH_TIMEZONE });
@@ -0,0 +1,31 @@
+// Admin invitation rules, shared by the Admins page, the accept page and the admin-invitations function
+import type { AdminRole } from './permissions';
+
+// Days an invitation link works for; resending starts the clock again
+export const INVITATION_EXPIRY_DAYS = 7;
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked';
+
+// Pending invitations past their expiry show as expired; nothing rewrites the stored status
+export type InvitationState = InvitationStatus | 'expired';
+
+export const INVITATION_STATE_LABELS: Record<InvitationState, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  revoked: 'Revoked',
+  expired: 'Expired',
+};
+
+// What the accept page is told about an invitation before the person signs in
+export interface InvitationSummary {
+  email: string;
+  role: AdminRole;
+  state: InvitationState;
+  expiresAt: string;
+}
+
+export const getInvitationExpiry = (sentAt: Date): Date =>
+  new Date(sentAt.getTime() + INVITATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+
+export const getInvitationState = (status: InvitationStatus, expiresAt: Date, now: Date = new Date()): InvitationState =>
+  status === 'pending' && expiresAt.getTime() <= now.getTime() ? 'expired' : status;
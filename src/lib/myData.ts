@@ -0,0 +1,60 @@
+// "My data" export bundle and account deletion rules, shared by the My Data page and the my-data/account-deletion functions
+import type { ZipEntry } from './zip';
+
+// Days between asking for deletion and the account being erased; signing in and cancelling stops it
+export const DELETION_GRACE_DAYS = 14;
+
+export type DeletionRequestStatus = 'scheduled' | 'cancelled' | 'completed';
+
+// Everything held about a user; dates are ISO strings so the bundle is plain JSON
+export interface MyDataExport {
+  exportedAt: string;
+  // Website submissions are only included when emailVerified is true
+  account: { uid: string; email: string; emailVerified: boolean; createdAt: string | null; lastSignInAt: string | null };
+  profile: Record<string, unknown> | null;
+  role: Record<string, unknown> | null;
+  adminRequest: Record<string, unknown> | null;
+  contactMessages: Record<string, unknown>[]; // Includes the replies emailed to the user, never internal notes
+  prayerRequests: Record<string, unknown>[];
+  eventRegistrations: Record<string, unknown>[];
+  watchSignups: Record<string, unknown>[];
+  uploads: { type: string; url: string; [key: string]: unknown }[];
+}
+
+const EXPORT_SECTIONS: { key: Exclude<keyof MyDataExport, 'exportedAt'>; file: string }[] = [
+  { key: 'account', file: 'account.json' },
+  { key: 'profile', file: 'profile.json' },
+  { key: 'role', file: 'role.json' },
+  { key: 'adminRequest', file: 'admin-request.json' },
+  { key: 'contactMessages', file: 'contact-messages.json' },
+  { key: 'prayerRequests', file: 'prayer-requests.json' },
+  { key: 'eventRegistrations', file: 'event-registrations.json' },
+  { key: 'watchSignups', file: 'prayer-watch-signups.json' },
+  { key: 'uploads', file: 'uploads.json' },
+];
+
+export const getExportFileName = (data: MyDataExport, extension: 'json' | 'zip') =>
+  `my-data-${data.exportedAt.slice(0, 10)}.${extension}`;
+
+// One JSON file per section plus a README, for the ZIP download
+export const getExportZipEntries = (data: MyDataExport, churchName: string): ZipEntry[] => [
+  {
+    name: 'README.txt',
+    content: [
+      `Personal data held by ${churchName}`,
+      `Exported on ${data.exportedAt} for ${data.account.email}`,
+      '',
+      'Each file holds one kind of record. Empty files mean we hold nothing of that kind.',
+      'uploads.json lists the files you uploaded with links to download them.',
+      '',
+      ...EXPORT_SECTIONS.map((section) => `- ${section.file}`),
+    ].join('\r\n'),
+  },
+  ...EXPORT_SECTIONS.map((section) => ({
+    name: section.file,
+    content: JSON.stringify(data[section.key], null, 2),
+  })),
+];
+
+export const getDeletionDate = (requestedAt: Date): Date =>
+  new Date(requestedAt.getTime() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
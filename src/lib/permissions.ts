@@ -0,0 +1,100 @@
+// Capabilities and the role bundles that grant them, shared by the admin panel and the
+// Firestore rules generator (scripts/generate-firestore-rules.ts)
+
+export type Capability =
+  | 'events.write'
+  | 'videos.write'
+  | 'gallery.write'
+  | 'messages.read'
+  | 'prayer.read'
+  | 'prayer.moderate'
+  | 'settings.write'
+  | 'admins.manage';
+
+export type AdminRole = 'intercessor' | 'editor' | 'media_manager' | 'moderator' | 'admin' | 'super_admin';
+export type UserRole = 'user' | AdminRole;
+
+export interface CapabilityDefinition {
+  capability: Capability;
+  label: string;
+  description: string;
+}
+
+export const CAPABILITIES: CapabilityDefinition[] = [
+  { capability: 'events.write', label: 'Events', description: 'Create events and see who registered' },
+  { capability: 'videos.write', label: 'Videos', description: 'Videos, sermons, playlists and livestreams' },
+  { capability: 'gallery.write', label: 'Gallery', description: 'Upload photos and manage albums' },
+  { capability: 'messages.read', label: 'Messages', description: 'Read and reply to contact form messages' },
+  { capability: 'prayer.read', label: 'Prayer Wall', description: 'Read intercessor-only prayer requests on the prayer wall' },
+  { capability: 'prayer.moderate', label: 'Prayer', description: 'Moderate prayer requests and run the prayer watch' },
+  { capability: 'settings.write', label: 'Settings', description: 'Church details, service times, emails and privacy' },
+  { capability: 'admins.manage', label: 'Admins', description: 'Approve requests and assign roles' },
+];
+
+const ALL_CAPABILITIES = CAPABILITIES.map((definition) => definition.capability);
+
+export interface RoleBundle {
+  role: AdminRole;
+  label: string;
+  description: string;
+  capabilities: Capability[];
+}
+
+// Ordered from least to most access
+export const ROLE_BUNDLES: RoleBundle[] = [
+  {
+    role: 'intercessor',
+    label: 'Intercessor',
+    description: 'Member of the intercession team who prays over intercessor-only requests',
+    capabilities: ['prayer.read'],
+  },
+  {
+    role: 'editor',
+    label: 'Editor',
+    description: 'Keeps events and the teaching library up to date',
+    capabilities: ['events.write', 'videos.write'],
+  },
+  {
+    role: 'media_manager',
+    label: 'Media Manager',
+    description: 'Looks after the gallery, videos and livestreams',
+    capabilities: ['gallery.write', 'videos.write'],
+  },
+  {
+    role: 'moderator',
+    label: 'Moderator',
+    description: 'Answers messages and moderates prayer requests',
+    capabilities: ['messages.read', 'prayer.read', 'prayer.moderate'],
+  },
+  {
+    role: 'admin',
+    label: 'Admin',
+    description: 'Everything in the admin panel',
+    capabilities: ALL_CAPABILITIES,
+  },
+  {
+    role: 'super_admin',
+    label: 'Super Admin',
+    description: 'Everything, plus legal holds, retention and message routing',
+    capabilities: ALL_CAPABILITIES,
+  },
+];
+
+export const ADMIN_ROLES: AdminRole[] = ROLE_BUNDLES.map((bundle) => bundle.role);
+
+export const getRoleBundle = (role: UserRole | null | undefined): RoleBundle | undefined =>
+  ROLE_BUNDLES.find((bundle) => bundle.role === role);
+
+export const getRoleLabel = (role: UserRole | null | undefined): string => getRoleBundle(role)?.label || 'User';
+
+// Any role with a bundle can open the admin panel; what they see inside depends on its capabilities
+export const isAdminRole = (role: UserRole | null | undefined): role is AdminRole => !!getRoleBundle(role);
+
+export const getCapabilities = (role: UserRole | null | undefined): Capability[] =>
+  getRoleBundle(role)?.capabilities || [];
+
+export const hasCapability = (role: UserRole | null | undefined, capability: Capability): boolean =>
+  getCapabilities(role).includes(capability);
+
+export const getRolesWithCapability = (capability: Capability): AdminRole[] =>
+  ROLE_BUNDLES.filter((bundle) => bundle.capabilities.includes(capability)).map((bundle) => bundle.role);
@@ -0,0 +1,128 @@
+// Podcast RSS 2.0 feed with the iTunes namespace, as read by Apple Podcasts, Spotify and most apps
+// Used by the podcast-feed Netlify function
+
+export interface PodcastChannel {
+  title: string;
+  description: string;
+  siteUrl: string;
+  feedUrl: string;
+  author: string;
+  email?: string;
+  imageUrl?: string;         // Square artwork, 1400-3000px
+  language?: string;
+}
+
+export interface PodcastEpisode {
+  guid: string;
+  title: string;
+  description?: string;
+  link: string;
+  audioUrl: string;
+  audioType?: string | null;
+  audioSize?: number | null; // Bytes
+  durationSeconds?: number | null;
+  publishedAt: Date;
+  author?: string;
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// itunes:duration as HH:MM:SS
+export const formatPodcastDuration = (seconds: number): string => {
+  const total = Math.max(0, Math.round(seconds));
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+};
+
+// Apps reject enclosures without a type; fall back on the file extension
+const guessAudioType = (url: string): string => {
+  const extension = url.split('?')[0].split('.').pop()?.toLowerCase();
+  if (extension === 'm4a' || extension === 'mp4') return 'audio/x-m4a';
+  if (extension === 'wav') return 'audio/wav';
+  if (extension === 'ogg') return 'audio/ogg';
+  return 'audio/mpeg';
+};
+
+const buildItem = (episode: PodcastEpisode): string[] => {
+  const lines = [
+    '<item>',
+    `<title>${escapeXml(episode.title)}</title>`,
+    `<guid isPermaLink="false">${escapeXml(episode.guid)}</guid>`,
+    `<link>${escapeXml(episode.link)}</link>`,
+    `<pubDate>${episode.publishedAt.toUTCString()}</pubDate>`,
+    `<enclosure url="${escapeXml(episode.audioUrl)}" length="${episode.audioSize || 0}" type="${escapeXml(
+      episode.audioType || guessAudioType(episode.audioUrl)
+    )}"/>`,
+    '<itunes:episodeType>full</itunes:episodeType>',
+    '<itunes:explicit>false</itunes:explicit>',
+  ];
+
+  if (episode.description) {
+    lines.push(`<description>${escapeXml(episode.description)}</description>`);
+    lines.push(`<itunes:summary>${escapeXml(episode.description)}</itunes:summary>`);
+  }
+  if (episode.author) lines.push(`<itunes:author>${escapeXml(episode.author)}</itunes:author>`);
+  if (episode.durationSeconds) {
+    lines.push(`<itunes:duration>${formatPodcastDuration(episode.durationSeconds)}</itunes:duration>`);
+  }
+
+  lines.push('</item>');
+  return lines;
+};
+
+/**
+ * Builds the feed XML. Episodes are ordered newest first, which is what
+ * podcast apps expect for an episodic show.
+ */
+export const buildPodcastFeed = (channel: PodcastChannel, episodes: PodcastEpisode[]): string => {
+  const sorted = [...episodes].sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
+  const lastBuild = sorted[0]?.publishedAt || new Date();
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '<channel>',
+    `<title>${escapeXml(channel.title)}</title>`,
+    `<link>${escapeXml(channel.siteUrl)}</link>`,
+    `<atom:link href="${escapeXml(channel.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    `<description>${escapeXml(channel.description)}</description>`,
+    `<language>${channel.language || 'en-za'}</language>`,
+    `<lastBuildDate>${lastBuild.toUTCString()}</lastBuildDate>`,
+    `<itunes:author>${escapeXml(channel.author)}</itunes:author>`,
+    `<itunes:summary>${escapeXml(channel.description)}</itunes:summary>`,
+    '<itunes:type>episodic</itunes:type>',
+    '<itunes:explicit>false</itunes:explicit>',
+    '<itunes:category text="Religion &amp; Spirituality">',
+    '<itunes:category text="Christianity"/>',
+    '</itunes:category>',
+  ];
+
+  if (channel.imageUrl) {
+    lines.push(`<itunes:image href="${escapeXml(channel.imageUrl)}"/>`);
+    lines.push(
+      '<image>',
+      `<url>${escapeXml(channel.imageUrl)}</url>`,
+      `<title>${escapeXml(channel.title)}</title>`,
+      `<link>${escapeXml(channel.siteUrl)}</link>`,
+      '</image>'
+    );
+  }
+  if (channel.email) {
+    lines.push(
+      '<itunes:owner>',
+      `<itunes:name>${escapeXml(channel.author)}</itunes:name>`,
+      `<itunes:email>${escapeXml(channel.email)}</itunes:email>`,
+      '</itunes:owner>'
+    );
+  }
+
+  lines.push(...sorted.flatMap(buildItem), '</channel>', '</rss>');
+  return lines.join('\n') + '\n';
+};
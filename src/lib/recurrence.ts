@@ -0,0 +1,155 @@
+// Recurrence rules for repeating events
+// Kept free of Firebase imports so Netlify functions can expand series too
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  format,
+  lastDayOfMonth,
+  parseISO,
+  startOfDay,
+  startOfWeek,
+} from 'date-fns';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;        // Every n days / weeks / months
+  byWeekday?: number[];    // Weekly: days of the week, 0 = Sunday
+  weekOfMonth?: number;    // Monthly: 1-4, or -1 for the last week
+  weekday?: number;        // Monthly: day of the week paired with weekOfMonth
+  until?: string;          // yyyy-MM-dd, inclusive
+  count?: number;          // Total occurrences in the series
+}
+
+// Changes to a single occurrence, keyed by its original yyyy-MM-dd date
+export interface OccurrenceException {
+  cancelled?: boolean;
+  title?: string;
+  description?: string;
+  startTime?: string;
+  endTime?: string;
+  location?: string;
+}
+
+export const WEEKDAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+const ORDINALS: Record<number, string> = {
+  1: 'first',
+  2: 'second',
+  3: 'third',
+  4: 'fourth',
+  [-1]: 'last',
+};
+
+// Hard stop so a malformed rule can never spin forever
+const MAX_ITERATIONS = 5000;
+
+export const toOccurrenceKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+/**
+ * Which occurrence of its weekday a date is within its month: 1-4, or -1 for a
+ * fifth occurrence, which only some months have, so it is treated as "last".
+ */
+export const getWeekdayPosition = (date: Date): number => {
+  const position = Math.ceil(date.getDate() / 7);
+  return position > 4 ? -1 : position;
+};
+
+const nthWeekdayOfMonth = (monthStart: Date, weekday: number, position: number): Date => {
+  if (position === -1) {
+    const last = lastDayOfMonth(monthStart);
+    return addDays(last, -((last.getDay() - weekday + 7) % 7));
+  }
+  const offset = (weekday - monthStart.getDay() + 7) % 7;
+  return addDays(monthStart, offset + (position - 1) * 7);
+};
+
+/**
+ * Dates (local midnight) on which a series falls between rangeStart and rangeEnd.
+ * The series start is always the first occurrence, even when the rule would not
+ * pick that day, matching how calendar apps read DTSTART in the iCal feed.
+ * The count limit is measured from the start of the series, not the range.
+ */
+export const expandRecurrence = (
+  seriesStart: Date,
+  rule: RecurrenceRule,
+  rangeStart: Date,
+  rangeEnd: Date
+): Date[] => {
+  const first = startOfDay(seriesStart);
+  const from = startOfDay(rangeStart);
+  const until = rule.until ? parseISO(rule.until) : null;
+  const interval = Math.max(1, rule.interval || 1);
+  const dates: Date[] = [];
+  let emitted = 0;
+
+  // Returns false once the series (or the requested range) is exhausted
+  const emit = (date: Date): boolean => {
+    if (emitted > 0 && date <= first) return true;
+    if (date > rangeEnd || (until && date > until)) return false;
+    if (rule.count && emitted >= rule.count) return false;
+    emitted++;
+    if (date >= from) dates.push(date);
+    return true;
+  };
+
+  if (!emit(first)) return dates;
+
+  for (let period = 0; period < MAX_ITERATIONS; period++) {
+    if (rule.frequency === 'daily') {
+      if (!emit(addDays(first, period * interval))) break;
+    } else if (rule.frequency === 'weekly') {
+      const weekdays = rule.byWeekday?.length ? [...rule.byWeekday].sort() : [first.getDay()];
+      const weekStart = addWeeks(startOfWeek(first), period * interval);
+      if (!weekdays.every(day => emit(addDays(weekStart, day)))) break;
+    } else {
+      const monthStart = addMonths(new Date(first.getFullYear(), first.getMonth(), 1), period * interval);
+      const weekday = rule.weekday ?? first.getDay();
+      const position = rule.weekOfMonth ?? getWeekdayPosition(first);
+      if (!emit(nthWeekdayOfMonth(monthStart, weekday, position))) break;
+    }
+  }
+
+  return dates;
+};
+
+// Human-readable summary, e.g. "Every 2 weeks on Tuesday, Thursday until Mar 5, 2027"
+export const describeRecurrence = (rule: RecurrenceRule, seriesStart?: Date): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  let summary: string;
+
+  if (rule.frequency === 'daily') {
+    summary = interval === 1 ? 'Daily' : `Every ${interval} days`;
+  } else if (rule.frequency === 'weekly') {
+    const weekdays = rule.byWeekday?.length
+      ? [...rule.byWeekday].sort()
+      : seriesStart ? [seriesStart.getDay()] : [];
+    const days = weekdays.map(day => WEEKDAY_NAMES[day]).join(', ');
+    summary = `${interval === 1 ? 'Weekly' : `Every ${interval} weeks`}${days ? ` on ${days}` : ''}`;
+  } else {
+    const weekday = rule.weekday ?? seriesStart?.getDay();
+    const position = rule.weekOfMonth ?? (seriesStart ? getWeekdayPosition(seriesStart) : undefined);
+    const on = weekday !== undefined && position !== undefined
+      ? ` on the ${ORDINALS[position]} ${WEEKDAY_NAMES[weekday]}`
+      : '';
+    summary = `${interval === 1 ? 'Monthly' : `Every ${interval} months`}${on}`;
+  }
+
+  if (rule.until) {
+    summary += ` until ${format(parseISO(rule.until), 'MMM d, yyyy')}`;
+  } else if (rule.count) {
+    summary += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  }
+
+  return summary;
+};
@@ -0,0 +1,112 @@
+// POPIA retention policies for collections holding personal information, shared by Settings and the retention-purge function
+
+export type RetentionCollection = 'contact_submissions' | 'prayer_requests' | 'admin_requests';
+
+// Anonymise keeps the record (and its statistics) but strips who it came from; purge deletes it outright
+export type RetentionAction = 'anonymise' | 'purge';
+
+export interface RetentionPolicy {
+  enabled: boolean;
+  retentionDays: number;
+  action: RetentionAction;
+}
+
+export interface RetentionDefinition {
+  collection: RetentionCollection;
+  label: string;
+  description: string;
+  // What anonymising removes, shown next to the action picker
+  anonymises: string;
+  defaults: RetentionPolicy;
+}
+
+// Policies start switched off so nothing is removed until a super admin has reviewed them
+export const RETENTION_DEFINITIONS: RetentionDefinition[] = [
+  {
+    collection: 'contact_submissions',
+    label: 'Contact messages',
+    description: 'Counted from the last reply or note on the message',
+    anonymises: 'Name, email address, message and the conversation thread',
+    defaults: { enabled: false, retentionDays: 730, action: 'anonymise' },
+  },
+  {
+    collection: 'prayer_requests',
+    label: 'Prayer requests',
+    description: 'Counted from when the request was submitted',
+    anonymises: "Requester's name and contact details; the request text stays on the wall",
+    defaults: { enabled: false, retentionDays: 365, action: 'anonymise' },
+  },
+  {
+    collection: 'admin_requests',
+    label: 'Admin access requests',
+    description: 'Counted from when the request was reviewed or expired; pending requests are never removed',
+    anonymises: "Requester's name, email address, reason for asking and any rejection reason",
+    defaults: { enabled: false, retentionDays: 365, action: 'purge' },
+  },
+];
+
+export const RETENTION_ACTION_LABELS: Record<RetentionAction, string> = {
+  anonymise: 'Anonymise',
+  purge: 'Delete',
+};
+
+export const MIN_RETENTION_DAYS = 30;
+
+// Anything else, such as zero, a negative number or a string from a bad write, would expire every record
+export const isValidRetentionDays = (days: unknown): days is number =>
+  typeof days === 'number' && Number.isInteger(days) && days >= MIN_RETENTION_DAYS;
+
+export const ANONYMISED_NAME = 'Removed';
+export const ANONYMISED_TEXT = '[Removed under the data retention policy]';
+
+export interface RetentionRunResult {
+  collection: RetentionCollection;
+  action: RetentionAction;
+  retentionDays: number;
+  cutoff: string; // ISO date; records last active before this were expired
+  processed: number;
+  held: number; // Expired but kept because of a legal hold
+  failed: number;
+  remaining: number; // Left for the next run when this one ran out of time
+}
+
+type DateLike = Date | { toDate(): Date } | null | undefined;
+
+const toDate = (value: DateLike): Date | null => {
+  if (!value) return null;
+  return value instanceof Date ? value : value.toDate();
+};
+
+export const getRetentionDefinition = (collection: RetentionCollection): RetentionDefinition =>
+  RETENTION_DEFINITIONS.find((definition) => definition.collection === collection)!;
+
+export const getRetentionCutoff = (policy: RetentionPolicy, now: Date = new Date()): Date =>
+  new Date(now.getTime() - policy.retentionDays * 24 * 60 * 60 * 1000);
+
+/**
+ * The date a record's retention period runs from, or null when the record
+ * must be kept regardless of age (pending admin requests).
+ */
+export const getRetentionStart = (
+  collection: RetentionCollection,
+  record: { createdAt?: DateLike; lastActivityAt?: DateLike; reviewedAt?: DateLike; expiredAt?: DateLike; status?: string }
+): Date | null => {
+  switch (collection) {
+    case 'contact_submissions':
+      return toDate(record.lastActivityAt) || toDate(record.createdAt);
+    case 'prayer_requests':
+      return toDate(record.createdAt);
+    case 'admin_requests':
+      if (record.status === 'pending') return null;
+      return toDate(record.reviewedAt) || toDate(record.expiredAt) || toDate(record.createdAt);
+  }
+};
+
+export const isRetentionExpired = (
+  collection: RetentionCollection,
+  record: Parameters<typeof getRetentionStart>[1],
+  cutoff: Date
+): boolean => {
+  const start = getRetentionStart(collection, record);
+  return !!start && start < cutoff;
+};
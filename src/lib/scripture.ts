@@ -0,0 +1,59 @@
+// Scripture reference helpers for the teaching library
+
+export const BIBLE_BOOKS = [
+  'Genesis', 'Exodus', 'Leviticus', 'Numbers', 'Deuteronomy', 'Joshua', 'Judges', 'Ruth',
+  '1 Samuel', '2 Samuel', '1 Kings', '2 Kings', '1 Chronicles', '2 Chronicles', 'Ezra',
+  'Nehemiah', 'Esther', 'Job', 'Psalms', 'Proverbs', 'Ecclesiastes', 'Song of Songs', 'Isaiah',
+  'Jeremiah', 'Lamentations', 'Ezekiel', 'Daniel', 'Hosea', 'Joel', 'Amos', 'Obadiah', 'Jonah',
+  'Micah', 'Nahum', 'Habakkuk', 'Zephaniah', 'Haggai', 'Zechariah', 'Malachi',
+  'Matthew', 'Mark', 'Luke', 'John', 'Acts', 'Romans', '1 Corinthians', '2 Corinthians',
+  'Galatians', 'Ephesians', 'Philippians', 'Colossians', '1 Thessalonians', '2 Thessalonians',
+  '1 Timothy', '2 Timothy', 'Titus', 'Philemon', 'Hebrews', 'James', '1 Peter', '2 Peter',
+  '1 John', '2 John', '3 John', 'Jude', 'Revelation',
+];
+
+// Common spellings that differ from the canonical names above
+const BOOK_ALIASES: Record<string, string> = {
+  psalm: 'Psalms',
+  'song of solomon': 'Song of Songs',
+  songs: 'Song of Songs',
+  revelations: 'Revelation',
+};
+
+const normalizeBookKey = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const BOOKS_BY_KEY = new Map(BIBLE_BOOKS.map((book) => [normalizeBookKey(book), book]));
+
+// Leading book name, optionally numbered ("1 John", "2Kings"), up to the chapter number
+const BOOK_PATTERN = /^((?:[1-3]\s*)?[a-z][a-z ]*?)(?=\s*\d|$)/i;
+
+// The canonical book a reference points to, e.g. "1 john 4:7" -> "1 John"
+export const getScriptureBook = (reference: string): string | null => {
+  const match = reference.trim().match(BOOK_PATTERN);
+  if (!match) return null;
+  const key = normalizeBookKey(match[1].replace(/^([1-3])\s*/, '$1 '));
+  return BOOKS_BY_KEY.get(key) || BOOK_ALIASES[key] || null;
+};
+
+/**
+ * Splits free text such as "John 3:16; Romans 8:28-39" into individual references.
+ * Book names are capitalised to their canonical form when recognised.
+ */
+export const parseScriptureReferences = (input: string): string[] =>
+  input
+    .split(/[;\n]/)
+    .map((reference) => reference.trim().replace(/\s+/g, ' '))
+    .filter(Boolean)
+    .map((reference) => {
+      const book = getScriptureBook(reference);
+      if (!book) return reference;
+      const rest = reference.replace(BOOK_PATTERN, '').trim();
+      return rest ? `${book} ${rest}` : book;
+    });
+
+// Books in biblical order, for filter lists
+export const sortBooks = (books: string[]): string[] =>
+  [...books].sort((a, b) => BIBLE_BOOKS.indexOf(a) - BIBLE_BOOKS.indexOf(b));
+
+export const getPassageUrl = (reference: string, version = 'NKJV'): string =>
+  `https://www.biblegateway.com/passage/?search=${encodeURIComponent(reference)}&version=${version}`;
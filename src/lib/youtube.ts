@@ -0,0 +1,220 @@
+// YouTube helpers: embed URLs, and the channel sync (fetchers plus the plan for applying them)
+// The sync half is used by the youtube-sync Netlify function
+
+export interface YouTubeUpload {
+  videoId: string;
+  title: string;
+  description: string;
+  thumbnailUrl: string | null;
+  durationSeconds: number | null;
+  publishedAt: Date;
+}
+
+/**
+ * Source of channel data. The sync only depends on this interface, so the
+ * YouTube Data API can be swapped for the fixture adapter in local development.
+ */
+export interface YouTubeFetcher {
+  name: string;
+  // Every upload on the channel, newest first
+  listUploads: (channelUrl: string) => Promise<YouTubeUpload[]>;
+  // The subset of videoIds that still exist and are public
+  getAvailableVideoIds: (videoIds: string[]) => Promise<string[]>;
+}
+
+export type YouTubeChannelRef =
+  | { type: 'id'; value: string }
+  | { type: 'handle'; value: string }
+  | { type: 'username'; value: string };
+
+/**
+ * Reads the channel from a URL such as youtube.com/@handle, youtube.com/channel/UC...
+ * or youtube.com/user/name. Returns null for URLs that do not identify a channel.
+ */
+export const parseYouTubeChannelUrl = (url: string): YouTubeChannelRef | null => {
+  const trimmed = url.trim();
+  if (!trimmed) return null;
+
+  const channelId = trimmed.match(/youtube\.com\/channel\/(UC[\w-]{22})/);
+  if (channelId) return { type: 'id', value: channelId[1] };
+
+  const handle = trimmed.match(/(?:youtube\.com\/)?@([\w.-]+)/);
+  if (handle) return { type: 'handle', value: handle[1] };
+
+  const username = trimmed.match(/youtube\.com\/(?:user|c)\/([\w.-]+)/);
+  if (username) return { type: 'username', value: username[1] };
+
+  return null;
+};
+
+// YouTube reports durations as ISO 8601, e.g. PT1H2M3S
+export const parseIsoDuration = (value: string): number | null => {
+  const match = value.match(/^P(?:(\d+)D)?T?(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?$/);
+  if (!match) return null;
+  const [, days, hours, minutes, seconds] = match.map((part) => Number(part) || 0);
+  return days * 86400 + hours * 3600 + minutes * 60 + seconds;
+};
+
+// Privacy-enhanced embeds: YouTube sets no cookies until the visitor presses play
+export const getYouTubeEmbedUrl = (videoId: string, params: Record<string, string> = {}): string => {
+  const query = new URLSearchParams({ rel: '0', ...params }).toString();
+  return `https://www.youtube-nocookie.com/embed/${videoId}?${query}`;
+};
+
+export const getYouTubeThumbnailUrl = (videoId: string): string =>
+  `https://img.youtube.com/vi/${videoId}/hqdefault.jpg`;
+
+// ===== YOUTUBE DATA API ADAPTER =====
+
+const API_BASE = 'https://www.googleapis.com/youtube/v3';
+const PAGE_SIZE = 50;
+// 500 uploads is far more than the channel has; stops a bad response from paging forever
+const MAX_PAGES = 10;
+
+type Thumbnails = Record<string, { url: string } | undefined>;
+
+interface ApiVideo {
+  id: string;
+  snippet: { title: string; description: string; publishedAt: string; thumbnails: Thumbnails };
+  contentDetails: { duration: string };
+}
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+const pickThumbnail = (thumbnails: Thumbnails): string | null =>
+  (thumbnails.maxres || thumbnails.high || thumbnails.medium || thumbnails.default)?.url || null;
+
+export const createYouTubeApiFetcher = (apiKey: string): YouTubeFetcher => {
+  const request = async <T>(path: string, params: Record<string, string>): Promise<T> => {
+    const query = new URLSearchParams({ ...params, key: apiKey });
+    const response = await fetch(`${API_BASE}/${path}?${query}`);
+    if (!response.ok) {
+      throw new Error(`YouTube API ${path} failed with ${response.status}`);
+    }
+    return response.json() as Promise<T>;
+  };
+
+  const getVideos = async (videoIds: string[]): Promise<ApiVideo[]> => {
+    const pages = await Promise.all(
+      chunk(videoIds, PAGE_SIZE).map((ids) =>
+        request<{ items: ApiVideo[] }>('videos', {
+          part: 'snippet,contentDetails',
+          id: ids.join(','),
+          maxResults: String(PAGE_SIZE),
+        })
+      )
+    );
+    return pages.flatMap((page) => page.items || []);
+  };
+
+  return {
+    name: 'youtube-api',
+
+    listUploads: async (channelUrl) => {
+      const channel = parseYouTubeChannelUrl(channelUrl);
+      if (!channel) throw new Error('The YouTube channel URL is not recognised');
+
+      const lookup = { id: 'id', handle: 'forHandle', username: 'forUsername' }[channel.type];
+      const channels = await request<{ items?: { contentDetails: { relatedPlaylists: { uploads: string } } }[] }>(
+        'channels',
+        { part: 'contentDetails', [lookup]: channel.value }
+      );
+      const uploadsPlaylistId = channels.items?.[0]?.contentDetails.relatedPlaylists.uploads;
+      if (!uploadsPlaylistId) throw new Error('YouTube channel not found');
+
+      const videoIds: string[] = [];
+      let pageToken: string | undefined;
+      for (let page = 0; page < MAX_PAGES; page++) {
+        const playlist = await request<{ items: { contentDetails: { videoId: string } }[]; nextPageToken?: string }>(
+          'playlistItems',
+          {
+            part: 'contentDetails',
+            playlistId: uploadsPlaylistId,
+            maxResults: String(PAGE_SIZE),
+            ...(pageToken && { pageToken }),
+          }
+        );
+        videoIds.push(...playlist.items.map((item) => item.contentDetails.videoId));
+        pageToken = playlist.nextPageToken;
+        if (!pageToken) break;
+      }
+
+      const videos = await getVideos(videoIds);
+      return videos
+        .map((video) => ({
+          videoId: video.id,
+          title: video.snippet.title,
+          description: video.snippet.description,
+          thumbnailUrl: pickThumbnail(video.snippet.thumbnails),
+          durationSeconds: parseIsoDuration(video.contentDetails.duration),
+          publishedAt: new Date(video.snippet.publishedAt),
+        }))
+        .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
+    },
+
+    // Deleted and private videos are simply missing from the videos.list response
+    getAvailableVideoIds: async (videoIds) => (await getVideos(videoIds)).map((video) => video.id),
+  };
+};
+
+// ===== FIXTURE ADAPTER =====
+
+export interface YouTubeFixtureUpload extends Omit<YouTubeUpload, 'publishedAt'> {
+  publishedAt: string;
+}
+
+/**
+ * Serves a fixed list of uploads instead of calling YouTube, for local development
+ * and for trying the sync without an API key. Videos missing from the fixture
+ * count as removed upstream.
+ */
+export const createFixtureFetcher = (uploads: YouTubeFixtureUpload[]): YouTubeFetcher => {
+  const parsed = uploads
+    .map((upload) => ({ ...upload, publishedAt: new Date(upload.publishedAt) }))
+    .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
+
+  return {
+    name: 'fixture',
+    listUploads: async () => parsed,
+    getAvailableVideoIds: async (videoIds) =>
+      videoIds.filter((videoId) => parsed.some((upload) => upload.videoId === videoId)),
+  };
+};
+
+// ===== SYNC PLAN =====
+
+export interface SyncedVideoRef {
+  id: string;
+  youtubeVideoId: string;
+  removedUpstream: boolean;
+}
+
+export interface YouTubeSyncPlan {
+  newUploads: YouTubeUpload[];
+  removedIds: string[];   // Video documents whose YouTube video is gone
+  restoredIds: string[];  // Previously flagged videos that are available again
+}
+
+/**
+ * Works out what a sync changes. Uploads already in the library are left alone
+ * so edits made by admins are never overwritten.
+ */
+export const planYouTubeSync = (
+  existing: SyncedVideoRef[],
+  uploads: YouTubeUpload[],
+  availableVideoIds: string[]
+): YouTubeSyncPlan => {
+  const known = new Set(existing.map((video) => video.youtubeVideoId));
+  const available = new Set(availableVideoIds);
+
+  return {
+    newUploads: uploads.filter((upload) => !known.has(upload.videoId)),
+    removedIds: existing
+      .filter((video) => !video.removedUpstream && !available.has(video.youtubeVideoId))
+      .map((video) => video.id),
+    restoredIds: existing
+      .filter((video) => video.removedUpstream && available.has(video.youtubeVideoId))
+      .map((video) => video.id),
+  };
+};
@@ -0,0 +1,148 @@
+// Landing page for admin invitation emails
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useNavigate, useSearchParams, Link } from "react-router-dom";
+import { lookupAdminInvitation, acceptAdminInvitation } from "@/integrations/firebase/helpers";
+import { getRoleBundle, getRoleLabel } from "@/lib/permissions";
+import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { ArrowLeft, Loader2, LogIn, LogOut, MailCheck, MailX } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+
+const CLOSED_MESSAGES = {
+  expired: "This invitation has expired. Ask the person who invited you to send it again.",
+  accepted: "This invitation has already been used.",
+  revoked: "This invitation has been cancelled.",
+};
+
+export default function AcceptInvite() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+  const navigate = useNavigate();
+  const { user, signOut, isLoading: isAuthLoading } = useFirebaseAuth();
+
+  const { data: lookup, isLoading: isLookupLoading } = useQuery({
+    queryKey: ["admin-invitation", token],
+    queryFn: () => lookupAdminInvitation(token),
+    enabled: !!token,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const result = await acceptAdminInvitation(token);
+      if (!result.success) throw new Error(result.error);
+      return result;
+    },
+    onSuccess: (result) => {
+      toast.success(`Welcome! You're now ${getRoleLabel(result.role)}.`);
+      navigate("/admin");
+    },
+    onError: (error: Error) => toast.error(error.message || "Failed to accept the invitation"),
+  });
+
+  const invitation = lookup?.invitation;
+  const isMatchingAccount = !!user?.email && user.email.toLowerCase() === invitation?.email;
+
+  const renderContent = () => {
+    if (isAuthLoading || (token && isLookupLoading)) {
+      return (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+
+    if (!invitation) {
+      return (
+        <p className="text-muted-foreground text-center">
+          {lookup?.error || "This invitation link is not valid. Check that you opened the full link from the email."}
+        </p>
+      );
+    }
+
+    if (invitation.state !== "pending") {
+      return <p className="text-muted-foreground text-center">{CLOSED_MESSAGES[invitation.state]}</p>;
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="text-center">
+          <p className="text-sm text-muted-foreground">You've been invited as</p>
+          <p className="font-display text-xl font-semibold">{getRoleLabel(invitation.role)}</p>
+          <p className="text-sm text-muted-foreground mt-1">{getRoleBundle(invitation.role)?.description}</p>
+        </div>
+        <p className="text-sm text-muted-foreground text-center">
+          For <strong className="text-foreground">{invitation.email}</strong>. The link works until{" "}
+          {format(new Date(invitation.expiresAt), "d MMMM yyyy 'at' HH:mm")}.
+        </p>
+
+        {!user ? (
+          <Button className="w-full gap-2" asChild>
+            <Link to={`/auth?invite=${encodeURIComponent(token)}&email=${encodeURIComponent(invitation.email)}`}>
+              <LogIn className="h-4 w-4" />
+              Sign In to Accept
+            </Link>
+          </Button>
+        ) : !isMatchingAccount ? (
+          <div className="space-y-3">
+            <p className="text-sm text-destructive text-center">
+              You're signed in as {user.email}. Sign out and sign in with {invitation.email} to accept.
+            </p>
+            <Button
+              variant="outline"
+              className="w-full gap-2"
+              onClick={async () => {
+                await signOut();
+                toast.success("Signed out successfully");
+              }}
+            >
+              <LogOut className="h-4 w-4" />
+              Sign Out
+            </Button>
+          </div>
+        ) : (
+          <Button className="w-full gap-2" onClick={() => acceptMutation.mutate()} disabled={acceptMutation.isPending}>
+            {acceptMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <MailCheck className="h-4 w-4" />}
+            Accept Invitation
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  const isOpen = invitation?.state === "pending";
+
+  return (
+    <div className="min-h-screen bg-muted/30 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="flex justify-center mb-4">
+            <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center">
+              {isOpen || isLookupLoading ? (
+                <MailCheck className="h-8 w-8 text-primary" />
+              ) : (
+                <MailX className="h-8 w-8 text-primary" />
+              )}
+            </div>
+          </div>
+          <h1 className="font-display text-3xl font-bold text-foreground mb-2">Admin Invitation</h1>
+          <p className="text-muted-foreground">Shiloh Intercession Mountain</p>
+        </div>
+
+        <Card className="border-0 shadow-lg">
+          <CardContent className="pt-6">{renderContent()}</CardContent>
+        </Card>
+
+        <div className="flex justify-center mt-4">
+          <Button variant="ghost" asChild>
+            <Link to="/">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Home
+            </Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
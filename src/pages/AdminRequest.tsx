@@ -0,0 +1,257 @@
+// Where someone asks for admin access and follows their request
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useNavigate, Link } from "react-router-dom";
+import { getAdminRequestStatus, createAdminRequest } from "@/integrations/firebase/firestore/users";
+import {
+  ADMIN_REQUEST_STATUS_LABELS,
+  AdminRequestInput,
+  AdminRequestStatus,
+  adminRequestSchema,
+  canSubmitAdminRequest,
+} from "@/lib/adminRequests";
+import { getRoleLabel } from "@/lib/permissions";
+import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeft, CheckCircle2, Clock, Loader2, LogOut, Send, UserCog } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Timestamp } from "firebase/firestore";
+
+const statusClasses: Record<AdminRequestStatus, string> = {
+  pending: "bg-amber-500/10 text-amber-600",
+  approved: "bg-green-500/10 text-green-600",
+  rejected: "bg-destructive/10 text-destructive",
+  expired: "bg-muted text-muted-foreground",
+};
+
+const formatDate = (value: Date | Timestamp | undefined) =>
+  value ? format(value instanceof Date ? value : value.toDate(), "d MMMM yyyy") : "";
+
+export default function AdminRequest() {
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const { user, role, isAdmin, isLoading: isAuthLoading, signOut } = useFirebaseAuth();
+  const [formData, setFormData] = useState<AdminRequestInput>({ ministry: "", justification: "" });
+  const [errors, setErrors] = useState<Partial<Record<keyof AdminRequestInput, string>>>({});
+
+  const { data: request, isLoading: isRequestLoading } = useQuery({
+    queryKey: ["admin-request", user?.uid],
+    queryFn: () => getAdminRequestStatus(user!.uid),
+    enabled: !!user,
+  });
+
+  useEffect(() => {
+    if (!isAuthLoading && !user) {
+      navigate("/auth");
+    } else if (isAdmin) {
+      navigate("/admin");
+    }
+  }, [user, isAdmin, isAuthLoading, navigate]);
+
+  // Approval puts the role in the account's claims; refresh the token to pick it up
+  useEffect(() => {
+    if (request?.status === "approved" && !isAdmin) {
+      user?.getIdToken(true);
+    }
+  }, [request?.status, isAdmin, user]);
+
+  const submitMutation = useMutation({
+    mutationFn: createAdminRequest,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-request", user?.uid] });
+      setFormData({ ministry: "", justification: "" });
+      toast.success("Your request has been sent to the administrators");
+    },
+    onError: (error: Error) => toast.error(error.message || "Failed to send your request"),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+
+    const result = adminRequestSchema.safeParse(formData);
+    if (!result.success) {
+      const fieldErrors: typeof errors = {};
+      result.error.errors.forEach((err) => {
+        fieldErrors[err.path[0] as keyof AdminRequestInput] = err.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    submitMutation.mutate(result.data as AdminRequestInput);
+  };
+
+  const renderRequest = () => {
+    if (!request) return null;
+
+    return (
+      <Card className="border-0 shadow-md">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle className="text-lg">Your request</CardTitle>
+            <Badge variant="secondary" className={statusClasses[request.status]}>
+              {ADMIN_REQUEST_STATUS_LABELS[request.status]}
+            </Badge>
+          </div>
+          <CardDescription>Sent on {formatDate(request.createdAt)}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          {request.ministry && (
+            <div>
+              <p className="text-muted-foreground">Ministry</p>
+              <p className="font-medium">{request.ministry}</p>
+            </div>
+          )}
+          {request.justification && (
+            <div>
+              <p className="text-muted-foreground">Why you asked</p>
+              <p className="whitespace-pre-line">{request.justification}</p>
+            </div>
+          )}
+
+          {request.status === "pending" && (
+            <div className="flex items-start gap-3 rounded-lg bg-amber-500/10 p-4">
+              <Clock className="h-5 w-5 text-amber-600 shrink-0" />
+              <p>
+                An administrator will review your request
+                {request.expiresAt && <> before {formatDate(request.expiresAt)}, when it expires</>}. We'll email you
+                either way.
+              </p>
+            </div>
+          )}
+          {request.status === "approved" && !isAdmin && (
+            <p className="text-muted-foreground">
+              Approved{request.role && <> as {getRoleLabel(request.role)}</>} on {formatDate(request.reviewedAt)}, but that
+              access has since been removed. You can send a new request below.
+            </p>
+          )}
+          {request.status === "approved" && isAdmin && (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg bg-green-500/10 p-4">
+              <p className="flex items-center gap-2">
+                <CheckCircle2 className="h-5 w-5 text-green-600" />
+                Approved{request.role && <> as {getRoleLabel(request.role)}</>} on {formatDate(request.reviewedAt)}.
+              </p>
+              <Button size="sm" asChild>
+                <Link to="/admin">Open Admin Panel</Link>
+              </Button>
+            </div>
+          )}
+          {request.status === "rejected" && (
+            <div className="rounded-lg bg-destructive/5 border border-destructive/20 p-4">
+              <p>Not approved on {formatDate(request.reviewedAt)}.</p>
+              {request.rejectionReason && (
+                <p className="mt-2">
+                  <span className="text-muted-foreground">Reason: </span>
+                  {request.rejectionReason}
+                </p>
+              )}
+            </div>
+          )}
+          {request.status === "expired" && (
+            <p className="text-muted-foreground">
+              Nobody reviewed this request before {formatDate(request.expiresAt || request.expiredAt)}. You can send a
+              new one below.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderForm = () => (
+    <Card className="border-0 shadow-md">
+      <CardHeader>
+        <CardTitle className="text-lg">{request ? "Ask again" : "Request admin access"}</CardTitle>
+        <CardDescription>Tell the administrators who you are and how you help at church.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="ministry">Ministry</Label>
+            <Input
+              id="ministry"
+              placeholder="e.g., Media team, Youth ministry"
+              value={formData.ministry}
+              onChange={(e) => setFormData({ ...formData, ministry: e.target.value })}
+              disabled={submitMutation.isPending}
+              className={errors.ministry ? "border-destructive" : ""}
+            />
+            {errors.ministry && <p className="text-sm text-destructive">{errors.ministry}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="justification">Why do you need access?</Label>
+            <Textarea
+              id="justification"
+              rows={5}
+              placeholder="e.g., I lead the media team and upload the Sunday sermons and photos."
+              value={formData.justification}
+              onChange={(e) => setFormData({ ...formData, justification: e.target.value })}
+              disabled={submitMutation.isPending}
+              className={errors.justification ? "border-destructive" : ""}
+            />
+            {errors.justification && <p className="text-sm text-destructive">{errors.justification}</p>}
+          </div>
+          <Button type="submit" className="w-full gap-2" disabled={submitMutation.isPending}>
+            {submitMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            Send Request
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen bg-muted/30 flex items-center justify-center p-4">
+      <div className="w-full max-w-lg space-y-6">
+        <div className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center">
+              <UserCog className="h-8 w-8 text-primary" />
+            </div>
+          </div>
+          <h1 className="font-display text-3xl font-bold text-foreground mb-2">Admin Access</h1>
+          {user && <p className="text-muted-foreground">Signed in as {user.email}</p>}
+        </div>
+
+        {isAuthLoading || isRequestLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <>
+            {renderRequest()}
+            {canSubmitAdminRequest(request?.status, role) && renderForm()}
+          </>
+        )}
+
+        <div className="flex gap-4 justify-center">
+          <Button variant="outline" asChild>
+            <Link to="/">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Home
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link to="/my-data">My Data</Link>
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={async () => {
+              await signOut();
+              toast.success("Signed out successfully");
+            }}
+          >
+            <LogOut className="mr-2 h-4 w-4" />
+            Sign Out
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+import { useEffect, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import {
+  getEventById,
+  getChurchInfo,
+  expandEventOccurrences,
+  Event,
+  EventOccurrence,
+} from "@/integrations/firebase/firestore/church";
+import { describeRecurrence, toOccurrenceKey } from "@/lib/recurrence";
+import { buildEventJsonLd } from "@/lib/eventDetails";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AddToCalendarButton } from "@/components/events/AddToCalendarButton";
+import { RegistrationDialog } from "@/components/events/RegistrationDialog";
+import { ShareButtons } from "@/components/events/ShareButtons";
+import { Calendar, CalendarX, Clock, MapPin, ArrowLeft, Repeat, Navigation } from "lucide-react";
+import { format, addMonths, endOfDay, isValid, parse } from "date-fns";
+
+const eventTypeColors: Record<string, string> = {
+  weekly: "bg-primary/10 text-primary",
+  special: "bg-accent/10 text-accent",
+  youth: "bg-green-500/10 text-green-600",
+  fellowship: "bg-orange-500/10 text-orange-600",
+  general: "bg-muted text-muted-foreground",
+};
+
+/**
+ * Picks the occurrence to show: the requested date when it is part of the series,
+ * otherwise the next upcoming one, otherwise the most recent past one.
+ */
+const resolveOccurrence = (event: Event, dateKey: string | null): EventOccurrence | null => {
+  if (dateKey) {
+    const day = parse(dateKey, "yyyy-MM-dd", new Date());
+    if (isValid(day)) {
+      const [requested] = expandEventOccurrences(event, day, endOfDay(day));
+      if (requested) return requested;
+    }
+  }
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const [upcoming] = expandEventOccurrences(event, today, addMonths(today, 12));
+  if (upcoming) return upcoming;
+
+  const seriesStart = event.eventDate instanceof Date ? event.eventDate : event.eventDate.toDate();
+  const past = expandEventOccurrences(event, seriesStart, today);
+  return past[past.length - 1] ?? null;
+};
+
+const formatTime = (startTime: string, endTime: string | null) => {
+  const formatTimeStr = (time: string) => {
+    const [hours, minutes] = time.split(":");
+    const hour = parseInt(hours);
+    const ampm = hour >= 12 ? "PM" : "AM";
+    const displayHour = hour % 12 || 12;
+    return `${displayHour}:${minutes} ${ampm}`;
+  };
+
+  if (endTime) {
+    return `${formatTimeStr(startTime)} - ${formatTimeStr(endTime)}`;
+  }
+  return formatTimeStr(startTime);
+};
+
+export default function EventDetail() {
+  const { eventId } = useParams<{ eventId: string }>();
+  const [searchParams] = useSearchParams();
+  const dateKey = searchParams.get("date");
+
+  const { data: event, isLoading } = useQuery({
+    queryKey: ["event", eventId],
+    queryFn: async () => {
+      try {
+        return await getEventById(eventId!);
+      } catch (error) {
+        // Inactive events are hidden from the public by the security rules
+        if ((error as { code?: string })?.code === "permission-denied") return null;
+        throw error;
+      }
+    },
+    enabled: !!eventId,
+    retry: false,
+  });
+
+  const { data: churchInfo } = useQuery({
+    queryKey: ["church-info"],
+    queryFn: getChurchInfo,
+  });
+
+  const occurrence = useMemo(
+    () => (event && event.isActive ? resolveOccurrence(event, dateKey) : null),
+    [event, dateKey]
+  );
+
+  const churchName = churchInfo?.churchName || "Shiloh Intercession Mountain";
+  const pageUrl = window.location.href;
+
+  useEffect(() => {
+    if (!occurrence) return;
+    const previousTitle = document.title;
+    document.title = `${occurrence.title} | ${churchName}`;
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [occurrence, churchName]);
+
+  const jsonLd = useMemo(() => {
+    if (!occurrence) return null;
+    return buildEventJsonLd({
+      title: occurrence.title,
+      description: occurrence.description,
+      date: occurrence.occurrenceKey,
+      startTime: occurrence.startTime,
+      endTime: occurrence.endTime,
+      location: occurrence.location,
+      url: pageUrl,
+      organizerName: churchName,
+      organizerUrl: window.location.origin,
+      address: churchInfo?.address,
+      registrationEnabled: occurrence.registrationEnabled,
+      isFull: !!occurrence.capacity && (occurrence.registeredCount || 0) >= occurrence.capacity,
+    });
+  }, [occurrence, pageUrl, churchName, churchInfo?.address]);
+
+  const isPast = !!occurrence && occurrence.occurrenceKey < toOccurrenceKey(new Date());
+
+  // Events with their own location get a map of it; otherwise show the church's map
+  const mapUrl = occurrence?.location
+    ? `https://maps.google.com/maps?q=${encodeURIComponent(occurrence.location)}&output=embed`
+    : churchInfo?.googleMapsEmbedUrl || null;
+  const directionsUrl = `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(
+    occurrence?.location || churchInfo?.address || churchName
+  )}`;
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+      <main className="flex-1">
+        <section className="section-padding bg-background">
+          <div className="container mx-auto max-w-4xl">
+            <Link
+              to="/events"
+              className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-6"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              All Events
+            </Link>
+
+            {isLoading ? (
+              <div className="space-y-6">
+                <Skeleton className="h-6 w-24" />
+                <Skeleton className="h-12 w-3/4" />
+                <Skeleton className="h-32 w-full" />
+                <Skeleton className="h-64 w-full" />
+              </div>
+            ) : !occurrence ? (
+              <Card className="border-0 shadow-md">
+                <CardContent className="py-16 text-center">
+                  <CalendarX className="h-14 w-14 text-muted-foreground mx-auto mb-4" />
+                  <h1 className="font-display text-2xl md:text-3xl font-bold text-foreground mb-2">
+                    Event not found
+                  </h1>
+                  <p className="text-muted-foreground max-w-md mx-auto mb-6">
+                    This event may have been cancelled, moved or is no longer listed. Have a look at what's
+                    coming up instead.
+                  </p>
+                  <Button asChild>
+                    <Link to="/events">Browse upcoming events</Link>
+                  </Button>
+                </CardContent>
+              </Card>
+            ) : (
+              <article className="space-y-8">
+                {jsonLd && (
+                  <script
+                    type="application/ld+json"
+                    // Escape "<" so event text can never close the script tag
+                    dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd).replace(/</g, "\\u003c") }}
+                  />
+                )}
+
+                <header>
+                  <div className="flex flex-wrap items-center gap-2 mb-3">
+                    <Badge variant="secondary" className={eventTypeColors[occurrence.eventType || "general"]}>
+                      {(occurrence.eventType || "general").charAt(0).toUpperCase() +
+                        (occurrence.eventType || "general").slice(1)}
+                    </Badge>
+                    {occurrence.recurrence && (
+                      <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                        <Repeat className="h-4 w-4" />
+                        {describeRecurrence(occurrence.recurrence, occurrence.seriesStart)}
+                      </span>
+                    )}
+                    {isPast && <Badge variant="outline">This event has passed</Badge>}
+                  </div>
+                  <h1 className="font-display text-3xl md:text-5xl font-bold text-foreground">
+                    {occurrence.title}
+                  </h1>
+                </header>
+
+                <Card className="border-0 shadow-md">
+                  <CardContent className="p-6 grid gap-4 sm:grid-cols-3">
+                    <div className="flex items-start gap-3">
+                      <Calendar className="h-5 w-5 text-primary mt-0.5" />
+                      <div>
+                        <p className="text-sm text-muted-foreground">Date</p>
+                        <p className="font-medium text-foreground">
+                          {format(occurrence.eventDate, "EEEE, d MMMM yyyy")}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-start gap-3">
+                      <Clock className="h-5 w-5 text-primary mt-0.5" />
+                      <div>
+                        <p className="text-sm text-muted-foreground">Time</p>
+                        <p className="font-medium text-foreground">
+                          {formatTime(occurrence.startTime, occurrence.endTime || null)}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-start gap-3">
+                      <MapPin className="h-5 w-5 text-primary mt-0.5" />
+                      <div>
+                        <p className="text-sm text-muted-foreground">Location</p>
+                        <p className="font-medium text-foreground">
+                          {occurrence.location || churchInfo?.address || churchName}
+                        </p>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {!isPast && (
+                  <div className="flex flex-wrap gap-2">
+                    {occurrence.registrationEnabled && <RegistrationDialog event={occurrence} size="default" />}
+                    <AddToCalendarButton event={occurrence} size="default" />
+                  </div>
+                )}
+
+                {occurrence.description && (
+                  <div>
+                    <h2 className="font-display text-xl font-bold text-foreground mb-3">About this event</h2>
+                    <p className="text-muted-foreground whitespace-pre-line leading-relaxed">
+                      {occurrence.description}
+                    </p>
+                  </div>
+                )}
+
+                {mapUrl && (
+                  <div>
+                    <div className="flex items-center justify-between mb-3">
+                      <h2 className="font-display text-xl font-bold text-foreground">Getting there</h2>
+                      <Button variant="outline" size="sm" className="gap-2" asChild>
+                        <a href={directionsUrl} target="_blank" rel="noopener noreferrer">
+                          <Navigation className="h-4 w-4" />
+                          Directions
+                        </a>
+                      </Button>
+                    </div>
+                    <div className="rounded-xl overflow-hidden shadow-md aspect-video">
+                      <iframe
+                        src={mapUrl}
+                        width="100%"
+                        height="100%"
+                        style={{ border: 0 }}
+                        allowFullScreen
+                        loading="lazy"
+                        referrerPolicy="no-referrer-when-downgrade"
+                        title={`Map of ${occurrence.location || churchName}`}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <h2 className="font-display text-xl font-bold text-foreground mb-3">Share this event</h2>
+                  <ShareButtons
+                    url={pageUrl}
+                    title={occurrence.title}
+                    text={`${format(occurrence.eventDate, "EEE d MMM")} at ${formatTime(
+                      occurrence.startTime,
+                      occurrence.endTime || null
+                    )}`}
+                  />
+                </div>
+              </article>
+            )}
+          </div>
+        </section>
+      </main>
+      <Footer />
+    </div>
+  );
+}
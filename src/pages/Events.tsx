@@ -1,13 +1,19 @@
-import { useState, useMemo } from "react";
+import { useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { getActiveEvents } from "@/integrations/firebase/firestore/church";
-import { Timestamp } from "firebase/firestore";
+import { getEventOccurrences } from "@/integrations/firebase/firestore/church";
+import { describeRecurrence, toOccurrenceKey } from "@/lib/recurrence";
+import { getEventPath } from "@/lib/eventDetails";
 import { Header } from "@/components/layout/Header";
 import { Footer } from "@/components/layout/Footer";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { AddToCalendarButton } from "@/components/events/AddToCalendarButton";
+import { RegistrationDialog } from "@/components/events/RegistrationDialog";
+import { EventCalendar } from "@/components/events/EventCalendar";
 import {
   Select,
   SelectContent,
@@ -15,9 +21,13 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Calendar, Clock, MapPin, ArrowLeft, Filter, X } from "lucide-react";
-import { format, parseISO, getMonth, getYear } from "date-fns";
-import { Link } from "react-router-dom";
+import { Calendar, CalendarDays, Clock, MapPin, ArrowLeft, Filter, X, Repeat, Rss, List } from "lucide-react";
+import { format, addMonths, startOfMonth, endOfMonth, isValid, parse } from "date-fns";
+import { Link, useSearchParams } from "react-router-dom";
+
+// How far ahead the list and calendar reach, and how far back the archive goes
+const UPCOMING_MONTHS = 12;
+const ARCHIVE_MONTHS = 24;
 
 const eventTypeColors: Record<string, string> = {
   weekly: "bg-primary/10 text-primary",
@@ -36,61 +46,84 @@ const eventTypes = [
   { value: "general", label: "General" },
 ];
 
-const months = [
-  { value: "all", label: "All Months" },
-  { value: "0", label: "January" },
-  { value: "1", label: "February" },
-  { value: "2", label: "March" },
-  { value: "3", label: "April" },
-  { value: "4", label: "May" },
-  { value: "5", label: "June" },
-  { value: "6", label: "July" },
-  { value: "7", label: "August" },
-  { value: "8", label: "September" },
-  { value: "9", label: "October" },
-  { value: "10", label: "November" },
-  { value: "11", label: "December" },
-];
+// Month filter options as yyyy-MM, running forward for upcoming events and backward for the archive
+const getMonthOptions = (period: "upcoming" | "past") => {
+  const current = startOfMonth(new Date());
+  const count = period === "past" ? ARCHIVE_MONTHS : UPCOMING_MONTHS;
+  return Array.from({ length: count + 1 }, (_, i) => addMonths(current, period === "past" ? -i : i)).map(
+    (month) => ({ value: format(month, "yyyy-MM"), label: format(month, "MMMM yyyy") })
+  );
+};
+
+const parseMonth = (value: string | null): Date | null => {
+  if (!value) return null;
+  const month = parse(value, "yyyy-MM", new Date());
+  return isValid(month) ? month : null;
+};
 
 export default function Events() {
-  const [selectedType, setSelectedType] = useState("all");
-  const [selectedMonth, setSelectedMonth] = useState("all");
+  // Filters live in the query string so filtered views can be bookmarked and shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const view = searchParams.get("view") === "calendar" ? "calendar" : "list";
+  const period = searchParams.get("period") === "past" ? "past" : "upcoming";
+  const selectedType = searchParams.get("type") || "all";
+  const selectedMonth = parseMonth(searchParams.get("month")) ? searchParams.get("month")! : "all";
+
+  const updateParams = (updates: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    });
+    setSearchParams(next, { replace: true });
+  };
 
   const { data: events, isLoading } = useQuery({
     queryKey: ["all-events"],
     queryFn: async () => {
-      const today = new Date().toISOString().split("T")[0];
-      const { data, error } = await supabase
-        .from("events")
-        .select("*")
-        .gte("event_date", today)
-        .order("event_date", { ascending: true });
-
-      if (error) throw error;
-      return data;
+      const today = new Date();
+      return getEventOccurrences(
+        startOfMonth(addMonths(today, -ARCHIVE_MONTHS)),
+        endOfMonth(addMonths(today, UPCOMING_MONTHS))
+      );
     },
     staleTime: 0,
   });
 
+  const todayKey = toOccurrenceKey(new Date());
+  const monthOptions = useMemo(() => getMonthOptions(period), [period]);
+  const calendarMonth = parseMonth(selectedMonth === "all" ? null : selectedMonth) || startOfMonth(new Date());
+  // The calendar can land on months outside the list's range; the list then shows every month
+  const listMonth = monthOptions.some((option) => option.value === selectedMonth) ? selectedMonth : "all";
+
+  const typeFilteredEvents = useMemo(
+    () => (events || []).filter((event) => selectedType === "all" || (event.eventType || "general") === selectedType),
+    [events, selectedType]
+  );
+
   const filteredEvents = useMemo(() => {
-    if (!events) return [];
-    
-    return events.filter((event) => {
-      const eventDate = parseISO(event.event_date);
-      const eventMonth = getMonth(eventDate);
-      
-      const matchesType = selectedType === "all" || event.event_type === selectedType;
-      const matchesMonth = selectedMonth === "all" || eventMonth === parseInt(selectedMonth);
-      
-      return matchesType && matchesMonth;
-    });
-  }, [events, selectedType, selectedMonth]);
+    const inPeriod =
+      period === "past"
+        ? typeFilteredEvents.filter((event) => event.occurrenceKey < todayKey).reverse()
+        : typeFilteredEvents.filter((event) => event.occurrenceKey >= todayKey);
 
-  const hasActiveFilters = selectedType !== "all" || selectedMonth !== "all";
+    return listMonth === "all"
+      ? inPeriod
+      : inPeriod.filter((event) => event.occurrenceKey.startsWith(listMonth));
+  }, [typeFilteredEvents, period, listMonth, todayKey]);
+
+  const hasActiveFilters = selectedType !== "all" || (view === "list" && listMonth !== "all");
+
+  // Calendar apps follow webcal:// links and keep the feed in sync
+  const subscribeUrl = `webcal://${window.location.host}/calendar.ics${
+    selectedType !== "all" ? `?type=${selectedType}` : ""
+  }`;
 
   const clearFilters = () => {
-    setSelectedType("all");
-    setSelectedMonth("all");
+    updateParams({ type: null, month: view === "list" ? null : searchParams.get("month") });
   };
 
   const formatTime = (startTime: string, endTime: string | null) => {
@@ -124,13 +157,44 @@ export default function Events() {
                 Back to Home
               </Link>
               <h1 className="font-display text-3xl md:text-5xl font-bold text-foreground mb-4">
-                All Upcoming Events
+                {view === "list" && period === "past" ? "Past Events" : "All Upcoming Events"}
               </h1>
               <p className="text-muted-foreground text-lg max-w-2xl mx-auto">
-                Browse all our upcoming events and join us for worship, fellowship, and spiritual growth.
+                {view === "list" && period === "past"
+                  ? "Look back on the gatherings we've shared together."
+                  : "Browse all our upcoming events and join us for worship, fellowship, and spiritual growth."}
               </p>
             </div>
 
+            {/* View and period */}
+            <div className="max-w-6xl mx-auto mb-4 flex flex-wrap items-center justify-between gap-3">
+              {view === "list" ? (
+                <Tabs value={period} onValueChange={(value) => updateParams({ period: value === "past" ? value : null })}>
+                  <TabsList>
+                    <TabsTrigger value="upcoming">Upcoming</TabsTrigger>
+                    <TabsTrigger value="past">Past events</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+              ) : (
+                <div />
+              )}
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                value={view}
+                onValueChange={(value) => value && updateParams({ view: value === "calendar" ? value : null })}
+              >
+                <ToggleGroupItem value="list" aria-label="List view" className="gap-2">
+                  <List className="h-4 w-4" />
+                  List
+                </ToggleGroupItem>
+                <ToggleGroupItem value="calendar" aria-label="Calendar view" className="gap-2">
+                  <CalendarDays className="h-4 w-4" />
+                  Calendar
+                </ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+
             {/* Filters */}
             <div className="max-w-6xl mx-auto mb-8">
               <div className="bg-card border rounded-xl p-4 shadow-sm">
@@ -141,21 +205,30 @@ export default function Events() {
                   </div>
                   
                   <div className="flex flex-wrap items-center gap-3 flex-1">
-                    <Select value={selectedMonth} onValueChange={setSelectedMonth}>
-                      <SelectTrigger className="w-[160px]">
-                        <Calendar className="h-4 w-4 mr-2 text-muted-foreground" />
-                        <SelectValue placeholder="Select month" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {months.map((month) => (
-                          <SelectItem key={month.value} value={month.value}>
-                            {month.label}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                    {view === "list" && (
+                      <Select
+                        value={listMonth}
+                        onValueChange={(value) => updateParams({ month: value === "all" ? null : value })}
+                      >
+                        <SelectTrigger className="w-[180px]">
+                          <Calendar className="h-4 w-4 mr-2 text-muted-foreground" />
+                          <SelectValue placeholder="Select month" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All Months</SelectItem>
+                          {monthOptions.map((month) => (
+                            <SelectItem key={month.value} value={month.value}>
+                              {month.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
 
-                    <Select value={selectedType} onValueChange={setSelectedType}>
+                    <Select
+                      value={selectedType}
+                      onValueChange={(value) => updateParams({ type: value === "all" ? null : value })}
+                    >
                       <SelectTrigger className="w-[160px]">
                         <SelectValue placeholder="Select type" />
                       </SelectTrigger>
@@ -192,105 +265,154 @@ export default function Events() {
                     )}
                   </div>
 
+                  <Button variant="outline" size="sm" className="gap-2" asChild>
+                    <a href={subscribeUrl} title="Subscribe in your calendar app">
+                      <Rss className="h-4 w-4" />
+                      Subscribe
+                    </a>
+                  </Button>
+
                   {/* Results count */}
-                  <div className="text-sm text-muted-foreground">
-                    {filteredEvents.length} event{filteredEvents.length !== 1 ? "s" : ""} found
-                  </div>
+                  {view === "list" && (
+                    <div className="text-sm text-muted-foreground">
+                      {filteredEvents.length} event{filteredEvents.length !== 1 ? "s" : ""} found
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
 
-            {/* Events Grid */}
-            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6 max-w-6xl mx-auto">
-              {isLoading ? (
-                Array.from({ length: 6 }).map((_, i) => (
-                  <Card key={i} className="border-0 shadow-md overflow-hidden">
-                    <CardContent className="p-0">
-                      <Skeleton className="h-20 w-full" />
-                      <div className="p-6 space-y-4">
-                        <Skeleton className="h-6 w-24" />
-                        <Skeleton className="h-6 w-full" />
-                        <Skeleton className="h-4 w-3/4" />
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))
-              ) : filteredEvents.length > 0 ? (
-                filteredEvents.map((event) => {
-                  const eventDate = parseISO(event.event_date);
-                  return (
-                    <Card
-                      key={event.id}
-                      className="border-0 shadow-md hover:shadow-xl transition-all duration-300 overflow-hidden group"
-                    >
+            {view === "calendar" ? (
+              <div className="max-w-6xl mx-auto">
+                {isLoading ? (
+                  <Skeleton className="h-[600px] w-full rounded-xl" />
+                ) : (
+                  <EventCalendar
+                    month={calendarMonth}
+                    events={typeFilteredEvents}
+                    onMonthChange={(month) => updateParams({ month: format(month, "yyyy-MM") })}
+                    minMonth={addMonths(new Date(), -ARCHIVE_MONTHS)}
+                    maxMonth={addMonths(new Date(), UPCOMING_MONTHS)}
+                  />
+                )}
+              </div>
+            ) : (
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6 max-w-6xl mx-auto">
+                {isLoading ? (
+                  Array.from({ length: 6 }).map((_, i) => (
+                    <Card key={i} className="border-0 shadow-md overflow-hidden">
                       <CardContent className="p-0">
-                        {/* Date Banner */}
-                        <div className="bg-primary text-primary-foreground p-4 flex items-center gap-4">
-                          <div className="text-center">
-                            <p className="text-3xl font-bold">{format(eventDate, "dd")}</p>
-                            <p className="text-sm uppercase">{format(eventDate, "MMM")}</p>
-                          </div>
-                          <div className="h-12 w-px bg-primary-foreground/30" />
-                          <div>
-                            <p className="font-semibold">{format(eventDate, "EEEE")}</p>
-                            <p className="text-sm text-primary-foreground/80">{format(eventDate, "yyyy")}</p>
-                          </div>
+                        <Skeleton className="h-20 w-full" />
+                        <div className="p-6 space-y-4">
+                          <Skeleton className="h-6 w-24" />
+                          <Skeleton className="h-6 w-full" />
+                          <Skeleton className="h-4 w-3/4" />
                         </div>
-
-                        {/* Event Details */}
-                        <div className="p-6">
-                          <div className="flex items-center gap-2 mb-3">
-                            <Badge 
-                              variant="secondary" 
-                              className={eventTypeColors[event.event_type || "general"]}
-                            >
-                              {(event.event_type || "general").charAt(0).toUpperCase() + (event.event_type || "general").slice(1)}
-                            </Badge>
+                      </CardContent>
+                    </Card>
+                  ))
+                ) : filteredEvents.length > 0 ? (
+                  filteredEvents.map((event) => {
+                    const eventDate = event.eventDate;
+                    return (
+                      <Card
+                        key={`${event.id}-${event.occurrenceKey}`}
+                        className="border-0 shadow-md hover:shadow-xl transition-all duration-300 overflow-hidden group"
+                      >
+                        <CardContent className="p-0">
+                          {/* Date Banner */}
+                          <div
+                            className={`p-4 flex items-center gap-4 ${
+                              period === "past" ? "bg-muted text-muted-foreground" : "bg-primary text-primary-foreground"
+                            }`}
+                          >
+                            <div className="text-center">
+                              <p className="text-3xl font-bold">{format(eventDate, "dd")}</p>
+                              <p className="text-sm uppercase">{format(eventDate, "MMM")}</p>
+                            </div>
+                            <div className="h-12 w-px bg-current opacity-30" />
+                            <div>
+                              <p className="font-semibold">{format(eventDate, "EEEE")}</p>
+                              <p className="text-sm opacity-80">{format(eventDate, "yyyy")}</p>
+                            </div>
                           </div>
 
-                          <h3 className="font-display text-xl font-bold text-foreground mb-2 group-hover:text-primary transition-colors">
-                            {event.title}
-                          </h3>
+                          {/* Event Details */}
+                          <div className="p-6">
+                            <div className="flex items-center gap-2 mb-3">
+                              <Badge 
+                                variant="secondary" 
+                                className={eventTypeColors[event.eventType || "general"]}
+                              >
+                                {(event.eventType || "general").charAt(0).toUpperCase() + (event.eventType || "general").slice(1)}
+                              </Badge>
+                              {event.recurrence && (
+                                <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                                  <Repeat className="h-3 w-3" />
+                                  {describeRecurrence(event.recurrence, event.seriesStart)}
+                                </span>
+                              )}
+                            </div>
 
-                          {event.description && (
-                            <p className="text-muted-foreground text-sm mb-4 line-clamp-2">
-                              {event.description}
-                            </p>
-                          )}
+                            <h3 className="font-display text-xl font-bold text-foreground mb-2 group-hover:text-primary transition-colors">
+                              <Link to={getEventPath(event)}>{event.title}</Link>
+                            </h3>
 
-                          <div className="flex flex-col gap-2 text-sm text-muted-foreground">
-                            <div className="flex items-center gap-2">
-                              <Clock className="h-4 w-4 text-primary" />
-                              <span>{formatTime(event.start_time, event.end_time)}</span>
-                            </div>
-                            {event.location && (
+                            {event.description && (
+                              <p className="text-muted-foreground text-sm mb-4 line-clamp-2">
+                                {event.description}
+                              </p>
+                            )}
+
+                            <div className="flex flex-col gap-2 text-sm text-muted-foreground">
                               <div className="flex items-center gap-2">
-                                <MapPin className="h-4 w-4 text-primary" />
-                                <span>{event.location}</span>
+                                <Clock className="h-4 w-4 text-primary" />
+                                <span>{formatTime(event.startTime, event.endTime || null)}</span>
                               </div>
-                            )}
+                              {event.location && (
+                                <div className="flex items-center gap-2">
+                                  <MapPin className="h-4 w-4 text-primary" />
+                                  <span>{event.location}</span>
+                                </div>
+                              )}
+                            </div>
+
+                            <div className="flex flex-wrap gap-2 mt-4">
+                              {period === "past" ? (
+                                <Button variant="outline" size="sm" asChild>
+                                  <Link to={getEventPath(event)}>View details</Link>
+                                </Button>
+                              ) : (
+                                <>
+                                  {event.registrationEnabled && <RegistrationDialog event={event} />}
+                                  <AddToCalendarButton event={event} />
+                                </>
+                              )}
+                            </div>
                           </div>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  );
-                })
-              ) : (
-                <div className="col-span-full text-center py-12">
-                  <Calendar className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                  <p className="text-muted-foreground mb-4">
-                    {hasActiveFilters 
-                      ? "No events match your filters. Try adjusting your selection."
-                      : "No upcoming events at the moment. Check back soon!"}
-                  </p>
-                  {hasActiveFilters && (
-                    <Button variant="outline" onClick={clearFilters}>
-                      Clear Filters
-                    </Button>
-                  )}
-                </div>
-              )}
-            </div>
+                        </CardContent>
+                      </Card>
+                    );
+                  })
+                ) : (
+                  <div className="col-span-full text-center py-12">
+                    <Calendar className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                    <p className="text-muted-foreground mb-4">
+                      {hasActiveFilters 
+                        ? "No events match your filters. Try adjusting your selection."
+                        : period === "past"
+                        ? "No past events to show yet."
+                        : "No upcoming events at the moment. Check back soon!"}
+                    </p>
+                    {hasActiveFilters && (
+                      <Button variant="outline" onClick={clearFilters}>
+                        Clear Filters
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </section>
       </main>
@@ -1,15 +1,14 @@
 // Firebase-based Authentication Page
 import { useState, useEffect } from "react";
-import { useNavigate, Link } from "react-router-dom";
+import { useNavigate, useSearchParams, Link } from "react-router-dom";
 import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
-import { getAdminRequestStatus, createAdminRequest } from "@/integrations/firebase/firestore/users";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
-import { ArrowLeft, Church, Eye, EyeOff, Clock, LogOut } from "lucide-react";
+import { ArrowLeft, Church, Eye, EyeOff } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
 import { z } from "zod";
 
@@ -33,10 +32,14 @@ type AuthErrors = {
   displayName?: string;
 };
 
-type RequestStatus = "none" | "pending" | "approved" | "rejected";
-
 export default function FirebaseAuth() {
-  const [email, setEmail] = useState("");
+  const [searchParams] = useSearchParams();
+  // Set when someone arrives from an invitation link; they go back to accept it once signed in
+  const inviteToken = searchParams.get("invite");
+  const invitedEmail = searchParams.get("email");
+  // Set when someone setting up a new site has to sign in first
+  const isSetup = searchParams.has("setup");
+  const [email, setEmail] = useState(invitedEmail || "");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [displayName, setDisplayName] = useState("");
@@ -44,86 +47,22 @@ export default function FirebaseAuth() {
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [errors, setErrors] = useState<AuthErrors>({});
-  const [requestStatus, setRequestStatus] = useState<RequestStatus>("none");
-  const [isCheckingStatus, setIsCheckingStatus] = useState(false);
   const [rememberMe, setRememberMe] = useState(true);
-  const { signIn, signInWithGoogle, signUp, signOut, user, isAdmin } = useFirebaseAuth();
+  const { signIn, signInWithGoogle, signUp, user, isAdmin } = useFirebaseAuth();
   const navigate = useNavigate();
 
-  // Check request status for logged-in non-admin users
-  useEffect(() => {
-    const checkRequestStatus = async () => {
-      if (user && !isAdmin) {
-        setIsCheckingStatus(true);
-        try {
-          const request = await getAdminRequestStatus(user.uid);
-          
-          if (request) {
-            setRequestStatus(request.status as RequestStatus);
-          } else {
-            setRequestStatus("none");
-          }
-        } catch (error) {
-          console.error("Error checking request status:", error);
-          setRequestStatus("none");
-        }
-        setIsCheckingStatus(false);
-      }
-    };
-    checkRequestStatus();
-  }, [user, isAdmin]);
-
-  // Redirect if already logged in and is admin
+  // Admins go to the panel, invitees back to their invitation, whoever is setting up the site back to
+  // the setup page and everyone else to their access request
   useEffect(() => {
-    if (user && isAdmin) {
-      navigate("/admin");
+    if (!user) return;
+    if (inviteToken) {
+      navigate(`/accept-invite?token=${encodeURIComponent(inviteToken)}`);
+    } else if (isSetup) {
+      navigate("/setup-admin");
+    } else {
+      navigate(isAdmin ? "/admin" : "/admin-request");
     }
-  }, [user, isAdmin, navigate]);
-
-  // Show pending status page for logged-in users awaiting approval
-  if (user && !isAdmin && !isCheckingStatus && requestStatus === "pending") {
-    return (
-      <div className="min-h-screen bg-muted/30 flex items-center justify-center p-4">
-        <div className="w-full max-w-md text-center">
-          <div className="flex justify-center mb-6">
-            <div className="w-20 h-20 bg-amber-100 rounded-full flex items-center justify-center">
-              <Clock className="h-10 w-10 text-amber-600" />
-            </div>
-          </div>
-          <h1 className="font-display text-2xl font-bold text-foreground mb-2">
-            Awaiting Approval
-          </h1>
-          <p className="text-muted-foreground mb-6">
-            Your admin access request is pending. An administrator will review your request shortly.
-          </p>
-          <Card className="border-0 shadow-lg mb-6">
-            <CardContent className="pt-6">
-              <p className="text-sm text-muted-foreground">Signed in as</p>
-              <p className="font-medium">{user.email}</p>
-            </CardContent>
-          </Card>
-          <div className="flex gap-4 justify-center">
-            <Button variant="outline" asChild>
-              <Link to="/">
-                <ArrowLeft className="mr-2 h-4 w-4" />
-                Back to Home
-              </Link>
-            </Button>
-            <Button
-              variant="destructive"
-              onClick={async () => {
-                await signOut();
-                toast.success("Signed out successfully");
-              }}
-            >
-              <LogOut className="mr-2 h-4 w-4" />
-              Sign Out
-            </Button>
-          </div>
-        </div>
-      </div>
-    );
-  }
+  }, [user, isAdmin, inviteToken, isSetup, navigate]);
 
   const handleSignIn = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -186,27 +125,16 @@ export default function FirebaseAuth() {
 
     setIsLoading(true);
 
-    const { error, userId } = await signUp(email, password, displayName);
+    const { error } = await signUp(email, password, displayName);
+
+    setIsLoading(false);
 
     if (error) {
-      setIsLoading(false);
       toast.error(error.message || "Failed to sign up");
       return;
     }
 
-    if (userId) {
-      // Create admin request
-      try {
-        await createAdminRequest(userId, email);
-        toast.success("Account created! Your admin access request has been submitted.");
-        setRequestStatus("pending");
-      } catch (requestError) {
-        console.error("Error creating admin request:", requestError);
-        toast.warning("Account created, but failed to submit admin request.");
-      }
-    }
-
-    setIsLoading(false);
+    toast.success(inviteToken ? "Account created! Now accept your invitation." : "Account created!");
   };
 
   return (
@@ -222,7 +150,9 @@ export default function FirebaseAuth() {
             Admin Portal
           </h1>
           <p className="text-muted-foreground">
-            Shiloh Intercession Mountain
+            {inviteToken
+              ? `Sign in or create an account${invitedEmail ? ` with ${invitedEmail}` : ""} to accept your invitation`
+              : "Shiloh Intercession Mountain"}
           </p>
         </div>
 
@@ -0,0 +1,172 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "react-router-dom";
+import {
+  getCurrentLivestreams,
+  getFeaturedLivestream,
+  getLivestreamById,
+  getScheduledStart,
+} from "@/integrations/firebase/firestore/livestreams";
+import { getYouTubeEmbedUrl, getYouTubeThumbnailUrl } from "@/lib/youtube";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { Countdown } from "@/components/livestream/Countdown";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeft, Calendar, Radio } from "lucide-react";
+import { format } from "date-fns";
+
+export default function Live() {
+  const { streamId } = useParams<{ streamId: string }>();
+
+  // Refreshed every minute so the page switches to the player when the stream starts
+  const { data: currentStreams, isLoading: isLoadingCurrent } = useQuery({
+    queryKey: ["current-livestreams"],
+    queryFn: getCurrentLivestreams,
+    refetchInterval: 60_000,
+  });
+
+  const { data: requestedStream, isLoading: isLoadingRequested } = useQuery({
+    queryKey: ["livestream", streamId],
+    queryFn: () => getLivestreamById(streamId!),
+    enabled: !!streamId,
+    refetchInterval: 60_000,
+  });
+
+  const stream = streamId ? requestedStream : getFeaturedLivestream(currentStreams || []);
+  const isLoading = streamId ? isLoadingRequested : isLoadingCurrent;
+  const upcoming = (currentStreams || [])
+    .filter((item) => item.status === "upcoming" && item.id !== stream?.id)
+    .sort((a, b) => getScheduledStart(a).getTime() - getScheduledStart(b).getTime());
+
+  useEffect(() => {
+    if (stream) {
+      document.title = `${stream.status === "live" ? "Live: " : ""}${stream.title} | Shiloh Intercession Mountain`;
+    }
+  }, [stream]);
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+      <main className="flex-1">
+        <section className="section-padding bg-background">
+          <div className="container mx-auto max-w-5xl">
+            <Link
+              to="/"
+              className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-6"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Home
+            </Link>
+
+            {isLoading ? (
+              <div className="space-y-6">
+                <Skeleton className="aspect-video w-full rounded-xl" />
+                <Skeleton className="h-10 w-3/4" />
+              </div>
+            ) : !stream ? (
+              <Card className="border-0 shadow-md">
+                <CardContent className="py-16 text-center">
+                  <Radio className="h-14 w-14 text-muted-foreground mx-auto mb-4" />
+                  <h1 className="font-display text-2xl md:text-3xl font-bold text-foreground mb-2">
+                    No livestream right now
+                  </h1>
+                  <p className="text-muted-foreground max-w-md mx-auto mb-6">
+                    {streamId
+                      ? "This livestream could not be found."
+                      : "Nothing is scheduled at the moment. Watch past services and prayer sessions in the meantime."}
+                  </p>
+                  <Button asChild>
+                    <Link to="/videos">Browse videos</Link>
+                  </Button>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-6">
+                <div className="relative aspect-video rounded-xl overflow-hidden shadow-md bg-foreground">
+                  {stream.status === "upcoming" ? (
+                    <>
+                      <img
+                        src={getYouTubeThumbnailUrl(stream.streamId)}
+                        alt=""
+                        className="absolute inset-0 w-full h-full object-cover opacity-40"
+                      />
+                      <div className="absolute inset-0 flex flex-col items-center justify-center text-background p-4">
+                        <p className="text-sm uppercase tracking-wide opacity-80 mb-3">Starts in</p>
+                        <Countdown target={getScheduledStart(stream)} unitClassName="bg-background/15" />
+                      </div>
+                    </>
+                  ) : (
+                    <iframe
+                      src={getYouTubeEmbedUrl(stream.streamId, { autoplay: stream.status === "live" ? "1" : "0" })}
+                      title={stream.title}
+                      className="w-full h-full"
+                      allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+                      allowFullScreen
+                    />
+                  )}
+                </div>
+
+                <div>
+                  <div className="flex flex-wrap items-center gap-3 mb-2">
+                    {stream.status === "live" && (
+                      <Badge variant="destructive" className="gap-1">
+                        <span className="h-2 w-2 rounded-full bg-current animate-pulse" />
+                        Live
+                      </Badge>
+                    )}
+                    {stream.status === "upcoming" && <Badge variant="secondary">Upcoming</Badge>}
+                    {stream.status === "ended" && <Badge variant="outline">Ended</Badge>}
+                    <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                      <Calendar className="h-4 w-4" />
+                      {format(getScheduledStart(stream), "EEEE, d MMMM yyyy 'at' HH:mm")}
+                    </span>
+                  </div>
+                  <h1 className="font-display text-3xl md:text-4xl font-bold text-foreground mb-3">{stream.title}</h1>
+                  {stream.description && (
+                    <p className="text-muted-foreground whitespace-pre-line leading-relaxed">{stream.description}</p>
+                  )}
+                  {stream.status === "ended" && (
+                    <p className="text-sm text-muted-foreground mt-4">
+                      This stream has ended. The recording above stays available, and more are in the{" "}
+                      <Link to="/videos" className="text-primary hover:underline">
+                        video library
+                      </Link>
+                      .
+                    </p>
+                  )}
+                </div>
+
+                {upcoming.length > 0 && (
+                  <Card className="border-0 shadow-md">
+                    <CardContent className="p-6">
+                      <h2 className="font-semibold text-foreground mb-4">Coming up</h2>
+                      <ul className="space-y-3">
+                        {upcoming.map((item) => (
+                          <li key={item.id}>
+                            <Link
+                              to={`/live/${item.id}`}
+                              className="flex items-center justify-between gap-4 text-sm hover:text-primary"
+                            >
+                              <span className="font-medium">{item.title}</span>
+                              <span className="text-muted-foreground shrink-0">
+                                {format(getScheduledStart(item), "EEE d MMM, HH:mm")}
+                              </span>
+                            </Link>
+                          </li>
+                        ))}
+                      </ul>
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            )}
+          </div>
+        </section>
+      </main>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import { getChurchInfo } from "@/integrations/firebase/firestore/church";
+import { getDeletionRequest } from "@/integrations/firebase/firestore/users";
+import { exportMyData, requestAccountDeletion, cancelAccountDeletion } from "@/integrations/firebase/helpers";
+import { reloadEmailVerified, sendVerificationEmail } from "@/integrations/firebase/auth";
+import { DELETION_GRACE_DAYS, getExportFileName, getExportZipEntries } from "@/lib/myData";
+import { createZip } from "@/lib/zip";
+import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Download, FileArchive, FileJson, Loader2, LogIn, MailCheck, RefreshCw, ShieldCheck, Trash2, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+
+const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function MyData() {
+  const queryClient = useQueryClient();
+  const { user, isLoading: isAuthLoading } = useFirebaseAuth();
+  // Set after the user reloads their account from this page, which does not re-render the auth hook
+  const [isVerifiedNow, setIsVerifiedNow] = useState(false);
+  const isEmailVerified = !!user?.emailVerified || isVerifiedNow;
+
+  const { data: churchInfo } = useQuery({
+    queryKey: ["church-info"],
+    queryFn: getChurchInfo,
+  });
+
+  const { data: deletionRequest, isLoading: isDeletionLoading } = useQuery({
+    queryKey: ["deletion-request", user?.uid],
+    queryFn: () => getDeletionRequest(user!.uid),
+    enabled: !!user,
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async (fileType: "json" | "zip") => {
+      const result = await exportMyData();
+      if (!result.success || !result.data) throw new Error(result.error);
+      return { data: result.data, fileType };
+    },
+    onSuccess: ({ data, fileType }) => {
+      const blob =
+        fileType === "zip"
+          ? new Blob([createZip(getExportZipEntries(data, churchInfo?.churchName || "Shiloh Intercession Mountain"))], {
+              type: "application/zip",
+            })
+          : new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+      downloadBlob(getExportFileName(data, fileType), blob);
+      toast.success("Your data has been downloaded");
+    },
+    onError: (error: Error) => toast.error(error.message || "Failed to export your data"),
+  });
+
+  const deletionMutation = useMutation({
+    mutationFn: async (action: "request" | "cancel") => {
+      const result = action === "request" ? await requestAccountDeletion() : await cancelAccountDeletion();
+      if (!result.success) throw new Error(result.error);
+    },
+    onSuccess: (_, action) => {
+      queryClient.invalidateQueries({ queryKey: ["deletion-request", user?.uid] });
+      toast.success(
+        action === "request" ? "Deletion scheduled - we've emailed you a confirmation" : "Your account will not be deleted"
+      );
+    },
+    onError: (error: Error) => toast.error(error.message || "Failed to update your deletion request"),
+  });
+
+  const verificationMutation = useMutation({
+    mutationFn: async (action: "send" | "check") => {
+      if (action === "send") {
+        const { error } = await sendVerificationEmail();
+        if (error) throw error;
+        return false;
+      }
+      const { verified, error } = await reloadEmailVerified();
+      if (error) throw error;
+      return verified;
+    },
+    onSuccess: (verified, action) => {
+      if (action === "send") {
+        toast.success(`We've emailed a verification link to ${user?.email}`);
+      } else if (verified) {
+        setIsVerifiedNow(true);
+        toast.success("Your email address is verified");
+      } else {
+        toast.info("Not verified yet - open the link in the email we sent you");
+      }
+    },
+    onError: (error: Error) => toast.error(error.message || "Failed to verify your email address"),
+  });
+
+  const scheduledFor =
+    deletionRequest?.status === "scheduled"
+      ? deletionRequest.scheduledFor instanceof Date
+        ? deletionRequest.scheduledFor
+        : deletionRequest.scheduledFor.toDate()
+      : null;
+
+  const renderContent = () => {
+    if (isAuthLoading) {
+      return <Skeleton className="h-48 w-full" />;
+    }
+
+    if (!user) {
+      return (
+        <Card className="border-0 shadow-md">
+          <CardContent className="p-6 flex flex-col sm:flex-row items-center justify-between gap-4">
+            <p className="text-muted-foreground">Sign in to download or delete the information linked to your account.</p>
+            <Link to="/auth">
+              <Button className="gap-2">
+                <LogIn className="h-4 w-4" />
+                Sign In
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    return (
+      <>
+        {!isEmailVerified && (
+          <Card className="border-0 shadow-md">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MailCheck className="h-5 w-5" />
+                Verify your email address
+              </CardTitle>
+              <CardDescription>
+                Messages, prayer requests and event registrations sent with {user.email} are only included once you
+                confirm the address is yours.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-3">
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={() => verificationMutation.mutate("send")}
+                disabled={verificationMutation.isPending}
+              >
+                <MailCheck className="h-4 w-4" />
+                Send Verification Email
+              </Button>
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={() => verificationMutation.mutate("check")}
+                disabled={verificationMutation.isPending}
+              >
+                <RefreshCw className="h-4 w-4" />
+                I've Verified It
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="border-0 shadow-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Download className="h-5 w-5" />
+              Download your data
+            </CardTitle>
+            <CardDescription>
+              {isEmailVerified ? (
+                <>
+                  Your profile, role, admin access request, the messages, prayer requests and event registrations sent
+                  with {user.email}, your prayer watch sign-ups and links to anything you uploaded.
+                </>
+              ) : (
+                "Your profile, role, admin access request, prayer watch sign-ups and links to anything you uploaded."
+              )}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-3">
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => exportMutation.mutate("json")}
+              disabled={exportMutation.isPending}
+            >
+              {exportMutation.isPending && exportMutation.variables === "json" ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <FileJson className="h-4 w-4" />
+              )}
+              Download JSON
+            </Button>
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => exportMutation.mutate("zip")}
+              disabled={exportMutation.isPending}
+            >
+              {exportMutation.isPending && exportMutation.variables === "zip" ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <FileArchive className="h-4 w-4" />
+              )}
+              Download ZIP
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="border-0 shadow-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Trash2 className="h-5 w-5" />
+              Delete your account
+            </CardTitle>
+            <CardDescription>
+              Your account, profile and sign-ups are deleted. Messages, prayer requests and registrations you sent are kept
+              without your name or contact details.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isDeletionLoading ? (
+              <Skeleton className="h-10 w-48" />
+            ) : scheduledFor ? (
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 rounded-lg border border-destructive/30 bg-destructive/5 p-4">
+                <p className="text-sm text-foreground">
+                  Your account will be deleted on <strong>{format(scheduledFor, "d MMMM yyyy 'at' HH:mm")}</strong>.
+                </p>
+                <Button
+                  variant="outline"
+                  className="gap-2"
+                  onClick={() => deletionMutation.mutate("cancel")}
+                  disabled={deletionMutation.isPending}
+                >
+                  <Undo2 className="h-4 w-4" />
+                  Keep My Account
+                </Button>
+              </div>
+            ) : (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="destructive" className="gap-2" disabled={deletionMutation.isPending}>
+                    <Trash2 className="h-4 w-4" />
+                    Delete My Account
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Your account will be deleted in {DELETION_GRACE_DAYS} days. Until then you can sign in and cancel.
+                      We'll email {user.email} to confirm. Download your data first if you want to keep a copy.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      onClick={() => deletionMutation.mutate("request")}
+                    >
+                      Delete My Account
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </CardContent>
+        </Card>
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+      <main className="flex-1">
+        <section className="section-padding bg-background">
+          <div className="container mx-auto max-w-3xl space-y-6">
+            <div className="text-center mb-12">
+              <div className="flex justify-center mb-4">
+                <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center">
+                  <ShieldCheck className="h-8 w-8 text-primary" />
+                </div>
+              </div>
+              <h1 className="font-display text-3xl md:text-5xl font-bold text-foreground mb-4">My Data</h1>
+              <p className="text-muted-foreground text-lg">
+                See what we hold about you, take a copy, or ask us to delete it.
+              </p>
+            </div>
+            {renderContent()}
+          </div>
+        </section>
+      </main>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,378 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  createPrayerRequest,
+  getApprovedPrayerRequests,
+  recordPrayer,
+  PrayerPrivacy,
+  PrayerRequest,
+} from "@/integrations/firebase/firestore/church";
+import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeft, HandHeart, Send, CheckCircle, Lock, Flame } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Link } from "react-router-dom";
+import { toast } from "sonner";
+import { z } from "zod";
+
+const PRAYED_STORAGE_KEY = "prayed-requests";
+const REQUEST_MAX_LENGTH = 1000;
+
+const prayerSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name must be less than 100 characters"),
+  email: z
+    .string()
+    .trim()
+    .max(255, "Email must be less than 255 characters")
+    .email("Please enter a valid email address")
+    .or(z.literal("")),
+  request: z
+    .string()
+    .trim()
+    .min(10, "Please share a little more so we know how to pray")
+    .max(REQUEST_MAX_LENGTH, `Prayer request must be ${REQUEST_MAX_LENGTH} characters or less`),
+});
+
+type FormErrors = {
+  name?: string;
+  email?: string;
+  request?: string;
+};
+
+const privacyOptions: { value: PrayerPrivacy; label: string; description: string }[] = [
+  {
+    value: "public",
+    label: "Prayer wall",
+    description: "Shown on this page once approved so anyone can stand with you.",
+  },
+  {
+    value: "intercessors",
+    label: "Intercessors only",
+    description: "Visible only to members of our intercession team.",
+  },
+  {
+    value: "leadership",
+    label: "Leadership only",
+    description: "Kept private and shared only with church leadership.",
+  },
+];
+
+const getPrayedIds = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PRAYED_STORAGE_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+export default function Prayer() {
+  const queryClient = useQueryClient();
+  const { can } = useFirebaseAuth();
+  const canReadIntercessors = can("prayer.read");
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [formData, setFormData] = useState({ name: "", email: "", request: "" });
+  const [privacy, setPrivacy] = useState<PrayerPrivacy>("public");
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [prayedIds, setPrayedIds] = useState<string[]>(getPrayedIds);
+
+  const { data: prayerRequests, isLoading } = useQuery({
+    queryKey: ["prayer-wall", canReadIntercessors],
+    queryFn: () => getApprovedPrayerRequests(canReadIntercessors),
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async (data: typeof formData) => {
+      await createPrayerRequest(
+        { request: data.request.trim(), privacy },
+        { name: data.name.trim(), email: data.email.trim() || undefined },
+        isAnonymous
+      );
+    },
+    onSuccess: () => {
+      setIsSubmitted(true);
+      setFormData({ name: "", email: "", request: "" });
+      setPrivacy("public");
+      setIsAnonymous(false);
+      setErrors({});
+      toast.success("Your prayer request has been received.");
+    },
+    onError: () => {
+      toast.error("Failed to submit your prayer request. Please try again.");
+    },
+  });
+
+  const prayMutation = useMutation({
+    mutationFn: recordPrayer,
+    onMutate: (requestId: string) => {
+      const updated = [...prayedIds, requestId];
+      setPrayedIds(updated);
+      localStorage.setItem(PRAYED_STORAGE_KEY, JSON.stringify(updated));
+      queryClient.setQueryData<PrayerRequest[]>(["prayer-wall", canReadIntercessors], (old) =>
+        old?.map((item) =>
+          item.id === requestId ? { ...item, prayerCount: (item.prayerCount || 0) + 1 } : item
+        )
+      );
+    },
+    onError: (_error, requestId) => {
+      const reverted = prayedIds.filter((id) => id !== requestId);
+      setPrayedIds(reverted);
+      localStorage.setItem(PRAYED_STORAGE_KEY, JSON.stringify(reverted));
+      queryClient.invalidateQueries({ queryKey: ["prayer-wall"] });
+      toast.error("Something went wrong. Please try again.");
+    },
+  });
+
+  const handleFieldChange = (field: keyof typeof formData, value: string) => {
+    setFormData({ ...formData, [field]: value });
+    if (errors[field]) {
+      setErrors({ ...errors, [field]: undefined });
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = prayerSchema.safeParse(formData);
+    if (!result.success) {
+      const fieldErrors: FormErrors = {};
+      result.error.errors.forEach((err) => {
+        const field = err.path[0] as keyof FormErrors;
+        if (!fieldErrors[field]) {
+          fieldErrors[field] = err.message;
+        }
+      });
+      setErrors(fieldErrors);
+      toast.error("Please fix the errors in the form");
+      return;
+    }
+
+    submitMutation.mutate(formData);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+      <main className="flex-1">
+        <section className="section-padding bg-background">
+          <div className="container mx-auto">
+            {/* Header */}
+            <div className="text-center mb-12">
+              <Link
+                to="/"
+                className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-4"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                Back to Home
+              </Link>
+              <h1 className="font-display text-3xl md:text-5xl font-bold text-foreground mb-4">
+                Prayer Wall
+              </h1>
+              <p className="text-muted-foreground text-lg max-w-2xl mx-auto">
+                "Carry each other's burdens." Share what is on your heart and our intercessors will stand with you in prayer.
+              </p>
+              <Link
+                to="/prayer-watch"
+                className="inline-flex items-center gap-2 text-primary font-medium hover:underline mt-4"
+              >
+                <Flame className="h-4 w-4" />
+                Join the 24/7 prayer watch
+              </Link>
+            </div>
+
+            <div className="grid lg:grid-cols-5 gap-8 max-w-6xl mx-auto">
+              {/* Submission Form */}
+              <Card className="border-0 shadow-lg lg:col-span-2 h-fit">
+                <CardContent className="p-8">
+                  <h2 className="font-display text-2xl font-bold text-foreground mb-6">
+                    Submit a Prayer Request
+                  </h2>
+
+                  {isSubmitted ? (
+                    <div className="text-center py-8">
+                      <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
+                      <h3 className="text-xl font-semibold text-foreground mb-2">We're praying with you</h3>
+                      <p className="text-muted-foreground mb-6">
+                        Your request has been received. Requests for the prayer wall appear once they have been reviewed.
+                      </p>
+                      <Button variant="outline" onClick={() => setIsSubmitted(false)}>
+                        Submit Another Request
+                      </Button>
+                    </div>
+                  ) : (
+                    <form onSubmit={handleSubmit} className="space-y-5">
+                      <div className="space-y-2">
+                        <Label htmlFor="prayer-name">Your Name</Label>
+                        <Input
+                          id="prayer-name"
+                          value={formData.name}
+                          onChange={(e) => handleFieldChange("name", e.target.value)}
+                          className={errors.name ? "border-destructive" : ""}
+                        />
+                        {errors.name && <p className="text-sm text-destructive">{errors.name}</p>}
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="prayer-email">Email (optional)</Label>
+                        <Input
+                          id="prayer-email"
+                          type="email"
+                          placeholder="So we can follow up with you"
+                          value={formData.email}
+                          onChange={(e) => handleFieldChange("email", e.target.value)}
+                          className={errors.email ? "border-destructive" : ""}
+                        />
+                        {errors.email && <p className="text-sm text-destructive">{errors.email}</p>}
+                      </div>
+
+                      <div className="space-y-2">
+                        <div className="flex justify-between">
+                          <Label htmlFor="prayer-request">Prayer Request</Label>
+                          <span
+                            className={`text-xs ${
+                              formData.request.length > REQUEST_MAX_LENGTH ? "text-destructive" : "text-muted-foreground"
+                            }`}
+                          >
+                            {formData.request.length}/{REQUEST_MAX_LENGTH}
+                          </span>
+                        </div>
+                        <Textarea
+                          id="prayer-request"
+                          rows={6}
+                          value={formData.request}
+                          onChange={(e) => handleFieldChange("request", e.target.value)}
+                          className={errors.request ? "border-destructive" : ""}
+                          maxLength={REQUEST_MAX_LENGTH}
+                        />
+                        {errors.request && <p className="text-sm text-destructive">{errors.request}</p>}
+                      </div>
+
+                      <div className="space-y-3">
+                        <Label>Who may see this request?</Label>
+                        <RadioGroup value={privacy} onValueChange={(value) => setPrivacy(value as PrayerPrivacy)}>
+                          {privacyOptions.map((option) => (
+                            <div key={option.value} className="flex items-start gap-3">
+                              <RadioGroupItem value={option.value} id={`privacy-${option.value}`} className="mt-1" />
+                              <Label htmlFor={`privacy-${option.value}`} className="font-normal cursor-pointer">
+                                <span className="font-medium text-foreground">{option.label}</span>
+                                <span className="block text-xs text-muted-foreground">{option.description}</span>
+                              </Label>
+                            </div>
+                          ))}
+                        </RadioGroup>
+                      </div>
+
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="prayer-anonymous"
+                          checked={isAnonymous}
+                          onCheckedChange={(checked) => setIsAnonymous(checked as boolean)}
+                        />
+                        <Label htmlFor="prayer-anonymous" className="text-sm font-normal cursor-pointer">
+                          Don't show my name on the wall
+                        </Label>
+                      </div>
+
+                      <Button type="submit" size="lg" className="w-full gap-2" disabled={submitMutation.isPending}>
+                        {submitMutation.isPending ? (
+                          "Submitting..."
+                        ) : (
+                          <>
+                            <Send className="h-4 w-4" />
+                            Submit Request
+                          </>
+                        )}
+                      </Button>
+                    </form>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Prayer Wall */}
+              <div className="lg:col-span-3 space-y-4">
+                {isLoading ? (
+                  Array.from({ length: 3 }).map((_, i) => (
+                    <Card key={i} className="border-0 shadow-md">
+                      <CardContent className="p-6 space-y-3">
+                        <Skeleton className="h-5 w-1/3" />
+                        <Skeleton className="h-4 w-full" />
+                        <Skeleton className="h-4 w-2/3" />
+                      </CardContent>
+                    </Card>
+                  ))
+                ) : prayerRequests && prayerRequests.length > 0 ? (
+                  prayerRequests.map((item) => {
+                    const hasPrayed = prayedIds.includes(item.id!);
+                    const createdAt = item.createdAt instanceof Date ? item.createdAt : item.createdAt?.toDate();
+                    return (
+                      <Card key={item.id} className="border-0 shadow-md">
+                        <CardContent className="p-6">
+                          <div className="flex items-center justify-between gap-2 mb-3">
+                            <div className="flex items-center gap-2">
+                              <h3 className="font-semibold text-foreground">{item.displayName}</h3>
+                              {item.privacy === "intercessors" && (
+                                <Badge variant="secondary" className="bg-primary/10 text-primary gap-1">
+                                  <Lock className="h-3 w-3" />
+                                  Intercessors
+                                </Badge>
+                              )}
+                            </div>
+                            {createdAt && (
+                              <span className="text-xs text-muted-foreground">
+                                {formatDistanceToNow(createdAt, { addSuffix: true })}
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-muted-foreground whitespace-pre-wrap mb-4">{item.request}</p>
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm text-muted-foreground">
+                              {item.prayerCount || 0} {item.prayerCount === 1 ? "person has" : "people have"} prayed
+                            </span>
+                            <Button
+                              variant={hasPrayed ? "secondary" : "outline"}
+                              size="sm"
+                              className="gap-2"
+                              disabled={hasPrayed}
+                              onClick={() => prayMutation.mutate(item.id!)}
+                            >
+                              <HandHeart className="h-4 w-4" />
+                              {hasPrayed ? "Prayed" : "I prayed"}
+                            </Button>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    );
+                  })
+                ) : (
+                  <Card className="border-0 shadow-md">
+                    <CardContent className="p-12 text-center">
+                      <HandHeart className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                      <p className="text-muted-foreground">
+                        No prayer requests on the wall yet. Be the first to share one.
+                      </p>
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            </div>
+          </div>
+        </section>
+      </main>
+      <Footer />
+    </div>
+  );
+}
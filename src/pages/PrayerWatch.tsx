@@ -0,0 +1,226 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  getActiveWatchSlots,
+  getWatchSignups,
+  releaseWatchSlot,
+  WEEK_DAYS,
+  WatchSlot,
+} from "@/integrations/firebase/firestore/roster";
+import { joinPrayerWatch } from "@/integrations/firebase/helpers";
+import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeft, Clock, Flame, LogIn, Users } from "lucide-react";
+import { Link } from "react-router-dom";
+import { toast } from "sonner";
+
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(":");
+  const hour = parseInt(hours);
+  const ampm = hour >= 12 ? "PM" : "AM";
+  const displayHour = hour % 12 || 12;
+  return `${displayHour}:${minutes} ${ampm}`;
+};
+
+export default function PrayerWatch() {
+  const queryClient = useQueryClient();
+  const { user } = useFirebaseAuth();
+
+  const { data: slots, isLoading: slotsLoading } = useQuery({
+    queryKey: ["watch-slots"],
+    queryFn: getActiveWatchSlots,
+  });
+
+  const { data: signups, isLoading: signupsLoading } = useQuery({
+    queryKey: ["watch-signups"],
+    queryFn: getWatchSignups,
+    enabled: !!user,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["watch-signups"] });
+    queryClient.invalidateQueries({ queryKey: ["admin-watch-signups"] });
+  };
+
+  const claimMutation = useMutation({
+    mutationFn: async (slot: WatchSlot) => {
+      const result = await joinPrayerWatch(slot.id!);
+      if (!result.success) throw new Error(result.error);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("You're on the watch. Thank you for standing in the gap!");
+    },
+    onError: (error: Error) => {
+      invalidate();
+      toast.error(error.message || "Failed to join this watch. Please try again.");
+    },
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: (slot: WatchSlot) => releaseWatchSlot(slot.id!, user!.uid),
+    onSuccess: () => {
+      invalidate();
+      toast.success("You've been removed from this watch");
+    },
+    onError: () => toast.error("Failed to leave this watch. Please try again."),
+  });
+
+  const isLoading = slotsLoading || (!!user && signupsLoading);
+  const mySlotIds = new Set(signups?.filter((s) => s.userId === user?.uid).map((s) => s.slotId));
+  const myWatches = slots?.filter((slot) => mySlotIds.has(slot.id!)) || [];
+
+  const renderSlot = (slot: WatchSlot) => {
+    const slotSignups = signups?.filter((s) => s.slotId === slot.id) || [];
+    const isMine = mySlotIds.has(slot.id!);
+    const isFull = slotSignups.length >= slot.capacity;
+    const isBusy = claimMutation.isPending || releaseMutation.isPending;
+
+    return (
+      <Card key={slot.id} className={`border-0 shadow-md ${isMine ? "ring-2 ring-primary/30" : ""}`}>
+        <CardContent className="p-4">
+          <div className="flex items-start justify-between gap-2 mb-2">
+            <div>
+              <h3 className="font-semibold text-foreground">{slot.title}</h3>
+              <p className="text-sm text-muted-foreground flex items-center gap-1">
+                <Clock className="h-3 w-3" />
+                {formatTime(slot.startTime)} - {formatTime(slot.endTime)}
+              </p>
+            </div>
+            {user && (
+              <Badge
+                variant="secondary"
+                className={slotSignups.length === 0 ? "bg-destructive/10 text-destructive" : ""}
+              >
+                {slotSignups.length}/{slot.capacity}
+              </Badge>
+            )}
+          </div>
+          {slotSignups.length > 0 && (
+            <p className="text-xs text-muted-foreground mb-3 flex items-center gap-1">
+              <Users className="h-3 w-3" />
+              {slotSignups.map((s) => s.displayName).join(", ")}
+            </p>
+          )}
+          {user &&
+            (isMine ? (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                disabled={isBusy}
+                onClick={() => releaseMutation.mutate(slot)}
+              >
+                Leave watch
+              </Button>
+            ) : (
+              <Button
+                size="sm"
+                className="w-full"
+                disabled={isBusy || isFull}
+                onClick={() => claimMutation.mutate(slot)}
+              >
+                {isFull ? "Watch full" : "Take this watch"}
+              </Button>
+            ))}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+      <main className="flex-1">
+        <section className="section-padding bg-background">
+          <div className="container mx-auto">
+            {/* Header */}
+            <div className="text-center mb-12">
+              <Link
+                to="/prayer"
+                className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-4"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                Back to Prayer Wall
+              </Link>
+              <h1 className="font-display text-3xl md:text-5xl font-bold text-foreground mb-4">
+                Prayer Watch
+              </h1>
+              <p className="text-muted-foreground text-lg max-w-2xl mx-auto">
+                "I have posted watchmen on your walls; they will never be silent day or night." Join the roster and help us keep the altar burning around the clock.
+              </p>
+            </div>
+
+            {!user && (
+              <Card className="border-0 shadow-md max-w-2xl mx-auto mb-10">
+                <CardContent className="p-6 flex flex-col sm:flex-row items-center justify-between gap-4">
+                  <p className="text-muted-foreground">Sign in to take a watch and see who is covering each slot.</p>
+                  <Link to="/auth">
+                    <Button className="gap-2">
+                      <LogIn className="h-4 w-4" />
+                      Sign In
+                    </Button>
+                  </Link>
+                </CardContent>
+              </Card>
+            )}
+
+            {user && myWatches.length > 0 && (
+              <Card className="border-0 shadow-md max-w-2xl mx-auto mb-10 bg-primary/5">
+                <CardContent className="p-6">
+                  <h2 className="font-semibold text-foreground flex items-center gap-2 mb-3">
+                    <Flame className="h-5 w-5 text-accent" />
+                    Your watches
+                  </h2>
+                  <ul className="space-y-1 text-sm text-muted-foreground">
+                    {myWatches.map((slot) => (
+                      <li key={slot.id}>
+                        {slot.dayOfWeek}, {formatTime(slot.startTime)} - {formatTime(slot.endTime)} · {slot.title}
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            )}
+
+            {isLoading ? (
+              <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-6">
+                {Array.from({ length: 4 }).map((_, i) => (
+                  <div key={i} className="space-y-3">
+                    <Skeleton className="h-6 w-1/2" />
+                    <Skeleton className="h-24 w-full" />
+                  </div>
+                ))}
+              </div>
+            ) : slots && slots.length > 0 ? (
+              <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-6">
+                {WEEK_DAYS.map((day) => {
+                  const daySlots = slots.filter((slot) => slot.dayOfWeek === day);
+                  if (daySlots.length === 0) return null;
+                  return (
+                    <div key={day} className="space-y-3">
+                      <h2 className="font-display text-xl font-bold text-foreground">{day}</h2>
+                      {daySlots.map(renderSlot)}
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <Card className="border-0 shadow-md max-w-2xl mx-auto">
+                <CardContent className="p-12 text-center">
+                  <Flame className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">The watch roster hasn't been published yet. Check back soon.</p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </section>
+      </main>
+      <Footer />
+    </div>
+  );
+}
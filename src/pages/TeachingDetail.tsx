@@ -0,0 +1,244 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "react-router-dom";
+import {
+  getSermonById,
+  getActiveSermons,
+  getAllSermonSeries,
+  getAllSpeakers,
+} from "@/integrations/firebase/firestore/sermons";
+import { getPassageUrl } from "@/lib/scripture";
+import { getYouTubeEmbedUrl } from "@/lib/youtube";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeft, BookOpen, Calendar, Download, Headphones, Library, SearchX, UserRound } from "lucide-react";
+import { format } from "date-fns";
+
+export default function TeachingDetail() {
+  const { videoId } = useParams<{ videoId: string }>();
+
+  const { data: sermon, isLoading } = useQuery({
+    queryKey: ["teaching", videoId],
+    queryFn: async () => {
+      try {
+        return await getSermonById(videoId!);
+      } catch (error) {
+        // Unpublished teachings are hidden from the public by the security rules
+        if ((error as { code?: string })?.code === "permission-denied") return null;
+        throw error;
+      }
+    },
+    enabled: !!videoId,
+    retry: false,
+  });
+
+  const { data: sermons } = useQuery({
+    queryKey: ["teachings"],
+    queryFn: getActiveSermons,
+  });
+
+  const { data: series } = useQuery({
+    queryKey: ["sermon-series"],
+    queryFn: getAllSermonSeries,
+  });
+
+  const { data: speakers } = useQuery({
+    queryKey: ["speakers"],
+    queryFn: getAllSpeakers,
+  });
+
+  const isPublished = !!sermon && sermon.isActive;
+  const sermonSeries = series?.find((item) => item.id === sermon?.seriesId);
+  const speaker = speakers?.find((item) => item.id === sermon?.speakerId);
+  const preachedOn = sermon?.preachedOn
+    ? sermon.preachedOn instanceof Date
+      ? sermon.preachedOn
+      : sermon.preachedOn.toDate()
+    : null;
+
+  // Oldest first, so a series reads in the order it was preached
+  const seriesSermons = sermonSeries
+    ? (sermons || []).filter((item) => item.seriesId === sermonSeries.id).reverse()
+    : [];
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+      <main className="flex-1">
+        <section className="section-padding bg-background">
+          <div className="container mx-auto max-w-5xl">
+            <Link
+              to="/teachings"
+              className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-6"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              All Teachings
+            </Link>
+
+            {isLoading ? (
+              <div className="space-y-6">
+                <Skeleton className="aspect-video w-full rounded-xl" />
+                <Skeleton className="h-10 w-3/4" />
+                <Skeleton className="h-24 w-full" />
+              </div>
+            ) : !isPublished ? (
+              <Card className="border-0 shadow-md">
+                <CardContent className="py-16 text-center">
+                  <SearchX className="h-14 w-14 text-muted-foreground mx-auto mb-4" />
+                  <h1 className="font-display text-2xl md:text-3xl font-bold text-foreground mb-2">
+                    Teaching not found
+                  </h1>
+                  <p className="text-muted-foreground max-w-md mx-auto mb-6">
+                    This teaching may have been removed or is not published yet.
+                  </p>
+                  <Button asChild>
+                    <Link to="/teachings">Browse the library</Link>
+                  </Button>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="grid lg:grid-cols-3 gap-8">
+                <article className="lg:col-span-2 space-y-6">
+                  {sermon.youtubeVideoId && (
+                    <div className="aspect-video rounded-xl overflow-hidden shadow-md bg-muted">
+                      <iframe
+                        src={getYouTubeEmbedUrl(sermon.youtubeVideoId)}
+                        title={sermon.title}
+                        className="w-full h-full"
+                        allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+                        allowFullScreen
+                      />
+                    </div>
+                  )}
+
+                  {sermon.audioUrl && (
+                    <Card className="border-0 shadow-md">
+                      <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                        <Headphones className="h-5 w-5 text-primary shrink-0" />
+                        <audio controls preload="none" src={sermon.audioUrl} className="w-full" />
+                        <Button variant="outline" size="sm" className="gap-2 shrink-0" asChild>
+                          <a href={sermon.audioUrl} download target="_blank" rel="noopener noreferrer">
+                            <Download className="h-4 w-4" />
+                            Download
+                          </a>
+                        </Button>
+                      </CardContent>
+                    </Card>
+                  )}
+
+                  <header>
+                    {sermonSeries && (
+                      <Link
+                        to={`/teachings?series=${sermonSeries.id}`}
+                        className="inline-flex items-center gap-1 text-sm font-medium text-primary hover:underline mb-2"
+                      >
+                        <Library className="h-4 w-4" />
+                        {sermonSeries.title}
+                      </Link>
+                    )}
+                    <h1 className="font-display text-3xl md:text-4xl font-bold text-foreground mb-3">
+                      {sermon.title}
+                    </h1>
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                      {speaker && (
+                        <Link
+                          to={`/teachings?speaker=${speaker.id}`}
+                          className="flex items-center gap-1 hover:text-foreground"
+                        >
+                          <UserRound className="h-4 w-4" />
+                          {speaker.name}
+                        </Link>
+                      )}
+                      {preachedOn && (
+                        <span className="flex items-center gap-1">
+                          <Calendar className="h-4 w-4" />
+                          {format(preachedOn, "EEEE, d MMMM yyyy")}
+                        </span>
+                      )}
+                    </div>
+                  </header>
+
+                  {sermon.scriptures && sermon.scriptures.length > 0 && (
+                    <div>
+                      <h2 className="font-semibold text-foreground mb-2">Scripture</h2>
+                      <div className="flex flex-wrap gap-2">
+                        {sermon.scriptures.map((reference) => (
+                          <Button key={reference} variant="outline" size="sm" className="gap-2" asChild>
+                            <a href={getPassageUrl(reference)} target="_blank" rel="noopener noreferrer">
+                              <BookOpen className="h-4 w-4" />
+                              {reference}
+                            </a>
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {sermon.description && (
+                    <p className="text-muted-foreground whitespace-pre-line leading-relaxed">{sermon.description}</p>
+                  )}
+
+                  {sermon.topics && sermon.topics.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {sermon.topics.map((topic) => (
+                        <Link key={topic} to={`/teachings?topic=${encodeURIComponent(topic)}`}>
+                          <Badge variant="secondary" className="hover:bg-secondary/80">
+                            {topic}
+                          </Badge>
+                        </Link>
+                      ))}
+                    </div>
+                  )}
+                </article>
+
+                <aside className="space-y-6">
+                  {speaker && (speaker.role || speaker.bio) && (
+                    <Card className="border-0 shadow-md">
+                      <CardContent className="p-6">
+                        <h2 className="font-semibold text-foreground">{speaker.name}</h2>
+                        {speaker.role && <p className="text-sm text-primary mb-2">{speaker.role}</p>}
+                        {speaker.bio && <p className="text-sm text-muted-foreground">{speaker.bio}</p>}
+                      </CardContent>
+                    </Card>
+                  )}
+
+                  {seriesSermons.length > 1 && (
+                    <Card className="border-0 shadow-md">
+                      <CardContent className="p-6">
+                        <h2 className="font-semibold text-foreground mb-1">{sermonSeries!.title}</h2>
+                        <p className="text-sm text-muted-foreground mb-4">
+                          {seriesSermons.length} teachings in this series
+                        </p>
+                        <ol className="space-y-2">
+                          {seriesSermons.map((item, index) => (
+                            <li key={item.id}>
+                              <Link
+                                to={`/teachings/${item.id}`}
+                                className={`flex gap-3 text-sm rounded-md p-2 ${
+                                  item.id === sermon.id
+                                    ? "bg-primary/10 text-primary font-medium"
+                                    : "hover:bg-muted text-foreground"
+                                }`}
+                              >
+                                <span className="text-muted-foreground">{index + 1}.</span>
+                                <span className="line-clamp-2">{item.title}</span>
+                              </Link>
+                            </li>
+                          ))}
+                        </ol>
+                      </CardContent>
+                    </Card>
+                  )}
+                </aside>
+              </div>
+            )}
+          </div>
+        </section>
+      </main>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useSearchParams } from "react-router-dom";
+import { getActiveSermons, getAllSermonSeries, getAllSpeakers } from "@/integrations/firebase/firestore/sermons";
+import { getScriptureBook, sortBooks } from "@/lib/scripture";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, BookOpen, Filter, Headphones, Play, Search, X } from "lucide-react";
+import { format } from "date-fns";
+
+const ALL = "all";
+
+export default function Teachings() {
+  // Filters live in the query string so a filtered library can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const search = searchParams.get("q") || "";
+  const selectedSeries = searchParams.get("series") || ALL;
+  const selectedSpeaker = searchParams.get("speaker") || ALL;
+  const selectedTopic = searchParams.get("topic") || ALL;
+  const selectedBook = searchParams.get("book") || ALL;
+
+  const updateParam = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value && value !== ALL) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  const { data: sermons, isLoading } = useQuery({
+    queryKey: ["teachings"],
+    queryFn: getActiveSermons,
+  });
+
+  const { data: series } = useQuery({
+    queryKey: ["sermon-series"],
+    queryFn: getAllSermonSeries,
+  });
+
+  const { data: speakers } = useQuery({
+    queryKey: ["speakers"],
+    queryFn: getAllSpeakers,
+  });
+
+  const seriesTitles = Object.fromEntries((series || []).map((item) => [item.id, item.title]));
+  const speakerNames = Object.fromEntries((speakers || []).map((item) => [item.id, item.name]));
+
+  // Only offer filter values that at least one teaching uses
+  const filterOptions = useMemo(() => {
+    const all = sermons || [];
+    return {
+      series: (series || []).filter((item) => all.some((sermon) => sermon.seriesId === item.id)),
+      speakers: (speakers || []).filter((item) => all.some((sermon) => sermon.speakerId === item.id)),
+      topics: [...new Set(all.flatMap((sermon) => sermon.topics || []))].sort((a, b) => a.localeCompare(b)),
+      books: sortBooks([
+        ...new Set(
+          all.flatMap((sermon) => (sermon.scriptures || []).map(getScriptureBook).filter((book): book is string => !!book))
+        ),
+      ]),
+    };
+  }, [sermons, series, speakers]);
+
+  const filteredSermons = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return (sermons || []).filter((sermon) => {
+      const matchesSearch =
+        !term ||
+        [sermon.title, sermon.description, ...(sermon.scriptures || []), ...(sermon.topics || [])]
+          .filter(Boolean)
+          .some((text) => text!.toLowerCase().includes(term));
+      const matchesSeries = selectedSeries === ALL || sermon.seriesId === selectedSeries;
+      const matchesSpeaker = selectedSpeaker === ALL || sermon.speakerId === selectedSpeaker;
+      const matchesTopic = selectedTopic === ALL || (sermon.topics || []).includes(selectedTopic);
+      const matchesBook =
+        selectedBook === ALL || (sermon.scriptures || []).some((reference) => getScriptureBook(reference) === selectedBook);
+      return matchesSearch && matchesSeries && matchesSpeaker && matchesTopic && matchesBook;
+    });
+  }, [sermons, search, selectedSeries, selectedSpeaker, selectedTopic, selectedBook]);
+
+  const hasActiveFilters =
+    !!search || [selectedSeries, selectedSpeaker, selectedTopic, selectedBook].some((value) => value !== ALL);
+
+  const clearFilters = () => setSearchParams({}, { replace: true });
+
+  const filterSelects = [
+    {
+      key: "series",
+      value: selectedSeries,
+      placeholder: "All Series",
+      options: filterOptions.series.map((item) => ({ value: item.id!, label: item.title })),
+    },
+    {
+      key: "speaker",
+      value: selectedSpeaker,
+      placeholder: "All Speakers",
+      options: filterOptions.speakers.map((item) => ({ value: item.id!, label: item.name })),
+    },
+    {
+      key: "topic",
+      value: selectedTopic,
+      placeholder: "All Topics",
+      options: filterOptions.topics.map((topic) => ({ value: topic, label: topic })),
+    },
+    {
+      key: "book",
+      value: selectedBook,
+      placeholder: "All Books",
+      options: filterOptions.books.map((book) => ({ value: book, label: book })),
+    },
+  ];
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+      <main className="flex-1">
+        <section className="section-padding bg-background">
+          <div className="container mx-auto">
+            {/* Header */}
+            <div className="text-center mb-8">
+              <Link
+                to="/"
+                className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-4"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                Back to Home
+              </Link>
+              <h1 className="font-display text-3xl md:text-5xl font-bold text-foreground mb-4">
+                Teachings
+              </h1>
+              <p className="text-muted-foreground text-lg max-w-2xl mx-auto">
+                Watch and listen to sermons and teachings, by series, speaker, topic or book of the Bible.
+              </p>
+            </div>
+
+            {/* Filters */}
+            <div className="max-w-6xl mx-auto mb-8">
+              <div className="bg-card border rounded-xl p-4 shadow-sm">
+                <div className="flex flex-col lg:flex-row items-start lg:items-center gap-4">
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <Filter className="h-5 w-5" />
+                    <span className="font-medium">Filters</span>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-3 flex-1">
+                    <div className="relative w-full sm:w-[220px]">
+                      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        value={search}
+                        onChange={(e) => updateParam("q", e.target.value)}
+                        placeholder="Search teachings"
+                        className="pl-9"
+                      />
+                    </div>
+
+                    {filterSelects.map((filter) => (
+                      <Select
+                        key={filter.key}
+                        value={filter.value}
+                        onValueChange={(value) => updateParam(filter.key, value)}
+                      >
+                        <SelectTrigger className="w-[160px]">
+                          <SelectValue placeholder={filter.placeholder} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ALL}>{filter.placeholder}</SelectItem>
+                          {filter.options.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ))}
+
+                    {hasActiveFilters && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={clearFilters}
+                        className="gap-1 text-muted-foreground hover:text-foreground"
+                      >
+                        <X className="h-4 w-4" />
+                        Clear
+                      </Button>
+                    )}
+                  </div>
+
+                  <div className="text-sm text-muted-foreground">
+                    {filteredSermons.length} teaching{filteredSermons.length !== 1 ? "s" : ""}
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Teachings Grid */}
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6 max-w-6xl mx-auto">
+              {isLoading ? (
+                Array.from({ length: 6 }).map((_, i) => (
+                  <Card key={i} className="border-0 shadow-md overflow-hidden">
+                    <Skeleton className="aspect-video w-full" />
+                    <CardContent className="p-6 space-y-3">
+                      <Skeleton className="h-6 w-full" />
+                      <Skeleton className="h-4 w-2/3" />
+                    </CardContent>
+                  </Card>
+                ))
+              ) : filteredSermons.length > 0 ? (
+                filteredSermons.map((sermon) => {
+                  const preachedOn = sermon.preachedOn
+                    ? sermon.preachedOn instanceof Date
+                      ? sermon.preachedOn
+                      : sermon.preachedOn.toDate()
+                    : null;
+                  return (
+                    <Link key={sermon.id} to={`/teachings/${sermon.id}`} className="group">
+                      <Card className="border-0 shadow-md hover:shadow-xl transition-all duration-300 overflow-hidden h-full">
+                        <div className="relative aspect-video bg-muted">
+                          {sermon.youtubeVideoId ? (
+                            <img
+                              src={`https://img.youtube.com/vi/${sermon.youtubeVideoId}/hqdefault.jpg`}
+                              alt={sermon.title}
+                              className="w-full h-full object-cover"
+                              loading="lazy"
+                            />
+                          ) : (
+                            <div className="w-full h-full flex items-center justify-center bg-primary/10">
+                              <Headphones className="h-14 w-14 text-primary" />
+                            </div>
+                          )}
+                          <div className="absolute inset-0 bg-foreground/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+                            <div className="w-14 h-14 rounded-full bg-primary flex items-center justify-center">
+                              <Play className="h-6 w-6 text-primary-foreground ml-1" />
+                            </div>
+                          </div>
+                          {sermon.seriesId && seriesTitles[sermon.seriesId] && (
+                            <Badge className="absolute top-2 left-2">{seriesTitles[sermon.seriesId]}</Badge>
+                          )}
+                        </div>
+                        <CardContent className="p-6">
+                          <h3 className="font-display text-lg font-bold text-foreground mb-1 group-hover:text-primary transition-colors line-clamp-2">
+                            {sermon.title}
+                          </h3>
+                          <p className="text-sm text-muted-foreground mb-3">
+                            {[sermon.speakerId && speakerNames[sermon.speakerId], preachedOn && format(preachedOn, "d MMM yyyy")]
+                              .filter(Boolean)
+                              .join(" • ")}
+                          </p>
+                          {sermon.scriptures && sermon.scriptures.length > 0 && (
+                            <p className="flex items-center gap-1 text-sm text-primary">
+                              <BookOpen className="h-4 w-4" />
+                              <span className="line-clamp-1">{sermon.scriptures.join("; ")}</span>
+                            </p>
+                          )}
+                        </CardContent>
+                      </Card>
+                    </Link>
+                  );
+                })
+              ) : (
+                <div className="col-span-full text-center py-12">
+                  <BookOpen className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground mb-4">
+                    {hasActiveFilters
+                      ? "No teachings match your filters. Try adjusting your selection."
+                      : "No teachings have been published yet. Check back soon!"}
+                  </p>
+                  {hasActiveFilters && (
+                    <Button variant="outline" onClick={clearFilters}>
+                      Clear Filters
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </section>
+      </main>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useSearchParams } from "react-router-dom";
+import { getActiveVideos } from "@/integrations/firebase/firestore/church";
+import {
+  getAllPlaylists,
+  getPlaylistVideos,
+  getVideoCategoryLabel,
+  VIDEO_CATEGORIES,
+} from "@/integrations/firebase/firestore/playlists";
+import { getYouTubeThumbnailUrl } from "@/lib/youtube";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { VideoPlayerModal } from "@/components/videos/VideoPlayerModal";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Filter, Play, Search, Video, X } from "lucide-react";
+
+const ALL = "all";
+
+export default function Videos() {
+  // Filters and the playing video live in the query string so both can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const search = searchParams.get("q") || "";
+  const selectedPlaylist = searchParams.get("playlist") || ALL;
+  const selectedCategory = searchParams.get("category") || ALL;
+  const playingVideoId = searchParams.get("v");
+
+  const updateParam = (key: string, value: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (value && value !== ALL) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  const { data: videos, isLoading } = useQuery({
+    queryKey: ["videos"],
+    queryFn: async () => {
+      const allVideos = await getActiveVideos();
+      // Audio-only teachings have no YouTube video to play
+      return allVideos.filter((video) => video.youtubeVideoId);
+    },
+  });
+
+  const { data: playlists } = useQuery({
+    queryKey: ["video-playlists"],
+    queryFn: getAllPlaylists,
+  });
+
+  const playlist = playlists?.find((item) => item.id === selectedPlaylist);
+
+  // Only offer playlists and categories that have at least one video
+  const filterOptions = useMemo(() => {
+    const all = videos || [];
+    return {
+      playlists: (playlists || []).filter((item) => getPlaylistVideos(all, item.id!).length > 0),
+      categories: VIDEO_CATEGORIES.filter((item) => all.some((video) => video.category === item.value)),
+    };
+  }, [videos, playlists]);
+
+  const filteredVideos = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const source = selectedPlaylist === ALL ? videos || [] : getPlaylistVideos(videos || [], selectedPlaylist);
+    return source.filter((video) => {
+      const matchesSearch =
+        !term || [video.title, video.description].filter(Boolean).some((text) => text!.toLowerCase().includes(term));
+      const matchesCategory = selectedCategory === ALL || video.category === selectedCategory;
+      return matchesSearch && matchesCategory;
+    });
+  }, [videos, search, selectedPlaylist, selectedCategory]);
+
+  // The filtered list doubles as the up next queue
+  const playingIndex = filteredVideos.findIndex((video) => video.id === playingVideoId);
+
+  const hasActiveFilters = !!search || selectedPlaylist !== ALL || selectedCategory !== ALL;
+
+  const clearFilters = () => setSearchParams({}, { replace: true });
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+      <main className="flex-1">
+        <section className="section-padding bg-background">
+          <div className="container mx-auto">
+            {/* Header */}
+            <div className="text-center mb-8">
+              <Link
+                to="/"
+                className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-4"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                Back to Home
+              </Link>
+              <h1 className="font-display text-3xl md:text-5xl font-bold text-foreground mb-4">
+                {playlist?.title || "Videos"}
+              </h1>
+              <p className="text-muted-foreground text-lg max-w-2xl mx-auto">
+                {playlist?.description || "Sermons, worship sessions and event highlights from our YouTube channel."}
+              </p>
+            </div>
+
+            {/* Filters */}
+            <div className="max-w-6xl mx-auto mb-8">
+              <div className="bg-card border rounded-xl p-4 shadow-sm">
+                <div className="flex flex-col lg:flex-row items-start lg:items-center gap-4">
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <Filter className="h-5 w-5" />
+                    <span className="font-medium">Filters</span>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-3 flex-1">
+                    <div className="relative w-full sm:w-[220px]">
+                      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        value={search}
+                        onChange={(e) => updateParam("q", e.target.value)}
+                        placeholder="Search videos"
+                        className="pl-9"
+                      />
+                    </div>
+
+                    <Select value={selectedPlaylist} onValueChange={(value) => updateParam("playlist", value)}>
+                      <SelectTrigger className="w-[180px]">
+                        <SelectValue placeholder="All Playlists" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL}>All Playlists</SelectItem>
+                        {filterOptions.playlists.map((item) => (
+                          <SelectItem key={item.id} value={item.id!}>
+                            {item.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    <Select value={selectedCategory} onValueChange={(value) => updateParam("category", value)}>
+                      <SelectTrigger className="w-[180px]">
+                        <SelectValue placeholder="All Categories" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL}>All Categories</SelectItem>
+                        {filterOptions.categories.map((item) => (
+                          <SelectItem key={item.value} value={item.value}>
+                            {item.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    {hasActiveFilters && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={clearFilters}
+                        className="gap-1 text-muted-foreground hover:text-foreground"
+                      >
+                        <X className="h-4 w-4" />
+                        Clear
+                      </Button>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm text-muted-foreground">
+                      {filteredVideos.length} video{filteredVideos.length !== 1 ? "s" : ""}
+                    </span>
+                    {filteredVideos.length > 0 && (
+                      <Button size="sm" className="gap-2" onClick={() => updateParam("v", filteredVideos[0].id!)}>
+                        <Play className="h-4 w-4" />
+                        Play All
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Videos Grid */}
+            <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6 max-w-6xl mx-auto">
+              {isLoading ? (
+                Array.from({ length: 6 }).map((_, i) => (
+                  <Card key={i} className="border-0 shadow-md overflow-hidden">
+                    <Skeleton className="aspect-video w-full" />
+                    <CardContent className="p-4">
+                      <Skeleton className="h-5 w-3/4" />
+                    </CardContent>
+                  </Card>
+                ))
+              ) : filteredVideos.length > 0 ? (
+                filteredVideos.map((video) => {
+                  const categoryLabel = getVideoCategoryLabel(video.category);
+                  return (
+                    <Card
+                      key={video.id}
+                      className="border-0 shadow-md hover:shadow-xl transition-all duration-300 overflow-hidden group cursor-pointer"
+                      onClick={() => updateParam("v", video.id!)}
+                    >
+                      <div className="relative aspect-video bg-muted overflow-hidden">
+                        <img
+                          src={video.thumbnailUrl || getYouTubeThumbnailUrl(video.youtubeVideoId)}
+                          alt={video.title}
+                          className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                          loading="lazy"
+                        />
+                        <div className="absolute inset-0 bg-foreground/40 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center justify-center">
+                          <div className="w-16 h-16 bg-primary rounded-full flex items-center justify-center shadow-lg">
+                            <Play className="h-8 w-8 text-primary-foreground ml-1" />
+                          </div>
+                        </div>
+                        {categoryLabel && <Badge className="absolute top-2 left-2">{categoryLabel}</Badge>}
+                      </div>
+                      <CardContent className="p-4">
+                        <h3 className="font-semibold text-foreground group-hover:text-primary transition-colors line-clamp-2">
+                          {video.title}
+                        </h3>
+                      </CardContent>
+                    </Card>
+                  );
+                })
+              ) : (
+                <div className="col-span-full text-center py-12">
+                  <Video className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground mb-4">
+                    {hasActiveFilters
+                      ? "No videos match your filters. Try adjusting your selection."
+                      : "No videos available yet. Check back soon!"}
+                  </p>
+                  {hasActiveFilters && (
+                    <Button variant="outline" onClick={clearFilters}>
+                      Clear Filters
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </section>
+      </main>
+      <Footer />
+
+      <VideoPlayerModal
+        videos={filteredVideos}
+        index={playingIndex >= 0 ? playingIndex : null}
+        onIndexChange={(index) => updateParam("v", index !== null ? filteredVideos[index].id! : null)}
+        queueTitle={playlist ? `Up next in ${playlist.title}` : undefined}
+      />
+    </div>
+  );
+}
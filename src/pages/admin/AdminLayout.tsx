@@ -4,7 +4,9 @@ import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
 import { useQuery } from "@tanstack/react-query";
 import { usePendingRequests } from "@/hooks/usePendingRequests";
 import { getUserProfile } from "@/integrations/firebase/firestore/users";
-import { getContactSubmissions } from "@/integrations/firebase/firestore/church";
+import { getContactSubmissions, getPrayerRequests } from "@/integrations/firebase/firestore/church";
+import { getContactRouting, getRoutedCategories, isMessageForAdmin } from "@/integrations/firebase/firestore/messages";
+import { Capability } from "@/lib/permissions";
 import { Button } from "@/components/ui/button";
 import { 
   LayoutDashboard, 
@@ -19,7 +21,12 @@ import {
   Home,
   UserCog,
   Image,
-  User
+  User,
+  HandHeart,
+  Flame,
+  Radio,
+  Inbox,
+  ShieldOff
 } from "lucide-react";
 import { useState } from "react";
 import { cn } from "@/lib/utils";
@@ -30,8 +37,11 @@ interface NavItem {
   name: string;
   href: string;
   icon: React.ComponentType<{ className?: string }>;
+  capability?: Capability; // Hidden, and the page blocked, without it
   showMessageBadge?: boolean;
+  showMyMessagesBadge?: boolean;
   showAdminBadge?: boolean;
+  showPrayerBadge?: boolean;
   separator?: "top" | "bottom" | "both";
 }
 
@@ -45,22 +55,32 @@ const profileItem: NavItem = {
 
 const navItems: NavItem[] = [
   { name: "Dashboard", href: "/admin", icon: LayoutDashboard },
-  { name: "Events", href: "/admin/events", icon: Calendar },
-  { name: "Videos", href: "/admin/videos", icon: Video },
-  { name: "Gallery", href: "/admin/gallery", icon: Image },
-  { name: "Messages", href: "/admin/messages", icon: MessageSquare, showMessageBadge: true },
-  { name: "Admins", href: "/admin/admins", icon: UserCog, showAdminBadge: true },
-  { name: "Settings", href: "/admin/settings", icon: Settings },
+  { name: "Events", href: "/admin/events", icon: Calendar, capability: "events.write" },
+  { name: "Videos", href: "/admin/videos", icon: Video, capability: "videos.write" },
+  { name: "Livestreams", href: "/admin/livestreams", icon: Radio, capability: "videos.write" },
+  { name: "Gallery", href: "/admin/gallery", icon: Image, capability: "gallery.write" },
+  { name: "Messages", href: "/admin/messages", icon: MessageSquare, capability: "messages.read", showMessageBadge: true },
+  { name: "My Messages", href: "/admin/messages/mine", icon: Inbox, capability: "messages.read", showMyMessagesBadge: true },
+  { name: "Prayer Requests", href: "/admin/prayer-requests", icon: HandHeart, capability: "prayer.moderate", showPrayerBadge: true },
+  { name: "Prayer Watch", href: "/admin/roster", icon: Flame, capability: "prayer.moderate" },
+  { name: "Admins", href: "/admin/admins", icon: UserCog, capability: "admins.manage", showAdminBadge: true },
+  { name: "Settings", href: "/admin/settings", icon: Settings, capability: "settings.write" },
 ];
 
+// The most specific nav item covering a path decides which capability the page needs
+const getRequiredCapability = (pathname: string) =>
+  navItems
+    .filter((item) => pathname === item.href || pathname.startsWith(`${item.href}/`))
+    .sort((a, b) => b.href.length - a.href.length)[0]?.capability;
+
 export default function AdminLayout() {
-  const { user, isAdmin, isLoading, signOut } = useFirebaseAuth();
+  const { user, isAdmin, can, isLoading, signOut } = useFirebaseAuth();
   const navigate = useNavigate();
   const location = useLocation();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
   // Fetch pending admin requests count with realtime
-  const { pendingCount } = usePendingRequests();
+  const { pendingCount } = usePendingRequests(can("admins.manage"));
 
   // Fetch admin profile for avatar
   const { data: profile } = useQuery({
@@ -82,16 +102,58 @@ export default function AdminLayout() {
     enabled: !!user?.uid,
   });
 
-  // Fetch unread messages count
-  const { data: unreadCount = 0 } = useQuery({
-    queryKey: ["unread-messages-count"],
+  // Fetch unread messages
+  const { data: unreadMessages = [] } = useQuery({
+    queryKey: ["unread-messages"],
+    queryFn: () => getContactSubmissions(true), // true = only unread
+    refetchInterval: 30000, // Refetch every 30 seconds
+    enabled: can("messages.read"),
+  });
+
+  // Categories a super admin has routed to this admin
+  const { data: contactRouting } = useQuery({
+    queryKey: ["contact-routing"],
+    queryFn: getContactRouting,
+    enabled: can("messages.read"),
+  });
+
+  const unreadCount = unreadMessages.length;
+  const routedCategories = getRoutedCategories(contactRouting, user?.uid);
+  const myUnreadCount = unreadMessages.filter((message) =>
+    isMessageForAdmin(message, user?.uid, routedCategories)
+  ).length;
+
+  // Fetch prayer requests awaiting moderation
+  const { data: pendingPrayerCount = 0 } = useQuery({
+    queryKey: ["pending-prayer-count"],
     queryFn: async () => {
-      const submissions = await getContactSubmissions(true); // true = only unread
-      return submissions.length;
+      const requests = await getPrayerRequests("pending");
+      return requests.length;
     },
-    refetchInterval: 30000, // Refetch every 30 seconds
+    refetchInterval: 30000,
+    enabled: can("prayer.moderate"),
   });
 
+  const visibleNavItems = navItems.filter((item) => !item.capability || can(item.capability));
+  const requiredCapability = getRequiredCapability(location.pathname);
+
+  // Badge count and colour for a nav item, if it has one
+  const getBadge = (item: NavItem) => {
+    if (item.showMessageBadge && unreadCount > 0) {
+      return { count: unreadCount, dotClass: "bg-destructive", pillClass: "bg-destructive text-destructive-foreground" };
+    }
+    if (item.showMyMessagesBadge && myUnreadCount > 0) {
+      return { count: myUnreadCount, dotClass: "bg-primary", pillClass: "bg-primary text-primary-foreground" };
+    }
+    if (item.showPrayerBadge && pendingPrayerCount > 0) {
+      return { count: pendingPrayerCount, dotClass: "bg-accent", pillClass: "bg-accent text-accent-foreground" };
+    }
+    if (item.showAdminBadge && pendingCount > 0) {
+      return { count: pendingCount, dotClass: "bg-amber-500", pillClass: "bg-amber-500 text-white" };
+    }
+    return null;
+  };
+
   const TITLES: Record<string, string> = {
     mr: "Mr",
     mrs: "Mrs",
@@ -159,12 +221,15 @@ export default function AdminLayout() {
             Access Denied
           </h1>
           <p className="text-muted-foreground mb-6">
-            You don't have admin privileges. Please contact the church administrator to request access.
+            You don't have admin privileges. Request access and an administrator will review it.
           </p>
           <div className="flex gap-4 justify-center">
             <Button variant="outline" asChild>
               <Link to="/">Go to Homepage</Link>
             </Button>
+            <Button asChild>
+              <Link to="/admin-request">Request Access</Link>
+            </Button>
             <Button variant="destructive" onClick={() => signOut()}>
               Sign Out
             </Button>
@@ -217,40 +282,35 @@ export default function AdminLayout() {
               </Link>
             </div>
 
-            {navItems.map((item) => (
-              <Link
-                key={item.name}
-                to={item.href}
-                onClick={() => setIsMobileMenuOpen(false)}
-                className={cn(
-                  "flex items-center gap-3 px-4 py-2 rounded-lg transition-colors relative",
-                  location.pathname === item.href
-                    ? "bg-primary text-primary-foreground"
-                    : "hover:bg-muted"
-                )}
-              >
-                <div className="relative">
-                  <item.icon className="h-5 w-5" />
-                  {item.showMessageBadge && unreadCount > 0 && (
-                    <span className="absolute -top-1 -right-1 h-2.5 w-2.5 bg-destructive rounded-full animate-pulse" />
+            {visibleNavItems.map((item) => {
+              const badge = getBadge(item);
+              return (
+                <Link
+                  key={item.name}
+                  to={item.href}
+                  onClick={() => setIsMobileMenuOpen(false)}
+                  className={cn(
+                    "flex items-center gap-3 px-4 py-2 rounded-lg transition-colors relative",
+                    location.pathname === item.href
+                      ? "bg-primary text-primary-foreground"
+                      : "hover:bg-muted"
                   )}
-                  {item.showAdminBadge && pendingCount > 0 && (
-                    <span className="absolute -top-1 -right-1 h-2.5 w-2.5 bg-amber-500 rounded-full animate-pulse" />
+                >
+                  <div className="relative">
+                    <item.icon className="h-5 w-5" />
+                    {badge && (
+                      <span className={cn("absolute -top-1 -right-1 h-2.5 w-2.5 rounded-full animate-pulse", badge.dotClass)} />
+                    )}
+                  </div>
+                  {item.name}
+                  {badge && (
+                    <span className={cn("ml-auto text-xs font-medium px-1.5 py-0.5 rounded-full", badge.pillClass)}>
+                      {badge.count}
+                    </span>
                   )}
-                </div>
-                {item.name}
-                {item.showMessageBadge && unreadCount > 0 && (
-                  <span className="ml-auto bg-destructive text-destructive-foreground text-xs font-medium px-1.5 py-0.5 rounded-full">
-                    {unreadCount}
-                  </span>
-                )}
-                {item.showAdminBadge && pendingCount > 0 && (
-                  <span className="ml-auto bg-amber-500 text-white text-xs font-medium px-1.5 py-0.5 rounded-full">
-                    {pendingCount}
-                  </span>
-                )}
-              </Link>
-            ))}
+                </Link>
+              );
+            })}
             <hr className="my-4" />
             <Link
               to="/"
@@ -307,39 +367,34 @@ export default function AdminLayout() {
                 </Link>
               </div>
 
-              {navItems.map((item) => (
-                <Link
-                  key={item.name}
-                  to={item.href}
-                  className={cn(
-                    "flex items-center gap-3 px-4 py-2.5 rounded-lg transition-colors relative",
-                    location.pathname === item.href
-                      ? "bg-primary text-primary-foreground"
-                      : "hover:bg-muted text-muted-foreground hover:text-foreground"
-                  )}
-                >
-                  <div className="relative">
-                    <item.icon className="h-5 w-5" />
-                    {item.showMessageBadge && unreadCount > 0 && (
-                      <span className="absolute -top-1 -right-1 h-2.5 w-2.5 bg-destructive rounded-full animate-pulse" />
+              {visibleNavItems.map((item) => {
+                const badge = getBadge(item);
+                return (
+                  <Link
+                    key={item.name}
+                    to={item.href}
+                    className={cn(
+                      "flex items-center gap-3 px-4 py-2.5 rounded-lg transition-colors relative",
+                      location.pathname === item.href
+                        ? "bg-primary text-primary-foreground"
+                        : "hover:bg-muted text-muted-foreground hover:text-foreground"
                     )}
-                    {item.showAdminBadge && pendingCount > 0 && (
-                      <span className="absolute -top-1 -right-1 h-2.5 w-2.5 bg-amber-500 rounded-full animate-pulse" />
+                  >
+                    <div className="relative">
+                      <item.icon className="h-5 w-5" />
+                      {badge && (
+                        <span className={cn("absolute -top-1 -right-1 h-2.5 w-2.5 rounded-full animate-pulse", badge.dotClass)} />
+                      )}
+                    </div>
+                    {item.name}
+                    {badge && (
+                      <span className={cn("ml-auto text-xs font-medium px-1.5 py-0.5 rounded-full", badge.pillClass)}>
+                        {badge.count}
+                      </span>
                     )}
-                  </div>
-                  {item.name}
-                  {item.showMessageBadge && unreadCount > 0 && (
-                    <span className="ml-auto bg-destructive text-destructive-foreground text-xs font-medium px-1.5 py-0.5 rounded-full">
-                      {unreadCount}
-                    </span>
-                  )}
-                  {item.showAdminBadge && pendingCount > 0 && (
-                    <span className="ml-auto bg-amber-500 text-white text-xs font-medium px-1.5 py-0.5 rounded-full">
-                      {pendingCount}
-                    </span>
-                  )}
-                </Link>
-              ))}
+                  </Link>
+                );
+              })}
             </nav>
 
             {/* Bottom */}
@@ -365,7 +420,24 @@ export default function AdminLayout() {
         {/* Main Content */}
         <main className="lg:pl-64 flex-1">
           <div className="p-6 lg:p-8">
-            <Outlet />
+            {requiredCapability && !can(requiredCapability) ? (
+              <div className="text-center max-w-md mx-auto py-16">
+                <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+                  <ShieldOff className="h-8 w-8 text-muted-foreground" />
+                </div>
+                <h1 className="font-display text-2xl font-bold text-foreground mb-2">
+                  Not Part of Your Role
+                </h1>
+                <p className="text-muted-foreground mb-6">
+                  Your role doesn't include this page. Ask an administrator if you need access.
+                </p>
+                <Button variant="outline" asChild>
+                  <Link to="/admin">Back to Dashboard</Link>
+                </Button>
+              </div>
+            ) : (
+              <Outlet />
+            )}
           </div>
         </main>
       </div>
@@ -1,10 +1,24 @@
 import { useState, useEffect } from "react";
-import { getAllAdmins, getUsersByRole, getUserProfile, getPendingAdminRequests, approveAdminRequest, denyAdminRequest } from "@/integrations/firebase/firestore/users";
+import { getAllAdmins, getUsersByRole, getUserProfile, getPendingAdminRequests, approveAdminRequest, denyAdminRequest, setUserRole } from "@/integrations/firebase/firestore/users";
+import { getAdminInvitations, AdminInvitation } from "@/integrations/firebase/firestore/invitations";
+import {
+  createAdminInvitation,
+  deleteUser,
+  resendAdminInvitation,
+  revokeAdminInvitation,
+  transferOwnership,
+} from "@/integrations/firebase/helpers";
+import { AdminRole, ROLE_BUNDLES, getRoleBundle, getRoleLabel } from "@/lib/permissions";
+import { rejectionReasonSchema } from "@/lib/adminRequests";
+import { INVITATION_EXPIRY_DAYS, INVITATION_STATE_LABELS, InvitationState, getInvitationState } from "@/lib/invitations";
 import { usePendingRequests } from "@/hooks/usePendingRequests";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -34,25 +48,69 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { toast } from "sonner";
-import { Plus, Trash2, UserCog, Loader2, Check, X, Clock, UserPlus } from "lucide-react";
+import { Ban, Crown, Mail, Trash2, UserCog, Loader2, Check, X, Clock, UserPlus, Send } from "lucide-react";
 import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
-import { useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
 
 interface AdminUser {
   id: string;
   userId: string;
   email: string;
+  role: AdminRole;
   createdAt: string;
 }
 
+const invitationStateClasses: Record<InvitationState, string> = {
+  pending: "bg-amber-500/10 text-amber-600",
+  accepted: "bg-green-500/10 text-green-600",
+  revoked: "bg-muted text-muted-foreground",
+  expired: "bg-destructive/10 text-destructive",
+};
+
+const toDate = (value: AdminInvitation["expiresAt"]) => (value instanceof Date ? value : value.toDate());
+
+// Role picker; only super admins can hand out super admin
+function RoleSelect({
+  value,
+  onChange,
+  canAssignSuperAdmin,
+  disabled,
+}: {
+  value: AdminRole;
+  onChange: (role: AdminRole) => void;
+  canAssignSuperAdmin: boolean;
+  disabled?: boolean;
+}) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as AdminRole)} disabled={disabled}>
+      <SelectTrigger className="w-44">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {ROLE_BUNDLES.filter((bundle) => bundle.role !== "super_admin" || canAssignSuperAdmin || value === "super_admin").map(
+          (bundle) => (
+            <SelectItem key={bundle.role} value={bundle.role} title={bundle.description}>
+              {bundle.label}
+            </SelectItem>
+          )
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
+
 export default function Admins() {
   const [admins, setAdmins] = useState<AdminUser[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
-  const [newAdminEmail, setNewAdminEmail] = useState("");
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isInviteDialogOpen, setIsInviteDialogOpen] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<AdminRole>("editor");
   const [processingId, setProcessingId] = useState<string | null>(null);
-  const { user } = useFirebaseAuth();
+  const [approvalRoles, setApprovalRoles] = useState<Record<string, AdminRole>>({});
+  const [rejectionReasons, setRejectionReasons] = useState<Record<string, string>>({});
+  const { user, role: currentRole } = useFirebaseAuth();
+  const isSuperAdmin = currentRole === "super_admin";
   const queryClient = useQueryClient();
   const { pendingRequests, pendingCount, refetch: refetchPending } = usePendingRequests();
 
@@ -72,6 +130,7 @@ export default function Admins() {
             id: role.userId,
             userId: role.userId,
             email: profile?.email || role.userId,
+            role: role.role as AdminRole,
             createdAt: role.assignedAt instanceof Date 
               ? role.assignedAt.toISOString() 
               : (role.assignedAt as any).toDate().toISOString(),
@@ -88,35 +147,48 @@ export default function Admins() {
     }
   };
 
-  const handleAddAdmin = async (e: React.FormEvent) => {
+  const { data: invitations = [], isLoading: isInvitationsLoading } = useQuery({
+    queryKey: ["admin-invitations"],
+    queryFn: getAdminInvitations,
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async (action: { type: "create" } | { type: "resend" | "revoke"; invitationId: string }) => {
+      const result =
+        action.type === "create"
+          ? await createAdminInvitation(inviteEmail, inviteRole)
+          : action.type === "resend"
+            ? await resendAdminInvitation(action.invitationId)
+            : await revokeAdminInvitation(action.invitationId);
+      if (!result.success) throw new Error(result.error);
+      return result;
+    },
+    onSuccess: (result, action) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-invitations"] });
+      if (action.type === "revoke") {
+        toast.success("Invitation revoked");
+        return;
+      }
+      if (result.emailed) {
+        toast.success(action.type === "create" ? `Invitation sent to ${inviteEmail}` : "Invitation sent again");
+      } else {
+        toast.warning("Invitation saved, but the invitation email template is turned off in Settings");
+      }
+      if (action.type === "create") {
+        setInviteEmail("");
+        setIsInviteDialogOpen(false);
+      }
+    },
+    onError: (error: Error) => toast.error(error.message || "Failed to update the invitation"),
+  });
+
+  const handleInvite = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newAdminEmail.trim() || !user?.uid) {
+    if (!inviteEmail.trim()) {
       toast.error("Please enter an email address");
       return;
     }
-
-    setIsSubmitting(true);
-    try {
-      // In Firebase, we need to search for user by email in the users collection
-      // This is a simplified version - you may need to implement a cloud function
-      // to search users by email since Firebase doesn't provide this directly
-      toast.error("Please ask the user to request admin access through the sign-up page");
-      setIsSubmitting(false);
-      return;
-
-      // Alternatively, if you have implemented a cloud function to add admins:
-      // await setUserRole(userId, 'admin', user.uid);
-      // toast.success("Admin added successfully");
-      // setNewAdminEmail("");
-      // setIsAddDialogOpen(false);
-      // fetchAdmins();
-    } catch (error: unknown) {
-      const errMessage = error instanceof Error ? error.message : "Failed to add admin";
-      toast.error(errMessage);
-      console.error(error);
-    } finally {
-      setIsSubmitting(false);
-    }
+    inviteMutation.mutate({ type: "create" });
   };
 
   const handleRemoveAdmin = async (adminId: string, adminUserId: string) => {
@@ -127,19 +199,10 @@ export default function Admins() {
 
     setProcessingId(adminId);
     try {
-      // Call Netlify function to completely delete the user from the system
-      const response = await fetch("/.netlify/functions/delete-user", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ userId: adminUserId }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || "Failed to remove user");
+      // The delete-user function also removes the Auth account, and refuses to remove the last super admin
+      const result = await deleteUser(adminUserId);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to remove user");
       }
 
       toast.success("User completely removed from system");
@@ -153,14 +216,51 @@ export default function Admins() {
     }
   };
 
+  const handleTransferOwnership = async (admin: AdminUser) => {
+    setProcessingId(admin.id);
+    try {
+      const result = await transferOwnership(admin.userId);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to transfer ownership");
+      }
+
+      toast.success(`${admin.email} is now the super admin. You are now an admin.`);
+      fetchAdmins();
+    } catch (error: unknown) {
+      const errMessage = error instanceof Error ? error.message : "Failed to transfer ownership";
+      toast.error(errMessage);
+      console.error(error);
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleChangeRole = async (admin: AdminUser, role: AdminRole) => {
+    if (!user?.uid || role === admin.role) return;
+
+    setProcessingId(admin.id);
+    try {
+      await setUserRole(admin.userId, role);
+      toast.success(`${admin.email} is now ${getRoleBundle(role)?.label}`);
+      fetchAdmins();
+    } catch (error: unknown) {
+      const errMessage = error instanceof Error ? error.message : "Failed to change role";
+      toast.error(errMessage);
+      console.error(error);
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
   const handleApproveRequest = async (requestId: string, userId: string, email: string) => {
     if (!user?.uid) return;
     
+    const role = approvalRoles[requestId] || "admin";
     setProcessingId(requestId);
     try {
-      await approveAdminRequest(requestId, userId, user.uid);
+      await approveAdminRequest(userId, role);
 
-      toast.success(`${email} has been approved as admin`);
+      toast.success(`${email} has been approved as ${getRoleBundle(role)?.label}`);
       refetchPending();
       fetchAdmins();
       queryClient.invalidateQueries({ queryKey: ["pending-admin-requests"] });
@@ -174,24 +274,17 @@ export default function Admins() {
   };
 
   const handleRejectRequest = async (requestId: string, userId: string, email: string) => {
+    const reason = rejectionReasonSchema.safeParse(rejectionReasons[requestId] || "");
+    if (!reason.success) {
+      toast.error(reason.error.errors[0].message);
+      return;
+    }
+
     setProcessingId(requestId);
     try {
-      // Completely delete the user from the system via Netlify function
-      const response = await fetch("/.netlify/functions/delete-user", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ userId }),
-      });
+      await denyAdminRequest(userId, reason.data);
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || "Failed to reject request");
-      }
-
-      toast.success(`Request from ${email} has been rejected and user removed`);
+      toast.success(`Request from ${email} has been rejected`);
       refetchPending();
       queryClient.invalidateQueries({ queryKey: ["pending-admin-requests"] });
     } catch (error: unknown) {
@@ -211,58 +304,60 @@ export default function Admins() {
             Admin Management
           </h1>
           <p className="text-muted-foreground">
-            Manage administrator access and approve new requests
+            Invite administrators, approve requests and manage roles
           </p>
         </div>
 
-        <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+        <Dialog open={isInviteDialogOpen} onOpenChange={setIsInviteDialogOpen}>
           <DialogTrigger asChild>
             <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Admin
+              <UserPlus className="h-4 w-4 mr-2" />
+              Invite Admin
             </Button>
           </DialogTrigger>
           <DialogContent>
             <DialogHeader>
-              <DialogTitle>Add New Admin</DialogTitle>
+              <DialogTitle>Invite an Admin</DialogTitle>
               <DialogDescription>
-                Enter the email address of the person you want to grant admin access.
-                They must have an existing account.
+                We'll email a link that gives this role to whoever signs in with the address. It works once and
+                expires after {INVITATION_EXPIRY_DAYS} days.
               </DialogDescription>
             </DialogHeader>
-            <form onSubmit={handleAddAdmin}>
+            <form onSubmit={handleInvite}>
               <div className="space-y-4 py-4">
                 <div className="space-y-2">
-                  <Label htmlFor="user-email">Email Address</Label>
+                  <Label htmlFor="invite-email">Email Address</Label>
                   <Input
-                    id="user-email"
+                    id="invite-email"
                     type="email"
                     placeholder="e.g., user@example.com"
-                    value={newAdminEmail}
-                    onChange={(e) => setNewAdminEmail(e.target.value)}
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
                     required
                   />
-                  <p className="text-xs text-muted-foreground">
-                    The user must sign up first before you can add them as an admin.
-                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label>Role</Label>
+                  <RoleSelect value={inviteRole} onChange={setInviteRole} canAssignSuperAdmin={isSuperAdmin} />
+                  <p className="text-xs text-muted-foreground">{getRoleBundle(inviteRole)?.description}</p>
                 </div>
               </div>
               <DialogFooter>
                 <Button
                   type="button"
                   variant="outline"
-                  onClick={() => setIsAddDialogOpen(false)}
+                  onClick={() => setIsInviteDialogOpen(false)}
                 >
                   Cancel
                 </Button>
-                <Button type="submit" disabled={isSubmitting}>
-                  {isSubmitting ? (
+                <Button type="submit" disabled={inviteMutation.isPending}>
+                  {inviteMutation.isPending ? (
                     <>
                       <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                      Adding...
+                      Sending...
                     </>
                   ) : (
-                    "Add Admin"
+                    "Send Invitation"
                   )}
                 </Button>
               </DialogFooter>
@@ -282,6 +377,7 @@ export default function Admins() {
             )}
           </TabsTrigger>
           <TabsTrigger value="admins">Current Admins</TabsTrigger>
+          <TabsTrigger value="invitations">Invitations</TabsTrigger>
         </TabsList>
 
         <TabsContent value="pending" className="mt-4">
@@ -291,28 +387,52 @@ export default function Admins() {
                 <Clock className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                 <h3 className="font-medium text-foreground mb-1">No pending requests</h3>
                 <p className="text-sm text-muted-foreground">
-                  New sign-up requests will appear here for your approval
+                  New requests for admin access will appear here for your approval
                 </p>
               </div>
             ) : (
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Email</TableHead>
+                    <TableHead>Requester</TableHead>
+                    <TableHead>Ministry &amp; Reason</TableHead>
                     <TableHead>Requested On</TableHead>
+                    <TableHead>Role</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {pendingRequests.map((request) => (
                     <TableRow key={request.id}>
-                      <TableCell className="font-medium">{request.email}</TableCell>
                       <TableCell>
-                        {new Date(request.createdAt instanceof Date ? request.createdAt : (request.createdAt as any).toDate()).toLocaleDateString()} at{" "}
-                        {new Date(request.createdAt instanceof Date ? request.createdAt : (request.createdAt as any).toDate()).toLocaleTimeString([], {
-                          hour: "2-digit",
-                          minute: "2-digit",
-                        })}
+                        <p className="font-medium">{request.displayName || request.email}</p>
+                        {request.displayName && <p className="text-xs text-muted-foreground">{request.email}</p>}
+                      </TableCell>
+                      <TableCell className="max-w-sm">
+                        {request.ministry ? (
+                          <>
+                            <p className="font-medium">{request.ministry}</p>
+                            <p className="text-xs text-muted-foreground whitespace-pre-line line-clamp-3" title={request.justification}>
+                              {request.justification}
+                            </p>
+                          </>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">Not given</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {format(request.createdAt, "d MMM yyyy 'at' HH:mm")}
+                        {request.expiresAt && (
+                          <p className="text-xs text-muted-foreground">Expires {format(request.expiresAt, "d MMM yyyy")}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <RoleSelect
+                          value={approvalRoles[request.id] || "admin"}
+                          onChange={(role) => setApprovalRoles((prev) => ({ ...prev, [request.id]: role }))}
+                          canAssignSuperAdmin={isSuperAdmin}
+                          disabled={processingId === request.id}
+                        />
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
@@ -348,17 +468,28 @@ export default function Admins() {
                               <AlertDialogHeader>
                                 <AlertDialogTitle>Reject Request</AlertDialogTitle>
                                 <AlertDialogDescription>
-                                  Are you sure you want to reject the admin request from{" "}
-                                  <strong>{request.email}</strong>? They will not be able to
-                                  access the admin panel.
+                                  Reject the admin request from <strong>{request.email}</strong>? We'll
+                                  email them your reason, and they can ask again later.
                                 </AlertDialogDescription>
                               </AlertDialogHeader>
+                              <div className="space-y-2">
+                                <Label htmlFor={`reason-${request.id}`}>Reason</Label>
+                                <Textarea
+                                  id={`reason-${request.id}`}
+                                  rows={3}
+                                  placeholder="e.g., Please speak to your ministry leader first."
+                                  value={rejectionReasons[request.id] || ""}
+                                  onChange={(e) =>
+                                    setRejectionReasons((prev) => ({ ...prev, [request.id]: e.target.value }))
+                                  }
+                                />
+                              </div>
                               <AlertDialogFooter>
                                 <AlertDialogCancel>Cancel</AlertDialogCancel>
                                 <AlertDialogAction
                                   onClick={(e) => {
                                     e.preventDefault();
-                                    handleRejectRequest(request.id || '', request.userId, request.email);
+                                    handleRejectRequest(request.id, request.userId, request.email);
                                   }}
                                   className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
                                 >
@@ -388,7 +519,7 @@ export default function Admins() {
                 <UserCog className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                 <h3 className="font-medium text-foreground mb-1">No admins found</h3>
                 <p className="text-sm text-muted-foreground">
-                  Add an admin to get started
+                  Invite an admin to get started
                 </p>
               </div>
             ) : (
@@ -396,6 +527,7 @@ export default function Admins() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
                     <TableHead>Added On</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
@@ -409,10 +541,51 @@ export default function Admins() {
                           <span className="ml-2 text-xs text-muted-foreground">(You)</span>
                         )}
                       </TableCell>
+                      <TableCell>
+                        <RoleSelect
+                          value={admin.role}
+                          onChange={(role) => handleChangeRole(admin, role)}
+                          canAssignSuperAdmin={isSuperAdmin}
+                          disabled={
+                            admin.userId === user?.uid ||
+                            processingId === admin.id ||
+                            (admin.role === "super_admin" && !isSuperAdmin)
+                          }
+                        />
+                      </TableCell>
                       <TableCell>
                         {new Date(admin.createdAt).toLocaleDateString()}
                       </TableCell>
                       <TableCell className="text-right">
+                        {isSuperAdmin && admin.userId !== user?.uid && admin.role !== "super_admin" && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Transfer ownership"
+                                disabled={processingId === admin.id}
+                              >
+                                <Crown className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Transfer Ownership</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  {admin.email} will become a super admin and you will become an admin. Only a
+                                  super admin can give super admin access back to you.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleTransferOwnership(admin)}>
+                                  Transfer Ownership
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
                             <Button
@@ -459,6 +632,109 @@ export default function Admins() {
             )}
           </div>
         </TabsContent>
+
+        <TabsContent value="invitations" className="mt-4">
+          <div className="bg-background rounded-lg border">
+            {isInvitationsLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+              </div>
+            ) : invitations.length === 0 ? (
+              <div className="text-center py-12">
+                <Mail className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="font-medium text-foreground mb-1">No invitations yet</h3>
+                <p className="text-sm text-muted-foreground">
+                  Invitations you send will appear here until they are accepted
+                </p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Invited By</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invitations.map((invitation) => {
+                    const expiresAt = toDate(invitation.expiresAt);
+                    const state = getInvitationState(invitation.status, expiresAt);
+                    const isProcessing =
+                      inviteMutation.isPending &&
+                      inviteMutation.variables?.type !== "create" &&
+                      inviteMutation.variables?.invitationId === invitation.id;
+                    const canManage = invitation.role !== "super_admin" || isSuperAdmin;
+
+                    return (
+                      <TableRow key={invitation.id}>
+                        <TableCell className="font-medium">{invitation.email}</TableCell>
+                        <TableCell>{getRoleLabel(invitation.role)}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary" className={invitationStateClasses[state]}>
+                            {INVITATION_STATE_LABELS[state]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{invitation.invitedByName}</TableCell>
+                        <TableCell>{invitation.status === "pending" ? format(expiresAt, "d MMM yyyy") : "-"}</TableCell>
+                        <TableCell className="text-right">
+                          {invitation.status === "pending" && canManage && (
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => inviteMutation.mutate({ type: "resend", invitationId: invitation.id! })}
+                                disabled={isProcessing}
+                              >
+                                {isProcessing && inviteMutation.variables?.type === "resend" ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <>
+                                    <Send className="h-4 w-4 mr-1" />
+                                    Resend
+                                  </>
+                                )}
+                              </Button>
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button size="sm" variant="destructive" disabled={isProcessing}>
+                                    <Ban className="h-4 w-4 mr-1" />
+                                    Revoke
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Revoke Invitation</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      The link sent to <strong>{invitation.email}</strong> will stop working. You can
+                                      invite them again later.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction
+                                      onClick={() => inviteMutation.mutate({ type: "revoke", invitationId: invitation.id! })}
+                                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                    >
+                                      Revoke Invitation
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </TabsContent>
       </Tabs>
     </div>
   );
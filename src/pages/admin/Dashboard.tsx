@@ -1,10 +1,22 @@
 import { useQuery } from "@tanstack/react-query";
 import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
 import { getUserProfile } from "@/integrations/firebase/firestore/users";
-import { getActiveEvents, getActiveVideos, getContactSubmissions } from "@/integrations/firebase/firestore/church";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Calendar, Video, MessageSquare, Users } from "lucide-react";
+import { getEventOccurrences } from "@/integrations/firebase/firestore/church";
+import {
+  countEvents,
+  countVideos,
+  countUnreadMessages,
+  countGalleryImages,
+  getMessageCountsByWeek,
+  getGalleryUploadCountsByMonth,
+} from "@/integrations/firebase/firestore/stats";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Calendar, Video, MessageSquare, Users, Image } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Capability } from "@/lib/permissions";
+import { addDays, addMonths, addWeeks, format, startOfMonth, startOfWeek } from "date-fns";
 
 const TITLES: Record<string, string> = {
   mr: "Mr",
@@ -18,8 +30,32 @@ const TITLES: Record<string, string> = {
   elder: "Elder",
 };
 
+// How much history each trend chart shows
+const MESSAGE_WEEKS = 8;
+const UPLOAD_MONTHS = 6;
+const UPCOMING_DAYS = 30;
+
+const messagesChartConfig = {
+  count: { label: "Messages", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const eventsChartConfig = {
+  count: { label: "Events", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+const uploadsChartConfig = {
+  count: { label: "Uploads", color: "hsl(142 71% 45%)" },
+} satisfies ChartConfig;
+
+// Consecutive buckets ending with the current period
+const buildBuckets = (count: number, periodStart: Date, step: (date: Date, amount: number) => Date) =>
+  Array.from({ length: count }, (_, i) => {
+    const start = step(periodStart, i - count + 1);
+    return { start, end: step(start, 1) };
+  });
+
 export default function AdminDashboard() {
-  const { user } = useFirebaseAuth();
+  const { user, can } = useFirebaseAuth();
 
   // Fetch admin profile for personalized welcome
   const { data: profile } = useQuery({
@@ -38,41 +74,68 @@ export default function AdminDashboard() {
 
   const { data: eventsCount, isLoading: eventsLoading } = useQuery({
     queryKey: ["admin-events-count"],
-    queryFn: async () => {
-      const { count, error } = await supabase
-        .from("events")
-        .select("*", { count: "exact", head: true });
-
-      if (error) throw error;
-      return count || 0;
-    },
+    queryFn: countEvents,
+    enabled: can("events.write"),
   });
 
   const { data: videosCount, isLoading: videosLoading } = useQuery({
     queryKey: ["admin-videos-count"],
-    queryFn: async () => {
-      const { count, error } = await supabase
-        .from("videos")
-        .select("*", { count: "exact", head: true });
-
-      if (error) throw error;
-      return count || 0;
-    },
+    queryFn: countVideos,
+    enabled: can("videos.write"),
   });
 
   const { data: messagesCount, isLoading: messagesLoading } = useQuery({
     queryKey: ["admin-messages-count"],
+    queryFn: countUnreadMessages,
+    enabled: can("messages.read"),
+  });
+
+  const { data: imagesCount, isLoading: imagesLoading } = useQuery({
+    queryKey: ["admin-gallery-images-count"],
+    queryFn: countGalleryImages,
+    enabled: can("gallery.write"),
+  });
+
+  const { data: messagesByWeek, isLoading: messagesByWeekLoading } = useQuery({
+    queryKey: ["admin-messages-by-week"],
     queryFn: async () => {
-      const { count, error } = await supabase
-        .from("contact_submissions")
-        .select("*", { count: "exact", head: true })
-        .eq("is_read", false);
+      const buckets = buildBuckets(MESSAGE_WEEKS, startOfWeek(new Date(), { weekStartsOn: 1 }), addWeeks);
+      const counts = await getMessageCountsByWeek(buckets);
+      return counts.map(({ start, count }) => ({ label: format(start, "d MMM"), count }));
+    },
+    enabled: can("messages.read"),
+  });
 
-      if (error) throw error;
-      return count || 0;
+  const { data: uploadsByMonth, isLoading: uploadsByMonthLoading } = useQuery({
+    queryKey: ["admin-uploads-by-month"],
+    queryFn: async () => {
+      const buckets = buildBuckets(UPLOAD_MONTHS, startOfMonth(new Date()), addMonths);
+      const counts = await getGalleryUploadCountsByMonth(buckets);
+      return counts.map(({ start, count }) => ({ label: format(start, "MMM yyyy"), count }));
+    },
+    enabled: can("gallery.write"),
+  });
+
+  // Recurring events only exist as occurrences, so these are expanded rather than counted on the server
+  const { data: upcomingByDay, isLoading: upcomingLoading } = useQuery({
+    queryKey: ["admin-upcoming-events-by-day"],
+    queryFn: async () => {
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      const occurrences = await getEventOccurrences(today, addDays(today, UPCOMING_DAYS - 1));
+      return Array.from({ length: UPCOMING_DAYS }, (_, i) => {
+        const day = addDays(today, i);
+        const key = format(day, "yyyy-MM-dd");
+        return {
+          label: format(day, "d MMM"),
+          count: occurrences.filter((occurrence) => occurrence.occurrenceKey === key).length,
+        };
+      });
     },
   });
 
+  const upcomingTotal = upcomingByDay?.reduce((sum, day) => sum + day.count, 0) ?? 0;
+
   // Build personalized greeting
   const getGreeting = () => {
     const titleLabel = profile?.title ? TITLES[profile.title] : "";
@@ -94,6 +157,7 @@ export default function AdminDashboard() {
       icon: Calendar,
       color: "bg-blue-500",
       loading: eventsLoading,
+      capability: "events.write",
     },
     {
       name: "Gallery Videos",
@@ -101,6 +165,7 @@ export default function AdminDashboard() {
       icon: Video,
       color: "bg-purple-500",
       loading: videosLoading,
+      capability: "videos.write",
     },
     {
       name: "Unread Messages",
@@ -108,8 +173,24 @@ export default function AdminDashboard() {
       icon: MessageSquare,
       color: "bg-green-500",
       loading: messagesLoading,
+      capability: "messages.read",
+    },
+    {
+      name: "Gallery Images",
+      value: imagesCount,
+      icon: Image,
+      color: "bg-orange-500",
+      loading: imagesLoading,
+      capability: "gallery.write",
     },
-  ];
+  ].filter((stat) => can(stat.capability as Capability));
+
+  const quickActions = [
+    { name: "Manage Events", href: "/admin/events", icon: Calendar, capability: "events.write" },
+    { name: "Manage Videos", href: "/admin/videos", icon: Video, capability: "videos.write" },
+    { name: "View Messages", href: "/admin/messages", icon: MessageSquare, capability: "messages.read" },
+    { name: "Church Settings", href: "/admin/settings", icon: Users, capability: "settings.write" },
+  ].filter((action) => can(action.capability as Capability));
 
   return (
     <div>
@@ -123,7 +204,7 @@ export default function AdminDashboard() {
       </div>
 
       {/* Stats Grid */}
-      <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
+      <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
         {stats.map((stat) => (
           <Card key={stat.name} className="border-0 shadow-md">
             <CardContent className="p-6">
@@ -145,44 +226,112 @@ export default function AdminDashboard() {
         ))}
       </div>
 
+      {/* Trends */}
+      <div className="grid lg:grid-cols-2 gap-6 mb-8">
+        {can("messages.read") && (
+          <Card className="border-0 shadow-md">
+            <CardHeader>
+              <CardTitle>Messages per Week</CardTitle>
+              <CardDescription>Contact form submissions over the last {MESSAGE_WEEKS} weeks</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {messagesByWeekLoading ? (
+                <Skeleton className="aspect-video w-full" />
+              ) : (
+                <ChartContainer config={messagesChartConfig}>
+                  <AreaChart data={messagesByWeek} margin={{ left: -20, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Area
+                      dataKey="count"
+                      type="monotone"
+                      fill="var(--color-count)"
+                      fillOpacity={0.2}
+                      stroke="var(--color-count)"
+                      strokeWidth={2}
+                    />
+                  </AreaChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {can("gallery.write") && (
+          <Card className="border-0 shadow-md">
+            <CardHeader>
+              <CardTitle>Gallery Uploads per Month</CardTitle>
+              <CardDescription>Images added over the last {UPLOAD_MONTHS} months</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {uploadsByMonthLoading ? (
+                <Skeleton className="aspect-video w-full" />
+              ) : (
+                <ChartContainer config={uploadsChartConfig}>
+                  <BarChart data={uploadsByMonth} margin={{ left: -20, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="border-0 shadow-md lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Upcoming Events</CardTitle>
+            <CardDescription>
+              {upcomingLoading
+                ? `Events in the next ${UPCOMING_DAYS} days`
+                : `${upcomingTotal} event${upcomingTotal !== 1 ? "s" : ""} in the next ${UPCOMING_DAYS} days`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {upcomingLoading ? (
+              <Skeleton className="h-[220px] w-full" />
+            ) : (
+              <ChartContainer config={eventsChartConfig} className="aspect-auto h-[220px] w-full">
+                <BarChart data={upcomingByDay} margin={{ left: -20, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
       {/* Quick Actions */}
-      <Card className="border-0 shadow-md">
-        <CardHeader>
-          <CardTitle>Quick Actions</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
-            <a
-              href="/admin/events"
-              className="p-4 rounded-lg border hover:border-primary hover:bg-primary/5 transition-colors text-center"
-            >
-              <Calendar className="h-8 w-8 text-primary mx-auto mb-2" />
-              <p className="font-medium">Manage Events</p>
-            </a>
-            <a
-              href="/admin/videos"
-              className="p-4 rounded-lg border hover:border-primary hover:bg-primary/5 transition-colors text-center"
-            >
-              <Video className="h-8 w-8 text-primary mx-auto mb-2" />
-              <p className="font-medium">Manage Videos</p>
-            </a>
-            <a
-              href="/admin/messages"
-              className="p-4 rounded-lg border hover:border-primary hover:bg-primary/5 transition-colors text-center"
-            >
-              <MessageSquare className="h-8 w-8 text-primary mx-auto mb-2" />
-              <p className="font-medium">View Messages</p>
-            </a>
-            <a
-              href="/admin/settings"
-              className="p-4 rounded-lg border hover:border-primary hover:bg-primary/5 transition-colors text-center"
-            >
-              <Users className="h-8 w-8 text-primary mx-auto mb-2" />
-              <p className="font-medium">Church Settings</p>
-            </a>
-          </div>
-        </CardContent>
-      </Card>
+      {quickActions.length > 0 && (
+        <Card className="border-0 shadow-md">
+          <CardHeader>
+            <CardTitle>Quick Actions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              {quickActions.map((action) => (
+                <a
+                  key={action.href}
+                  href={action.href}
+                  className="p-4 rounded-lg border hover:border-primary hover:bg-primary/5 transition-colors text-center"
+                >
+                  <action.icon className="h-8 w-8 text-primary mx-auto mb-2" />
+                  <p className="font-medium">{action.name}</p>
+                </a>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -1,6 +1,28 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { getAllEvents, createEvent, updateEvent, deleteEvent } from "@/integrations/firebase/firestore/church";
+import {
+  getAllEvents,
+  createEvent,
+  updateEvent,
+  deleteEvent,
+  setEventOccurrenceException,
+  clearEventOccurrenceException,
+  getEventRegistrations,
+  Event,
+  EventRegistration,
+} from "@/integrations/firebase/firestore/church";
+import { cancelEventRegistration, promoteEventWaitlist } from "@/integrations/firebase/helpers";
+import { toCsv, downloadCsv } from "@/lib/csv";
+import {
+  describeRecurrence,
+  expandRecurrence,
+  getWeekdayPosition,
+  toOccurrenceKey,
+  OccurrenceException,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  WEEKDAY_NAMES,
+} from "@/lib/recurrence";
 import { Timestamp } from "firebase/firestore";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,10 +32,12 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import { Plus, Pencil, Trash2 } from "lucide-react";
+import { Plus, Pencil, Trash2, Repeat, CalendarDays, Ban, RotateCcw, Users, Download, ArrowUpCircle } from "lucide-react";
 import { toast } from "sonner";
-import { format } from "date-fns";
+import { format, parseISO, addMonths } from "date-fns";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 
 interface EventFormData {
   title: string;
@@ -24,8 +48,32 @@ interface EventFormData {
   location: string;
   event_type: string;
   is_active: boolean;
+  repeat: "none" | RecurrenceFrequency;
+  interval: string;
+  by_weekday: number[];
+  week_of_month: string;
+  ends: "never" | "on" | "after";
+  until: string;
+  count: string;
+  registration_enabled: boolean;
+  capacity: string;
 }
 
+interface OccurrenceFormData {
+  title: string;
+  start_time: string;
+  end_time: string;
+  location: string;
+}
+
+const weekPositions = [
+  { value: "1", label: "First" },
+  { value: "2", label: "Second" },
+  { value: "3", label: "Third" },
+  { value: "4", label: "Fourth" },
+  { value: "-1", label: "Last" },
+];
+
 const defaultFormData: EventFormData = {
   title: "",
   description: "",
@@ -35,13 +83,94 @@ const defaultFormData: EventFormData = {
   location: "",
   event_type: "general",
   is_active: true,
+  repeat: "none",
+  interval: "1",
+  by_weekday: [],
+  week_of_month: "1",
+  ends: "never",
+  until: "",
+  count: "",
+  registration_enabled: false,
+  capacity: "",
+};
+
+const toRecurrence = (data: EventFormData): RecurrenceRule | null => {
+  if (data.repeat === "none") return null;
+
+  const rule: RecurrenceRule = {
+    frequency: data.repeat,
+    interval: Math.max(1, parseInt(data.interval) || 1),
+  };
+  if (data.repeat === "weekly" && data.by_weekday.length > 0) {
+    rule.byWeekday = data.by_weekday;
+  }
+  if (data.repeat === "monthly") {
+    rule.weekOfMonth = parseInt(data.week_of_month);
+    rule.weekday = parseISO(data.event_date).getDay();
+  }
+  if (data.ends === "on" && data.until) {
+    rule.until = data.until;
+  } else if (data.ends === "after" && parseInt(data.count) > 0) {
+    rule.count = parseInt(data.count);
+  }
+  return rule;
+};
+
+const toEventPayload = (data: EventFormData) => ({
+  title: data.title,
+  description: data.description,
+  eventDate: Timestamp.fromDate(new Date(data.event_date)),
+  startTime: data.start_time,
+  endTime: data.end_time || null,
+  location: data.location,
+  eventType: data.event_type,
+  isActive: data.is_active,
+  recurrence: toRecurrence(data),
+  // Registration is per event, so it is only offered on one-off events
+  registrationEnabled: data.repeat === "none" && data.registration_enabled,
+  capacity: parseInt(data.capacity) > 0 ? parseInt(data.capacity) : null,
+});
+
+const registrationColumns = [
+  { header: "Confirmation Code", value: (r: EventRegistration) => r.confirmationCode },
+  { header: "Name", value: (r: EventRegistration) => r.name },
+  { header: "Email", value: (r: EventRegistration) => r.email },
+  { header: "Phone", value: (r: EventRegistration) => r.phone },
+  { header: "Guests", value: (r: EventRegistration) => r.guests },
+  { header: "Seats", value: (r: EventRegistration) => r.seats },
+  { header: "Status", value: (r: EventRegistration) => r.status },
+  {
+    header: "Registered At",
+    value: (r: EventRegistration) => {
+      const createdAt = r.createdAt instanceof Date ? r.createdAt : r.createdAt?.toDate();
+      return createdAt ? format(createdAt, "yyyy-MM-dd HH:mm") : "";
+    },
+  },
+];
+
+const registrationStatusClasses: Record<string, string> = {
+  confirmed: "bg-green-500/10 text-green-600",
+  waitlisted: "bg-amber-500/10 text-amber-600",
+  cancelled: "bg-muted text-muted-foreground",
 };
 
+const getEventDate = (event: Event) =>
+  event.eventDate instanceof Date ? event.eventDate : event.eventDate?.toDate();
+
 export default function AdminEvents() {
   const queryClient = useQueryClient();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingEvent, setEditingEvent] = useState<string | null>(null);
   const [formData, setFormData] = useState<EventFormData>(defaultFormData);
+  const [occurrencesEventId, setOccurrencesEventId] = useState<string | null>(null);
+  const [editingOccurrence, setEditingOccurrence] = useState<string | null>(null);
+  const [registrationsEventId, setRegistrationsEventId] = useState<string | null>(null);
+  const [occurrenceForm, setOccurrenceForm] = useState<OccurrenceFormData>({
+    title: "",
+    start_time: "",
+    end_time: "",
+    location: "",
+  });
 
   const { data: events, isLoading } = useQuery({
     queryKey: ["admin-events"],
@@ -50,16 +179,7 @@ export default function AdminEvents() {
 
   const createMutation = useMutation({
     mutationFn: async (data: EventFormData) => {
-      await createEvent({
-        title: data.title,
-        description: data.description,
-        eventDate: Timestamp.fromDate(new Date(data.event_date)),
-        startTime: data.start_time,
-        endTime: data.end_time || null,
-        location: data.location,
-        eventType: data.event_type,
-        isActive: data.is_active,
-      });
+      await createEvent(toEventPayload(data));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["admin-events"] });
@@ -72,16 +192,7 @@ export default function AdminEvents() {
 
   const updateMutation = useMutation({
     mutationFn: async ({ id, data }: { id: string; data: EventFormData }) => {
-      await updateEvent(id, {
-        title: data.title,
-        description: data.description,
-        eventDate: Timestamp.fromDate(new Date(data.event_date)),
-        startTime: data.start_time,
-        endTime: data.end_time || null,
-        location: data.location,
-        eventType: data.event_type,
-        isActive: data.is_active,
-      });
+      await updateEvent(id, toEventPayload(data));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["admin-events"] });
@@ -102,6 +213,78 @@ export default function AdminEvents() {
     onError: () => toast.error("Failed to delete event"),
   });
 
+  const occurrenceMutation = useMutation({
+    mutationFn: ({ id, key, exception }: { id: string; key: string; exception: OccurrenceException | null }) =>
+      exception ? setEventOccurrenceException(id, key, exception) : clearEventOccurrenceException(id, key),
+    onSuccess: (_data, { exception }) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-events"] });
+      setEditingOccurrence(null);
+      toast.success(
+        exception?.cancelled ? "Occurrence cancelled" : exception ? "Occurrence updated" : "Occurrence restored"
+      );
+    },
+    onError: () => toast.error("Failed to update occurrence"),
+  });
+
+  const occurrencesEvent = events?.find((event) => event.id === occurrencesEventId) || null;
+  const upcomingOccurrences = (() => {
+    const seriesStart = occurrencesEvent ? getEventDate(occurrencesEvent) : null;
+    if (!seriesStart || !occurrencesEvent?.recurrence) return [];
+    const today = new Date();
+    return expandRecurrence(seriesStart, occurrencesEvent.recurrence, today, addMonths(today, 6));
+  })();
+
+  const { data: registrations, isLoading: registrationsLoading } = useQuery({
+    queryKey: ["event-registrations", registrationsEventId],
+    queryFn: () => getEventRegistrations(registrationsEventId!),
+    enabled: !!registrationsEventId,
+  });
+
+  const invalidateRegistrations = () => {
+    queryClient.invalidateQueries({ queryKey: ["event-registrations", registrationsEventId] });
+    queryClient.invalidateQueries({ queryKey: ["admin-events"] });
+  };
+
+  const cancelRegistrationMutation = useMutation({
+    mutationFn: async (confirmationCode: string) => {
+      const response = await cancelEventRegistration(confirmationCode);
+      if (!response.success) throw new Error(response.error);
+      return response;
+    },
+    onSuccess: (response) => {
+      invalidateRegistrations();
+      toast.success(
+        response.promotedSeats
+          ? `Registration cancelled; ${response.promotedSeats} waitlisted seat(s) confirmed`
+          : "Registration cancelled"
+      );
+    },
+    onError: (error) => toast.error(error instanceof Error ? error.message : "Failed to cancel registration"),
+  });
+
+  const promoteMutation = useMutation({
+    mutationFn: async (eventId: string) => {
+      const response = await promoteEventWaitlist(eventId);
+      if (!response.success) throw new Error(response.error);
+      return response;
+    },
+    onSuccess: (response) => {
+      invalidateRegistrations();
+      toast.success(
+        response.promotedSeats ? `${response.promotedSeats} waitlisted seat(s) confirmed` : "No waitlisted party fits the open seats"
+      );
+    },
+    onError: (error) => toast.error(error instanceof Error ? error.message : "Failed to promote waitlist"),
+  });
+
+  const registrationsEvent = events?.find((event) => event.id === registrationsEventId) || null;
+
+  const handleExportRegistrations = () => {
+    if (!registrationsEvent || !registrations) return;
+    const slug = registrationsEvent.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+    downloadCsv(`${slug || "event"}-registrations.csv`, toCsv(registrations, registrationColumns));
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (editingEvent) {
@@ -111,12 +294,11 @@ export default function AdminEvents() {
     }
   };
 
-  const handleEdit = (event: any) => {
-    setEditingEvent(event.id);
-    const eventDate = event.eventDate instanceof Date 
-      ? event.eventDate 
-      : event.eventDate?.toDate();
-    
+  const handleEdit = (event: Event) => {
+    setEditingEvent(event.id!);
+    const eventDate = getEventDate(event);
+    const rule = event.recurrence;
+
     setFormData({
       title: event.title,
       description: event.description || "",
@@ -126,10 +308,54 @@ export default function AdminEvents() {
       location: event.location || "",
       event_type: event.eventType || "general",
       is_active: event.isActive ?? true,
+      repeat: rule?.frequency || "none",
+      interval: String(rule?.interval || 1),
+      by_weekday: rule?.byWeekday || [],
+      week_of_month: String(rule?.weekOfMonth ?? (eventDate ? getWeekdayPosition(eventDate) : 1)),
+      ends: rule?.until ? "on" : rule?.count ? "after" : "never",
+      until: rule?.until || "",
+      count: rule?.count ? String(rule.count) : "",
+      registration_enabled: event.registrationEnabled ?? false,
+      capacity: event.capacity ? String(event.capacity) : "",
     });
     setIsDialogOpen(true);
   };
 
+  const toggleWeekday = (day: number) => {
+    const selected = formData.by_weekday.includes(day)
+      ? formData.by_weekday.filter((d) => d !== day)
+      : [...formData.by_weekday, day];
+    setFormData({ ...formData, by_weekday: selected });
+  };
+
+  const handleEditOccurrence = (event: Event, key: string) => {
+    const exception = event.exceptions?.[key];
+    setEditingOccurrence(key);
+    setOccurrenceForm({
+      title: exception?.title || event.title,
+      start_time: exception?.startTime || event.startTime,
+      end_time: exception?.endTime ?? event.endTime ?? "",
+      location: exception?.location ?? event.location ?? "",
+    });
+  };
+
+  const handleSaveOccurrence = (event: Event, key: string) => {
+    // Only keep the fields that differ from the series
+    const exception: OccurrenceException = {};
+    if (occurrenceForm.title && occurrenceForm.title !== event.title) exception.title = occurrenceForm.title;
+    if (occurrenceForm.start_time && occurrenceForm.start_time !== event.startTime) {
+      exception.startTime = occurrenceForm.start_time;
+    }
+    if (occurrenceForm.end_time !== (event.endTime || "")) exception.endTime = occurrenceForm.end_time;
+    if (occurrenceForm.location !== (event.location || "")) exception.location = occurrenceForm.location;
+
+    occurrenceMutation.mutate({
+      id: event.id!,
+      key,
+      exception: Object.keys(exception).length > 0 ? exception : null,
+    });
+  };
+
   const handleOpenCreate = () => {
     setEditingEvent(null);
     setFormData(defaultFormData);
@@ -240,6 +466,158 @@ export default function AdminEvents() {
                 />
               </div>
 
+              <div className="space-y-3 rounded-lg border p-3">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="repeat">Repeats</Label>
+                    <Select
+                      value={formData.repeat}
+                      onValueChange={(value) =>
+                        setFormData({ ...formData, repeat: value as EventFormData["repeat"] })
+                      }
+                    >
+                      <SelectTrigger id="repeat">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Does not repeat</SelectItem>
+                        <SelectItem value="daily">Daily</SelectItem>
+                        <SelectItem value="weekly">Weekly</SelectItem>
+                        <SelectItem value="monthly">Monthly</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {formData.repeat !== "none" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="interval">
+                        Every ({formData.repeat === "daily" ? "days" : formData.repeat === "weekly" ? "weeks" : "months"})
+                      </Label>
+                      <Input
+                        id="interval"
+                        type="number"
+                        min={1}
+                        value={formData.interval}
+                        onChange={(e) => setFormData({ ...formData, interval: e.target.value })}
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {formData.repeat === "weekly" && (
+                  <div className="flex flex-wrap gap-1">
+                    {WEEKDAY_NAMES.map((day, index) => (
+                      <Button
+                        key={day}
+                        type="button"
+                        size="sm"
+                        variant={formData.by_weekday.includes(index) ? "default" : "outline"}
+                        className="h-8 px-2 text-xs"
+                        onClick={() => toggleWeekday(index)}
+                      >
+                        {day.slice(0, 3)}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+
+                {formData.repeat === "monthly" && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <span>On the</span>
+                    <Select
+                      value={formData.week_of_month}
+                      onValueChange={(value) => setFormData({ ...formData, week_of_month: value })}
+                    >
+                      <SelectTrigger className="w-[110px] h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {weekPositions.map((position) => (
+                          <SelectItem key={position.value} value={position.value}>
+                            {position.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <span>
+                      {formData.event_date ? WEEKDAY_NAMES[parseISO(formData.event_date).getDay()] : "weekday"} of the month
+                    </span>
+                  </div>
+                )}
+
+                {formData.repeat !== "none" && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="ends">Ends</Label>
+                      <Select
+                        value={formData.ends}
+                        onValueChange={(value) => setFormData({ ...formData, ends: value as EventFormData["ends"] })}
+                      >
+                        <SelectTrigger id="ends">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="never">Never</SelectItem>
+                          <SelectItem value="on">On date</SelectItem>
+                          <SelectItem value="after">After a number of times</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {formData.ends === "on" && (
+                      <div className="space-y-2">
+                        <Label htmlFor="until">End Date</Label>
+                        <Input
+                          id="until"
+                          type="date"
+                          min={formData.event_date}
+                          value={formData.until}
+                          onChange={(e) => setFormData({ ...formData, until: e.target.value })}
+                          required
+                        />
+                      </div>
+                    )}
+                    {formData.ends === "after" && (
+                      <div className="space-y-2">
+                        <Label htmlFor="count">Occurrences</Label>
+                        <Input
+                          id="count"
+                          type="number"
+                          min={1}
+                          value={formData.count}
+                          onChange={(e) => setFormData({ ...formData, count: e.target.value })}
+                          required
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {formData.repeat === "none" && (
+                <div className="space-y-3 rounded-lg border p-3">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="registration_enabled"
+                      checked={formData.registration_enabled}
+                      onCheckedChange={(checked) => setFormData({ ...formData, registration_enabled: checked })}
+                    />
+                    <Label htmlFor="registration_enabled">Require registration (RSVP)</Label>
+                  </div>
+                  {formData.registration_enabled && (
+                    <div className="space-y-2">
+                      <Label htmlFor="capacity">Capacity (seats including guests)</Label>
+                      <Input
+                        id="capacity"
+                        type="number"
+                        min={1}
+                        value={formData.capacity}
+                        onChange={(e) => setFormData({ ...formData, capacity: e.target.value })}
+                        placeholder="Unlimited"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="flex items-center gap-2">
                 <Switch
                   id="is_active"
@@ -294,8 +672,45 @@ export default function AdminEvents() {
                       <p className="text-sm text-muted-foreground">
                         {eventDate ? format(eventDate, "MMMM d, yyyy") : "TBD"} • {event.location || "TBD"}
                       </p>
+                      {event.registrationEnabled && (
+                        <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                          <Users className="h-3 w-3" />
+                          {event.registeredCount || 0}
+                          {event.capacity ? ` / ${event.capacity}` : ""} registered
+                          {event.waitlistCount ? ` • ${event.waitlistCount} waitlisted` : ""}
+                        </p>
+                      )}
+                      {event.recurrence && (
+                        <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                          <Repeat className="h-3 w-3" />
+                          {describeRecurrence(event.recurrence, eventDate)}
+                        </p>
+                      )}
                     </div>
                     <div className="flex gap-2">
+                      {event.registrationEnabled && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setRegistrationsEventId(event.id!)}
+                          title="Registrations"
+                        >
+                          <Users className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {event.recurrence && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => {
+                            setEditingOccurrence(null);
+                            setOccurrencesEventId(event.id!);
+                          }}
+                          title="Manage occurrences"
+                        >
+                          <CalendarDays className="h-4 w-4" />
+                        </Button>
+                      )}
                       <Button variant="ghost" size="icon" onClick={() => handleEdit(event)}>
                         <Pencil className="h-4 w-4" />
                       </Button>
@@ -319,6 +734,213 @@ export default function AdminEvents() {
           )}
         </CardContent>
       </Card>
+
+      {/* Registrations for an event */}
+      <Dialog open={!!registrationsEvent} onOpenChange={(open) => !open && setRegistrationsEventId(null)}>
+        <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{registrationsEvent?.title} - Registrations</DialogTitle>
+          </DialogHeader>
+          {registrationsEvent && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-sm text-muted-foreground">
+                  {registrationsEvent.registeredCount || 0}
+                  {registrationsEvent.capacity ? ` of ${registrationsEvent.capacity}` : ""} seats confirmed
+                  {registrationsEvent.waitlistCount ? ` • ${registrationsEvent.waitlistCount} seats waitlisted` : ""}
+                </p>
+                <div className="flex gap-2">
+                  {!!registrationsEvent.waitlistCount && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                      disabled={promoteMutation.isPending}
+                      onClick={() => promoteMutation.mutate(registrationsEvent.id!)}
+                    >
+                      <ArrowUpCircle className="h-4 w-4" />
+                      Fill from waitlist
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    disabled={!registrations?.length}
+                    onClick={handleExportRegistrations}
+                  >
+                    <Download className="h-4 w-4" />
+                    Export CSV
+                  </Button>
+                </div>
+              </div>
+
+              {registrationsLoading ? (
+                <Skeleton className="h-32 w-full" />
+              ) : registrations && registrations.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Code</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Contact</TableHead>
+                      <TableHead>Seats</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {registrations.map((registration) => (
+                      <TableRow key={registration.id}>
+                        <TableCell className="font-mono text-xs">{registration.confirmationCode}</TableCell>
+                        <TableCell>{registration.name}</TableCell>
+                        <TableCell className="text-xs">
+                          <div>{registration.email}</div>
+                          {registration.phone && <div className="text-muted-foreground">{registration.phone}</div>}
+                        </TableCell>
+                        <TableCell>{registration.seats}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary" className={registrationStatusClasses[registration.status]}>
+                            {registration.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          {registration.status !== "cancelled" && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="text-destructive hover:text-destructive"
+                              disabled={cancelRegistrationMutation.isPending}
+                              onClick={() => cancelRegistrationMutation.mutate(registration.confirmationCode)}
+                              title="Cancel registration"
+                            >
+                              <Ban className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="py-6 text-center text-muted-foreground">No registrations yet.</p>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Occurrences of a recurring event */}
+      <Dialog open={!!occurrencesEvent} onOpenChange={(open) => !open && setOccurrencesEventId(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{occurrencesEvent?.title} - Upcoming Occurrences</DialogTitle>
+          </DialogHeader>
+          {occurrencesEvent && (
+            <div className="divide-y">
+              {upcomingOccurrences.map((date) => {
+                const key = toOccurrenceKey(date);
+                const exception = occurrencesEvent.exceptions?.[key];
+                const isEditing = editingOccurrence === key;
+
+                return (
+                  <div key={key} className="py-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <span className={exception?.cancelled ? "line-through text-muted-foreground" : "font-medium"}>
+                          {format(date, "EEE, MMMM d, yyyy")}
+                        </span>
+                        {exception?.cancelled ? (
+                          <Badge variant="secondary" className="bg-destructive/10 text-destructive">Cancelled</Badge>
+                        ) : exception ? (
+                          <Badge variant="secondary">Edited</Badge>
+                        ) : null}
+                      </div>
+                      <div className="flex gap-1">
+                        {exception ? (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => occurrenceMutation.mutate({ id: occurrencesEvent.id!, key, exception: null })}
+                            title="Restore to series"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        ) : null}
+                        {!exception?.cancelled && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleEditOccurrence(occurrencesEvent, key)}
+                              title="Edit this occurrence"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="text-destructive hover:text-destructive"
+                              onClick={() =>
+                                occurrenceMutation.mutate({ id: occurrencesEvent.id!, key, exception: { cancelled: true } })
+                              }
+                              title="Cancel this occurrence"
+                            >
+                              <Ban className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+
+                    {isEditing && (
+                      <div className="mt-3 space-y-3 rounded-lg border p-3">
+                        <Input
+                          value={occurrenceForm.title}
+                          onChange={(e) => setOccurrenceForm({ ...occurrenceForm, title: e.target.value })}
+                          placeholder="Title"
+                        />
+                        <div className="grid grid-cols-2 gap-2">
+                          <Input
+                            type="time"
+                            value={occurrenceForm.start_time}
+                            onChange={(e) => setOccurrenceForm({ ...occurrenceForm, start_time: e.target.value })}
+                          />
+                          <Input
+                            type="time"
+                            value={occurrenceForm.end_time}
+                            onChange={(e) => setOccurrenceForm({ ...occurrenceForm, end_time: e.target.value })}
+                          />
+                        </div>
+                        <Input
+                          value={occurrenceForm.location}
+                          onChange={(e) => setOccurrenceForm({ ...occurrenceForm, location: e.target.value })}
+                          placeholder="Location"
+                        />
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setEditingOccurrence(null)}>
+                            Cancel
+                          </Button>
+                          <Button
+                            size="sm"
+                            disabled={occurrenceMutation.isPending}
+                            onClick={() => handleSaveOccurrence(occurrencesEvent, key)}
+                          >
+                            Save Occurrence
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              {upcomingOccurrences.length === 0 && (
+                <p className="py-6 text-center text-muted-foreground">No upcoming occurrences in the next 6 months.</p>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
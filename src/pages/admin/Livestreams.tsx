@@ -0,0 +1,361 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import {
+  getAllLivestreams,
+  createLivestream,
+  updateLivestream,
+  deleteLivestream,
+  setLivestreamStatus,
+  convertLivestreamToVideo,
+  getScheduledStart,
+  Livestream,
+  LivestreamStatus,
+} from "@/integrations/firebase/firestore/livestreams";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Plus, Pencil, Trash2, Radio, Square, Play, Video, ExternalLink, CheckCircle } from "lucide-react";
+import { toast } from "sonner";
+import { Timestamp } from "firebase/firestore";
+import { format } from "date-fns";
+
+interface LivestreamFormData {
+  title: string;
+  description: string;
+  stream_id: string;
+  scheduled_date: string;
+  scheduled_time: string;
+}
+
+const defaultFormData: LivestreamFormData = {
+  title: "",
+  description: "",
+  stream_id: "",
+  scheduled_date: "",
+  scheduled_time: "19:00",
+};
+
+const statusClasses: Record<LivestreamStatus, string> = {
+  upcoming: "bg-secondary text-secondary-foreground",
+  live: "bg-destructive text-destructive-foreground",
+  ended: "bg-muted text-muted-foreground",
+};
+
+function extractYouTubeId(url: string): string {
+  const patterns = [
+    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/|youtube\.com\/live\/)([^&\s?]+)/,
+    /^([a-zA-Z0-9_-]{11})$/,
+  ];
+
+  for (const pattern of patterns) {
+    const match = url.match(pattern);
+    if (match) return match[1];
+  }
+  return url;
+}
+
+export default function AdminLivestreams() {
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingStream, setEditingStream] = useState<string | null>(null);
+  const [formData, setFormData] = useState<LivestreamFormData>(defaultFormData);
+
+  const { data: livestreams, isLoading } = useQuery({
+    queryKey: ["admin-livestreams"],
+    queryFn: getAllLivestreams,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["admin-livestreams"] });
+    queryClient.invalidateQueries({ queryKey: ["current-livestreams"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: LivestreamFormData) => {
+      const payload = {
+        title: data.title.trim(),
+        description: data.description.trim(),
+        streamId: extractYouTubeId(data.stream_id.trim()),
+        scheduledStart: Timestamp.fromDate(new Date(`${data.scheduled_date}T${data.scheduled_time}`)),
+      };
+      if (editingStream) {
+        await updateLivestream(editingStream, payload);
+      } else {
+        await createLivestream(payload);
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      setIsDialogOpen(false);
+      toast.success(editingStream ? "Livestream updated" : "Livestream scheduled");
+    },
+    onError: () => toast.error("Failed to save livestream"),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: LivestreamStatus }) => setLivestreamStatus(id, status),
+    onSuccess: (_, { status }) => {
+      invalidate();
+      toast.success(status === "live" ? "You're live - the site banner is showing" : "Livestream ended");
+    },
+    onError: () => toast.error("Failed to update livestream"),
+  });
+
+  const convertMutation = useMutation({
+    mutationFn: convertLivestreamToVideo,
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["admin-videos"] });
+      queryClient.invalidateQueries({ queryKey: ["videos"] });
+      toast.success("Recording added to Videos");
+    },
+    onError: () => toast.error("Failed to convert livestream"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteLivestream,
+    onSuccess: () => {
+      invalidate();
+      toast.success("Livestream deleted");
+    },
+    onError: () => toast.error("Failed to delete livestream"),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(formData);
+  };
+
+  const handleOpenCreate = () => {
+    setEditingStream(null);
+    setFormData(defaultFormData);
+  };
+
+  const handleEdit = (stream: Livestream) => {
+    const start = getScheduledStart(stream);
+    setEditingStream(stream.id!);
+    setFormData({
+      title: stream.title,
+      description: stream.description || "",
+      stream_id: stream.streamId,
+      scheduled_date: format(start, "yyyy-MM-dd"),
+      scheduled_time: format(start, "HH:mm"),
+    });
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="font-display text-3xl font-bold text-foreground">Livestreams</h1>
+          <p className="text-muted-foreground">Schedule streams and let visitors know when you're live</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={handleOpenCreate} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Schedule Stream
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{editingStream ? "Edit Livestream" : "Schedule Livestream"}</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="title">Title</Label>
+                <Input
+                  id="title"
+                  value={formData.title}
+                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                  placeholder="Friday Night Prayer"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="stream_id">YouTube Stream URL or ID</Label>
+                <Input
+                  id="stream_id"
+                  value={formData.stream_id}
+                  onChange={(e) => setFormData({ ...formData, stream_id: e.target.value })}
+                  placeholder="https://www.youtube.com/live/..."
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  Schedule the stream in YouTube Studio first, then paste its link here
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="scheduled_date">Date</Label>
+                  <Input
+                    id="scheduled_date"
+                    type="date"
+                    value={formData.scheduled_date}
+                    onChange={(e) => setFormData({ ...formData, scheduled_date: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="scheduled_time">Start Time</Label>
+                  <Input
+                    id="scheduled_time"
+                    type="time"
+                    value={formData.scheduled_time}
+                    onChange={(e) => setFormData({ ...formData, scheduled_time: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="description">Description (optional)</Label>
+                <Textarea
+                  id="description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  rows={3}
+                />
+              </div>
+
+              <div className="flex gap-2 pt-2">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)} className="flex-1">
+                  Cancel
+                </Button>
+                <Button type="submit" className="flex-1" disabled={saveMutation.isPending}>
+                  {editingStream ? "Update" : "Schedule"}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {isLoading ? (
+        <Card className="border-0 shadow-md">
+          <CardContent className="p-6 space-y-4">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </CardContent>
+        </Card>
+      ) : livestreams && livestreams.length > 0 ? (
+        <Card className="border-0 shadow-md">
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stream</TableHead>
+                  <TableHead>Scheduled</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {livestreams.map((stream) => (
+                  <TableRow key={stream.id}>
+                    <TableCell>
+                      <p className="font-medium text-foreground">{stream.title}</p>
+                      <p className="text-xs text-muted-foreground font-mono">{stream.streamId}</p>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {format(getScheduledStart(stream), "EEE d MMM yyyy, HH:mm")}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={statusClasses[stream.status]}>
+                        {stream.status.charAt(0).toUpperCase() + stream.status.slice(1)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-end gap-1">
+                        {stream.status === "upcoming" && (
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            className="gap-1"
+                            onClick={() => statusMutation.mutate({ id: stream.id!, status: "live" })}
+                            disabled={statusMutation.isPending}
+                          >
+                            <Play className="h-4 w-4" />
+                            Go Live
+                          </Button>
+                        )}
+                        {stream.status === "live" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="gap-1"
+                            onClick={() => statusMutation.mutate({ id: stream.id!, status: "ended" })}
+                            disabled={statusMutation.isPending}
+                          >
+                            <Square className="h-4 w-4" />
+                            End Stream
+                          </Button>
+                        )}
+                        {stream.status === "ended" &&
+                          (stream.videoId ? (
+                            <Badge variant="secondary" className="gap-1">
+                              <CheckCircle className="h-3 w-3" />
+                              In Videos
+                            </Badge>
+                          ) : (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="gap-1"
+                              onClick={() => convertMutation.mutate(stream)}
+                              disabled={convertMutation.isPending}
+                            >
+                              <Video className="h-4 w-4" />
+                              Save as Video
+                            </Button>
+                          ))}
+                        <Button variant="ghost" size="icon" asChild title="Open live page">
+                          <Link to={`/live/${stream.id}`} target="_blank">
+                            <ExternalLink className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleEdit(stream)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => {
+                            if (confirm(`Delete "${stream.title}"?`)) {
+                              deleteMutation.mutate(stream.id!);
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="border-0 shadow-md">
+          <CardContent className="p-12 text-center">
+            <Radio className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No livestreams yet. Schedule your first stream!</p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,56 +1,506 @@
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { getContactSubmissions, markContactSubmissionAsRead, deleteContactSubmission } from "@/integrations/firebase/firestore/church";
+import { useSearchParams } from "react-router-dom";
+import {
+  getContactSubmissions,
+  getChurchInfo,
+  getActiveServiceTimes,
+  ContactSubmission,
+} from "@/integrations/firebase/firestore/church";
+import {
+  MESSAGE_STATUSES,
+  MessageStatus,
+  getMessageStatus,
+  getMessageStatusLabel,
+  getMessageThread,
+  addMessageNote,
+  updateMessagesStatus,
+  assignMessages,
+  markMessagesRead,
+  markMessagesSpam,
+  deleteMessages,
+  getAdminDirectory,
+  getMessageCategory,
+  getContactRouting,
+  getRoutedCategories,
+  isMessageForAdmin,
+} from "@/integrations/firebase/firestore/messages";
+import {
+  getCannedResponses,
+  renderCannedResponse,
+  recordCannedResponseUsage,
+} from "@/integrations/firebase/firestore/cannedResponses";
+import { replyToContactSubmission } from "@/integrations/firebase/helpers";
+import { SPAM_REASON_LABELS, CONTACT_CATEGORIES, getContactCategory } from "@/lib/contact";
+import { CategoryRoutingDialog } from "@/components/messages/CategoryRoutingDialog";
+import { CannedResponsesDialog } from "@/components/messages/CannedResponsesDialog";
+import { LegalHoldControl } from "@/components/privacy/LegalHoldControl";
+import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Mail, Trash2, Check, MessageSquare } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Mail, Trash2, Check, MessageSquare, Search, Send, StickyNote, MailOpen, X, Loader2, ShieldAlert, ShieldCheck } from "lucide-react";
 import { toast } from "sonner";
 import { format } from "date-fns";
-import { Skeleton } from "@/components/ui/skeleton";
+import { Timestamp } from "firebase/firestore";
+
+const ALL = "all";
+const ME = "me";
+const UNASSIGNED = "unassigned";
+// Status filter value for the spam folder, which sits outside the normal statuses
+const SPAM = "spam";
+
+const statusClasses: Record<MessageStatus, string> = {
+  new: "bg-primary/10 text-primary",
+  in_progress: "bg-secondary text-secondary-foreground",
+  awaiting_reply: "bg-accent text-accent-foreground",
+  resolved: "bg-muted text-muted-foreground",
+};
+
+const toDate = (value: Date | Timestamp) => (value instanceof Date ? value : value.toDate());
+
+interface AdminMessagesProps {
+  // "mine" limits the inbox to the admin's routed categories and assigned messages
+  view?: "all" | "mine";
+}
 
-export default function AdminMessages() {
+export default function AdminMessages({ view = "all" }: AdminMessagesProps) {
   const queryClient = useQueryClient();
+  const { user, role } = useFirebaseAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [composerMode, setComposerMode] = useState<"reply" | "note">("reply");
+  const [draft, setDraft] = useState("");
+  // Canned responses inserted into the current draft, counted once it is sent
+  const [usedResponseIds, setUsedResponseIds] = useState<string[]>([]);
+  const draftRef = useRef<HTMLTextAreaElement>(null);
+
+  const search = searchParams.get("q") || "";
+  const statusFilter = searchParams.get("status") || ALL;
+  const assigneeFilter = searchParams.get("assignee") || ALL;
+  const categoryFilter = searchParams.get("category") || ALL;
+  const openMessageId = searchParams.get("m");
+
+  const updateParam = (key: string, value: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (value && value !== ALL) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    setSearchParams(next, { replace: true });
+  };
 
   const { data: messages, isLoading } = useQuery({
     queryKey: ["admin-messages"],
-    queryFn: getContactSubmissions,
+    queryFn: () => getContactSubmissions(),
   });
 
-  const markReadMutation = useMutation({
-    mutationFn: markContactSubmissionAsRead,
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["admin-messages"] });
-      toast.success("Marked as read");
+  const { data: admins = [] } = useQuery({
+    queryKey: ["admin-directory"],
+    queryFn: getAdminDirectory,
+  });
+
+  const { data: contactRouting } = useQuery({
+    queryKey: ["contact-routing"],
+    queryFn: getContactRouting,
+  });
+
+  const { data: cannedResponses = [] } = useQuery({
+    queryKey: ["canned-responses"],
+    queryFn: getCannedResponses,
+  });
+
+  const { data: churchInfo } = useQuery({
+    queryKey: ["church-info"],
+    queryFn: getChurchInfo,
+  });
+
+  const { data: serviceTimes = [] } = useQuery({
+    queryKey: ["service-times"],
+    queryFn: getActiveServiceTimes,
+  });
+
+  const { data: thread, isLoading: isLoadingThread } = useQuery({
+    queryKey: ["message-thread", openMessageId],
+    queryFn: () => getMessageThread(openMessageId!),
+    enabled: !!openMessageId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["admin-messages"] });
+    queryClient.invalidateQueries({ queryKey: ["unread-messages"] });
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: ({ ids, status }: { ids: string[]; status: MessageStatus }) => updateMessagesStatus(ids, status),
+    onSuccess: (_, { ids, status }) => {
+      invalidate();
+      toast.success(
+        ids.length > 1 ? `${ids.length} messages marked ${getMessageStatusLabel(status)}` : `Marked ${getMessageStatusLabel(status)}`
+      );
+    },
+    onError: () => toast.error("Failed to update status"),
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: ({ ids, userId }: { ids: string[]; userId: string | null }) => assignMessages(ids, userId),
+    onSuccess: (_, { userId }) => {
+      invalidate();
+      toast.success(userId ? `Assigned to ${getAdminName(userId)}` : "Unassigned");
+    },
+    onError: () => toast.error("Failed to assign messages"),
+  });
+
+  const readMutation = useMutation({
+    mutationFn: ({ ids, isRead }: { ids: string[]; isRead: boolean }) => markMessagesRead(ids, isRead),
+    onSuccess: invalidate,
+  });
+
+  const spamMutation = useMutation({
+    mutationFn: ({ ids, isSpam }: { ids: string[]; isSpam: boolean }) => markMessagesSpam(ids, isSpam),
+    onSuccess: (_, { ids, isSpam }) => {
+      invalidate();
+      setSelectedIds([]);
+      const count = ids.length > 1 ? `${ids.length} messages` : "Message";
+      toast.success(isSpam ? `${count} moved to spam` : `${count} moved to the inbox`);
     },
+    onError: () => toast.error("Failed to move messages"),
   });
 
   const deleteMutation = useMutation({
-    mutationFn: deleteContactSubmission,
+    mutationFn: deleteMessages,
+    onSuccess: (_, ids) => {
+      invalidate();
+      setSelectedIds([]);
+      if (openMessageId && ids.includes(openMessageId)) updateParam("m", null);
+      toast.success(ids.length > 1 ? `${ids.length} messages deleted` : "Message deleted");
+    },
+    onError: () => toast.error("Failed to delete messages"),
+  });
+
+  const composerMutation = useMutation({
+    mutationFn: async ({ id, body }: { id: string; body: string }) => {
+      if (composerMode === "note") {
+        await addMessageNote(id, {
+          body,
+          authorId: user!.uid,
+          authorName: user!.displayName || user!.email || "Admin",
+        });
+        return;
+      }
+      const result = await replyToContactSubmission(id, body);
+      if (!result.success) throw new Error(result.error);
+    },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["admin-messages"] });
-      toast.success("Message deleted");
+      queryClient.invalidateQueries({ queryKey: ["message-thread", openMessageId] });
+      invalidate();
+      if (usedResponseIds.length > 0) {
+        // Usage stats are best effort; the reply itself has already gone out
+        recordCannedResponseUsage(usedResponseIds)
+          .then(() => queryClient.invalidateQueries({ queryKey: ["canned-responses"] }))
+          .catch((error) => console.error("Failed to record canned response usage:", error));
+      }
+      setDraft("");
+      setUsedResponseIds([]);
+      toast.success(composerMode === "note" ? "Note added" : "Reply sent");
     },
-    onError: () => toast.error("Failed to delete message"),
+    onError: (error: Error) =>
+      toast.error(composerMode === "note" ? "Failed to add note" : error.message || "Failed to send reply"),
   });
 
-  const unreadCount = messages?.filter((m) => !m.isRead).length || 0;
+  const getAdminName = (userId: string) => admins.find((admin) => admin.userId === userId)?.name || "Unknown admin";
+
+  const routedCategories = useMemo(
+    () => getRoutedCategories(contactRouting, user?.uid),
+    [contactRouting, user?.uid]
+  );
+
+  const messagesInView = useMemo(
+    () =>
+      view === "mine"
+        ? (messages || []).filter((message) => isMessageForAdmin(message, user?.uid, routedCategories))
+        : messages || [],
+    [messages, view, user?.uid, routedCategories]
+  );
+
+  const filteredMessages = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return messagesInView.filter((message) => {
+      const matchesSearch =
+        !term ||
+        message.name.toLowerCase().includes(term) ||
+        message.email.toLowerCase().includes(term) ||
+        message.message.toLowerCase().includes(term);
+      const matchesStatus =
+        statusFilter === SPAM
+          ? !!message.isSpam
+          : !message.isSpam && (statusFilter === ALL || getMessageStatus(message) === statusFilter);
+      const matchesAssignee =
+        assigneeFilter === ALL ||
+        (assigneeFilter === UNASSIGNED && !message.assignedTo) ||
+        (assigneeFilter === ME && message.assignedTo === user?.uid) ||
+        message.assignedTo === assigneeFilter;
+      const matchesCategory = categoryFilter === ALL || getMessageCategory(message) === categoryFilter;
+      return matchesSearch && matchesStatus && matchesAssignee && matchesCategory;
+    });
+  }, [messagesInView, search, statusFilter, assigneeFilter, categoryFilter, user?.uid]);
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<string, number> = { [ALL]: 0, [SPAM]: 0 };
+    messagesInView.forEach((message) => {
+      if (message.isSpam) {
+        counts[SPAM] += 1;
+        return;
+      }
+      const status = getMessageStatus(message);
+      counts[ALL] += 1;
+      counts[status] = (counts[status] || 0) + 1;
+    });
+    return counts;
+  }, [messagesInView]);
+
+  const openMessage = messages?.find((message) => message.id === openMessageId) || null;
+  const unreadCount = messagesInView.filter((m) => !m.isRead && !m.isSpam).length;
+  const allVisibleSelected =
+    filteredMessages.length > 0 && filteredMessages.every((message) => selectedIds.includes(message.id!));
+
+  // Drop selections that are no longer visible so bulk actions only touch what is on screen
+  useEffect(() => {
+    const visibleIds = new Set(filteredMessages.map((message) => message.id));
+    setSelectedIds((current) => current.filter((id) => visibleIds.has(id)));
+  }, [filteredMessages]);
+
+  useEffect(() => {
+    setDraft("");
+    setUsedResponseIds([]);
+  }, [openMessageId]);
+
+  // Opening a message marks it read
+  const openMessageInPanel = (message: ContactSubmission) => {
+    updateParam("m", message.id!);
+    if (!message.isRead) {
+      readMutation.mutate({ ids: [message.id!], isRead: true });
+    }
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds((current) => (checked ? [...current, id] : current.filter((item) => item !== id)));
+  };
+
+  const handleBulkDelete = () => {
+    // Messages on legal hold must be kept until the hold is released
+    const heldIds = new Set(messages?.filter((message) => message.legalHold).map((message) => message.id));
+    const ids = selectedIds.filter((id) => !heldIds.has(id));
+    const heldCount = selectedIds.length - ids.length;
+    if (heldCount > 0) {
+      toast.error(`${heldCount} selected message${heldCount === 1 ? " is" : "s are"} on legal hold and will be kept`);
+    }
+    if (ids.length === 0) return;
+    if (confirm(`Delete ${ids.length} message${ids.length === 1 ? "" : "s"}? This cannot be undone.`)) {
+      deleteMutation.mutate(ids);
+    }
+  };
+
+  // Renders the response with the latest church details and inserts it at the cursor
+  const insertCannedResponse = (responseId: string) => {
+    const response = cannedResponses.find((item) => item.id === responseId);
+    if (!response) return;
+    const text = renderCannedResponse(response, { churchInfo, serviceTimes, message: openMessage });
+    const textarea = draftRef.current;
+    const start = textarea?.selectionStart ?? draft.length;
+    const end = textarea?.selectionEnd ?? draft.length;
+    setDraft(draft.slice(0, start) + text + draft.slice(end));
+    setUsedResponseIds((current) => (current.includes(responseId) ? current : [...current, responseId]));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + text.length, start + text.length);
+    });
+  };
+
+  const handleComposerSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!openMessage || !draft.trim()) return;
+    composerMutation.mutate({ id: openMessage.id!, body: draft.trim() });
+  };
+
+  const renderAssigneeItems = () =>
+    admins.map((admin) => (
+      <SelectItem key={admin.userId} value={admin.userId}>
+        {admin.userId === user?.uid ? `${admin.name} (me)` : admin.name}
+      </SelectItem>
+    ));
 
   return (
     <div>
-      <div className="mb-8">
-        <h1 className="font-display text-3xl font-bold text-foreground">Messages</h1>
-        <p className="text-muted-foreground">
-          Contact form submissions
-          {unreadCount > 0 && (
-            <span className="ml-2">
-              <Badge variant="secondary" className="bg-primary/10 text-primary">
-                {unreadCount} unread
-              </Badge>
-            </span>
+      <div className="flex items-center justify-between gap-4 mb-8">
+        <div>
+          <h1 className="font-display text-3xl font-bold text-foreground">
+            {view === "mine" ? "My Messages" : "Messages"}
+          </h1>
+          <p className="text-muted-foreground">
+            {view === "mine"
+              ? routedCategories.length > 0
+                ? `${routedCategories.map((category) => getContactCategory(category).label).join(", ")} and messages assigned to you`
+                : "Messages assigned to you"
+              : "Contact form submissions"}
+            {unreadCount > 0 && (
+              <span className="ml-2">
+                <Badge variant="secondary" className="bg-primary/10 text-primary">
+                  {unreadCount} unread
+                </Badge>
+              </span>
+            )}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <CannedResponsesDialog />
+          {role === "super_admin" && user && (
+            <CategoryRoutingDialog admins={admins} routing={contactRouting || {}} userId={user.uid} />
           )}
-        </p>
+        </div>
       </div>
 
+      <Card className="border-0 shadow-md mb-6">
+        <CardContent className="p-4 space-y-4">
+          <div className="flex flex-col md:flex-row gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => updateParam("q", e.target.value)}
+                placeholder="Search by name, email or message..."
+                className="pl-9"
+              />
+            </div>
+            <Select value={categoryFilter} onValueChange={(value) => updateParam("category", value)}>
+              <SelectTrigger className="md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Categories</SelectItem>
+                {CONTACT_CATEGORIES.map((category) => (
+                  <SelectItem key={category.value} value={category.value}>
+                    {category.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={assigneeFilter} onValueChange={(value) => updateParam("assignee", value)}>
+              <SelectTrigger className="md:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Everyone's messages</SelectItem>
+                <SelectItem value={ME}>Assigned to me</SelectItem>
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {admins
+                  .filter((admin) => admin.userId !== user?.uid)
+                  .map((admin) => (
+                    <SelectItem key={admin.userId} value={admin.userId}>
+                      {admin.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Tabs value={statusFilter} onValueChange={(value) => updateParam("status", value)}>
+            <TabsList className="flex-wrap h-auto">
+              <TabsTrigger value={ALL}>All ({statusCounts[ALL]})</TabsTrigger>
+              {MESSAGE_STATUSES.map((status) => (
+                <TabsTrigger key={status.value} value={status.value}>
+                  {status.label} ({statusCounts[status.value] || 0})
+                </TabsTrigger>
+              ))}
+              <TabsTrigger value={SPAM} className="gap-1">
+                <ShieldAlert className="h-3 w-3" />
+                Spam ({statusCounts[SPAM]})
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </CardContent>
+      </Card>
+
+      {selectedIds.length > 0 && (
+        <Card className="border-0 shadow-md mb-4 bg-primary/5">
+          <CardContent className="p-3 flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium mr-2">{selectedIds.length} selected</span>
+            <Select onValueChange={(value) => statusMutation.mutate({ ids: selectedIds, status: value as MessageStatus })}>
+              <SelectTrigger className="w-40 h-9">
+                <SelectValue placeholder="Set status" />
+              </SelectTrigger>
+              <SelectContent>
+                {MESSAGE_STATUSES.map((status) => (
+                  <SelectItem key={status.value} value={status.value}>
+                    {status.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              onValueChange={(value) =>
+                assignMutation.mutate({ ids: selectedIds, userId: value === UNASSIGNED ? null : value })
+              }
+            >
+              <SelectTrigger className="w-44 h-9">
+                <SelectValue placeholder="Assign to" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {renderAssigneeItems()}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => readMutation.mutate({ ids: selectedIds, isRead: true })}
+            >
+              <Check className="h-4 w-4" />
+              Mark read
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => readMutation.mutate({ ids: selectedIds, isRead: false })}
+            >
+              <MailOpen className="h-4 w-4" />
+              Mark unread
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => spamMutation.mutate({ ids: selectedIds, isSpam: statusFilter !== SPAM })}
+              disabled={spamMutation.isPending}
+            >
+              {statusFilter === SPAM ? <ShieldCheck className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+              {statusFilter === SPAM ? "Not spam" : "Mark spam"}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1 text-destructive hover:text-destructive"
+              onClick={handleBulkDelete}
+              disabled={deleteMutation.isPending}
+            >
+              <Trash2 className="h-4 w-4" />
+              Delete
+            </Button>
+            <Button variant="ghost" size="sm" className="ml-auto" onClick={() => setSelectedIds([])}>
+              Clear
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {isLoading ? (
         <div className="space-y-4">
           {Array.from({ length: 3 }).map((_, i) => (
@@ -64,60 +514,220 @@ export default function AdminMessages() {
           ))}
         </div>
       ) : messages && messages.length > 0 ? (
-        <div className="space-y-4">
-          {messages.map((message) => (
-            <Card
-              key={message.id}
-              className={`border-0 shadow-md ${!message.isRead ? "ring-2 ring-primary/20" : ""}`}
-            >
-              <CardContent className="p-6">
-                <div className="flex items-start justify-between gap-4">
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2 mb-2">
-                      <h3 className="font-semibold text-foreground">{message.name}</h3>
-                      {!message.isRead && (
-                        <Badge variant="secondary" className="bg-primary/10 text-primary text-xs">
-                          New
-                        </Badge>
+        <div className="grid gap-6 lg:grid-cols-5">
+          <Card className="border-0 shadow-md lg:col-span-2 overflow-hidden">
+            <CardContent className="p-0">
+              <div className="flex items-center gap-3 px-4 py-3 border-b">
+                <Checkbox
+                  checked={allVisibleSelected}
+                  onCheckedChange={(checked) =>
+                    setSelectedIds(checked ? filteredMessages.map((message) => message.id!) : [])
+                  }
+                  aria-label="Select all"
+                />
+                <span className="text-sm text-muted-foreground">
+                  {filteredMessages.length} message{filteredMessages.length === 1 ? "" : "s"}
+                </span>
+              </div>
+              {filteredMessages.length === 0 ? (
+                <p className="p-8 text-center text-sm text-muted-foreground">No messages match these filters.</p>
+              ) : (
+                <ul className="divide-y max-h-[70vh] overflow-y-auto">
+                  {filteredMessages.map((message) => {
+                    const status = getMessageStatus(message);
+                    return (
+                      <li
+                        key={message.id}
+                        className={`flex gap-3 px-4 py-3 cursor-pointer hover:bg-muted/50 ${
+                          message.id === openMessageId ? "bg-muted" : ""
+                        }`}
+                        onClick={() => openMessageInPanel(message)}
+                      >
+                        <Checkbox
+                          checked={selectedIds.includes(message.id!)}
+                          onCheckedChange={(checked) => toggleSelected(message.id!, checked === true)}
+                          onClick={(e) => e.stopPropagation()}
+                          aria-label={`Select message from ${message.name}`}
+                          className="mt-1"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center justify-between gap-2">
+                            <p className={`truncate ${message.isRead ? "text-foreground" : "font-semibold text-foreground"}`}>
+                              {message.name}
+                            </p>
+                            <span className="text-xs text-muted-foreground shrink-0">
+                              {format(toDate(message.createdAt), "d MMM")}
+                            </span>
+                          </div>
+                          <p className="text-sm text-muted-foreground truncate">{message.message}</p>
+                          <div className="flex flex-wrap items-center gap-2 mt-1">
+                            <Badge variant="secondary" className={`text-xs ${statusClasses[status]}`}>
+                              {getMessageStatusLabel(status)}
+                            </Badge>
+                            <Badge variant="outline" className="text-xs">
+                              {getContactCategory(getMessageCategory(message)).label}
+                            </Badge>
+                            {message.assignedTo && (
+                              <span className="text-xs text-muted-foreground truncate">
+                                {message.assignedTo === user?.uid ? "Assigned to me" : getAdminName(message.assignedTo)}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="border-0 shadow-md lg:col-span-3">
+            {openMessage ? (
+              <MessageDetail
+                message={openMessage}
+                thread={thread}
+                isLoadingThread={isLoadingThread}
+                onClose={() => updateParam("m", null)}
+                actions={
+                  <LegalHoldControl
+                    collection="contact_submissions"
+                    recordId={openMessage.id!}
+                    record={openMessage}
+                    canManage={role === "super_admin"}
+                    onChange={invalidate}
+                  />
+                }
+              >
+                {openMessage.isSpam && (
+                  <div className="flex flex-wrap items-start justify-between gap-3 rounded-lg border border-destructive/30 bg-destructive/5 p-4">
+                    <div className="text-sm">
+                      <p className="font-medium text-destructive flex items-center gap-1">
+                        <ShieldAlert className="h-4 w-4" />
+                        Suspected spam
+                      </p>
+                      {openMessage.spamReasons && openMessage.spamReasons.length > 0 && (
+                        <ul className="list-disc list-inside text-muted-foreground mt-1">
+                          {openMessage.spamReasons.map((reason) => (
+                            <li key={reason}>{SPAM_REASON_LABELS[reason] || reason}</li>
+                          ))}
+                        </ul>
                       )}
                     </div>
-                    <a
-                      href={`mailto:${message.email}`}
-                      className="text-sm text-primary hover:underline flex items-center gap-1 mb-3"
-                    >
-                      <Mail className="h-3 w-3" />
-                      {message.email}
-                    </a>
-                    <p className="text-muted-foreground whitespace-pre-wrap">{message.message}</p>
-                    <p className="text-xs text-muted-foreground mt-4">
-                      Received: {format(message.createdAt instanceof Date ? message.createdAt : message.createdAt.toDate(), "MMMM d, yyyy 'at' h:mm a")}
-                    </p>
-                  </div>
-                  <div className="flex flex-col gap-2">
-                    {!message.isRead && (
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => markReadMutation.mutate(message.id)}
-                        title="Mark as read"
-                      >
-                        <Check className="h-4 w-4" />
-                      </Button>
-                    )}
                     <Button
-                      variant="ghost"
-                      size="icon"
-                      className="text-destructive hover:text-destructive"
-                      onClick={() => deleteMutation.mutate(message.id)}
-                      title="Delete"
+                      variant="outline"
+                      size="sm"
+                      className="gap-1"
+                      onClick={() => spamMutation.mutate({ ids: [openMessage.id!], isSpam: false })}
+                      disabled={spamMutation.isPending}
                     >
-                      <Trash2 className="h-4 w-4" />
+                      <ShieldCheck className="h-4 w-4" />
+                      Not spam
                     </Button>
                   </div>
+                )}
+                <div className="grid sm:grid-cols-2 gap-3">
+                  <Select
+                    value={getMessageStatus(openMessage)}
+                    onValueChange={(value) =>
+                      statusMutation.mutate({ ids: [openMessage.id!], status: value as MessageStatus })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MESSAGE_STATUSES.map((status) => (
+                        <SelectItem key={status.value} value={status.value}>
+                          {status.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={openMessage.assignedTo || UNASSIGNED}
+                    onValueChange={(value) =>
+                      assignMutation.mutate({ ids: [openMessage.id!], userId: value === UNASSIGNED ? null : value })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                      {renderAssigneeItems()}
+                    </SelectContent>
+                  </Select>
                 </div>
+
+                <form onSubmit={handleComposerSubmit} className="space-y-3 border-t pt-4">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <Tabs value={composerMode} onValueChange={(value) => setComposerMode(value as "reply" | "note")}>
+                      <TabsList>
+                        <TabsTrigger value="reply" className="gap-1">
+                          <Send className="h-3 w-3" />
+                          Reply
+                        </TabsTrigger>
+                        <TabsTrigger value="note" className="gap-1">
+                          <StickyNote className="h-3 w-3" />
+                          Internal note
+                        </TabsTrigger>
+                      </TabsList>
+                    </Tabs>
+                    {cannedResponses.length > 0 && (
+                      <Select value="" onValueChange={insertCannedResponse}>
+                        <SelectTrigger className="w-full sm:w-56">
+                          <SelectValue placeholder="Insert saved response" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {cannedResponses.map((response) => (
+                            <SelectItem key={response.id} value={response.id!}>
+                              {response.title}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                  <Textarea
+                    ref={draftRef}
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    rows={5}
+                    maxLength={5000}
+                    placeholder={
+                      composerMode === "reply"
+                        ? `Write a reply to ${openMessage.name}...`
+                        : "Only admins can see internal notes"
+                    }
+                    className={composerMode === "note" ? "bg-secondary/30" : ""}
+                  />
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs text-muted-foreground">
+                      {composerMode === "reply"
+                        ? `Emailed to ${openMessage.email} and marked Awaiting Reply`
+                        : "Not sent to the sender"}
+                    </p>
+                    <Button type="submit" className="gap-2" disabled={!draft.trim() || composerMutation.isPending}>
+                      {composerMutation.isPending ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : composerMode === "reply" ? (
+                        <Send className="h-4 w-4" />
+                      ) : (
+                        <StickyNote className="h-4 w-4" />
+                      )}
+                      {composerMode === "reply" ? "Send Reply" : "Add Note"}
+                    </Button>
+                  </div>
+                </form>
+              </MessageDetail>
+            ) : (
+              <CardContent className="p-12 text-center">
+                <Mail className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">Select a message to read it and reply.</p>
               </CardContent>
-            </Card>
-          ))}
+            )}
+          </Card>
         </div>
       ) : (
         <Card className="border-0 shadow-md">
@@ -130,3 +740,73 @@ export default function AdminMessages() {
     </div>
   );
 }
+
+interface MessageDetailProps {
+  message: ContactSubmission;
+  thread?: Awaited<ReturnType<typeof getMessageThread>>;
+  isLoadingThread: boolean;
+  onClose: () => void;
+  actions?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+// The original message followed by the conversation; controls are passed in as children
+function MessageDetail({ message, thread, isLoadingThread, onClose, actions, children }: MessageDetailProps) {
+  return (
+    <CardContent className="p-6 space-y-5">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="font-semibold text-lg text-foreground">{message.name}</h2>
+          <a
+            href={`mailto:${message.email}`}
+            className="text-sm text-primary hover:underline flex items-center gap-1"
+          >
+            <Mail className="h-3 w-3" />
+            {message.email}
+          </a>
+          <div className="flex flex-wrap items-center gap-2 mt-2">
+            <Badge variant="outline">{getContactCategory(getMessageCategory(message)).label}</Badge>
+            {actions}
+          </div>
+        </div>
+        <Button variant="ghost" size="icon" onClick={onClose} title="Close">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-3 max-h-[45vh] overflow-y-auto pr-1">
+        <div className="rounded-lg bg-muted/50 p-4">
+          <p className="text-foreground whitespace-pre-wrap">{message.message}</p>
+          <p className="text-xs text-muted-foreground mt-3">
+            Received: {format(toDate(message.createdAt), "MMMM d, yyyy 'at' h:mm a")}
+          </p>
+        </div>
+
+        {isLoadingThread ? (
+          <Skeleton className="h-16 w-full" />
+        ) : (
+          thread?.map((entry) => (
+            <div
+              key={entry.id}
+              className={
+                entry.type === "reply"
+                  ? "rounded-lg border border-primary/20 bg-primary/5 p-4 ml-6"
+                  : "rounded-lg border border-dashed bg-secondary/30 p-4 ml-6"
+              }
+            >
+              <div className="flex items-center gap-2 mb-2 text-xs text-muted-foreground">
+                {entry.type === "reply" ? <Send className="h-3 w-3" /> : <StickyNote className="h-3 w-3" />}
+                <span className="font-medium text-foreground">{entry.authorName}</span>
+                <span>{entry.type === "reply" ? `replied to ${entry.emailedTo}` : "added a note"}</span>
+                {entry.createdAt && <span className="ml-auto">{format(toDate(entry.createdAt), "d MMM yyyy, HH:mm")}</span>}
+              </div>
+              <p className="text-sm text-foreground whitespace-pre-wrap">{entry.body}</p>
+            </div>
+          ))
+        )}
+      </div>
+
+      {children}
+    </CardContent>
+  );
+}
@@ -0,0 +1,244 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  getPrayerRequests,
+  getPrayerRequestContact,
+  reviewPrayerRequest,
+  updatePrayerRequestPrivacy,
+  deletePrayerRequest,
+  PrayerPrivacy,
+  PrayerRequest,
+  PrayerRequestStatus,
+} from "@/integrations/firebase/firestore/church";
+import { LegalHoldControl } from "@/components/privacy/LegalHoldControl";
+import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Check, X, Trash2, HandHeart, Mail } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+
+const privacyLabels: Record<PrayerPrivacy, string> = {
+  public: "Prayer wall",
+  intercessors: "Intercessors only",
+  leadership: "Leadership only",
+};
+
+const statusTabs: { value: PrayerRequestStatus; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "approved", label: "Approved" },
+  { value: "rejected", label: "Rejected" },
+];
+
+export default function AdminPrayerRequests() {
+  const queryClient = useQueryClient();
+  const { user, role } = useFirebaseAuth();
+
+  const { data: prayerRequests, isLoading } = useQuery({
+    queryKey: ["admin-prayer-requests"],
+    queryFn: async () => {
+      const requests = await getPrayerRequests();
+      return Promise.all(
+        requests.map(async (request) => ({
+          ...request,
+          contact: await getPrayerRequestContact(request.id!),
+        }))
+      );
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["admin-prayer-requests"] });
+    queryClient.invalidateQueries({ queryKey: ["pending-prayer-count"] });
+    queryClient.invalidateQueries({ queryKey: ["prayer-wall"] });
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: PrayerRequestStatus }) =>
+      reviewPrayerRequest(id, status, user!.uid),
+    onSuccess: (_data, { status }) => {
+      invalidate();
+      toast.success(status === "approved" ? "Prayer request approved" : "Prayer request rejected");
+    },
+    onError: () => toast.error("Failed to update prayer request"),
+  });
+
+  const privacyMutation = useMutation({
+    mutationFn: ({ id, privacy }: { id: string; privacy: PrayerPrivacy }) =>
+      updatePrayerRequestPrivacy(id, privacy),
+    onSuccess: () => {
+      invalidate();
+      toast.success("Visibility updated");
+    },
+    onError: () => toast.error("Failed to update visibility"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deletePrayerRequest,
+    onSuccess: () => {
+      invalidate();
+      toast.success("Prayer request deleted");
+    },
+    onError: () => toast.error("Failed to delete prayer request"),
+  });
+
+  const pendingCount = prayerRequests?.filter((r) => r.status === "pending").length || 0;
+
+  const renderRequest = (request: PrayerRequest & { contact: { name: string; email?: string } | null }) => {
+    const createdAt = request.createdAt instanceof Date ? request.createdAt : request.createdAt?.toDate();
+    return (
+      <Card
+        key={request.id}
+        className={`border-0 shadow-md ${request.status === "pending" ? "ring-2 ring-primary/20" : ""}`}
+      >
+        <CardContent className="p-6">
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex-1">
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                <h3 className="font-semibold text-foreground">{request.contact?.name || request.displayName}</h3>
+                {request.displayName === "Anonymous" && (
+                  <Badge variant="outline" className="text-xs">Anonymous on wall</Badge>
+                )}
+                <Badge variant="secondary" className="text-xs">
+                  {request.prayerCount || 0} prayed
+                </Badge>
+              </div>
+              {request.contact?.email && (
+                <a
+                  href={`mailto:${request.contact.email}`}
+                  className="text-sm text-primary hover:underline flex items-center gap-1 mb-3"
+                >
+                  <Mail className="h-3 w-3" />
+                  {request.contact.email}
+                </a>
+              )}
+              <p className="text-muted-foreground whitespace-pre-wrap">{request.request}</p>
+              <div className="flex flex-wrap items-center gap-4 mt-4">
+                <Select
+                  value={request.privacy}
+                  onValueChange={(value) => privacyMutation.mutate({ id: request.id!, privacy: value as PrayerPrivacy })}
+                >
+                  <SelectTrigger className="w-[180px] h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(privacyLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {createdAt && (
+                  <p className="text-xs text-muted-foreground">
+                    Received: {format(createdAt, "MMMM d, yyyy 'at' h:mm a")}
+                  </p>
+                )}
+                <LegalHoldControl
+                  collection="prayer_requests"
+                  recordId={request.id!}
+                  record={request}
+                  canManage={role === "super_admin"}
+                  onChange={invalidate}
+                />
+              </div>
+            </div>
+            <div className="flex flex-col gap-2">
+              {request.status !== "approved" && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => reviewMutation.mutate({ id: request.id!, status: "approved" })}
+                  title="Approve"
+                >
+                  <Check className="h-4 w-4" />
+                </Button>
+              )}
+              {request.status !== "rejected" && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => reviewMutation.mutate({ id: request.id!, status: "rejected" })}
+                  title="Reject"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-destructive hover:text-destructive"
+                onClick={() => deleteMutation.mutate(request.id!)}
+                disabled={request.legalHold}
+                title={request.legalHold ? "On legal hold" : "Delete"}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="font-display text-3xl font-bold text-foreground">Prayer Requests</h1>
+        <p className="text-muted-foreground">
+          Review prayer requests before they appear on the prayer wall
+          {pendingCount > 0 && (
+            <span className="ml-2">
+              <Badge variant="secondary" className="bg-primary/10 text-primary">
+                {pendingCount} pending
+              </Badge>
+            </span>
+          )}
+        </p>
+      </div>
+
+      <Tabs defaultValue="pending">
+        <TabsList>
+          {statusTabs.map((tab) => (
+            <TabsTrigger key={tab.value} value={tab.value}>
+              {tab.label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+
+        {statusTabs.map((tab) => {
+          const items = prayerRequests?.filter((r) => r.status === tab.value) || [];
+          return (
+            <TabsContent key={tab.value} value={tab.value} className="mt-4">
+              {isLoading ? (
+                <div className="space-y-4">
+                  {Array.from({ length: 3 }).map((_, i) => (
+                    <Card key={i} className="border-0 shadow-md">
+                      <CardContent className="p-6">
+                        <Skeleton className="h-6 w-1/3 mb-2" />
+                        <Skeleton className="h-4 w-full mb-4" />
+                        <Skeleton className="h-4 w-2/3" />
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              ) : items.length > 0 ? (
+                <div className="space-y-4">{items.map(renderRequest)}</div>
+              ) : (
+                <Card className="border-0 shadow-md">
+                  <CardContent className="p-12 text-center">
+                    <HandHeart className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                    <p className="text-muted-foreground">No {tab.label.toLowerCase()} prayer requests.</p>
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+          );
+        })}
+      </Tabs>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useRef } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
 import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
 import { getUserProfile, updateUserProfile as updateProfileInDb } from "@/integrations/firebase/firestore/users";
 import { updateUserEmail, updateUserPassword, reauthenticateUser } from "@/integrations/firebase/auth";
@@ -13,7 +14,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Camera, User, Mail, Lock, Phone, Save, Loader2, Eye, EyeOff, Trash2 } from "lucide-react";
+import { Camera, User, Mail, Lock, Phone, Save, Loader2, Eye, EyeOff, Trash2, ShieldCheck } from "lucide-react";
 import { ImageCropper } from "@/components/ImageCropper";
 import {
   AlertDialog,
@@ -656,6 +657,24 @@ export default function AdminProfile() {
         </CardContent>
       </Card>
 
+      {/* Personal Data */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Your Data
+          </CardTitle>
+          <CardDescription>
+            Download everything we hold about you, or delete your account
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button variant="outline" asChild>
+            <Link to="/my-data">Open My Data</Link>
+          </Button>
+        </CardContent>
+      </Card>
+
       {/* Image Cropper Dialog */}
       <ImageCropper
         open={cropperOpen}
@@ -0,0 +1,485 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  getAllWatchSlots,
+  createWatchSlot,
+  updateWatchSlot,
+  deleteWatchSlot,
+  getWatchSignups,
+  claimWatchSlot,
+  releaseWatchSlot,
+  reassignWatchSignup,
+  buildCoverageGrid,
+  WEEK_DAYS,
+  WatchMember,
+  WatchSignup,
+  WatchSlot,
+} from "@/integrations/firebase/firestore/roster";
+import { getAllUsers } from "@/integrations/firebase/admin";
+import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Plus, Pencil, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+interface SlotFormData {
+  title: string;
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  capacity: string;
+  is_active: boolean;
+}
+
+const defaultFormData: SlotFormData = {
+  title: "",
+  day_of_week: "Sunday",
+  start_time: "00:00",
+  end_time: "03:00",
+  capacity: "2",
+  is_active: true,
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const coverageClass = (count: number) => {
+  if (count === 0) return "bg-destructive/20 text-destructive";
+  return count === 1 ? "bg-primary/30" : "bg-primary/60 text-primary-foreground";
+};
+
+export default function AdminRoster() {
+  const queryClient = useQueryClient();
+  const { user } = useFirebaseAuth();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingSlot, setEditingSlot] = useState<string | null>(null);
+  const [formData, setFormData] = useState<SlotFormData>(defaultFormData);
+
+  const { data: slots, isLoading: slotsLoading } = useQuery({
+    queryKey: ["admin-watch-slots"],
+    queryFn: getAllWatchSlots,
+  });
+
+  const { data: signups, isLoading: signupsLoading } = useQuery({
+    queryKey: ["admin-watch-signups"],
+    queryFn: getWatchSignups,
+  });
+
+  const { data: members } = useQuery({
+    queryKey: ["roster-members", user?.uid],
+    queryFn: () => getAllUsers(user!.uid),
+    enabled: !!user,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["admin-watch-slots"] });
+    queryClient.invalidateQueries({ queryKey: ["admin-watch-signups"] });
+    queryClient.invalidateQueries({ queryKey: ["watch-slots"] });
+    queryClient.invalidateQueries({ queryKey: ["watch-signups"] });
+  };
+
+  const toSlot = (data: SlotFormData) => ({
+    title: data.title,
+    dayOfWeek: data.day_of_week,
+    startTime: data.start_time,
+    endTime: data.end_time,
+    capacity: Math.max(1, parseInt(data.capacity) || 1),
+    isActive: data.is_active,
+  });
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingSlot(null);
+    setFormData(defaultFormData);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (data: SlotFormData) => createWatchSlot(toSlot(data)),
+    onSuccess: () => {
+      invalidate();
+      closeDialog();
+      toast.success("Watch slot created");
+    },
+    onError: () => toast.error("Failed to create watch slot"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: SlotFormData }) => updateWatchSlot(id, toSlot(data)),
+    onSuccess: () => {
+      invalidate();
+      closeDialog();
+      toast.success("Watch slot updated");
+    },
+    onError: () => toast.error("Failed to update watch slot"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteWatchSlot,
+    onSuccess: () => {
+      invalidate();
+      toast.success("Watch slot deleted");
+    },
+    onError: () => toast.error("Failed to delete watch slot"),
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: ({ slotId, member }: { slotId: string; member: WatchMember }) =>
+      claimWatchSlot(slotId, member, user!.uid),
+    onSuccess: () => {
+      invalidate();
+      toast.success("Intercessor assigned");
+    },
+    onError: () => toast.error("Failed to assign intercessor"),
+  });
+
+  const reassignMutation = useMutation({
+    mutationFn: ({ signup, member }: { signup: WatchSignup; member: WatchMember }) =>
+      reassignWatchSignup(signup, member, user!.uid),
+    onSuccess: () => {
+      invalidate();
+      toast.success("Watch reassigned");
+    },
+    onError: () => toast.error("Failed to reassign watch"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (signup: WatchSignup) => releaseWatchSlot(signup.slotId, signup.userId),
+    onSuccess: () => {
+      invalidate();
+      toast.success("Intercessor removed from watch");
+    },
+    onError: () => toast.error("Failed to remove intercessor"),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingSlot) {
+      updateMutation.mutate({ id: editingSlot, data: formData });
+    } else {
+      createMutation.mutate(formData);
+    }
+  };
+
+  const handleEdit = (slot: WatchSlot) => {
+    setEditingSlot(slot.id!);
+    setFormData({
+      title: slot.title,
+      day_of_week: slot.dayOfWeek,
+      start_time: slot.startTime,
+      end_time: slot.endTime,
+      capacity: String(slot.capacity),
+      is_active: slot.isActive,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleOpenCreate = () => {
+    setEditingSlot(null);
+    setFormData(defaultFormData);
+    setIsDialogOpen(true);
+  };
+
+  const toMember = (uid: string): WatchMember | null => {
+    const profile = members?.find((m) => m.uid === uid);
+    if (!profile) return null;
+    return { uid: profile.uid, displayName: profile.displayName || profile.email };
+  };
+
+  const isLoading = slotsLoading || signupsLoading;
+  const grid = buildCoverageGrid(slots || [], signups || []);
+  const uncoveredHours = grid.flat().filter((count) => count === 0).length;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="font-display text-3xl font-bold text-foreground">Prayer Watch</h1>
+          <p className="text-muted-foreground">Manage the 24/7 intercession roster</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={handleOpenCreate} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Add Slot
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{editingSlot ? "Edit Watch Slot" : "Add Watch Slot"}</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="title">Title</Label>
+                <Input
+                  id="title"
+                  value={formData.title}
+                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                  placeholder="Night watch"
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="day_of_week">Day</Label>
+                  <Select
+                    value={formData.day_of_week}
+                    onValueChange={(value) => setFormData({ ...formData, day_of_week: value })}
+                  >
+                    <SelectTrigger id="day_of_week">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEK_DAYS.map((day) => (
+                        <SelectItem key={day} value={day}>
+                          {day}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="capacity">Intercessors needed</Label>
+                  <Input
+                    id="capacity"
+                    type="number"
+                    min={1}
+                    value={formData.capacity}
+                    onChange={(e) => setFormData({ ...formData, capacity: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="start_time">Start Time</Label>
+                  <Input
+                    id="start_time"
+                    type="time"
+                    value={formData.start_time}
+                    onChange={(e) => setFormData({ ...formData, start_time: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="end_time">End Time</Label>
+                  <Input
+                    id="end_time"
+                    type="time"
+                    value={formData.end_time}
+                    onChange={(e) => setFormData({ ...formData, end_time: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                An end time earlier than the start time runs past midnight into the next day.
+              </p>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="is_active"
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+                />
+                <Label htmlFor="is_active">Active (open for sign-up)</Label>
+              </div>
+
+              <div className="flex gap-2 pt-4">
+                <Button type="button" variant="outline" onClick={closeDialog} className="flex-1">
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  className="flex-1"
+                  disabled={createMutation.isPending || updateMutation.isPending}
+                >
+                  {editingSlot ? "Update" : "Create"}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Coverage Grid */}
+      <Card className="border-0 shadow-md mb-8">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Weekly Coverage</CardTitle>
+          {!isLoading && (
+            <Badge
+              variant="secondary"
+              className={uncoveredHours > 0 ? "bg-destructive/10 text-destructive" : "bg-primary/10 text-primary"}
+            >
+              {uncoveredHours > 0 ? `${uncoveredHours} uncovered hours` : "Fully covered"}
+            </Badge>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs border-separate border-spacing-0.5">
+                <thead>
+                  <tr>
+                    <th className="w-12" />
+                    {WEEK_DAYS.map((day) => (
+                      <th key={day} className="font-medium text-muted-foreground py-1">
+                        {day.slice(0, 3)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {HOURS.map((hour) => (
+                    <tr key={hour}>
+                      <td className="text-muted-foreground pr-2 text-right">
+                        {String(hour).padStart(2, "0")}:00
+                      </td>
+                      {WEEK_DAYS.map((day, dayIndex) => {
+                        const count = grid[dayIndex][hour];
+                        return (
+                          <td
+                            key={day}
+                            className={cn("text-center rounded h-5", coverageClass(count))}
+                            title={`${day} ${String(hour).padStart(2, "0")}:00 - ${count} intercessor${count === 1 ? "" : "s"}`}
+                          >
+                            {count > 0 ? count : ""}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Slots */}
+      <Card className="border-0 shadow-md">
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="p-6 space-y-4">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <Skeleton key={i} className="h-20 w-full" />
+              ))}
+            </div>
+          ) : slots && slots.length > 0 ? (
+            <div className="divide-y">
+              {slots.map((slot) => {
+                const slotSignups = signups?.filter((s) => s.slotId === slot.id) || [];
+                const takenIds = new Set(slotSignups.map((s) => s.userId));
+                const available = members?.filter((m) => !takenIds.has(m.uid)) || [];
+
+                return (
+                  <div key={slot.id} className="p-4 hover:bg-muted/50">
+                    <div className="flex items-center justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2">
+                          <h3 className="font-semibold text-foreground">{slot.title}</h3>
+                          {!slot.isActive && <span className="text-xs bg-muted px-2 py-0.5 rounded">Inactive</span>}
+                          <Badge
+                            variant="secondary"
+                            className={slotSignups.length === 0 ? "bg-destructive/10 text-destructive" : ""}
+                          >
+                            {slotSignups.length}/{slot.capacity}
+                          </Badge>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {slot.dayOfWeek} • {slot.startTime} - {slot.endTime}
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button variant="ghost" size="icon" onClick={() => handleEdit(slot)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => deleteMutation.mutate(slot.id!)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="mt-3 space-y-2">
+                      {slotSignups.map((signup) => (
+                        <div key={signup.id} className="flex items-center gap-2">
+                          <Select
+                            value={signup.userId}
+                            onValueChange={(uid) => {
+                              const member = toMember(uid);
+                              if (member) reassignMutation.mutate({ signup, member });
+                            }}
+                          >
+                            <SelectTrigger className="w-[240px] h-8 text-xs">
+                              <SelectValue placeholder={signup.displayName} />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={signup.userId}>{signup.displayName}</SelectItem>
+                              {available.map((member) => (
+                                <SelectItem key={member.uid} value={member.uid}>
+                                  {member.displayName || member.email}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => removeMutation.mutate(signup)}
+                            title="Remove from watch"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      {slotSignups.length < slot.capacity && available.length > 0 && (
+                        <Select
+                          value=""
+                          onValueChange={(uid) => {
+                            const member = toMember(uid);
+                            if (member) assignMutation.mutate({ slotId: slot.id!, member });
+                          }}
+                        >
+                          <SelectTrigger className="w-[240px] h-8 text-xs">
+                            <SelectValue placeholder="Assign intercessor..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {available.map((member) => (
+                              <SelectItem key={member.uid} value={member.uid}>
+                                {member.displayName || member.email}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="p-12 text-center">
+              <p className="text-muted-foreground">No watch slots yet. Add the first slot to start the roster.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -9,7 +9,16 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
 import { Skeleton } from "@/components/ui/skeleton";
+import { PodcastPreview } from "@/components/sermons/PodcastPreview";
+import { EmailTemplatesEditor } from "@/components/messages/EmailTemplatesEditor";
+import { RetentionSettings } from "@/components/privacy/RetentionSettings";
 import { Save } from "lucide-react";
+import {
+  DEFAULT_ADMIN_REQUEST_EXPIRY_DAYS,
+  MAX_ADMIN_REQUEST_EXPIRY_DAYS,
+  MIN_ADMIN_REQUEST_EXPIRY_DAYS,
+  getAdminRequestExpiryDays,
+} from "@/lib/adminRequests";
 
 export default function AdminSettings() {
   const queryClient = useQueryClient();
@@ -30,6 +39,9 @@ export default function AdminSettings() {
     facebookUrl: "",
     instagramUrl: "",
     googleMapsEmbedUrl: "",
+    podcastDescription: "",
+    podcastImageUrl: "",
+    adminRequestExpiryDays: DEFAULT_ADMIN_REQUEST_EXPIRY_DAYS,
   });
 
   useEffect(() => {
@@ -45,6 +57,9 @@ export default function AdminSettings() {
         facebookUrl: churchInfo.facebookUrl || "",
         instagramUrl: churchInfo.instagramUrl || "",
         googleMapsEmbedUrl: churchInfo.googleMapsEmbedUrl || "",
+        podcastDescription: churchInfo.podcastDescription || "",
+        podcastImageUrl: churchInfo.podcastImageUrl || "",
+        adminRequestExpiryDays: getAdminRequestExpiryDays(churchInfo.adminRequestExpiryDays),
       });
     }
   }, [churchInfo]);
@@ -63,7 +78,10 @@ export default function AdminSettings() {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    updateMutation.mutate(formData);
+    updateMutation.mutate({
+      ...formData,
+      adminRequestExpiryDays: getAdminRequestExpiryDays(formData.adminRequestExpiryDays),
+    });
   };
 
   if (isLoading) {
@@ -90,10 +108,13 @@ export default function AdminSettings() {
 
       <form onSubmit={handleSubmit}>
         <Tabs defaultValue="general" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3 max-w-md">
+          <TabsList className="grid w-full grid-cols-6 max-w-3xl">
             <TabsTrigger value="general">General</TabsTrigger>
             <TabsTrigger value="about">About</TabsTrigger>
             <TabsTrigger value="social">Social</TabsTrigger>
+            <TabsTrigger value="podcast">Podcast</TabsTrigger>
+            <TabsTrigger value="emails">Emails</TabsTrigger>
+            <TabsTrigger value="privacy">Privacy</TabsTrigger>
           </TabsList>
 
           <TabsContent value="general">
@@ -158,6 +179,29 @@ export default function AdminSettings() {
                 </div>
               </CardContent>
             </Card>
+
+            <Card className="border-0 shadow-md mt-6">
+              <CardHeader>
+                <CardTitle>Admin Access Requests</CardTitle>
+                <CardDescription>How long a request waits for review before it expires</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <Label htmlFor="adminRequestExpiryDays">Expire after (days)</Label>
+                <Input
+                  id="adminRequestExpiryDays"
+                  type="number"
+                  min={MIN_ADMIN_REQUEST_EXPIRY_DAYS}
+                  max={MAX_ADMIN_REQUEST_EXPIRY_DAYS}
+                  className="w-32"
+                  value={formData.adminRequestExpiryDays}
+                  onChange={(e) => setFormData({ ...formData, adminRequestExpiryDays: Number(e.target.value) })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Between {MIN_ADMIN_REQUEST_EXPIRY_DAYS} and {MAX_ADMIN_REQUEST_EXPIRY_DAYS} days. Applies to new requests;
+                  the requester is emailed when theirs expires.
+                </p>
+              </CardContent>
+            </Card>
           </TabsContent>
 
           <TabsContent value="about">
@@ -231,6 +275,72 @@ export default function AdminSettings() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="podcast" className="space-y-6">
+            <Card className="border-0 shadow-md">
+              <CardHeader>
+                <CardTitle>Podcast</CardTitle>
+                <CardDescription>How the teachings podcast appears in podcast apps</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="podcastDescription">Podcast Description</Label>
+                  <Textarea
+                    id="podcastDescription"
+                    value={formData.podcastDescription}
+                    onChange={(e) => setFormData({ ...formData, podcastDescription: e.target.value })}
+                    rows={4}
+                    placeholder="Sermons and teachings from..."
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Leave empty to use the mission statement
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="podcastImageUrl">Podcast Artwork URL</Label>
+                  <div className="flex items-center gap-4">
+                    <Input
+                      id="podcastImageUrl"
+                      value={formData.podcastImageUrl}
+                      onChange={(e) => setFormData({ ...formData, podcastImageUrl: e.target.value })}
+                      placeholder="https://..."
+                    />
+                    {formData.podcastImageUrl && (
+                      <img
+                        src={formData.podcastImageUrl}
+                        alt="Podcast artwork"
+                        className="h-12 w-12 rounded-md object-cover shrink-0"
+                      />
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Square JPG or PNG between 1400 and 3000 pixels, as required by Apple Podcasts
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="border-0 shadow-md">
+              <CardHeader>
+                <CardTitle>Feed Preview</CardTitle>
+                <CardDescription>Active teachings with uploaded audio, newest first</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PodcastPreview />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="emails" className="space-y-6">
+            <EmailTemplatesEditor
+              church={{ churchName: formData.churchName, email: formData.email, phone: formData.phone }}
+            />
+          </TabsContent>
+
+          <TabsContent value="privacy" className="space-y-6">
+            <RetentionSettings />
+          </TabsContent>
         </Tabs>
 
         <div className="mt-6">
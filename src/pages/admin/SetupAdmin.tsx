@@ -1,37 +1,99 @@
-// Admin Setup Page - Use this to create the first admin
+// Admin Setup Page - makes the signed-in user the first super admin of a new site, once,
+// with the setup code from the ADMIN_BOOTSTRAP_CODE environment variable
 import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { toast } from "sonner";
-import { createSuperAdmin } from "@/integrations/firebase/firestore/users";
-import { Shield, AlertCircle } from "lucide-react";
+import { bootstrapOwner } from "@/integrations/firebase/helpers";
+import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { Shield, AlertCircle, Loader2, LogIn } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 
 export default function SetupAdmin() {
-  const [userId, setUserId] = useState("");
+  const navigate = useNavigate();
+  const { user, isAdmin, isLoading: isAuthLoading } = useFirebaseAuth();
+  const [code, setCode] = useState("");
   const [isLoading, setIsLoading] = useState(false);
 
-  const handleCreateAdmin = async (e: React.FormEvent) => {
+  const handleSetup = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!userId.trim()) {
-      toast.error("Please enter a user ID");
+
+    if (!code.trim()) {
+      toast.error("Please enter the setup code");
       return;
     }
 
     setIsLoading(true);
-    try {
-      await createSuperAdmin(userId.trim());
-      toast.success("Super admin created successfully!");
-      setUserId("");
-    } catch (error: any) {
-      toast.error(error.message || "Failed to create admin");
-      console.error(error);
-    } finally {
-      setIsLoading(false);
+    const result = await bootstrapOwner(code.trim());
+    setIsLoading(false);
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to set up the site");
+      return;
+    }
+    toast.success("You're now the super admin of this site");
+    navigate("/admin");
+  };
+
+  const renderContent = () => {
+    if (isAuthLoading) {
+      return (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+
+    if (!user) {
+      return (
+        <div className="space-y-4 text-center">
+          <p className="text-sm text-muted-foreground">
+            Sign in or create the account that should own the site, then come back here.
+          </p>
+          <Button asChild className="w-full">
+            <Link to="/auth?setup=1">
+              <LogIn className="mr-2 h-4 w-4" />
+              Sign In to Continue
+            </Link>
+          </Button>
+        </div>
+      );
     }
+
+    if (isAdmin) {
+      return (
+        <div className="space-y-4 text-center">
+          <p className="text-sm text-muted-foreground">You already have admin access.</p>
+          <Button asChild className="w-full">
+            <Link to="/admin">Open Admin Panel</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSetup} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="code">Setup code</Label>
+          <Input
+            id="code"
+            type="password"
+            autoComplete="off"
+            placeholder="Enter the setup code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            disabled={isLoading}
+          />
+        </div>
+
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? "Setting up..." : `Make ${user.email} Super Admin`}
+        </Button>
+      </form>
+    );
   };
 
   return (
@@ -45,47 +107,20 @@ export default function SetupAdmin() {
           </div>
           <CardTitle className="text-2xl">Admin Setup</CardTitle>
           <CardDescription>
-            Create a super admin user for your Firebase application
+            Choose the first super admin of a new site
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
           <Alert>
             <AlertCircle className="h-4 w-4" />
-            <AlertTitle>How to find User ID</AlertTitle>
+            <AlertTitle>One-time setup</AlertTitle>
             <AlertDescription className="text-sm space-y-2">
-              <p>1. Sign in to your Firebase account</p>
-              <p>2. Go to Firebase Console → Authentication</p>
-              <p>3. Find the user and copy their UID</p>
-              <p className="font-semibold mt-2">Note: The first user to register is automatically made a super admin</p>
+              <p>The setup code is the ADMIN_BOOTSTRAP_CODE environment variable set in Netlify.</p>
+              <p>It works once, and only while the site has no super admin. Everyone after that is invited or asks for access.</p>
             </AlertDescription>
           </Alert>
 
-          <form onSubmit={handleCreateAdmin} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="userId">User ID (UID)</Label>
-              <Input
-                id="userId"
-                type="text"
-                placeholder="Enter Firebase User UID"
-                value={userId}
-                onChange={(e) => setUserId(e.target.value)}
-                disabled={isLoading}
-              />
-            </div>
-
-            <Button 
-              type="submit" 
-              className="w-full"
-              disabled={isLoading}
-            >
-              {isLoading ? "Creating..." : "Create Super Admin"}
-            </Button>
-          </form>
-
-          <div className="text-sm text-muted-foreground text-center space-y-1">
-            <p>This page should only be accessible during initial setup</p>
-            <p>Remove or protect this route in production</p>
-          </div>
+          {renderContent()}
         </CardContent>
       </Card>
     </div>
@@ -1,36 +1,97 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { getAllVideos, createVideo, updateVideo, deleteVideo, updateVideoOrder } from "@/integrations/firebase/firestore/church";
+import {
+  getAllVideos,
+  createVideo,
+  updateVideo,
+  deleteVideo,
+  getYouTubeSyncStatus,
+  Video as VideoItem,
+} from "@/integrations/firebase/firestore/church";
+import { getAllSermonSeries, getAllSpeakers } from "@/integrations/firebase/firestore/sermons";
+import { getAllPlaylists, getVideoCategoryLabel, VIDEO_CATEGORIES } from "@/integrations/firebase/firestore/playlists";
+import { uploadFile, deleteFile } from "@/integrations/firebase/client";
+import { syncYouTubeChannel } from "@/integrations/firebase/helpers";
+import { parseScriptureReferences } from "@/lib/scripture";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import { Plus, Pencil, Trash2, GripVertical, Video } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { SeriesManager } from "@/components/sermons/SeriesManager";
+import { SpeakerManager } from "@/components/sermons/SpeakerManager";
+import { PlaylistManager } from "@/components/videos/PlaylistManager";
+import { Plus, Pencil, Trash2, Video, Headphones, BookOpen, RefreshCw, CloudOff } from "lucide-react";
 import { toast } from "sonner";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Timestamp } from "firebase/firestore";
+import { format, formatDistanceToNow } from "date-fns";
 
 interface VideoFormData {
   title: string;
   youtube_video_id: string;
   description: string;
   is_active: boolean;
+  category: string;
+  playlist_ids: string[];
+  is_sermon: boolean;
+  series_id: string;
+  speaker_id: string;
+  preached_on: string;
+  scriptures: string;
+  topics: string;
+  audio_url: string;
+  audio_path: string;
+  audio_size: number | null;
+  audio_type: string | null;
+  audio_duration: number | null;
 }
 
+interface AudioDetails {
+  url: string;
+  path: string;
+  size: number | null;
+  type: string | null;
+  duration: number | null;
+}
+
+const noAudio: AudioDetails = { url: "", path: "", size: null, type: null, duration: null };
+
 const defaultFormData: VideoFormData = {
   title: "",
   youtube_video_id: "",
   description: "",
   is_active: true,
+  category: "none",
+  playlist_ids: [],
+  is_sermon: false,
+  series_id: "none",
+  speaker_id: "none",
+  preached_on: "",
+  scriptures: "",
+  topics: "",
+  audio_url: "",
+  audio_path: "",
+  audio_size: null,
+  audio_type: null,
+  audio_duration: null,
 };
 
+// Sermon audio is capped so uploads stay quick on church Wi-Fi
+const MAX_AUDIO_SIZE_MB = 100;
+
 function extractYouTubeId(url: string): string {
   const patterns = [
     /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\s?]+)/,
     /^([a-zA-Z0-9_-]{11})$/,
   ];
-  
+
   for (const pattern of patterns) {
     const match = url.match(pattern);
     if (match) return match[1];
@@ -38,32 +99,126 @@ function extractYouTubeId(url: string): string {
   return url;
 }
 
+// Podcast apps show the episode length, so read it from the file before uploading
+const getAudioDuration = (file: File): Promise<number | null> =>
+  new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const audio = new Audio();
+    const finish = (duration: number | null) => {
+      URL.revokeObjectURL(url);
+      resolve(duration);
+    };
+    audio.preload = "metadata";
+    audio.onloadedmetadata = () => finish(Number.isFinite(audio.duration) ? Math.round(audio.duration) : null);
+    audio.onerror = () => finish(null);
+    audio.src = url;
+  });
+
+const toDateInput = (value?: Date | Timestamp | null) => {
+  if (!value) return "";
+  return format(value instanceof Date ? value : value.toDate(), "yyyy-MM-dd");
+};
+
+const toVideoPayload = (data: VideoFormData, audio: AudioDetails) => ({
+  title: data.title,
+  youtubeVideoId: data.youtube_video_id ? extractYouTubeId(data.youtube_video_id) : "",
+  description: data.description,
+  isActive: data.is_active,
+  category: data.category !== "none" ? data.category : null,
+  playlistIds: data.playlist_ids,
+  isSermon: data.is_sermon,
+  seriesId: data.is_sermon && data.series_id !== "none" ? data.series_id : null,
+  speakerId: data.is_sermon && data.speaker_id !== "none" ? data.speaker_id : null,
+  preachedOn: data.is_sermon && data.preached_on ? Timestamp.fromDate(new Date(data.preached_on)) : null,
+  scriptures: data.is_sermon ? parseScriptureReferences(data.scriptures) : [],
+  topics: data.is_sermon
+    ? data.topics.split(",").map((topic) => topic.trim()).filter(Boolean)
+    : [],
+  audioUrl: data.is_sermon ? audio.url || null : null,
+  audioPath: data.is_sermon ? audio.path || null : null,
+  audioSize: data.is_sermon && audio.url ? audio.size : null,
+  audioType: data.is_sermon && audio.url ? audio.type : null,
+  audioDuration: data.is_sermon && audio.url ? audio.duration : null,
+});
+
 export default function AdminVideos() {
   const queryClient = useQueryClient();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingVideo, setEditingVideo] = useState<string | null>(null);
   const [formData, setFormData] = useState<VideoFormData>(defaultFormData);
+  const [audioFile, setAudioFile] = useState<File | null>(null);
 
   const { data: videos, isLoading } = useQuery({
     queryKey: ["admin-videos"],
     queryFn: getAllVideos,
   });
 
+  const { data: series } = useQuery({
+    queryKey: ["sermon-series"],
+    queryFn: getAllSermonSeries,
+  });
+
+  const { data: speakers } = useQuery({
+    queryKey: ["speakers"],
+    queryFn: getAllSpeakers,
+  });
+
+  const { data: playlists } = useQuery({
+    queryKey: ["video-playlists"],
+    queryFn: getAllPlaylists,
+  });
+
+  const seriesTitles = Object.fromEntries((series || []).map((item) => [item.id, item.title]));
+  const speakerNames = Object.fromEntries((speakers || []).map((item) => [item.id, item.name]));
+
+  /**
+   * Uploads a newly chosen audio file, or clears audio for non-sermons.
+   * The previous file is deleted only after the video document is saved.
+   */
+  const saveWithAudio = async (data: VideoFormData, save: (audio: AudioDetails) => Promise<void>) => {
+    let audio: AudioDetails = {
+      url: data.audio_url,
+      path: data.audio_path,
+      size: data.audio_size,
+      type: data.audio_type,
+      duration: data.audio_duration,
+    };
+
+    if (data.is_sermon && audioFile) {
+      const fileExt = audioFile.name.split(".").pop();
+      const path = `sermons/audio/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+      audio = {
+        url: await uploadFile(path, audioFile, audioFile.type),
+        path,
+        size: audioFile.size,
+        type: audioFile.type || null,
+        duration: await getAudioDuration(audioFile),
+      };
+    }
+
+    await save(data.is_sermon ? audio : noAudio);
+
+    const previousPath = editingVideo ? videos?.find((video) => video.id === editingVideo)?.audioPath : null;
+    if (previousPath && previousPath !== (data.is_sermon ? audio.path : "")) {
+      await deleteFile(previousPath);
+    }
+  };
+
   const createMutation = useMutation({
     mutationFn: async (data: VideoFormData) => {
       const maxOrder = videos?.length ? Math.max(...videos.map(v => v.displayOrder || 0)) : 0;
-      await createVideo({
-        title: data.title,
-        youtubeVideoId: extractYouTubeId(data.youtube_video_id),
-        description: data.description,
-        isActive: data.is_active,
-        displayOrder: maxOrder + 1,
+      await saveWithAudio(data, async (audio) => {
+        await createVideo({
+          ...toVideoPayload(data, audio),
+          displayOrder: maxOrder + 1,
+        });
       });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["admin-videos"] });
       setIsDialogOpen(false);
       setFormData(defaultFormData);
+      setAudioFile(null);
       toast.success("Video added successfully");
     },
     onError: () => toast.error("Failed to add video"),
@@ -71,11 +226,12 @@ export default function AdminVideos() {
 
   const updateMutation = useMutation({
     mutationFn: async ({ id, data }: { id: string; data: VideoFormData }) => {
-      await updateVideo(id, {
-        title: data.title,
-        youtubeVideoId: extractYouTubeId(data.youtube_video_id),
-        description: data.description,
-        isActive: data.is_active,
+      await saveWithAudio(data, async (audio) => {
+        const payload = toVideoPayload(data, audio);
+        const previous = videos?.find((video) => video.id === id);
+        // A replacement YouTube video clears the removed flag; the next sync re-checks it
+        const replaced = previous?.removedUpstreamAt && previous.youtubeVideoId !== payload.youtubeVideoId;
+        await updateVideo(id, replaced ? { ...payload, removedUpstreamAt: null } : payload);
       });
     },
     onSuccess: () => {
@@ -83,13 +239,19 @@ export default function AdminVideos() {
       setIsDialogOpen(false);
       setEditingVideo(null);
       setFormData(defaultFormData);
+      setAudioFile(null);
       toast.success("Video updated successfully");
     },
     onError: () => toast.error("Failed to update video"),
   });
 
   const deleteMutation = useMutation({
-    mutationFn: deleteVideo,
+    mutationFn: async (video: VideoItem) => {
+      await deleteVideo(video.id!);
+      if (video.audioPath) {
+        await deleteFile(video.audioPath);
+      }
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["admin-videos"] });
       toast.success("Video deleted successfully");
@@ -97,8 +259,45 @@ export default function AdminVideos() {
     onError: () => toast.error("Failed to delete video"),
   });
 
+  const { data: syncStatus } = useQuery({
+    queryKey: ["youtube-sync-status"],
+    queryFn: getYouTubeSyncStatus,
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async () => {
+      const result = await syncYouTubeChannel();
+      if (!result.success) throw new Error(result.error);
+      return result;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-videos"] });
+      queryClient.invalidateQueries({ queryKey: ["youtube-sync-status"] });
+      const changes = [
+        `${result.imported} new video${result.imported !== 1 ? "s" : ""} imported as drafts`,
+        result.removed ? `${result.removed} removed on YouTube` : "",
+        result.restored ? `${result.restored} available again` : "",
+      ];
+      toast.success(changes.filter(Boolean).join(", "));
+    },
+    onError: (error) => toast.error(error instanceof Error ? error.message : "Failed to sync YouTube channel"),
+  });
+
+  const removedUpstreamCount = videos?.filter((video) => video.removedUpstreamAt).length || 0;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+
+    const hasAudio = !!(audioFile || formData.audio_url);
+    if (!formData.youtube_video_id && !(formData.is_sermon && hasAudio)) {
+      toast.error(formData.is_sermon ? "Add a YouTube video or an audio file" : "A YouTube video is required");
+      return;
+    }
+    if (audioFile && audioFile.size > MAX_AUDIO_SIZE_MB * 1024 * 1024) {
+      toast.error(`Audio files must be smaller than ${MAX_AUDIO_SIZE_MB}MB`);
+      return;
+    }
+
     if (editingVideo) {
       updateMutation.mutate({ id: editingVideo, data: formData });
     } else {
@@ -106,13 +305,27 @@ export default function AdminVideos() {
     }
   };
 
-  const handleEdit = (video: any) => {
-    setEditingVideo(video.id);
+  const handleEdit = (video: VideoItem) => {
+    setEditingVideo(video.id!);
+    setAudioFile(null);
     setFormData({
       title: video.title,
-      youtube_video_id: video.youtubeVideoId,
+      youtube_video_id: video.youtubeVideoId || "",
       description: video.description || "",
       is_active: video.isActive ?? true,
+      category: video.category || "none",
+      playlist_ids: video.playlistIds || [],
+      is_sermon: video.isSermon ?? false,
+      series_id: video.seriesId || "none",
+      speaker_id: video.speakerId || "none",
+      preached_on: toDateInput(video.preachedOn),
+      scriptures: (video.scriptures || []).join("; "),
+      topics: (video.topics || []).join(", "),
+      audio_url: video.audioUrl || "",
+      audio_path: video.audioPath || "",
+      audio_size: video.audioSize ?? null,
+      audio_type: video.audioType ?? null,
+      audio_duration: video.audioDuration ?? null,
     });
     setIsDialogOpen(true);
   };
@@ -120,145 +333,410 @@ export default function AdminVideos() {
   const handleOpenCreate = () => {
     setEditingVideo(null);
     setFormData(defaultFormData);
+    setAudioFile(null);
     setIsDialogOpen(true);
   };
 
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
   return (
     <div>
       <div className="flex items-center justify-between mb-8">
         <div>
           <h1 className="font-display text-3xl font-bold text-foreground">Videos</h1>
-          <p className="text-muted-foreground">Manage YouTube video gallery</p>
+          <p className="text-muted-foreground">Manage YouTube videos and the teaching library</p>
+          {syncStatus && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Last synced from YouTube{" "}
+              {formatDistanceToNow(
+                syncStatus.syncedAt instanceof Date ? syncStatus.syncedAt : syncStatus.syncedAt.toDate(),
+                { addSuffix: true }
+              )}
+            </p>
+          )}
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={handleOpenCreate} className="gap-2">
-              <Plus className="h-4 w-4" />
-              Add Video
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-lg">
-            <DialogHeader>
-              <DialogTitle>
-                {editingVideo ? "Edit Video" : "Add New Video"}
-              </DialogTitle>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="title">Video Title</Label>
-                <Input
-                  id="title"
-                  value={formData.title}
-                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                  placeholder="Sunday Worship Highlights"
-                  required
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="youtube_video_id">YouTube URL or Video ID</Label>
-                <Input
-                  id="youtube_video_id"
-                  value={formData.youtube_video_id}
-                  onChange={(e) => setFormData({ ...formData, youtube_video_id: e.target.value })}
-                  placeholder="https://www.youtube.com/watch?v=..."
-                  required
-                />
-                <p className="text-xs text-muted-foreground">
-                  Paste the full YouTube URL or just the video ID
-                </p>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="description">Description (optional)</Label>
-                <Input
-                  id="description"
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  placeholder="Brief description of the video"
-                />
-              </div>
-
-              <div className="flex items-center gap-2">
-                <Switch
-                  id="is_active"
-                  checked={formData.is_active}
-                  onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
-                />
-                <Label htmlFor="is_active">Active (visible on website)</Label>
-              </div>
-
-              <div className="flex gap-2 pt-4">
-                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)} className="flex-1">
-                  Cancel
-                </Button>
-                <Button 
-                  type="submit" 
-                  className="flex-1"
-                  disabled={createMutation.isPending || updateMutation.isPending}
-                >
-                  {editingVideo ? "Update" : "Add Video"}
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
-      </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => syncMutation.mutate()}
+            disabled={syncMutation.isPending}
+          >
+            <RefreshCw className={`h-4 w-4 ${syncMutation.isPending ? "animate-spin" : ""}`} />
+            {syncMutation.isPending ? "Syncing..." : "Sync from YouTube"}
+          </Button>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={handleOpenCreate} className="gap-2">
+                <Plus className="h-4 w-4" />
+                Add Video
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingVideo ? "Edit Video" : "Add New Video"}
+                </DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="title">Video Title</Label>
+                  <Input
+                    id="title"
+                    value={formData.title}
+                    onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                    placeholder="Sunday Worship Highlights"
+                    required
+                  />
+                </div>
 
-      {/* Videos Grid */}
-      {isLoading ? (
-        <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
-          {Array.from({ length: 6 }).map((_, i) => (
-            <Card key={i} className="border-0 shadow-md overflow-hidden">
-              <Skeleton className="aspect-video w-full" />
-              <CardContent className="p-4">
-                <Skeleton className="h-5 w-3/4" />
-              </CardContent>
-            </Card>
-          ))}
-        </div>
-      ) : videos && videos.length > 0 ? (
-        <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
-          {videos.map((video) => (
-            <Card key={video.id} className="border-0 shadow-md overflow-hidden group">
-              <div className="relative aspect-video bg-muted">
-                <img
-                  src={`https://img.youtube.com/vi/${video.youtube_video_id}/mqdefault.jpg`}
-                  alt={video.title}
-                  className="w-full h-full object-cover"
-                />
-                {!video.is_active && (
-                  <div className="absolute top-2 left-2 bg-muted text-muted-foreground text-xs px-2 py-1 rounded">
-                    Draft
+                <div className="space-y-2">
+                  <Label htmlFor="youtube_video_id">
+                    YouTube URL or Video ID{formData.is_sermon && " (optional for audio-only teachings)"}
+                  </Label>
+                  <Input
+                    id="youtube_video_id"
+                    value={formData.youtube_video_id}
+                    onChange={(e) => setFormData({ ...formData, youtube_video_id: e.target.value })}
+                    placeholder="https://www.youtube.com/watch?v=..."
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Paste the full YouTube URL or just the video ID
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="description">Description (optional)</Label>
+                  <Textarea
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    placeholder="Brief description of the video"
+                    rows={3}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select
+                    value={formData.category}
+                    onValueChange={(value) => setFormData({ ...formData, category: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="No category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No category</SelectItem>
+                      {VIDEO_CATEGORIES.map((item) => (
+                        <SelectItem key={item.value} value={item.value}>
+                          {item.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {playlists && playlists.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Playlists</Label>
+                    <div className="grid grid-cols-2 gap-2 rounded-lg border p-3">
+                      {playlists.map((playlist) => (
+                        <label key={playlist.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={formData.playlist_ids.includes(playlist.id!)}
+                            onCheckedChange={(checked) =>
+                              setFormData({
+                                ...formData,
+                                playlist_ids: checked
+                                  ? [...formData.playlist_ids, playlist.id!]
+                                  : formData.playlist_ids.filter((id) => id !== playlist.id),
+                              })
+                            }
+                          />
+                          {playlist.title}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="is_sermon"
+                    checked={formData.is_sermon}
+                    onCheckedChange={(checked) => setFormData({ ...formData, is_sermon: checked })}
+                  />
+                  <Label htmlFor="is_sermon">Sermon or teaching (listed on the Teachings page)</Label>
+                </div>
+
+                {formData.is_sermon && (
+                  <div className="space-y-4 rounded-lg border p-3">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>Series</Label>
+                        <Select
+                          value={formData.series_id}
+                          onValueChange={(value) => setFormData({ ...formData, series_id: value })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="No series" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">No series</SelectItem>
+                            {series?.map((item) => (
+                              <SelectItem key={item.id} value={item.id!}>
+                                {item.title}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Speaker</Label>
+                        <Select
+                          value={formData.speaker_id}
+                          onValueChange={(value) => setFormData({ ...formData, speaker_id: value })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="No speaker" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">No speaker</SelectItem>
+                            {speakers?.map((item) => (
+                              <SelectItem key={item.id} value={item.id!}>
+                                {item.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="preached_on">Preached On</Label>
+                      <Input
+                        id="preached_on"
+                        type="date"
+                        value={formData.preached_on}
+                        onChange={(e) => setFormData({ ...formData, preached_on: e.target.value })}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="scriptures">Scripture Passages</Label>
+                      <Input
+                        id="scriptures"
+                        value={formData.scriptures}
+                        onChange={(e) => setFormData({ ...formData, scriptures: e.target.value })}
+                        placeholder="John 3:16-21; Romans 8:28"
+                      />
+                      <p className="text-xs text-muted-foreground">Separate passages with semicolons</p>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="topics">Topics</Label>
+                      <Input
+                        id="topics"
+                        value={formData.topics}
+                        onChange={(e) => setFormData({ ...formData, topics: e.target.value })}
+                        placeholder="Prayer, Faith, Healing"
+                      />
+                      <p className="text-xs text-muted-foreground">Separate topics with commas</p>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="audio">Audio (optional)</Label>
+                      {formData.audio_url && !audioFile && (
+                        <div className="flex items-center gap-2">
+                          <audio controls src={formData.audio_url} className="h-10 flex-1" />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="text-destructive hover:text-destructive"
+                            onClick={() =>
+                              setFormData({
+                                ...formData,
+                                audio_url: "",
+                                audio_path: "",
+                                audio_size: null,
+                                audio_type: null,
+                                audio_duration: null,
+                              })
+                            }
+                            title="Remove audio"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                      <Input
+                        id="audio"
+                        type="file"
+                        accept="audio/*"
+                        onChange={(e) => setAudioFile(e.target.files?.[0] || null)}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        MP3 or M4A, up to {MAX_AUDIO_SIZE_MB}MB. Choosing a file replaces the current audio.
+                      </p>
+                    </div>
                   </div>
                 )}
-                <div className="absolute inset-0 bg-foreground/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
-                  <Button size="icon" variant="secondary" onClick={() => handleEdit(video)}>
-                    <Pencil className="h-4 w-4" />
+
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="is_active"
+                    checked={formData.is_active}
+                    onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+                  />
+                  <Label htmlFor="is_active">Active (visible on website)</Label>
+                </div>
+
+                <div className="flex gap-2 pt-4">
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)} className="flex-1">
+                    Cancel
                   </Button>
-                  <Button 
-                    size="icon" 
-                    variant="destructive" 
-                    onClick={() => deleteMutation.mutate(video.id)}
+                  <Button
+                    type="submit"
+                    className="flex-1"
+                    disabled={isSaving}
                   >
-                    <Trash2 className="h-4 w-4" />
+                    {isSaving && audioFile ? "Uploading..." : editingVideo ? "Update" : "Add Video"}
                   </Button>
                 </div>
-              </div>
-              <CardContent className="p-4">
-                <h3 className="font-semibold text-foreground line-clamp-1">{video.title}</h3>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      <Tabs defaultValue="videos">
+        <TabsList className="mb-6">
+          <TabsTrigger value="videos">Videos</TabsTrigger>
+          <TabsTrigger value="playlists">Playlists</TabsTrigger>
+          <TabsTrigger value="series">Series</TabsTrigger>
+          <TabsTrigger value="speakers">Speakers</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="videos">
+          {removedUpstreamCount > 0 && (
+            <div className="flex items-center gap-2 rounded-lg border border-destructive/50 p-4 mb-6 text-sm text-destructive">
+              <CloudOff className="h-4 w-4 shrink-0" />
+              {removedUpstreamCount} video{removedUpstreamCount !== 1 ? "s are" : " is"} no longer available on
+              YouTube. Delete or replace {removedUpstreamCount !== 1 ? "them" : "it"} so visitors don't see a broken player.
+            </div>
+          )}
+
+          {/* Videos Grid */}
+          {isLoading ? (
+            <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
+              {Array.from({ length: 6 }).map((_, i) => (
+                <Card key={i} className="border-0 shadow-md overflow-hidden">
+                  <Skeleton className="aspect-video w-full" />
+                  <CardContent className="p-4">
+                    <Skeleton className="h-5 w-3/4" />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : videos && videos.length > 0 ? (
+            <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
+              {videos.map((video) => (
+                <Card key={video.id} className="border-0 shadow-md overflow-hidden group">
+                  <div className="relative aspect-video bg-muted">
+                    {video.youtubeVideoId ? (
+                      <img
+                        src={video.thumbnailUrl || `https://img.youtube.com/vi/${video.youtubeVideoId}/mqdefault.jpg`}
+                        alt={video.title}
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center">
+                        <Headphones className="h-12 w-12 text-muted-foreground" />
+                      </div>
+                    )}
+                    <div className="absolute top-2 left-2 flex gap-1">
+                      {!video.isActive && (
+                        <div className="bg-muted text-muted-foreground text-xs px-2 py-1 rounded">
+                          Draft
+                        </div>
+                      )}
+                      {video.removedUpstreamAt && (
+                        <div className="bg-destructive text-destructive-foreground text-xs px-2 py-1 rounded flex items-center gap-1">
+                          <CloudOff className="h-3 w-3" />
+                          Removed on YouTube
+                        </div>
+                      )}
+                      {video.isSermon && (
+                        <div className="bg-primary text-primary-foreground text-xs px-2 py-1 rounded flex items-center gap-1">
+                          <BookOpen className="h-3 w-3" />
+                          Teaching
+                        </div>
+                      )}
+                    </div>
+                    <div className="absolute inset-0 bg-foreground/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
+                      <Button size="icon" variant="secondary" onClick={() => handleEdit(video)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="destructive"
+                        onClick={() => deleteMutation.mutate(video)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <CardContent className="p-4">
+                    <h3 className="font-semibold text-foreground line-clamp-1">{video.title}</h3>
+                    {video.isSermon && (
+                      <p className="text-xs text-muted-foreground line-clamp-1 mt-1">
+                        {[
+                          video.speakerId && speakerNames[video.speakerId],
+                          video.seriesId && seriesTitles[video.seriesId],
+                          video.preachedOn && toDateInput(video.preachedOn),
+                        ]
+                          .filter(Boolean)
+                          .join(" • ")}
+                      </p>
+                    )}
+                    {video.category && (
+                      <Badge variant="outline" className="mt-2 mr-1">
+                        {getVideoCategoryLabel(video.category)}
+                      </Badge>
+                    )}
+                    {video.audioUrl && (
+                      <Badge variant="secondary" className="mt-2 gap-1">
+                        <Headphones className="h-3 w-3" />
+                        Audio
+                      </Badge>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : (
+            <Card className="border-0 shadow-md">
+              <CardContent className="p-12 text-center">
+                <Video className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">No videos yet. Add your first YouTube video!</p>
               </CardContent>
             </Card>
-          ))}
-        </div>
-      ) : (
-        <Card className="border-0 shadow-md">
-          <CardContent className="p-12 text-center">
-            <Video className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-            <p className="text-muted-foreground">No videos yet. Add your first YouTube video!</p>
-          </CardContent>
-        </Card>
-      )}
+          )}
+        </TabsContent>
+
+        <TabsContent value="playlists">
+          <PlaylistManager />
+        </TabsContent>
+
+        <TabsContent value="series">
+          <SeriesManager />
+        </TabsContent>
+
+        <TabsContent value="speakers">
+          <SpeakerManager />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }